@@ -1,386 +1,673 @@
-import type { Message } from './types';
+import type { Message, TokenUsage, PlanStep, PromptTemplateName } from './types';
+import { runToolUses } from './tool-scheduler';
+import { usageFromResponse } from './usage-tracker';
+import { estimateContentTokens, fitMessagesToBudget } from './context-manager';
+import { loadPromptTemplates, renderPrompt, getPromptVersionId } from './prompt-templates';
+import type { PromptVariables } from './prompt-templates';
+import { getProviderAdapter } from './provider-adapters';
+import type { ProviderAdapter } from './provider-adapters';
+import { createSessionRecorder } from './session-recorder';
+import type { SessionRecorder } from './session-recorder';
+import { getBrowserToolSchemas } from './browser-tool-registry';
 
 // NOTE: Screenshot resizing is now done in background.ts before the image is sent here.
 // This ensures the saved screenshot matches what Claude sees.
 
-// Browser tool definitions for Anthropic API
-const BROWSER_TOOLS = [
-  {
-    name: 'navigate',
-    description: 'Navigate to a specific URL',
-    input_schema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The URL to navigate to (must include http:// or https://)',
-        },
-      },
-      required: ['url'],
-    },
-  },
-  {
-    name: 'clickElement',
-    description: 'Click an element using CSS selector or text content. PREFERRED method.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        selector: {
-          type: 'string',
-          description: 'CSS selector for the element',
-        },
-        text: {
-          type: 'string',
-          description: 'Alternative: text content to search for',
-        },
+// Browser tool definitions for Anthropic API (generated from browser-tool-registry.ts)
+const BROWSER_TOOLS = getBrowserToolSchemas();
+
+// Progress tool exposed only while executing an approved plan (handled by the sidepanel, not the page)
+const PLAN_TOOL = {
+  name: 'updatePlanStep',
+  description: 'Report progress on the approved plan. Mark a step in_progress before working on it and done/skipped/failed when finished.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      step: { type: 'number', description: 'Step number from the approved plan (1-based)' },
+      status: {
+        type: 'string',
+        enum: ['in_progress', 'done', 'skipped', 'failed'],
+        description: 'New status for the step',
       },
+      note: { type: 'string', description: 'Optional short note, e.g. why a step was skipped or failed' },
     },
+    required: ['step', 'status'],
   },
-  {
-    name: 'click',
-    description: 'Click at coordinates. Last resort only.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number', description: 'X coordinate' },
-        y: { type: 'number', description: 'Y coordinate' },
-      },
-      required: ['x', 'y'],
-    },
-  },
-  {
-    name: 'type',
-    description: 'Type text into input field. Automatically finds editable elements if no selector provided. Prefers DOM-based targeting over coordinates.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        text: { type: 'string', description: 'Text to type' },
-        selector: { type: 'string', description: 'CSS selector for input (optional - will auto-find editable elements)' },
-      },
-      required: ['text'],
-    },
-  },
-  {
-    name: 'scroll',
-    description: 'Scroll the page',
-    input_schema: {
-      type: 'object',
-      properties: {
-        direction: {
-          type: 'string',
-          enum: ['up', 'down'],
-          description: 'Scroll direction',
-        },
-        amount: { type: 'number', description: 'Pixels to scroll (default: 500)' },
-      },
-      required: ['direction'],
-    },
-  },
-  {
-    name: 'getPageContext',
-    description: 'Get page info. Call first.',
-    input_schema: {
-      type: 'object',
-      properties: {},
-    },
-  },
-  {
-    name: 'screenshot',
-    description: 'Take screenshot. Last resort if DOM fails.',
-    input_schema: {
-      type: 'object',
-      properties: {},
-    },
-  },
-  {
-    name: 'pressKey',
-    description: 'Press key (Enter, Tab, Escape, etc)',
-    input_schema: {
-      type: 'object',
-      properties: {
-        key: {
-          type: 'string',
-          description: 'Key name',
-        },
-      },
-      required: ['key'],
-    },
-  },
-];
+};
 
 /**
- * Check if content contains page context (screenshots or large DOM data)
+ * Render message content as plain text for the summarizer
+ * Tool calls and results are kept short; images are replaced with a marker
  */
-function hasPageContext(content: any): boolean {
-  if (!Array.isArray(content)) return false;
-  return content.some((item: any) => {
-    // Check for images (screenshots) at top level
-    if (item.type === 'image') return true;
-
-    // Check for tool_result blocks
-    if (item.type === 'tool_result') {
-      // Case 1: tool_result.content is an array (e.g., screenshots with [{text}, {image}])
-      if (Array.isArray(item.content)) {
-        // Check if any item in the content array is an image
-        if (item.content.some((c: any) => c.type === 'image')) {
-          return true;
-        }
-      }
-      // Case 2: tool_result.content is a string (e.g., getPageContext JSON)
-      else if (typeof item.content === 'string') {
-        // Page context typically has URLs, textContent, links arrays
-        try {
-          const parsed = JSON.parse(item.content);
-          // If it has url, textContent, or links - it's likely page context
-          if (parsed.url || parsed.textContent || parsed.links || parsed.interactiveElements) {
-            return true;
-          }
-        } catch {
-          // Not JSON, check if it's a large text block
-          return item.content.length > 2000;
-        }
+function renderContentForSummary(content: any): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return JSON.stringify(content ?? '');
+
+  return content.map((item: any) => {
+    switch (item?.type) {
+      case 'text':
+        return item.text || '';
+      case 'image':
+        return '[screenshot]';
+      case 'tool_use':
+        return `[called ${item.name} ${JSON.stringify(item.input ?? {}).substring(0, 200)}]`;
+      case 'tool_result': {
+        const result = typeof item.content === 'string' ? item.content : renderContentForSummary(item.content);
+        return `[tool result: ${result.substring(0, 300)}]`;
       }
+      default:
+        return '';
     }
-    return false;
-  });
+  }).filter(Boolean).join('\n');
 }
 
 /**
- * Create a summarized version of message content that preserves tool_result structure
- * This is critical because Anthropic API requires tool_use/tool_result pairs to remain intact
+ * Ask a fast model for a summary of older conversation history
+ * @param messages - Messages to summarize
+ * @param adapter - Provider adapter of the current run
+ * @param apiKey - Provider API key
+ * @param baseUrl - Provider base URL
+ * @param runModel - Model of the current run (used when the provider has no dedicated summary model)
+ * @param onUsage - Called with the token usage of the summarization request
+ * @param recorder - Records the exchange when fixture recording is enabled
+ * @returns The summary text, or null if summarization failed
  */
-function summarizePageContextPreservingStructure(content: any): any {
-  if (!Array.isArray(content)) return '[Previous action]';
+async function requestConversationSummary(
+  messages: Message[],
+  adapter: ProviderAdapter,
+  apiKey: string,
+  baseUrl: string,
+  runModel: string,
+  onUsage?: (usage: TokenUsage) => void,
+  recorder?: SessionRecorder | null
+): Promise<string | null> {
+  try {
+    const conversationText = messages.map(m =>
+      `${m.role === 'user' ? 'User' : 'Assistant'}: ${renderContentForSummary(m.content)}`
+    ).join('\n\n');
 
-  // Process each item in the content array, preserving structure
-  return content.map((item: any) => {
-    if (item.type === 'image') {
-      // Remove image data but keep a placeholder
-      return {
-        type: 'text',
-        text: '[Screenshot removed to save tokens]'
-      };
-    } else if (item.type === 'tool_result') {
-      // CRITICAL: Preserve the tool_result structure, only summarize the content
-
-      // Case 1: tool_result.content is an array (e.g., screenshots with [{text}, {image}])
-      if (Array.isArray(item.content)) {
-        // Check if this contains images (screenshots)
-        const hasImage = item.content.some((c: any) => c.type === 'image');
-        if (hasImage) {
-          // Strip images, keep text but summarize
-          const textItems = item.content.filter((c: any) => c.type === 'text');
-          const textSummary = textItems.length > 0
-            ? textItems[0].text?.substring(0, 100) + '...'
-            : '';
-          return {
-            ...item,
-            content: `[Screenshot stripped]${textSummary ? ' ' + textSummary : ''}`
-          };
-        }
-        // No images, keep as-is
-        return item;
-      }
+    const summaryPrompt = `Please provide a concise summary of this conversation history. Focus on key actions taken, decisions made, and important context that would be useful for continuing the conversation. Keep it under 300 words.
 
-      // Case 2: tool_result.content is a string (e.g., getPageContext JSON)
-      let summarizedContent = '[Tool result]';
-      try {
-        const parsed = JSON.parse(item.content);
-        if (parsed.url) {
-          // This is page context from getPageContext
-          summarizedContent = `[Page context stripped - URL: ${parsed.url}]`;
-        } else if (parsed.success !== undefined) {
-          // This is a simple action result - keep as-is (it's small)
-          return item;
-        } else {
-          summarizedContent = '[Tool result stripped]';
-        }
-      } catch {
-        // Not JSON, check if it's large
-        if (typeof item.content === 'string' && item.content.length > 500) {
-          summarizedContent = `[Large result stripped - ${item.content.length} chars]`;
-        } else {
-          // Small content, keep as-is
-          return item;
-        }
-      }
+Conversation to summarize:
+${conversationText}`;
+
+    const summaryModel = adapter.summaryModel || runModel;
+    const { url, init } = adapter.buildRequest({
+      model: summaryModel,
+      max_tokens: 500,
+      messages: [
+        {
+          role: 'user',
+          content: summaryPrompt,
+        },
+      ],
+    }, apiKey, baseUrl);
 
-      // Return the tool_result with summarized content
-      return {
-        ...item,
-        content: summarizedContent
-      };
+    let response;
+    try {
+      response = await fetch(url, init);
+    } catch (fetchError) {
+      console.warn('❌ Network error during summarization:', fetchError);
+      return null;
     }
+    recorder?.record('summary', url, init, response);
 
-    // Keep other items as-is
-    return item;
-  });
+    if (!response.ok) {
+      console.warn(`Failed to generate summary (status ${response.status})`);
+      return null;
+    }
+
+    let data;
+    try {
+      data = adapter.parseResponse(await response.json());
+    } catch (parseError) {
+      console.warn('Failed to parse summary response as JSON');
+      return null;
+    }
+
+    if (data.usage) {
+      onUsage?.(usageFromResponse(data.usage, summaryModel));
+    }
+
+    const summary = data.content?.find((c: any) => c.type === 'text')?.text || '';
+    if (!summary) {
+      console.warn('Empty summary received');
+      return null;
+    }
+
+    console.log(`✅ Generated summary (${summary.length} chars)`);
+    return summary;
+  } catch (error) {
+    console.error('Error summarizing messages:', error);
+    return null;
+  }
 }
 
 /**
- * Prepare messages for API by stripping old page context (screenshots, large DOM data)
- * while keeping ALL messages for full conversation context.
- *
- * @param messages - Full message history
- * @param pageContextHistoryLength - Number of page context messages to keep full content (default: 2)
- * @returns Messages with old page context stripped but all messages preserved
+ * Describe the marks of a set-of-marks screenshot so the model can act by mark number instead of measuring pixels
+ * Appended to the coordinate instructions, which are still needed for targets no mark covers
+ * @param marks - Mark-to-element map returned with the screenshot
  */
-function prepareMessagesWithSeparateHistory(
-  messages: Message[],
-  pageContextHistoryLength: number = 2
-): Message[] {
-  console.log(`📚 Preparing messages: stripping old page context, keeping all ${messages.length} messages`);
-  console.log(`   Page context to keep with full content: ${pageContextHistoryLength}`);
-  console.log(`   Input messages: ${messages.length}`);
-
-  // Track which messages have page context
-  const messageInfo = messages.map((msg, index) => ({
-    index,
-    message: msg,
-    hasPageContext: msg.role === 'user' && hasPageContext(msg.content),
-  }));
-
-  // Find all messages with page context
-  const pageContextIndices = messageInfo
-    .filter(info => info.hasPageContext)
-    .map(info => info.index);
-
-  console.log(`   Messages with page context: ${pageContextIndices.length}`);
-
-  // If we have more page context messages than allowed, we need to strip some
-  const pageContextToStrip = pageContextIndices.slice(0, -pageContextHistoryLength);
-  const pageContextToKeep = new Set(pageContextIndices.slice(-pageContextHistoryLength));
-
-  console.log(`   Stripping page context from ${pageContextToStrip.length} messages`);
-  console.log(`   Keeping page context in ${pageContextToKeep.size} messages`);
-
-  // Process messages: strip old page context, keep recent
-  const processedMessages: Message[] = [];
-
-  for (let i = 0; i < messages.length; i++) {
-    const msg = messages[i];
-
-    if (pageContextToStrip.includes(i)) {
-      // This message has page context we want to strip
-      // Summarize content but PRESERVE tool_result structure for API compatibility
-      const summarizedContent = summarizePageContextPreservingStructure(msg.content);
-      processedMessages.push({
-        ...msg,
-        content: summarizedContent,
-      });
-      console.log(`   Stripped message ${i} (preserved tool_result structure)`);
-    } else {
-      // Keep message as-is
-      processedMessages.push(msg);
+function formatScreenshotMarks(marks: Array<{ mark: number; role?: string; name?: string }>): string {
+  const lines = marks.map(({ mark, role, name }) =>
+    `[${mark}] ${role || 'element'}${name ? ` "${name}"` : ''}`
+  );
+  return `🔢 ${marks.length} numbered marks are drawn over the interactive elements.
+Use click({mark: N}) or hover({mark: N}) to act on a marked element - no coordinate conversion needed.
+Marks are valid until the page changes; take a new screenshot after navigation or big updates.
+
+${lines.join('\n')}`;
+}
+
+/**
+ * Parse the planner's reply into plan steps
+ * Accepts {"steps": [...]} JSON and falls back to a numbered/bulleted list
+ */
+function parsePlanSteps(text: string): PlanStep[] {
+  let stepTexts: string[] = [];
+
+  const jsonStart = text.indexOf('{');
+  const jsonEnd = text.lastIndexOf('}');
+  if (jsonStart !== -1 && jsonEnd > jsonStart) {
+    try {
+      const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1));
+      if (Array.isArray(parsed?.steps)) {
+        stepTexts = parsed.steps
+          .map((step: any) => (typeof step === 'string' ? step : step?.text || step?.description || ''))
+          .map((step: string) => step.trim());
+      }
+    } catch (parseError) {
+      console.warn('⚠️ Plan response was not valid JSON, falling back to list parsing');
     }
   }
 
-  // NOTE: We no longer trim chat history here - only page context is stripped
-  // The agent needs full conversation history to maintain context
-  // Message count trimming happens separately via Loop Message History setting
+  if (stepTexts.length === 0) {
+    stepTexts = text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => /^(\d+[.)]|[-*•])\s+/.test(line))
+      .map(line => line.replace(/^(\d+[.)]|[-*•])\s+/, '').trim());
+  }
 
-  console.log(`   Final message count: ${processedMessages.length} (page context stripped, all messages kept)`);
-  return processedMessages;
+  return stepTexts
+    .filter(step => step.length > 0)
+    .map((step, index) => ({
+      id: `step_${Date.now()}_${index}`,
+      text: step,
+      status: 'pending' as const,
+    }));
 }
 
 /**
- * Summarize old messages to reduce token usage while preserving context
- * @param messages - Full message history
- * @param keepRecentCount - Number of recent messages to keep unsummarized
- * @param apiKey - GoCode API key
- * @param baseUrl - API base URL (GoCode endpoint)
- * @returns Messages with old ones summarized
+ * Ask the model for a step-by-step plan without running any tools (plan-then-approve mode)
+ * @param messages - Conversation so far, ending with the user's request
+ * @param apiKey - Provider API key (GoCode key for Anthropic)
+ * @param model - Model to plan with
+ * @param customBaseUrl - Optional provider base URL override
+ * @param currentUrl - Current page URL
+ * @param siteInstructions - Matched site-specific instructions
+ * @param signal - Abort signal
+ * @param onUsage - Called with the token usage of the planning request
+ * @param settings - User settings (provider, prompt template overrides)
+ * @returns Proposed plan steps (all pending)
  */
-async function summarizeOldMessages(
+export async function generateExecutionPlan(
   messages: Message[],
-  keepRecentCount: number,
   apiKey: string,
-  baseUrl: string
-): Promise<Message[]> {
-  // If we don't have enough messages to summarize, return as-is
-  if (messages.length <= keepRecentCount) {
-    return messages;
+  model: string,
+  customBaseUrl: string | undefined,
+  currentUrl?: string,
+  siteInstructions?: string,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void,
+  settings?: any // User settings (provider, prompt template overrides)
+): Promise<PlanStep[]> {
+  const adapter = getProviderAdapter(settings?.provider);
+  if (!adapter) {
+    throw new Error(`Provider ${settings?.provider} is not supported`);
+  }
+  if (adapter.requiresApiKey(customBaseUrl) && (!apiKey || apiKey.trim().length === 0)) {
+    throw new Error(adapter.missingKeyMessage);
   }
 
-  // Split messages into "to summarize" and "keep recent"
-  const messagesToSummarize = messages.slice(0, -keepRecentCount);
-  const recentMessages = messages.slice(-keepRecentCount);
+  const baseUrl = customBaseUrl || adapter.defaultBaseUrl;
+  const toolNames = BROWSER_TOOLS.map(tool => tool.name).join(', ');
 
-  console.log(`🤖 Summarizing ${messagesToSummarize.length} old messages, keeping ${recentMessages.length} recent`);
+  const promptTemplates = await loadPromptTemplates(settings);
+  const systemPrompt = renderPrompt(promptTemplates, 'plan-generator', {
+    tools: toolNames,
+    url: currentUrl || '',
+    siteInstructions: siteInstructions || '',
+  });
+  console.log(`📝 Prompt version: ${getPromptVersionId(promptTemplates, ['plan-generator'])}`);
+
+  const { url, init: fetchOptions } = adapter.buildRequest({
+    model,
+    max_tokens: 1024,
+    system: [{ type: 'text', text: systemPrompt }],
+    messages: messages
+      .filter(m => typeof m.content === 'string' && m.content.trim().length > 0)
+      .map(m => ({ role: m.role, content: m.content })),
+  }, apiKey, baseUrl);
+  if (signal && signal instanceof AbortSignal) {
+    fetchOptions.signal = signal;
+  }
 
+  console.log('📋 Requesting execution plan...');
+  let response;
   try {
-    // Create a prompt to summarize the old messages
-    const conversationText = messagesToSummarize.map(m =>
-      `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`
-    ).join('\n\n');
-
-    const summaryPrompt = `Please provide a concise summary of this conversation history. Focus on key actions taken, decisions made, and important context that would be useful for continuing the conversation. Keep it under 300 words.
-
-Conversation to summarize:
-${conversationText}`;
+    response = await fetchWithRetry(url, fetchOptions, 120000, signal);
+  } catch (fetchError: any) {
+    if (fetchError.name === 'AbortError' || signal?.aborted) {
+      throw fetchError;
+    }
+    console.error('❌ Request Error while planning:', fetchError);
+    throw describeRequestFailure(fetchError, adapter, baseUrl);
+  }
 
-    // Call Claude API to get summary
-    let response;
+  if (!response.ok) {
+    let errorMsg = `API Error (${response.status} ${response.statusText})`;
     try {
-      response = await fetch(`${baseUrl}/v1/messages`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: 'claude-3-5-haiku-20241022', // Use fast, cheap model for summarization
-          max_tokens: 500,
-          messages: [
-            {
-              role: 'user',
-              content: summaryPrompt,
-            },
-          ],
-        }),
-      });
-    } catch (fetchError) {
-      console.warn('❌ Network error during summarization, keeping original messages:', fetchError);
-      return messages; // Return original on network error
+      const error = await response.json();
+      errorMsg = error.error?.message || errorMsg;
+    } catch (parseError) {
+      // Keep the status-based message
+    }
+    if (errorMsg.includes('too long')) {
+      throw new Error('Context limit exceeded. Please start a new chat to continue.');
     }
+    throw new Error(errorMsg);
+  }
 
-    if (!response.ok) {
-      console.warn('Failed to generate summary, keeping original messages');
-      return messages;
+  const data = adapter.parseResponse(await response.json());
+  if (data.usage) {
+    onUsage?.(usageFromResponse(data.usage, model));
+  }
+
+  const text = (data.content || [])
+    .filter((c: any) => c.type === 'text')
+    .map((c: any) => c.text)
+    .join('\n');
+  const steps = parsePlanSteps(text);
+  console.log(`📋 Plan generated with ${steps.length} step(s)`);
+
+  if (steps.length === 0) {
+    throw new Error('Could not generate a plan for this request. Try rephrasing it or turn off plan mode.');
+  }
+  return steps;
+}
+
+/**
+ * Remove tool-call markup and fake "[Executing: ...]" lines from model text
+ * @param text - Raw assistant text
+ * @param browserToolsEnabled - When false, navigation/screenshot claims are removed too
+ * @returns Filtered text safe to show in the chat
+ */
+function filterAssistantText(text: string, browserToolsEnabled: boolean): string {
+  // Remove XML function call syntax patterns
+  let filteredText = text
+    .replace(/<function_calls>[\s\S]*?<\/function_calls>/gi, '')
+    .replace(/<invoke\s+name="[^"]*">[\s\S]*?<\/invoke>/gi, '')
+    .replace(/<parameter\s+name="[^"]*">[^<]*<\/parameter>/gi, '')
+    .replace(/<tool_call>[\s\S]*?<\/tool_call>/gi, '')
+    .replace(/<function>[\s\S]*?<\/function>/gi, '');
+
+  // ALWAYS remove any "[Executing: ...]" text that the AI might generate - this is fake tool execution
+  filteredText = filteredText.replace(/\[Executing:\s*[^\]]+\]/gi, '');
+
+  // When browser tools are disabled, also remove navigation claims
+  if (!browserToolsEnabled) {
+    filteredText = filteredText.replace(/I'll navigate to[^.]*\./gi, '');
+    filteredText = filteredText.replace(/I've successfully navigated to[^.]*\./gi, '');
+    filteredText = filteredText.replace(/Let me take a screenshot[^.]*\./gi, '');
+    filteredText = filteredText.replace(/Let me verify[^.]*\./gi, '');
+  }
+
+  return filteredText;
+}
+
+/**
+ * Find where streamed text stops being safe to show. Anything after this index
+ * could still turn into a pattern removed by filterAssistantText once more deltas arrive.
+ * @param text - Already-filtered text that has not been emitted yet
+ * @param browserToolsEnabled - When false, only complete sentences/lines are released
+ * @returns Index up to which the text can be emitted
+ */
+function findStreamHoldbackIndex(text: string, browserToolsEnabled: boolean): number {
+  let cut = text.length;
+
+  // An opening tool-call tag that survived filtering is still waiting for its closing tag
+  const openTag = text.search(/<(function_calls|invoke|parameter|tool_call|function)\b/i);
+  if (openTag !== -1) {
+    cut = Math.min(cut, openTag);
+  }
+
+  // Unterminated "<..." or "[..." may become a tag or an "[Executing: ...]" line
+  const lastLt = text.lastIndexOf('<');
+  if (lastLt > text.lastIndexOf('>')) {
+    cut = Math.min(cut, lastLt);
+  }
+  const lastBracket = text.lastIndexOf('[');
+  if (lastBracket > text.lastIndexOf(']')) {
+    cut = Math.min(cut, lastBracket);
+  }
+
+  // Navigation claims end with a period, so hold the unfinished sentence
+  if (!browserToolsEnabled) {
+    const boundary = Math.max(text.lastIndexOf('.'), text.lastIndexOf('\n')) + 1;
+    cut = Math.min(cut, boundary);
+  }
+
+  return cut;
+}
+
+/**
+ * Incremental version of filterAssistantText for streamed text blocks
+ * @param browserToolsEnabled - Whether browser tools are enabled
+ * @returns push() for each text delta and flush() at the end of the block; both return text to emit
+ */
+function createStreamingTextFilter(browserToolsEnabled: boolean) {
+  let pending = '';
+  let hasEmitted = false;
+
+  return {
+    push(delta: string): string {
+      const filtered = filterAssistantText(pending + delta, browserToolsEnabled);
+      const cut = findStreamHoldbackIndex(filtered, browserToolsEnabled);
+      const ready = filtered.slice(0, cut);
+
+      // Don't start a message with whitespace only - wait for real content
+      if (!hasEmitted && ready.trim().length === 0) {
+        pending = filtered;
+        return '';
+      }
+
+      pending = filtered.slice(cut);
+      hasEmitted = hasEmitted || ready.length > 0;
+      return ready;
+    },
+    flush(): string {
+      const rest = filterAssistantText(pending, browserToolsEnabled);
+      pending = '';
+      if (!hasEmitted && rest.trim().length === 0) {
+        return '';
+      }
+      hasEmitted = true;
+      return rest;
+    },
+  };
+}
+
+/**
+ * Read a server-sent events response from /v1/messages and rebuild the final message.
+ * Text deltas are forwarded as they arrive and tool_use input is assembled from partial JSON.
+ * @param response - Successful fetch response with an event-stream body
+ * @param onTextDelta - Called with each raw text delta
+ * @param onTextBlockStop - Called when a text content block is finished
+ * @param signal - Abort signal for the run
+ * @param idleTimeoutMs - Max time to wait for the next chunk before giving up
+ * @returns Message in the same shape as a non-streaming response
+ */
+export async function readMessageStream(
+  response: Response,
+  onTextDelta: (text: string) => void,
+  onTextBlockStop: () => void,
+  signal?: AbortSignal,
+  idleTimeoutMs: number = 180000
+): Promise<any> {
+  if (!response.body) {
+    throw new Error('API returned an empty stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let message: any = { content: [] };
+  const content: any[] = [];
+  const partialJson: Record<number, string> = {};
+
+  const handleEvent = (event: any) => {
+    switch (event.type) {
+      case 'message_start':
+        message = { ...event.message };
+        break;
+      case 'content_block_start':
+        content[event.index] = { ...event.content_block };
+        if (event.content_block?.type === 'tool_use') {
+          partialJson[event.index] = '';
+        }
+        break;
+      case 'content_block_delta': {
+        const block = content[event.index];
+        if (!block) break;
+        if (event.delta?.type === 'text_delta') {
+          block.text = (block.text || '') + event.delta.text;
+          onTextDelta(event.delta.text);
+        } else if (event.delta?.type === 'input_json_delta') {
+          partialJson[event.index] = (partialJson[event.index] || '') + (event.delta.partial_json || '');
+        }
+        break;
+      }
+      case 'content_block_stop': {
+        const block = content[event.index];
+        if (!block) break;
+        if (block.type === 'tool_use') {
+          const json = partialJson[event.index];
+          if (json) {
+            try {
+              block.input = JSON.parse(json);
+            } catch (parseError) {
+              console.warn(`⚠️ Could not parse streamed input for tool ${block.name}:`, json.substring(0, 200));
+              block.input = {};
+            }
+          } else {
+            block.input = block.input || {};
+          }
+        } else if (block.type === 'text') {
+          onTextBlockStop();
+        }
+        break;
+      }
+      case 'message_delta':
+        message.stop_reason = event.delta?.stop_reason ?? message.stop_reason;
+        message.stop_sequence = event.delta?.stop_sequence ?? message.stop_sequence;
+        if (event.usage) {
+          message.usage = { ...(message.usage || {}), ...event.usage };
+        }
+        break;
+      case 'error':
+        // The type (e.g. overloaded_error) tells the loop whether the turn is worth retrying
+        throw Object.assign(new Error(event.error?.message || 'GoCode API stream error'), { errorType: event.error?.type });
+      default:
+        // ping, message_stop and unknown events carry nothing we need
+        break;
     }
+  };
 
-    let data;
+  const handleRawEvent = (rawEvent: string) => {
+    const dataLines = rawEvent
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart());
+    if (dataLines.length === 0) return;
+
+    const payload = dataLines.join('\n');
+    if (!payload || payload === '[DONE]') return;
+
+    let event;
     try {
-      data = await response.json();
+      event = JSON.parse(payload);
     } catch (parseError) {
-      console.warn('Failed to parse summary response as JSON, keeping original messages');
-      return messages;
+      console.warn('⚠️ Skipping malformed stream event:', payload.substring(0, 200));
+      return;
     }
+    handleEvent(event);
+  };
 
-    const summary = data.content?.[0]?.text || '';
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw new DOMException('Stream aborted', 'AbortError');
+      }
 
-    if (!summary) {
-      console.warn('Empty summary received, keeping original messages');
-      return messages;
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(
+          () => reject(new Error(`API stream stalled for ${Math.round(idleTimeoutMs / 1000)} seconds`)),
+          idleTimeoutMs
+        );
+      });
+
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await Promise.race([reader.read(), timeoutPromise]);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      if (result.done) {
+        buffer += decoder.decode();
+        break;
+      }
+
+      buffer += decoder.decode(result.value, { stream: true });
+
+      // Events are separated by a blank line
+      let separator = buffer.search(/\r?\n\r?\n/);
+      while (separator !== -1) {
+        const rawEvent = buffer.slice(0, separator);
+        buffer = buffer.slice(separator).replace(/^\r?\n\r?\n/, '');
+        handleRawEvent(rawEvent);
+        separator = buffer.search(/\r?\n\r?\n/);
+      }
     }
 
-    console.log(`✅ Generated summary (${summary.length} chars)`);
+    if (buffer.trim().length > 0) {
+      handleRawEvent(buffer);
+    }
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    throw error;
+  }
 
-    // Create a summary message
-    const summaryMessage: Message = {
-      id: `summary_${Date.now()}`,
-      role: 'assistant',
-      content: `[Previous conversation summary]\n\n${summary}\n\n[End of summary - conversation continues below]`,
+  return { ...message, content: content.filter(Boolean) };
+}
+
+// Rate limited (429), internal error (500), unavailable (503) and overloaded (529) are worth retrying
+const RETRYABLE_STATUSES = new Set([429, 500, 503, 529]);
+// The same conditions when they arrive as an SSE `error` event after a 200
+const RETRYABLE_STREAM_ERRORS = new Set(['rate_limit_error', 'api_error', 'overloaded_error']);
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+/**
+ * Wait for a delay, rejecting early with an AbortError if the run is cancelled
+ */
+function sleepWithAbort(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
     };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Work out how long to wait before the next attempt
+ * Honors `retry-after` (seconds or HTTP date), otherwise exponential backoff with jitter
+ * @param response - Failed response, or null for a stream error event (no headers to honor)
+ * @param attempt - Zero-based number of the attempt that failed
+ */
+function getRetryDelayMs(response: Response | null, attempt: number): number {
+  const retryAfter = response?.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delayMs = Number.isFinite(seconds)
+      ? seconds * 1000
+      : new Date(retryAfter).getTime() - Date.now();
+    if (Number.isFinite(delayMs) && delayMs >= 0) {
+      return Math.min(delayMs, RETRY_MAX_DELAY_MS * 2);
+    }
+  }
 
-    // Return summary + recent messages
-    return [summaryMessage, ...recentMessages];
+  const exponential = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
 
-  } catch (error) {
-    console.error('Error summarizing messages:', error);
-    return messages; // Return original on error
+/**
+ * POST to GoCode, retrying 429/500/503/529 responses with backoff
+ * Network failures (TypeError from fetch), timeouts and aborts are thrown as-is so the caller can tell them apart
+ * @param url - Request URL
+ * @param fetchOptions - Fetch options (including the abort signal)
+ * @param timeoutMs - Max time to wait for each attempt to start responding
+ * @param signal - Abort signal for the run
+ * @returns The first non-retryable response, or the last response once retries are used up
+ */
+async function fetchWithRetry(
+  url: string,
+  fetchOptions: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new Error(`API request timed out after ${Math.round(timeoutMs / 60000)} minutes`)),
+        timeoutMs
+      );
+    });
+
+    let response: Response;
+    try {
+      response = await Promise.race([fetch(url, fetchOptions), timeoutPromise]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!RETRYABLE_STATUSES.has(response.status) || attempt >= MAX_RETRIES) {
+      return response;
+    }
+
+    const delayMs = getRetryDelayMs(response, attempt);
+    console.warn(`⏳ GoCode returned ${response.status} - retrying in ${delayMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+    // Drain the body so the connection can be reused
+    await response.text().catch(() => '');
+    await sleepWithAbort(delayMs, signal);
+  }
+}
+
+/**
+ * Build the user-facing error for a request that never got a response
+ */
+function describeRequestFailure(error: any, adapter: ProviderAdapter, baseUrl: string): Error {
+  // fetch() rejects with a TypeError only when the endpoint is unreachable
+  if (error instanceof TypeError && adapter.provider !== 'anthropic') {
+    return new Error(
+      `🔌 Cannot reach ${adapter.label} at ${baseUrl}.\n\n` +
+      'Check the base URL in Settings and, for a local model, that the server is running and allows requests from the extension.'
+    );
   }
+  if (error instanceof TypeError) {
+    return new Error(
+      '🔌 Cannot reach GoCode API endpoint.\n\n' +
+      'This usually means:\n' +
+      '• You are not connected to GoDaddy VPN\n' +
+      '• The GoCode service is temporarily unavailable\n\n' +
+      'Please connect to VPN and try again.'
+    );
+  }
+  return new Error(error?.message || `${adapter.label} request failed`);
 }
 
 export async function streamAnthropicWithBrowserTools(
@@ -398,56 +685,49 @@ export async function streamAnthropicWithBrowserTools(
   siteProfile?: string, // Matched site profile for AI context
   settings?: any, // User settings for conversation history and summarization
   onToolStart?: (toolName: string, isMcpTool: boolean) => void, // Callback when tool execution starts
-  browserToolsEnabled: boolean = true // Whether browser tools are enabled
+  browserToolsEnabled: boolean = true, // Whether browser tools are enabled
+  onUsage?: (usage: TokenUsage) => void, // Called with token usage after every API request
+  onBudgetCheck?: () => Promise<boolean>, // Called before each API request; return false to stop the run
+  plan?: PlanStep[], // Approved plan to execute (plan-then-approve mode)
+  allowedBrowserTools?: string[] // Offer only these browser tools (scheduled tasks); all when unset, none when empty
 ): Promise<void> {
-  // Validate API key before making request
-  if (!apiKey || apiKey.trim().length === 0) {
-    throw new Error('GoCode Key is not configured. Please add your GoCode Key in Settings (⚙️ icon).');
+  // The loop speaks Anthropic's message format; other providers are translated by their adapter
+  const adapter = getProviderAdapter(settings?.provider);
+  if (!adapter) {
+    throw new Error(`Provider ${settings?.provider} is not supported`);
   }
 
-  // Always use GoCode endpoint - no direct Anthropic API access
-  const baseUrl = customBaseUrl || 'https://caas-gocode-prod.caas-prod.prod.onkatana.net';
+  // Validate API key before making request (local OpenAI-compatible servers don't need one)
+  if (adapter.requiresApiKey(customBaseUrl) && (!apiKey || apiKey.trim().length === 0)) {
+    throw new Error(adapter.missingKeyMessage);
+  }
 
-  // Page context stripping: compress old DOM/screenshot data while keeping all messages
+  // Anthropic always goes through the GoCode endpoint - no direct Anthropic API access
+  const baseUrl = customBaseUrl || adapter.defaultBaseUrl;
+
+  // Context budget: old screenshots/page contexts are compressed (and old messages summarized)
+  // only when the conversation doesn't fit the context window
+  const CONTEXT_WINDOW_TOKENS = settings?.contextWindowTokens || 150000; // Default: 150k tokens
   const PAGE_CONTEXT_HISTORY_LENGTH = settings?.pageContextHistoryLength || 2; // Default: 2 page contexts
   const ENABLE_PAGE_CONTEXT_STRIPPING = settings?.enableSeparateHistoryManagement !== false; // Default: true
+  const ENABLE_SUMMARIZATION = settings?.enableSmartSummarization !== false; // Default: true
 
   console.log(`🚀 streamAnthropicWithBrowserTools called with ${messages.length} messages`);
   console.log(`🚀 Browser tools enabled: ${browserToolsEnabled}`);
   console.log(`🚀 Additional tools count: ${additionalTools?.length || 0}`);
-  console.log(`🚀 Page context stripping enabled: ${ENABLE_PAGE_CONTEXT_STRIPPING}`);
-
-  // Keep ALL messages but strip large page context from old ones
-  let conversationMessages: Message[] = [];
-  if (ENABLE_PAGE_CONTEXT_STRIPPING) {
-    console.log(`📚 Stripping old page context, keeping last ${PAGE_CONTEXT_HISTORY_LENGTH} with full content`);
-    conversationMessages = prepareMessagesWithSeparateHistory(
-      messages,
-      PAGE_CONTEXT_HISTORY_LENGTH
-    );
-  } else {
-    // No stripping - keep all messages with full content
-    console.log(`📚 Page context stripping disabled - keeping all messages with full content`);
-    conversationMessages = [...messages];
-  }
+  console.log(`🚀 Context window: ${CONTEXT_WINDOW_TOKENS} tokens (page context stripping: ${ENABLE_PAGE_CONTEXT_STRIPPING}, summarization: ${ENABLE_SUMMARIZATION})`);
 
-  // Smart summarization: If enabled and we have many messages, summarize old ones
-  if (settings?.enableSmartSummarization !== false && conversationMessages.length > 8) {
-    console.log('🤖 Smart summarization enabled, checking if summarization needed...');
-    const keepRecentCount = Math.ceil(conversationMessages.length * 0.5); // Keep 50% most recent
-    conversationMessages = await summarizeOldMessages(
-      conversationMessages,
-      keepRecentCount,
-      apiKey,
-      baseUrl
-    );
-  }
+  // Full history for this run - reductions are applied to a copy before each request
+  const conversationMessages: Message[] = [...messages];
 
   let fullResponseText = '';
 
   // Merge browser tools with additional tools (MCP)
   // Only include browser tools if they're enabled
-  const browserToolsToInclude = browserToolsEnabled ? BROWSER_TOOLS : [];
+  const allowedToolSet = allowedBrowserTools ? new Set(allowedBrowserTools) : null;
+  const browserToolsToInclude = !browserToolsEnabled
+    ? []
+    : allowedToolSet ? BROWSER_TOOLS.filter(tool => allowedToolSet.has(tool.name)) : BROWSER_TOOLS;
   console.log('🔧 Browser tools enabled:', browserToolsEnabled);
   console.log('🔧 Browser tools count:', browserToolsToInclude.length);
   console.log('🔧 Additional tools (MCP/A2A) count:', additionalTools?.length || 0);
@@ -468,17 +748,44 @@ export async function streamAnthropicWithBrowserTools(
     .map((tool: any) => `  - ${tool.name}: ${tool.description || 'No description available'}`)
     .join('\n') : '';
 
+  const planTools = plan && plan.length > 0 ? [PLAN_TOOL] : [];
   const allTools = hasAdditionalTools
-    ? [...additionalTools, ...browserToolsToInclude] // Surface MCP/A2A tools first
-    : browserToolsToInclude;
+    ? [...additionalTools, ...browserToolsToInclude, ...planTools] // Surface MCP/A2A tools first
+    : [...browserToolsToInclude, ...planTools];
+
+  // Cache breakpoint on the last tool covers every tool definition; the list is fixed for the whole run
+  const cachedTools = allTools.map((tool: any, index: number) =>
+    index === allTools.length - 1 ? { ...tool, cache_control: { type: 'ephemeral' } } : tool
+  );
 
   console.log('🔧 Total merged tools:', allTools.length);
   console.log('🔧 All tool names:', allTools.map((t: any) => t.name).join(', '));
   console.log('🔧 Starting with', conversationMessages.length, 'messages (limited from', messages.length, ')');
 
+  // System prompt templates (built-in, admin and user overrides) are resolved once per run
+  const promptTemplates = await loadPromptTemplates(settings);
+  const mainPromptTemplate = browserToolsEnabled ? 'browser-enabled' : 'browser-disabled';
+  const promptVariables: PromptVariables = {
+    tools: allTools.map((t: any) => t.name).join(', '),
+    mcpTools: mcpToolsList || '  (No MCP tools available)',
+    siteProfile: siteProfile || '',
+    siteInstructions: siteInstructions || '',
+    url: currentUrl || '',
+    plan: (plan || []).map((step, index) => `${index + 1}. ${step.text}`).join('\n'),
+  };
+  const usedTemplates: PromptTemplateName[] = [mainPromptTemplate];
+  if (hasAdditionalTools) usedTemplates.push('mcp-priority');
+  if (siteProfile) usedTemplates.push('site-profile');
+  if (siteInstructions) usedTemplates.push('site-instructions');
+  if (plan && plan.length > 0) usedTemplates.push('approved-plan');
+  console.log(`📝 Prompt version: ${getPromptVersionId(promptTemplates, usedTemplates)}`);
+
   const MAX_TURNS = 50; // Prevent infinite loops
   let turnCount = 0;
+  // Developer option: save this run's model exchanges as a replay fixture (see session-recorder.ts)
+  const recorder = settings?.recordFixtures ? createSessionRecorder(adapter.provider, model) : null;
   let wasAborted = false; // Flag to track if execution was aborted
+  let streamRetries = 0; // Retries of the current turn after a retryable stream error event
 
   try {
     while (turnCount < MAX_TURNS && !wasAborted) {
@@ -498,74 +805,11 @@ export async function streamAnthropicWithBrowserTools(
     }
     console.log('📤 Sending request with tools:', allTools.map((t: any) => t.name));
 
-    const mcpPrioritySection = hasAdditionalTools ? `
-🔴 CRITICAL - MCP / TRUSTED AGENT TOOLS AVAILABLE:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-You have specialized MCP tools available. READ EACH TOOL'S DESCRIPTION to understand what it does.
-
-AVAILABLE MCP TOOLS:
-${mcpToolsList || '  (No MCP tools available)'}
-
-HOW TO CHOOSE THE RIGHT TOOL:
-1. Read the user's request to understand their INTENT
-2. Review ALL available tool descriptions (both MCP and browser tools)
-3. Match the user's intent to the tool that BEST fits the task:
-   - Check MCP tool descriptions first - do any match the task?
-   - If yes → Use that MCP tool DIRECTLY (do NOT use browser tools first)
-   - If no → Use browser tools (navigate, click, type, screenshot, etc.)
-
-🚨 CRITICAL RULE: When an MCP tool matches the task, use it DIRECTLY:
-   - DO NOT navigate to the website first
-   - DO NOT take screenshots first
-   - DO NOT use any browser tools
-   - Just call the MCP tool with the parameters it needs (e.g., URL, site name, etc.)
-   - MCP tools can work with URLs/parameters directly - they don't need browser automation
-
-TOOL SELECTION GUIDELINES:
-- Navigation requests ("go to", "navigate to", "open", "visit") → ALWAYS use browser navigate tool
-- Web interaction ("click", "type", "scroll", "screenshot") → ALWAYS use browser tools
-- Specialized tasks → Check MCP tool descriptions - if one matches, use it DIRECTLY (no browser tools)
-- If unsure → Read the tool description - it tells you what the tool does
-
-EXAMPLES:
-✅ CORRECT:
-- "Go to Amazon" → browser navigate tool (navigation is always browser tool)
-- "Click the button" → browser click tool (interaction is always browser tool)
-- "Create a rap version of GoDaddy.com" → Use MCP generate_song tool DIRECTLY with URL (do NOT navigate first)
-- "Generate a song about Amazon" → Use MCP generate_song tool DIRECTLY (do NOT navigate first)
-- "Search for domains" → Use MCP domain_search tool DIRECTLY (if available, do NOT navigate first)
-
-❌ WRONG:
-- "Create a rap version of GoDaddy.com" → navigate + screenshot + generate_song (WRONG - just use generate_song)
-- "Generate a song about Amazon" → navigate + screenshot + generate_song (WRONG - just use generate_song)
-
-IMPORTANT:
-- MCP tools are specialized - they only handle specific tasks described in their tool descriptions
-- When an MCP tool matches the task, use it DIRECTLY - no browser automation needed
-- Browser tools handle navigation, clicking, typing, scrolling, screenshots - use these only when MCP tools don't match
-- READ TOOL DESCRIPTIONS - they tell you exactly what each tool does and what parameters it needs
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-` : '';
-
-    const siteProfileSection = siteProfile ? `
-🌐 SITE CONTEXT:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-Current URL: ${currentUrl}
-
-${siteProfile}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-` : '';
-
-    const siteInstructionsSection = siteInstructions ? `
-📍 SITE-SPECIFIC INSTRUCTIONS:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-Current URL: ${currentUrl}
-
-Follow these site-specific instructions when interacting with this site:
-
-${siteInstructions}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-` : '';
+    const mcpPrioritySection = hasAdditionalTools ? renderPrompt(promptTemplates, 'mcp-priority', promptVariables) : '';
+
+    // Site sections only depend on the matched site (not the exact URL) so they stay cacheable across pages
+    const siteProfileSection = siteProfile ? renderPrompt(promptTemplates, 'site-profile', promptVariables) : '';
+    const siteInstructionsSection = siteInstructions ? renderPrompt(promptTemplates, 'site-instructions', promptVariables) : '';
 
     // Filter out messages with empty content (API requirement)
     const validMessages = conversationMessages.filter(m => {
@@ -593,346 +837,60 @@ ${siteInstructions}
     })));
 
     // Build the system prompt based on whether browser tools are enabled
-    const systemPrompt = browserToolsEnabled
-      ? `🚨🚨🚨 CRITICAL: YOU CANNOT PUT [Executing: toolName] IN YOUR TEXT RESPONSES 🚨🚨🚨
-
-🚫 ABSOLUTELY FORBIDDEN - NEVER DO THIS IN TEXT RESPONSES:
-❌ "I'll add content. [Executing: type] ✅ Success!"
-❌ "Let me click this. [Executing: clickElement] ✅ Clicked!"
-❌ Any text containing "[Executing: toolName]" - this is FAKE tool execution
-❌ Any success claims without actual tool calls and tool results
-
-🔥 CRITICAL UNDERSTANDING:
-- [Executing: toolName] text is FAKE - you are not actually executing tools
-- Only real tool calls (via the tools system) execute actions
-- Text containing "[Executing: ...]" is just text - it does nothing
-- Success claims after fake "[Executing: ...]" text are LIES
-
-✅ CORRECT BEHAVIOR:
-1. Use actual tool calls (not text that says "[Executing: ...]")
-2. Wait for real tool results
-3. Only claim success after seeing tool result with success: true
-
-VIOLATION EXAMPLES - THESE ARE FORBIDDEN:
-❌ WRONG PATTERN (DO NOT DO THIS):
-   Text: "I'll add content. [Executing: type] ✅ Successfully added!"
-   Result: NO ACTUAL TOOL EXECUTION - this is fake
-
-✅ CORRECT PATTERN (ALWAYS DO THIS):
-   Text: "I'll add content."
-   Tool call: type tool (actual execution)
-   Tool result: {success: true}
-   Text: "✅ Content added successfully!"
-
-🚨 ABSOLUTE RULES - NO EXCEPTIONS:
-1. NEVER write "[Executing: toolName]" in your text responses
-2. NEVER claim success without actual tool calls and tool results
-3. Use only real tool calls via the tools system
-4. Wait for actual tool results before claiming success
-5. If you write "[Executing: ...]" in text, you are FAKING tool execution
-
-ENFORCEMENT MECHANISMS:
-- Text containing "[Executing: ...]" indicates you're faking tool execution
-- Users report when you claim success but no action occurred
-- System detects when you claim success without tool execution
-- These violations show you're not using the tools system correctly
-
-You are a helpful AI assistant with browser automation and MCP tool capabilities.
-
-Follow the PEVI loop with ABSOLUTE VERIFICATION ENFORCEMENT:
-
-1. PLAN — Understand the user's goal. Decide whether the task needs:
-   - Browser automation (navigate, click, type, scroll, screenshot, getPageContext)
-   - OR an MCP tool (use directly if its description matches the user's intent)
-
-2. EXECUTE — Perform ONE action at a time using the correct tool.
-   - Execute the tool and STOP - no text output yet
-   - Wait for the actual tool result JSON
-
-3. VERIFY — MANDATORY AFTER EVERY ACTION:
-   🚨 WAIT FOR TOOL RESULT JSON BEFORE ANY TEXT OUTPUT 🚨
-   - FIRST: Check tool results for {success: false}, {error}, {timeout}
-   - IF success: false → IMMEDIATELY report "❌ Tool failed: [error message]" and STOP
-   - IF error exists → IMMEDIATELY report "❌ Error: [error message]" and STOP
-   - IF timeout: true → IMMEDIATELY report "❌ Tool timed out" and STOP
-   - ONLY if tool result shows success: true → use getPageContext to confirm page state
-   - Take screenshot ONLY if getPageContext is insufficient to verify success
-   - 🚨 FORBIDDEN: Never say "✅ Successfully..." without seeing {success: true} in tool result
-   - 🚨 FORBIDDEN: Do not claim success unless tool result shows success: true AND getPageContext confirms it worked
-   - 🚨 FORBIDDEN: No explanatory text between tool execution and tool result verification
-
-4. ITERATE — If verification fails:
-   - Adjust plan: try an alternate selector, query, or path
-   - Do not repeat the same failing action more than twice
-   - If multiple attempts fail, stop and explain what happened
-
-INSTRUCTION PRIORITY:
-1. If an MCP tool matches the user request → use it *directly* (no navigation or screenshots)
-
-BROWSER AUTOMATION RULES:
-- Always begin with getPageContext to understand the page
-- Minimize taking screenshots unless strictly necessary, and prefer getPageContext to understand the page before acting.
-- Prefer clickElement(text/selector) over coordinate clicks
-- Use coordinate clicks ONLY after measuring in screenshot and applying scale factors
-- Navigation: verify via getPageContext; use screenshot only if getPageContext doesn't confirm successful navigation
-- Type: focus field if needed; Enter auto-submits for search bars
-- Scroll before clicking if element not visible
-
-SCREENSHOT USAGE RULES:
-- Take screenshots ONLY when:
-  • getPageContext doesn't contain enough information for the specific task
-  • You need to measure coordinates for complex layouts
-  • Visual confirmation is required for verification after multiple failed attempts
-- DO NOT take screenshots for simple tasks like:
-  • Clicking buttons/links when text is available in getPageContext (e.g., "Edit", "Save", "Submit")
-  • Typing in form fields when selectors are available in getPageContext
-  • Adding text content (e.g., "add a subtitle") when editing interfaces are accessible
-  • Basic navigation when page content is clear from getPageContext
-
-EXAMPLE - Adding a subtitle to a page (SUCCESS):
-1. Use getPageContext to find "Edit" button text
-2. clickElement({text: "Edit"}) - Check result: {success: true}
-3. type({text: "subtitle content"}) - Auto-finds editable element, no coordinates needed - Check result: {success: true}
-4. Use getPageContext to verify content was added
-
-PREFERRED TYPING APPROACH:
-- Use type({text: "content"}) WITHOUT coordinates - it will auto-find editable elements
-- The type tool automatically searches for Confluence editors, contenteditable elements, and input fields
-- When adding content "under" or "below" a subtitle, the type tool will append content (not replace)
-- The system prioritizes main content areas over heading elements to avoid replacing titles
-- Only use clickElement + coordinates if type tool fails to find editable elements
-
-CONTENT INSERTION BEHAVIOR:
-- When you use type() after clicking Edit, it finds the main content area
-- If there's existing content (like a subtitle), new content is appended below it
-- No need to manually position cursor - the system handles proper content insertion
-
-EXAMPLE - Tool failure handling:
-1. clickElement({text: "Edit"}) - Result: {success: false, message: "Element not found"}
-2. STOP and report: "❌ Could not find Edit button. Available elements: [list from getPageContext]"
-3. Do not proceed to type - the click failed
-
-EXAMPLE - Type tool failure:
-1. type({text: "content"}) - Result: {success: false, message: "No focused element found"}
-2. STOP and report: "❌ Could not type text - no input field is focused. Try clicking on the content area first."
-3. Do not claim the text was added
-
-🚨 SPECIFIC VIOLATION EXAMPLES - NEVER DO THESE:
-❌ User: "add paragraph about cars" → "I'll add a paragraph about cars now." [Executing: type] → "✅ Successfully added paragraph about cars!"
-❌ User: "add content under subtitle" → "I'll add that content below the subtitle." [Executing: type] → "✅ Successfully added the content!"
-❌ Any immediate success claim after [Executing: type] without seeing tool result
-❌ Any immediate success claim after [Executing: clickElement] without seeing tool result
-❌ Any explanatory text between tool execution and result verification
-
-✅ CORRECT BEHAVIOR FOR CONTENT ADDITION:
-User: "add paragraph about cars"
-Assistant: "I'll add a paragraph about cars. First, let me click Edit to enable editing."
-[Executing: clickElement]
-Tool result: {success: true}
-"Now I'll add the paragraph content."
-[Executing: type]
-Tool result: {success: true, message: "Typed content into DIV"}
-"✅ Successfully added paragraph about cars!"
-
-❌ WRONG PATTERN - DO NOT DO THIS:
-[Executing: type]
-{"text": "content"}
-✅ Successfully added content!  ← WRONG - didn't wait for tool result
-
-✅ CORRECT PATTERN - DO THIS:
-[Executing: type]
-{"text": "content"}
-[Wait for tool result]
-Tool result: {success: true, message: "Typed content into DIV"}
-✅ Content added successfully!
-
-🚨 CRITICAL VIOLATION DETECTION:
-- If user reports "you claimed success but nothing was added" → you violated verification rules
-- If user reports "inconsistent behavior" → you're not waiting for tool results consistently
-- Any success claim without "Tool result: {success: true}" visible in your response is a violation
-
-CLICKING ELEMENTS:
-Preference order:
-1. clickElement with text: clickElement({text: "Submit"})
-2. clickElement with selector: clickElement({selector: "button.submit"})
-3. Coordinate click (last resort): click({x: 100, y: 200})
-
-For coordinate clicks (screenshots are resized with max 1280px on longest edge):
-Screenshots are resized to fit within 1280px (longest edge), maintaining aspect ratio.
-You MUST convert your measurements to viewport coordinates using the scale factors provided.
-
-When coordinate click is needed, always use the CONVERSION PROCESS:
-1. Measure the element's center position in the screenshot (x, y)
-2. Apply the scale factors shown in the screenshot result:
-   click_x = measured_x × scale_x
-   click_y = measured_y × scale_y
-3. Use the converted coordinates: click({x: click_x, y: click_y})
-
-ERROR HANDLING RULES:
-- If navigation returns {success: false} or any error → report immediately
-- If element not found: re-check DOM, try alternative selectors, or scroll
-- For modals, dropdowns, dynamic content: wait for visibility then interact
-- Timeouts: inform user and suggest alternatives
-
-OUTPUT RULES:
-- Never use XML-like tags
-- Describe intent briefly in natural language; tool calls are handled automatically
-- Never claim actions succeeded unless verified on-screen
-
-Use the PEVI loop on every task. Think carefully before acting. Verify after each step. Adjust when needed. Stop gracefully if progress becomes impossible.`
-      : `You are a helpful AI assistant. Browser automation tools are NOT available in this mode - you cannot navigate, click, type, or take screenshots.
-
-🚨 CRITICAL: Browser tools are DISABLED. You CANNOT navigate, click, type, or take screenshots.
-
-🚫 ABSOLUTELY FORBIDDEN WHEN BROWSER TOOLS ARE DISABLED:
-   - DO NOT write "[Executing: navigate]" or "[Executing: screenshot]" or any similar text
-   - DO NOT pretend to execute browser tools in your text responses
-   - DO NOT claim you are navigating, clicking, typing, or taking screenshots
-   - DO NOT describe what you "see" after pretending to navigate
-   - DO NOT write tool execution syntax like "[Executing: toolName]" - this is FORBIDDEN
-   - DO NOT claim success like "I've successfully navigated to..." - you CANNOT navigate
-
-✅ WHAT TO DO INSTEAD:
-   - When users ask to navigate (e.g., "go to Amazon", "navigate to X", "open Y"), you MUST respond with:
-     "I don't have browser automation capabilities enabled. Please navigate to [URL] manually in your browser."
-   - Be direct and clear - do not pretend or simulate browser actions
-   - Do not write any text that looks like tool execution
-   - Simply tell the user to perform the action manually
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-UNDERSTANDING USER INTENT - CHOOSE THE RIGHT TOOL
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🔍 CRITICAL: Read the user's request carefully to understand their INTENT, then READ TOOL DESCRIPTIONS to find the right tool.
-
-STEP 1: Understand the user's intent
-   - What are they trying to accomplish?
-   - What type of action is needed?
-
-STEP 2: Review available tools and their descriptions
-   - Each tool has a description that explains what it does
-   - Read the descriptions to understand each tool's capabilities
-   - Match the user's intent to the tool that best fits
-
-STEP 3: Select the appropriate tool
-   - Navigation/interaction → Browser tools are NOT available - tell user to do it manually
-   - Specialized tasks → Check MCP tool descriptions - if one matches, use it DIRECTLY
-
-BROWSER TOOLS ARE DISABLED:
-   - Navigation requests (e.g., "go to", "navigate to", "open", "visit") → Tell user to navigate manually
-   - Interaction requests (e.g., "click", "type", "press", "select") → Tell user these actions are not available
-   - Information requests (e.g., "screenshot", "get page context") → Tell user these features are not available
-
-MCP TOOLS (check descriptions):
-   - Read each MCP tool's description to understand what it does
-   - Use MCP tools when their description matches the user's request
-   - MCP tools are specialized - they only do what their description says
-   - 🚨 When an MCP tool matches → Use it DIRECTLY, do NOT use browser tools first
-   - MCP tools can work with URLs/parameters directly - they don't need navigation or screenshots
-
-KEY PRINCIPLE:
-   - "Go to Amazon" = NAVIGATION → Browser tools disabled - tell user: "I don't have browser automation enabled. Please navigate to Amazon.com manually in your browser."
-   - "Create a rap version of GoDaddy.com" = MCP generate_song matches → use it DIRECTLY with URL (do NOT navigate first)
-   - "Generate a song about Amazon" = MCP generate_song matches → use it DIRECTLY (do NOT navigate first)
-   - "Search for domains" = Check MCP tools - if domain_search matches, use it DIRECTLY
-   - Always read tool descriptions - they tell you exactly what each tool does
-   - When browser tools are disabled → Always tell user to perform navigation/interaction manually
-   - When MCP tool matches → Use MCP tool directly (no browser automation needed)
-
-${mcpPrioritySection}
-${siteProfileSection}
-${siteInstructionsSection}
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-HANDLING REQUESTS WHEN BROWSER TOOLS ARE DISABLED
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-INSTRUCTION HIERARCHY:
-1. If MCP tools available AND one matches the task → Use MCP tool DIRECTLY
-2. If user requests navigation/interaction → Tell them to do it manually
-3. Be helpful and clear about what you can and cannot do
-
-CORE PRINCIPLES:
-✓ If MCP tool matches task → Use it DIRECTLY
-✓ If user asks to navigate → Tell them: "I don't have browser automation enabled. Please navigate to [URL] manually."
-✓ If user asks to click/type/interact → Tell them: "I don't have browser automation enabled. Please perform this action manually."
-✓ DO NOT claim you can navigate or interact with the browser - you cannot
-✓ DO NOT attempt to use browser tools - they are not available
-✓ Be helpful and suggest what the user can do manually
-
-⚠️ CRITICAL: Browser automation tools are NOT available. You CANNOT navigate, click, type, or take screenshots.
-
-When users request browser automation:
-- Navigation requests → Tell user: "I don't have browser automation enabled. Please navigate to [URL] manually in your browser."
-- Click/interaction requests → Tell user: "I don't have browser automation enabled. Please click/interact with the page manually."
-- Form filling requests → Tell user: "I don't have browser automation enabled. Please fill out the form manually."
-- Screenshot requests → Tell user: "I don't have browser automation enabled. I cannot take screenshots."
-
-DO NOT attempt to use browser tools - they are not available.
-DO NOT claim you can perform browser actions - you cannot.
-Be helpful and clear about what you can and cannot do.
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-ERROR HANDLING IN TOOL RESULTS
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🚨 CRITICAL: ALWAYS check tool results for errors:
-   - Look for {success: false, error: "..."} in the result
-   - Look for {error: "..."} in the result
-   - Look for {timeout: true} in the result (indicates the tool timed out)
-   - If you see an error or timeout, report it to the user immediately with a friendly message
-   - DO NOT claim success if there's an error in the result
-   - DO NOT ignore error messages - they indicate the action failed
-   - For timeouts: Respond with "The request took too long and timed out. Please try again later or try a different approach."
-   - Always provide a helpful response - never leave the conversation hanging
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-CRITICAL: TOOL CALLING FORMAT
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🚫 NEVER output XML-like syntax in your text responses:
-   - DO NOT write: <function_calls>, <invoke>, <parameter>, etc.
-   - DO NOT write: <tool_call>, <function>, etc.
-   - DO NOT write any XML tags in your text
-
-🚫 CRITICAL: Browser tools are DISABLED - NEVER write tool execution text:
-   - DO NOT write "[Executing: navigate]" or "[Executing: screenshot]" or any similar format
-   - DO NOT write "[Executing: toolName]" - this format is FORBIDDEN when browser tools are disabled
-   - DO NOT pretend to execute tools in your text responses
-   - DO NOT claim you are using tools or have used tools
-   - Instead, tell the user to perform the action manually
-
-✅ When browser tools are disabled:
-   - If user asks to navigate → Tell them: "I don't have browser automation enabled. Please navigate to [URL] manually in your browser."
-   - If user asks to click/interact → Tell them: "I don't have browser automation enabled. Please perform this action manually."
-   - DO NOT attempt to use browser tools - they are not available
-   - DO NOT claim you can navigate or interact - you cannot
-   - Be helpful and clear about what you can and cannot do
-
-Remember: When browser tools are disabled, always tell users to perform browser actions manually.`;
+    const sectionVariables = { ...promptVariables, mcpPrioritySection, siteProfileSection, siteInstructionsSection };
+    const systemPrompt = renderPrompt(promptTemplates, mainPromptTemplate, sectionVariables);
+
+    // Site profile/instructions go in their own cached block after the base prompt (browser-tools-disabled mode only),
+    // so switching sites keeps the tools + base prompt cache warm
+    const siteContextPrompt = browserToolsEnabled ? '' : `${siteProfileSection}${siteInstructionsSection}`.trim();
+    const system: any[] = [
+      { type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } },
+    ];
+    if (siteContextPrompt) {
+      system.push({ type: 'text', text: siteContextPrompt, cache_control: { type: 'ephemeral' } });
+    }
+    if (plan && plan.length > 0) {
+      // Uncached: only used for this run
+      system.push({ type: 'text', text: renderPrompt(promptTemplates, 'approved-plan', promptVariables) });
+    }
+    if (!browserToolsEnabled && currentUrl && (siteProfile || siteInstructions)) {
+      // Uncached: the exact URL changes on every navigation
+      system.push({ type: 'text', text: renderPrompt(promptTemplates, 'current-url', promptVariables) });
+    }
+
+    // Pause if the conversation is over its token/cost budget and the user doesn't want to continue
+    // Checked before fitting the history, which may itself send a (paid) summary request
+    if (onBudgetCheck && !(await onBudgetCheck())) {
+      console.log('⏸️ Usage budget reached - stopping before API call');
+      onTextChunk('\n\n⏸️ Stopped: this conversation reached its usage budget. Send a new message or raise the budget in Settings to continue.');
+      break;
+    }
+
+    // Fit the history into what's left of the context window after system prompt, tools and output
+    const reservedTokens = estimateContentTokens(system) + estimateContentTokens(cachedTools) + 4096;
+    const messagesToSend = await fitMessagesToBudget(validMessages, {
+      maxTokens: Math.max(CONTEXT_WINDOW_TOKENS - reservedTokens, 1000),
+      keepRecentPageContexts: PAGE_CONTEXT_HISTORY_LENGTH,
+      enablePageContextStripping: ENABLE_PAGE_CONTEXT_STRIPPING,
+      enableSummarization: ENABLE_SUMMARIZATION,
+      summarize: (olderMessages) => requestConversationSummary(olderMessages, adapter, apiKey, baseUrl, model, onUsage, recorder),
+    });
 
     const requestBody = {
       model,
       max_tokens: 4096,
-      tools: allTools,
-      messages: validMessages.map(m => ({
+      stream: true,
+      tools: cachedTools,
+      messages: messagesToSend.map(m => ({
         role: m.role,
         content: m.content,
       })),
-      system: systemPrompt,
+      system,
     };
 
     console.log('📤 Request body:', JSON.stringify(requestBody, null, 2));
 
-    const fetchOptions: RequestInit = {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify(requestBody),
-    };
+    const { url: requestUrl, init: fetchOptions } = adapter.buildRequest(requestBody, apiKey, baseUrl);
 
     // Only add signal if it's a valid AbortSignal instance
     if (signal && signal instanceof AbortSignal) {
@@ -949,24 +907,20 @@ Remember: When browser tools are disabled, always tell users to perform browser
 
     let response;
     try {
-      // Add timeout to prevent hanging (3 minutes for API calls)
+      // Add timeout to prevent hanging (3 minutes until the response starts; the stream has its own idle timeout)
       const timeoutMs = 180000; // 3 minutes
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('API request timed out after 3 minutes')), timeoutMs);
-      });
 
-      console.log(`🌐 Making API call to ${baseUrl}/v1/messages`);
-      console.log(`🌐 Request body size: ${JSON.stringify(requestBody).length} bytes`);
+      console.log(`🌐 Making ${adapter.label} call to ${requestUrl}`);
+      console.log(`🌐 Request body size: ${String(fetchOptions.body || '').length} bytes`);
       console.log(`🌐 Tools count: ${allTools.length}`);
-      console.log(`🌐 Messages count: ${validMessages.length}`);
+      console.log(`🌐 Messages count: ${messagesToSend.length}`);
 
+      // Transient 429/5xx/overloaded responses are retried here so earlier turns aren't lost
       const fetchStartTime = Date.now();
-      response = await Promise.race([
-        fetch(`${baseUrl}/v1/messages`, fetchOptions),
-        timeoutPromise
-      ]);
+      response = await fetchWithRetry(requestUrl, fetchOptions, timeoutMs, signal);
       const fetchDuration = Date.now() - fetchStartTime;
-      console.log(`✅ API call completed in ${fetchDuration}ms, status: ${response.status}`);
+      console.log(`✅ API response started in ${fetchDuration}ms, status: ${response.status}`);
+      recorder?.record('turn', requestUrl, fetchOptions, response);
     } catch (fetchError: any) {
       // Check if the error is due to abort
       if (fetchError.name === 'AbortError' || signal?.aborted) {
@@ -976,48 +930,113 @@ Remember: When browser tools are disabled, always tell users to perform browser
         break;
       }
 
-      // Network error - likely VPN not connected or endpoint unreachable
-      console.error('❌ Network Error:', fetchError);
-      throw new Error(
-        '🔌 Cannot reach GoCode API endpoint.\n\n' +
-        'This usually means:\n' +
-        '• You are not connected to GoDaddy VPN\n' +
-        '• The GoCode service is temporarily unavailable\n\n' +
-        'Please connect to VPN and try again.'
-      );
+      console.error('❌ Request Error:', fetchError);
+      throw describeRequestFailure(fetchError, adapter, baseUrl);
     }
 
     if (!response.ok) {
-      let errorMsg = 'GoCode API request failed';
+      let errorMsg = `${adapter.label} request failed`;
 
+      // Read the body once as text so a non-JSON error page can still be logged
+      const errorText = await response.text().catch(() => '');
       try {
-        const error = await response.json();
+        const error = JSON.parse(errorText);
         console.error('❌ API Error:', error);
-
-        // Check if it's a context length error
         errorMsg = error.error?.message || errorMsg;
-        if (errorMsg.includes('too long') || errorMsg.includes('Input is too long')) {
-          throw new Error('Context limit exceeded. Please start a new chat to continue.');
-        }
       } catch (parseError) {
         // Response is not JSON (likely HTML error page)
-        const text = await response.text();
-        console.error('❌ Non-JSON API Error Response:', text.substring(0, 200));
+        console.error('❌ Non-JSON API Error Response:', errorText.substring(0, 200));
         errorMsg = `API Error (${response.status} ${response.statusText})`;
       }
 
+      // Check if it's a context length error
+      if (errorMsg.includes('too long') || errorMsg.includes('Input is too long') || errorMsg.includes('maximum context length')) {
+        throw new Error('Context limit exceeded. Please start a new chat to continue.');
+      }
+      if (RETRYABLE_STATUSES.has(response.status)) {
+        errorMsg = `${adapter.label} is busy or unavailable (${response.status}) and still failing after ${MAX_RETRIES} retries: ${errorMsg}`;
+      }
+
       throw new Error(errorMsg);
     }
 
+    // Stream text to the UI as it arrives; fall back to a plain JSON body if the proxy doesn't stream
+    const textFilter = createStreamingTextFilter(browserToolsEnabled);
+    let turnEmittedText = false;
+    const emitStreamedText = (text: string) => {
+      if (text.length > 0) {
+        turnEmittedText = true;
+        fullResponseText += text;
+        onTextChunk(text);
+      }
+    };
+
     let data;
-    try {
-      data = await response.json();
-    } catch (parseError) {
-      const text = await response.text();
-      console.error('❌ Failed to parse successful response as JSON:', text.substring(0, 200));
-      throw new Error('API returned non-JSON response (possible redirect or proxy issue)');
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      try {
+        data = await readMessageStream(
+          response,
+          (delta) => emitStreamedText(textFilter.push(delta)),
+          () => emitStreamedText(textFilter.flush()),
+          signal
+        );
+      } catch (streamError: any) {
+        if (streamError.name === 'AbortError' || signal?.aborted) {
+          console.log('🛑 API stream aborted by user');
+          onTextChunk('\n\n⚠️ Execution cancelled by user.');
+          wasAborted = true;
+          break;
+        }
+
+        const streamErrorMsg = streamError?.message || 'GoCode API stream failed';
+        console.error('❌ Stream Error:', streamError);
+        if (streamErrorMsg.includes('too long') || streamErrorMsg.includes('Input is too long')) {
+          throw new Error('Context limit exceeded. Please start a new chat to continue.');
+        }
+
+        // Overload after a 200: repeat the turn like a 529, unless the user has already seen part of the answer
+        if (RETRYABLE_STREAM_ERRORS.has(streamError?.errorType) && !turnEmittedText && streamRetries < MAX_RETRIES) {
+          const delayMs = getRetryDelayMs(null, streamRetries);
+          streamRetries++;
+          console.warn(`⏳ Stream failed with ${streamError.errorType} - retrying the turn in ${delayMs}ms (attempt ${streamRetries}/${MAX_RETRIES})`);
+          try {
+            await sleepWithAbort(delayMs, signal);
+          } catch {
+            onTextChunk('\n\n⚠️ Execution cancelled by user.');
+            wasAborted = true;
+            break;
+          }
+          turnCount--;
+          continue;
+        }
+        if (RETRYABLE_STREAM_ERRORS.has(streamError?.errorType) && !turnEmittedText) {
+          throw new Error(`${adapter.label} is busy or unavailable (${streamError.errorType}) and still failing after ${MAX_RETRIES} retries: ${streamErrorMsg}`);
+        }
+        throw new Error(streamErrorMsg);
+      }
+    } else {
+      if (adapter.provider === 'anthropic') {
+        console.warn(`⚠️ Expected an event stream but got "${contentType}" - reading full response`);
+      }
+      try {
+        data = adapter.parseResponse(await response.json());
+      } catch (parseError) {
+        const text = await response.text();
+        console.error('❌ Failed to parse successful response as JSON:', text.substring(0, 200));
+        throw new Error('API returned non-JSON response (possible redirect or proxy issue)');
+      }
+
+      for (const block of Array.isArray(data?.content) ? data.content : []) {
+        if (block?.type === 'text' && block.text) {
+          emitStreamedText(textFilter.push(block.text));
+          emitStreamedText(textFilter.flush());
+        }
+      }
     }
 
+    streamRetries = 0;
+
     // Validate response structure
     if (!data || typeof data !== 'object') {
       console.error('❌ Invalid response structure:', data);
@@ -1029,6 +1048,12 @@ Remember: When browser tools are disabled, always tell users to perform browser
       throw new Error('API response missing content array');
     }
 
+    if (data.usage) {
+      const turnUsage = usageFromResponse(data.usage, model);
+      console.log(`💰 Turn ${turnCount} usage: ${turnUsage.inputTokens} in / ${turnUsage.outputTokens} out / ${turnUsage.cacheReadInputTokens} cache read / ${turnUsage.cacheCreationInputTokens} cache write (~$${turnUsage.costUsd.toFixed(4)})`);
+      onUsage?.(turnUsage);
+    }
+
     console.log('📥 Response:', JSON.stringify(data, null, 2));
     console.log(`📥 Response content items: ${data.content.length}`);
 
@@ -1041,34 +1066,6 @@ Remember: When browser tools are disabled, always tell users to perform browser
       throw new Error('API returned empty response - no content items');
     }
 
-    if (textContent?.text) {
-      // Filter out XML-like syntax that shouldn't appear in text responses
-      let filteredText = textContent.text;
-      // Remove XML function call syntax patterns
-      filteredText = filteredText.replace(/<function_calls>[\s\S]*?<\/function_calls>/gi, '');
-      filteredText = filteredText.replace(/<invoke\s+name="[^"]*">[\s\S]*?<\/invoke>/gi, '');
-      filteredText = filteredText.replace(/<parameter\s+name="[^"]*">[^<]*<\/parameter>/gi, '');
-      filteredText = filteredText.replace(/<tool_call>[\s\S]*?<\/tool_call>/gi, '');
-      filteredText = filteredText.replace(/<function>[\s\S]*?<\/function>/gi, '');
-
-      // ALWAYS remove any "[Executing: ...]" text that the AI might generate - this is fake tool execution
-      filteredText = filteredText.replace(/\[Executing:\s*[^\]]+\]/gi, '');
-
-      // When browser tools are disabled, also remove navigation claims
-      if (!browserToolsEnabled) {
-        filteredText = filteredText.replace(/I'll navigate to[^.]*\./gi, '');
-        filteredText = filteredText.replace(/I've successfully navigated to[^.]*\./gi, '');
-        filteredText = filteredText.replace(/Let me take a screenshot[^.]*\./gi, '');
-        filteredText = filteredText.replace(/Let me verify[^.]*\./gi, '');
-      }
-
-      // Only output if there's actual content after filtering
-      if (filteredText.trim().length > 0) {
-        fullResponseText += filteredText;
-        onTextChunk(filteredText);
-      }
-    }
-
     // Check for tool use
     const toolUses = data.content?.filter((c: any) => c.type === 'tool_use') || [];
 
@@ -1091,23 +1088,7 @@ Remember: When browser tools are disabled, always tell users to perform browser
       // If we have text content, make sure it was output
       if (textContent?.text && fullResponseText.trim().length === 0) {
         console.warn(`⚠️ Text content exists but wasn't output - outputting now`);
-        let filteredText = textContent.text.replace(/<function_calls>[\s\S]*?<\/function_calls>/gi, '')
-          .replace(/<invoke\s+name="[^"]*">[\s\S]*?<\/invoke>/gi, '')
-          .replace(/<parameter\s+name="[^"]*">[^<]*<\/parameter>/gi, '')
-          .replace(/<tool_call>[\s\S]*?<\/tool_call>/gi, '')
-          .replace(/<function>[\s\S]*?<\/function>/gi, '');
-
-        // ALWAYS remove any "[Executing: ...]" text that the AI might generate - this is fake tool execution
-        filteredText = filteredText.replace(/\[Executing:\s*[^\]]+\]/gi, '');
-
-        // When browser tools are disabled, also remove navigation claims
-        if (!browserToolsEnabled) {
-          filteredText = filteredText.replace(/I'll navigate to[^.]*\./gi, '');
-          filteredText = filteredText.replace(/I've successfully navigated to[^.]*\./gi, '');
-          filteredText = filteredText.replace(/Let me take a screenshot[^.]*\./gi, '');
-          filteredText = filteredText.replace(/Let me verify[^.]*\./gi, '');
-        }
-
+        const filteredText = filterAssistantText(textContent.text, browserToolsEnabled);
         if (filteredText.trim().length > 0) {
           fullResponseText += filteredText;
           onTextChunk(filteredText);
@@ -1126,46 +1107,8 @@ Remember: When browser tools are disabled, always tell users to perform browser
     }
 
     // Execute tools and collect results
-    const toolResults: any[] = [];
-
-    for (const toolUse of toolUses) {
-      // Check if execution was aborted before executing each tool
-      if (signal?.aborted) {
-        console.log('🛑 Execution aborted by user - stopping tool execution');
-        onTextChunk('\n\n⚠️ Execution cancelled by user.');
-        wasAborted = true;
-        break;
-      }
-
-      console.log(`🔧 Executing tool: ${toolUse.name}`, toolUse.input);
-      const isMcpToolUse = mcpToolNameSet.has(toolUse.name);
-      const isA2AToolUse = a2aToolNameSet.has(toolUse.name);
-      const toolTypeTags: string[] = [];
-      if (isMcpToolUse) toolTypeTags.push('MCP tool');
-      if (isA2AToolUse) toolTypeTags.push('A2A tool');
-      const executingHeader = toolTypeTags.length
-        ? `[Executing: ${toolUse.name}] (${toolTypeTags.join(' & ')})`
-        : `[Executing: ${toolUse.name}]`;
-      onTextChunk(`\n${executingHeader}\n`);
-      if (toolTypeTags.length) {
-        const availabilityParts: string[] = [];
-        if (mcpToolNames.length) {
-          availabilityParts.push(`MCP available: ${mcpToolNames.join(', ')}`);
-        }
-        if (a2aToolNames.length) {
-          availabilityParts.push(`A2A available: ${a2aToolNames.join(', ')}`);
-        }
-        if (availabilityParts.length) {
-          onTextChunk(`${availabilityParts.join(' | ')}\n`);
-        }
-      }
-      onTextChunk(`${JSON.stringify(toolUse.input)}\n`);
-
-      // Notify that tool execution is starting (for typing indicator)
-      if (onToolStart) {
-        onToolStart(toolUse.name, isMcpToolUse);
-      }
-
+    // Remote (MCP/A2A) and read-only tools run concurrently; page-mutating tools stay in order per tab
+    const runToolUse = async (toolUse: any): Promise<any | null> => {
       try {
         console.log('🔧 Calling executeTool with:', toolUse.name, toolUse.input);
 
@@ -1224,14 +1167,17 @@ Example: Element at image position (400, 300):
   click_x = 400 × ${scaleX.toFixed(2)} = ${Math.round(400 * scaleX)}
   click_y = 300 × ${scaleY.toFixed(2)} = ${Math.round(300 * scaleY)}
   Use: click({x: ${Math.round(400 * scaleX)}, y: ${Math.round(300 * scaleY)}})`;
+          const markInstructions = Array.isArray(result.marks) && result.marks.length > 0
+            ? `\n\n${formatScreenshotMarks(result.marks)}`
+            : '';
 
-          toolResults.push({
+          return {
             type: 'tool_result',
             tool_use_id: toolUse.id,
             content: [
               {
                 type: 'text',
-                text: coordinateInstructions,
+                text: coordinateInstructions + markInstructions,
               },
               {
                 type: 'image',
@@ -1242,7 +1188,7 @@ Example: Element at image position (400, 300):
                 },
               },
             ],
-          });
+          };
         } else {
           // Regular tool result
           // For navigation, check for errors and make them explicit
@@ -1251,7 +1197,7 @@ Example: Element at image position (400, 300):
               if (result.success === false || result.error) {
                 // Navigation failed - make error explicit
                 const errorMsg = result.error || 'Navigation failed for unknown reason';
-                toolResults.push({
+                return {
                   type: 'tool_result',
                   tool_use_id: toolUse.id,
                   content: JSON.stringify({
@@ -1260,10 +1206,10 @@ Example: Element at image position (400, 300):
                     attemptedUrl: result.url || toolUse.input?.url
                   }),
                   is_error: true,
-                });
+                };
               } else if (result.success === true) {
                 // Navigation succeeded - but still require verification
-                toolResults.push({
+                return {
                   type: 'tool_result',
                   tool_use_id: toolUse.id,
                   content: JSON.stringify({
@@ -1271,22 +1217,22 @@ Example: Element at image position (400, 300):
                     url: result.url,
                     message: 'Navigation command executed. IMPORTANT: You must verify navigation succeeded by taking a screenshot to confirm the page actually changed.'
                   }),
-                });
+                };
               } else {
                 // Unknown result format
-                toolResults.push({
+                return {
                   type: 'tool_result',
                   tool_use_id: toolUse.id,
                   content: JSON.stringify(result),
-                });
+                };
               }
             } else {
               // Non-object result
-              toolResults.push({
+              return {
                 type: 'tool_result',
                 tool_use_id: toolUse.id,
                 content: JSON.stringify(result),
-              });
+              };
             }
           } else {
             // Non-navigation tool result
@@ -1299,7 +1245,7 @@ Example: Element at image position (400, 300):
               console.error(`❌ Tool "${toolUse.name}" returned an error:`, errorMessage);
               console.error(`   Timeout: ${isTimeout}`);
 
-              toolResults.push({
+              return {
                 type: 'tool_result',
                 tool_use_id: toolUse.id,
                 content: JSON.stringify({
@@ -1307,27 +1253,23 @@ Example: Element at image position (400, 300):
                   timeout: isTimeout
                 }),
                 is_error: true,
-              });
+              };
             } else {
               // Normal successful result
-              toolResults.push({
+              return {
                 type: 'tool_result',
                 tool_use_id: toolUse.id,
                 content: JSON.stringify(result),
-              });
+              };
             }
           }
         }
-
-        // Small delay between actions
-        await new Promise(resolve => setTimeout(resolve, 500));
       } catch (error: any) {
         // Check if the error is due to abort
         if (error.name === 'AbortError' || signal?.aborted) {
           console.log('🛑 Tool execution aborted by user');
-          onTextChunk('\n\n⚠️ Execution cancelled by user.');
           wasAborted = true;
-          break;
+          return null;
         }
 
         console.error('❌ Tool execution error:', error);
@@ -1339,7 +1281,7 @@ Example: Element at image position (400, 300):
           ? 'The request took too long and timed out. Please try again later or try a different approach.'
           : errorMessage;
 
-        toolResults.push({
+        return {
           type: 'tool_result',
           tool_use_id: toolUse.id,
           content: JSON.stringify({
@@ -1347,13 +1289,51 @@ Example: Element at image position (400, 300):
             timeout: isTimeout
           }),
           is_error: true,
-        });
+        };
       }
-    }
+    };
+
+    const toolResults = await runToolUses(toolUses, {
+      remoteToolNames: new Set([...mcpToolNames, ...a2aToolNames]),
+      runTool: runToolUse,
+      onStart: (toolUse, kind) => {
+        console.log(`🔧 Executing tool (${kind}): ${toolUse.name}`, toolUse.input);
+        const isMcpToolUse = mcpToolNameSet.has(toolUse.name);
+        const isA2AToolUse = a2aToolNameSet.has(toolUse.name);
+        const toolTypeTags: string[] = [];
+        if (isMcpToolUse) toolTypeTags.push('MCP tool');
+        if (isA2AToolUse) toolTypeTags.push('A2A tool');
+        const executingHeader = toolTypeTags.length
+          ? `[Executing: ${toolUse.name}] (${toolTypeTags.join(' & ')})`
+          : `[Executing: ${toolUse.name}]`;
+        onTextChunk(`\n${executingHeader}\n`);
+        if (toolTypeTags.length) {
+          const availabilityParts: string[] = [];
+          if (mcpToolNames.length) {
+            availabilityParts.push(`MCP available: ${mcpToolNames.join(', ')}`);
+          }
+          if (a2aToolNames.length) {
+            availabilityParts.push(`A2A available: ${a2aToolNames.join(', ')}`);
+          }
+          if (availabilityParts.length) {
+            onTextChunk(`${availabilityParts.join(' | ')}\n`);
+          }
+        }
+        onTextChunk(`${JSON.stringify(toolUse.input)}\n`);
+
+        // Notify that tool execution is starting (for typing indicator)
+        if (onToolStart) {
+          onToolStart(toolUse.name, isMcpToolUse);
+        }
+      },
+      signal,
+    });
 
     // Check if execution was aborted during tool execution - break out of while loop
     if (wasAborted || signal?.aborted) {
       console.log('🛑 Execution aborted during tool execution - stopping loop');
+      onTextChunk('\n\n⚠️ Execution cancelled by user.');
+      wasAborted = true;
       break;
     }
 
@@ -1374,16 +1354,6 @@ Example: Element at image position (400, 300):
     console.log(`📝 Added tool results to conversation. Total messages: ${conversationMessages.length}`);
     console.log(`📝 Tool results:`, JSON.stringify(toolResults, null, 2));
 
-    // Strip old page context during the loop to prevent token accumulation
-    // We keep ALL messages but compress large DOM/screenshot data from older ones
-    if (ENABLE_PAGE_CONTEXT_STRIPPING) {
-      conversationMessages = prepareMessagesWithSeparateHistory(
-        conversationMessages,
-        PAGE_CONTEXT_HISTORY_LENGTH
-      );
-      console.log(`📚 Loop: Page context stripped, keeping ${conversationMessages.length} messages`);
-    }
-
     // CRITICAL: After adding tool results, we MUST continue the loop to let the AI process them
     // The stop_reason from the current response (which requested tools) doesn't matter here
     // because we've already executed the tools and added results to the conversation
@@ -1426,6 +1396,7 @@ Example: Element at image position (400, 300):
     if (error.name === 'AbortError' || signal?.aborted || wasAborted) {
       console.log('🛑 Execution aborted by user');
       onTextChunk('\n\n⚠️ Execution cancelled by user.');
+      await recorder?.save();
       // Don't re-throw abort errors, just exit gracefully
       return;
     }
@@ -1439,6 +1410,9 @@ Example: Element at image position (400, 300):
       console.log(`📝 Outputting partial response before error: ${fullResponseText.length} chars`);
     }
 
+    // Keep the fixture even on error - failing runs are often the ones worth replaying
+    await recorder?.save();
+
     // Ensure we still call onComplete to clear states even on error
     // The error will be handled by the caller's try-catch
     // Re-throw the error so the caller can handle it
@@ -1450,5 +1424,6 @@ Example: Element at image position (400, 300):
   console.log(`🏁 Final conversation messages: ${conversationMessages.length}`);
   console.log(`🏁 Total response text length: ${fullResponseText.length} chars`);
 
+  await recorder?.save();
   onComplete();
 }
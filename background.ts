@@ -1,5 +1,11 @@
 // Background service worker for the extension
 
+import { dispatchTrustedInput, detachDebugger, handleDebuggerDetach, getInputBackendForUrl, hasDebuggerPermission, detachLeftoverSessions } from './cdp-input';
+import { isCapturingBodies, startBodyCapture, stopBodyCapture, handleNetworkEvent, findCapturedBody } from './cdp-network';
+import { loadScheduledTasks, syncTaskAlarms, scheduleTaskAlarm, getTaskIdFromAlarm, isScheduledTasksChange, failInterruptedRuns } from './scheduled-tasks';
+import { runScheduledTask } from './scheduled-task-runner';
+import type { PanelRequest, ScheduledTask, ScheduledTaskRun } from './types';
+
 /**
  * Maximum size for the longest edge of screenshots.
  * This ensures Claude won't resize the image further internally.
@@ -119,6 +125,8 @@ const memory: BrowserMemory = {
 
 // Track if browser operations should be aborted (per-tab)
 const tabAbortFlags: Record<number, boolean> = {};
+// When each tab was last aborted - long waits compare it with their start, since the flag clears after a second
+const tabAbortedAt: Record<number, number> = {};
 
 // Track which tabs have the extension enabled
 const enabledTabs: Set<number> = new Set();
@@ -138,6 +146,22 @@ function clearTabAbortFlag(tabId: number) {
   console.log(`✅ Tab ${tabId} abort flag cleared`);
 }
 
+/**
+ * Make running browser operations on a tab bail out; the flag resets after a short delay to allow new operations
+ */
+function abortTabOperations(tabId: number) {
+  setTabAbortFlag(tabId, true);
+  tabAbortedAt[tabId] = Date.now();
+  // A waitFor blocks inside the content script until its timeout - end it now
+  chrome.tabs.sendMessage(tabId, { type: 'ABORT_WAIT_FOR_DOM' }, { frameId: 0 }).catch(() => {
+    // No content script on the page - nothing is waiting
+  });
+  setTimeout(() => {
+    clearTabAbortFlag(tabId);
+    console.log(`✅ Tab ${tabId} abort flag cleared - ready for new operations`);
+  }, 1000);
+}
+
 // Helper functions for tab activation state
 function isTabEnabled(tabId: number): boolean {
   return enabledTabs.has(tabId);
@@ -169,16 +193,16 @@ async function injectContentScript(tabId: number): Promise<void> {
   try {
     // Check if content script is already injected by trying to ping it
     try {
-      await chrome.tabs.sendMessage(tabId, { type: 'PING' });
+      await chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId: 0 });
       console.log(`Content script already injected in tab ${tabId}`);
       return;
     } catch {
       // Content script not found, proceed with injection
     }
 
-    // Inject the content script
+    // Inject the content script into every frame (cross-origin frames need their own instance)
     await chrome.scripting.executeScript({
-      target: { tabId },
+      target: { tabId, allFrames: true },
       files: ['content.js']
     });
 
@@ -190,10 +214,225 @@ async function injectContentScript(tabId: number): Promise<void> {
   }
 }
 
+/**
+ * Make sure every frame of a tab has a content script (frames can appear after the initial injection)
+ * @returns The tab's frames
+ */
+async function ensureFrameContentScripts(tabId: number): Promise<chrome.webNavigation.GetAllFrameResultDetails[]> {
+  const frames = (await chrome.webNavigation.getAllFrames({ tabId })) || [];
+  await Promise.all(frames
+    .filter(frame => frame.frameId !== 0 && /^https?:/.test(frame.url))
+    .map(async frame => {
+      try {
+        await chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId: frame.frameId });
+      } catch {
+        try {
+          await chrome.scripting.executeScript({
+            target: { tabId, frameIds: [frame.frameId] },
+            files: ['content.js']
+          });
+        } catch (error) {
+          console.warn(`⚠️ Could not inject content script into frame ${frame.frameId} (${frame.url}):`, error);
+        }
+      }
+    }));
+  return frames;
+}
+
+/**
+ * Frame a snapshot ref belongs to - refs from frame scripts are qualified as "f<frameId>:..."
+ */
+function getRefFrameId(ref?: string): number {
+  const match = ref?.match(/^f(\d+):/);
+  return match ? Number(match[1]) : 0;
+}
+
+// ============================================
+// Agent tabs (openTab, listTabs, switchTab, closeTab)
+// ============================================
+
+const AGENT_TAB_GROUP_TITLE = 'ANS Agent';
+const OPEN_TAB_LOAD_TIMEOUT_MS = 15000;
+
+// Tabs opened by the agent - the only ones closeTab may close
+const agentOpenedTabs: Set<number> = new Set();
+
+/**
+ * Tab a tool message targets: request.tabId (the agent's working tab, or a tab passed explicitly),
+ * otherwise the active tab. Same shape as chrome.tabs.query so handlers keep using tabs[0].
+ */
+async function getTargetTabs(request: { tabId?: number }): Promise<chrome.tabs.Tab[]> {
+  if (typeof request.tabId === 'number') {
+    return [await chrome.tabs.get(request.tabId)];
+  }
+  return chrome.tabs.query({ active: true, currentWindow: true });
+}
+
+/**
+ * Put a tab into the agent's named tab group in its window, creating the group when needed
+ */
+async function addToAgentTabGroup(tab: chrome.tabs.Tab): Promise<void> {
+  try {
+    const [existing] = await chrome.tabGroups.query({ windowId: tab.windowId, title: AGENT_TAB_GROUP_TITLE });
+    const groupId = existing
+      ? await chrome.tabs.group({ tabIds: tab.id!, groupId: existing.id })
+      : await chrome.tabs.group({ tabIds: tab.id!, createProperties: { windowId: tab.windowId } });
+    if (!existing) {
+      await chrome.tabGroups.update(groupId, { title: AGENT_TAB_GROUP_TITLE, color: 'blue' });
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not add tab to the agent tab group:', error);
+  }
+}
+
+/**
+ * Whether the agent opened this tab (also after a service worker restart, via its tab group)
+ */
+async function isAgentTab(tab: chrome.tabs.Tab): Promise<boolean> {
+  if (tab.id !== undefined && agentOpenedTabs.has(tab.id)) return true;
+  if (tab.groupId === undefined || tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) return false;
+  try {
+    return (await chrome.tabGroups.get(tab.groupId)).title === AGENT_TAB_GROUP_TITLE;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// Network activity tracking (for waitFor networkIdleMs and getNetworkLog)
+// ============================================
+
+// Requests open longer than this (long-polling, streaming) don't count against network idle
+const STALE_REQUEST_MS = 30000;
+const MAX_NETWORK_LOG_ENTRIES = 300;
+// Images, scripts, styles and fonts only count towards network idle - they would drown out API calls in the log
+const LOGGED_RESOURCE_TYPES = new Set(['main_frame', 'sub_frame', 'xmlhttprequest', 'ping', 'other']);
+
+interface NetworkLogEntry {
+  requestId: string;
+  url: string;
+  method: string;
+  type: string; // webRequest resource type
+  startedAt: number; // Epoch ms
+  status?: number;
+  error?: string; // net::ERR_* when the request failed
+  durationMs?: number;
+  fromCache?: boolean;
+}
+
+const tabNetworkActivity: Record<number, {
+  inflight: Map<string, number>;
+  lastActivity: number;
+  log: NetworkLogEntry[]; // Oldest first, capped at MAX_NETWORK_LOG_ENTRIES
+  logIndex: Map<string, NetworkLogEntry>; // requestId -> entry still in the log
+}> = {};
+
+function getTabNetworkActivity(tabId: number) {
+  if (!tabNetworkActivity[tabId]) {
+    tabNetworkActivity[tabId] = { inflight: new Map(), lastActivity: 0, log: [], logIndex: new Map() };
+  }
+  return tabNetworkActivity[tabId];
+}
+
+function trackRequestStart(details: chrome.webRequest.WebRequestBodyDetails) {
+  if (details.tabId < 0 || details.type === 'websocket') return;
+  const activity = getTabNetworkActivity(details.tabId);
+  activity.inflight.set(details.requestId, Date.now());
+  activity.lastActivity = Date.now();
+
+  // Redirects reuse the requestId - keep the first entry
+  if (!LOGGED_RESOURCE_TYPES.has(details.type) || activity.logIndex.has(details.requestId)) return;
+  const entry: NetworkLogEntry = {
+    requestId: details.requestId,
+    url: details.url,
+    method: details.method,
+    type: details.type,
+    startedAt: details.timeStamp
+  };
+  activity.log.push(entry);
+  activity.logIndex.set(details.requestId, entry);
+  if (activity.log.length > MAX_NETWORK_LOG_ENTRIES) {
+    const dropped = activity.log.shift();
+    if (dropped) activity.logIndex.delete(dropped.requestId);
+  }
+}
+
+function trackRequestEnd(details: chrome.webRequest.WebResponseCacheDetails | chrome.webRequest.WebResponseErrorDetails) {
+  if (details.tabId < 0) return;
+  const activity = getTabNetworkActivity(details.tabId);
+  if (activity.inflight.delete(details.requestId)) {
+    activity.lastActivity = Date.now();
+  }
+
+  const entry = activity.logIndex.get(details.requestId);
+  if (entry) {
+    entry.durationMs = Math.round(details.timeStamp - entry.startedAt);
+    entry.fromCache = details.fromCache;
+    if ('error' in details) {
+      entry.error = details.error;
+    } else {
+      entry.status = details.statusCode;
+    }
+  }
+}
+
+chrome.webRequest.onBeforeRequest.addListener(trackRequestStart, { urls: ['<all_urls>'] });
+chrome.webRequest.onCompleted.addListener(trackRequestEnd, { urls: ['<all_urls>'] });
+chrome.webRequest.onErrorOccurred.addListener(trackRequestEnd, { urls: ['<all_urls>'] });
+
+/**
+ * Requests in flight for a tab, ignoring ones open longer than STALE_REQUEST_MS
+ */
+function getActiveRequestCount(tabId: number): number {
+  const activity = getTabNetworkActivity(tabId);
+  const now = Date.now();
+  return Array.from(activity.inflight.values()).filter(startedAt => now - startedAt < STALE_REQUEST_MS).length;
+}
+
+/**
+ * Match a URL against a waitFor pattern: /regex/, glob with *, or plain substring
+ */
+function matchesWaitUrlPattern(url: string, pattern: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(url);
+    } catch {
+      return false;
+    }
+  }
+  if (pattern.includes('*')) {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`, 'i').test(url);
+  }
+  return url.toLowerCase().includes(pattern.toLowerCase());
+}
+
+const WAIT_POLL_INTERVAL_MS = 200;
+const ACTION_NAVIGATION_WAIT_MS = 10000;
+
+/**
+ * Poll until check() returns true or the deadline passes
+ * @returns Whether the condition was met
+ */
+async function pollUntil(check: () => Promise<boolean> | boolean, deadline: number): Promise<boolean> {
+  while (true) {
+    if (await check()) return true;
+    if (Date.now() >= deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, WAIT_POLL_INTERVAL_MS));
+  }
+}
+
 // Cleanup on tab removal
 chrome.tabs.onRemoved.addListener(async (tabId) => {
   console.log(`🗑️ Tab ${tabId} removed, cleaning up background resources`);
   clearTabAbortFlag(tabId);
+  delete tabAbortedAt[tabId];
+  delete tabNetworkActivity[tabId];
+  stopBodyCapture(tabId);
+  agentOpenedTabs.delete(tabId);
+  pendingPanelRequests.delete(tabId);
+  await detachDebugger(tabId);
   await disableTab(tabId);
   // Cleanup old memory entries (keep last 24 hours)
   memory.recentPages = memory.recentPages.filter(page =>
@@ -221,10 +460,13 @@ async function initializeSidepanel() {
   }
 }
 
-// CRITICAL: Register click handler synchronously at top level
-// This ensures the handler is ready immediately when the service worker wakes up
-// If this is registered after async operations, clicks during worker startup may be lost
-chrome.action.onClicked.addListener(async (tab) => {
+/**
+ * Enable the extension for a tab and open its sidepanel.
+ * Must be called synchronously from a user gesture (toolbar click, context menu, keyboard command) -
+ * chrome.sidePanel.open is rejected once the handler has awaited anything.
+ * @param tab - Tab to open the sidepanel for
+ */
+function openSidepanelForTab(tab: chrome.tabs.Tab): void {
   if (tab.id) {
     // Check if extension is already enabled for this tab
     const isEnabled = isTabEnabled(tab.id);
@@ -263,15 +505,263 @@ chrome.action.onClicked.addListener(async (tab) => {
       });
     }
   }
+}
+
+// CRITICAL: Register click handler synchronously at top level
+// This ensures the handler is ready immediately when the service worker wakes up
+// If this is registered after async operations, clicks during worker startup may be lost
+chrome.action.onClicked.addListener((tab) => {
+  openSidepanelForTab(tab);
+});
+
+// ============================================
+// Context menus and keyboard commands
+// ============================================
+
+const CONTEXT_MENU_ASK_SELECTION = 'ans-ask-selection';
+const CONTEXT_MENU_EXPLAIN_ELEMENT = 'ans-explain-element';
+const CONTEXT_MENU_SEND_TO_CHAT = 'ans-send-to-chat';
+const DEFAULT_QUICK_PROMPT = 'Summarize the main content';
+
+// Chat input waiting for a tab's sidepanel - it may still be loading when the menu item or shortcut fires
+const pendingPanelRequests: Map<number, PanelRequest> = new Map();
+
+function registerContextMenus() {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({ id: CONTEXT_MENU_ASK_SELECTION, title: 'Ask ANS about selection', contexts: ['selection'] });
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_EXPLAIN_ELEMENT,
+      title: 'Explain this element',
+      contexts: ['page', 'frame', 'link', 'image', 'editable']
+    });
+    chrome.contextMenus.create({ id: CONTEXT_MENU_SEND_TO_CHAT, title: 'Send link/image to chat', contexts: ['link', 'image'] });
+  });
+}
+
+/**
+ * Queue chat input for a tab's sidepanel and tell an open sidepanel to pick it up (TAKE_PANEL_REQUEST)
+ */
+function queuePanelRequest(tabId: number, request: PanelRequest) {
+  pendingPanelRequests.set(tabId, request);
+  chrome.runtime.sendMessage({ type: 'PANEL_REQUEST_READY', tabId }).catch(() => {
+    // Sidepanel still loading - it takes the request on mount
+  });
+}
+
+/**
+ * Ask a frame's content script, or null when it has none (the page loaded since the last injection)
+ */
+async function sendToFrame<T>(tabId: number, frameId: number, message: { type: string }): Promise<T | null> {
+  try {
+    return await chrome.tabs.sendMessage(tabId, message, { frameId });
+  } catch {
+    return null;
+  }
+}
+
+async function handleContextMenuClick(info: chrome.contextMenus.OnClickData, tabId: number) {
+  const frameId = info.frameId ?? 0;
+
+  if (info.menuItemId === CONTEXT_MENU_ASK_SELECTION) {
+    // info.selectionText may be cut short - prefer the page's own selection (the chat input is a single line)
+    const selection = await sendToFrame<{ text: string }>(tabId, frameId, { type: 'GET_SELECTED_TEXT' });
+    const text = (selection?.text || info.selectionText || '').replace(/\s+/g, ' ').trim();
+    queuePanelRequest(tabId, { kind: 'prefill', text: `About this text from the page: "${text}" - ` });
+    return;
+  }
+
+  if (info.menuItemId === CONTEXT_MENU_SEND_TO_CHAT) {
+    const lines = [
+      info.linkUrl && `Link: ${info.linkUrl}`,
+      info.srcUrl && `${info.mediaType === 'image' ? 'Image' : 'Media'}: ${info.srcUrl}`
+    ].filter(Boolean);
+    queuePanelRequest(tabId, { kind: 'prefill', text: `${lines.join(' ')} ` });
+    return;
+  }
+
+  if (info.menuItemId === CONTEXT_MENU_EXPLAIN_ELEMENT) {
+    const response = await sendToFrame<{ target: { description: string; text: string; html: string } | null }>(
+      tabId, frameId, { type: 'GET_CONTEXT_MENU_TARGET' }
+    );
+    const target = response?.target;
+    if (!target) {
+      // Content scripts are injected on demand - a page the agent hasn't touched has no recorded target yet
+      injectContentScript(tabId);
+      const subject = info.srcUrl ? `the image ${info.srcUrl}` : info.linkUrl ? `the link to ${info.linkUrl}` : 'this page';
+      queuePanelRequest(tabId, { kind: 'send', text: `Explain ${subject}.` });
+      return;
+    }
+    const text = target.text ? `\n\nText: ${target.text}` : '';
+    queuePanelRequest(tabId, {
+      kind: 'send',
+      text: `Explain this element on the page: ${target.description}${text}\n\nHTML:\n\`\`\`html\n${target.html}\n\`\`\``
+    });
+  }
+}
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (!tab?.id || tab.id < 0) return;
+  openSidepanelForTab(tab);
+  handleContextMenuClick(info, tab.id).catch(error => {
+    console.error('❌ Context menu action failed:', error);
+  });
+});
+
+// _execute_action (open the sidepanel) never gets here - Chrome dispatches it to chrome.action.onClicked
+chrome.commands.onCommand.addListener((command, tab) => {
+  if (!tab?.id) return;
+  const tabId = tab.id;
+  console.log(`⌨️ Command ${command} on tab ${tabId}`);
+
+  if (command === 'stop-agent') {
+    abortTabOperations(tabId);
+    if (activeScheduledRun?.tabIds.has(tabId)) {
+      stopScheduledRun('Stopped by the user');
+    }
+    chrome.runtime.sendMessage({ type: 'ABORT_BROWSER_AUTOMATION' }).catch(() => {
+      // Sidepanel closed - nothing is running
+    });
+    return;
+  }
+
+  if (command === 'focus-input') {
+    openSidepanelForTab(tab);
+    queuePanelRequest(tabId, { kind: 'focus' });
+    return;
+  }
+
+  if (command === 'quick-prompt') {
+    openSidepanelForTab(tab);
+    chrome.storage.local.get('atlasSettings').then(({ atlasSettings }) => {
+      queuePanelRequest(tabId, { kind: 'send', text: atlasSettings?.quickPrompt?.trim() || DEFAULT_QUICK_PROMPT });
+    }).catch(error => {
+      console.error('❌ Quick prompt failed:', error);
+    });
+  }
+});
+
+// ============================================
+// Scheduled tasks (chrome.alarms, headless runs)
+// ============================================
+
+// A run still going after this long is stopped
+const SCHEDULED_RUN_TIMEOUT_MS = 10 * 60 * 1000;
+// Extension API calls reset the service worker's idle timer - a long model request alone doesn't
+const SERVICE_WORKER_KEEPALIVE_MS = 20000;
+const SCHEDULED_RUN_NOTIFICATION_PREFIX = 'scheduled-run:';
+
+// The run in progress: its abort controller and the tabs it has open
+let activeScheduledRun: { taskId: string; controller: AbortController; tabIds: Set<number> } | null = null;
+// Runs still marked "running" were cut off when the previous service worker stopped
+const interruptedRunsCleanup = failInterruptedRuns().catch(error => {
+  console.error('Failed to clean up interrupted scheduled runs:', error);
+});
+
+/**
+ * Run a message through handleRuntimeMessage and resolve with its response,
+ * so headless runs use the same tool messages as the sidepanel
+ */
+function dispatchRuntimeMessage(message: { type: string; [key: string]: any }): Promise<any> {
+  return new Promise(resolve => {
+    const isAsync = handleRuntimeMessage(message, { id: chrome.runtime.id }, resolve);
+    if (!isAsync) resolve(undefined);
+  });
+}
+
+function notifyScheduledRun(run: ScheduledTaskRun) {
+  const summary = (run.status === 'success' ? run.result : run.error) || '';
+  chrome.notifications.create(`${SCHEDULED_RUN_NOTIFICATION_PREFIX}${run.id}`, {
+    type: 'basic',
+    iconUrl: 'icons/icon.png',
+    title: `${run.status === 'success' ? '✅' : '❌'} ${run.taskName}`,
+    message: summary.length > 300 ? `${summary.slice(0, 299)}…` : summary,
+    priority: 0
+  });
+}
+
+/**
+ * Start a headless run of a task unless another one is in progress (runs share the agent tab group)
+ */
+async function startScheduledRun(task: ScheduledTask, trigger: ScheduledTaskRun['trigger']): Promise<{ success: boolean; error?: string }> {
+  await interruptedRunsCleanup;
+  if (activeScheduledRun) {
+    return { success: false, error: 'Another scheduled task is still running - try again when it has finished' };
+  }
+  const run = { taskId: task.id, controller: new AbortController(), tabIds: new Set<number>() };
+  activeScheduledRun = run;
+
+  const timeout = setTimeout(() => stopScheduledRun('Run stopped: time limit reached'), SCHEDULED_RUN_TIMEOUT_MS);
+  const keepAlive = setInterval(() => chrome.runtime.getPlatformInfo(), SERVICE_WORKER_KEEPALIVE_MS);
+  runScheduledTask(task, trigger, dispatchRuntimeMessage, run.controller.signal, run.tabIds)
+    .then(notifyScheduledRun)
+    .catch(error => console.error(`❌ Scheduled task "${task.name}" could not run:`, error))
+    .finally(() => {
+      clearTimeout(timeout);
+      clearInterval(keepAlive);
+      activeScheduledRun = null;
+    });
+  return { success: true };
+}
+
+/**
+ * Stop the scheduled run in progress: the loop stops before its next request and running tools bail out
+ * @param reason - Saved as the run's error
+ * @returns Whether a run was stopped
+ */
+function stopScheduledRun(reason: string): boolean {
+  if (!activeScheduledRun || activeScheduledRun.controller.signal.aborted) return false;
+  console.log(`⏰ Stopping scheduled run of task ${activeScheduledRun.taskId}: ${reason}`);
+  activeScheduledRun.controller.abort(reason);
+  activeScheduledRun.tabIds.forEach(abortTabOperations);
+  return true;
+}
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  const taskId = getTaskIdFromAlarm(alarm.name);
+  if (!taskId) return;
+  const task = (await loadScheduledTasks()).find(candidate => candidate.id === taskId);
+  if (!task?.enabled) return;
+
+  // Daily alarms fire once - set tomorrow's before running
+  if (task.schedule.type === 'daily') {
+    await scheduleTaskAlarm(task);
+  }
+  const started = await startScheduledRun(task, 'schedule');
+  if (!started.success) {
+    console.warn(`⏰ Skipped scheduled task "${task.name}": ${started.error}`);
+  }
+});
+
+// Settings saves the task list - keep the alarms in step with it
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && isScheduledTasksChange(changes)) {
+    loadScheduledTasks().then(syncTaskAlarms).catch(error => {
+      console.error('Failed to sync scheduled task alarms:', error);
+    });
+  }
+});
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  if (notificationId.startsWith(SCHEDULED_RUN_NOTIFICATION_PREFIX)) {
+    chrome.notifications.clear(notificationId);
+    chrome.runtime.openOptionsPage();
+  }
 });
 
 // Initialize sidepanel options on extension install/startup
 chrome.runtime.onInstalled.addListener(() => {
   initializeSidepanel();
+  registerContextMenus();
+  loadScheduledTasks().then(syncTaskAlarms).catch(error => {
+    console.error('Failed to sync scheduled task alarms:', error);
+  });
 });
 
 chrome.runtime.onStartup.addListener(() => {
   initializeSidepanel();
+  loadScheduledTasks().then(syncTaskAlarms).catch(error => {
+    console.error('Failed to sync scheduled task alarms:', error);
+  });
 });
 
 // Also initialize immediately (for when service worker wakes up)
@@ -310,8 +800,47 @@ chrome.storage.local.get('browserMemory', (result) => {
   }
 });
 
-// Listen for messages from the sidebar and content scripts
-chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
+// chrome.debugger only exists once the optional "debugger" permission is granted
+let debuggerListenersRegistered = false;
+
+function registerDebuggerListeners() {
+  if (debuggerListenersRegistered || !chrome.debugger) return;
+  debuggerListenersRegistered = true;
+
+  // The user dismissed the debugging bar or the tab navigated somewhere the debugger can't stay
+  chrome.debugger.onDetach.addListener((source) => {
+    if (source.tabId !== undefined) {
+      handleDebuggerDetach(source.tabId);
+      stopBodyCapture(source.tabId);
+    }
+  });
+
+  // Network domain events for getNetworkLog response bodies
+  chrome.debugger.onEvent.addListener((source, method, params) => {
+    if (source.tabId !== undefined && method.startsWith('Network.')) {
+      handleNetworkEvent(source.tabId, method, params);
+    }
+  });
+}
+
+registerDebuggerListeners();
+// Debugger state lives in memory - sessions a previous service worker left attached are unused now
+detachLeftoverSessions();
+chrome.permissions.onAdded.addListener((permissions) => {
+  if (permissions.permissions?.includes('debugger')) {
+    registerDebuggerListeners();
+  }
+});
+
+/**
+ * Handle a message from the sidebar or a content script (scheduled runs call it directly, see dispatchRuntimeMessage)
+ * @returns true when sendResponse will be called asynchronously
+ */
+function handleRuntimeMessage(
+  request: any,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: any) => void
+): boolean | undefined {
   // Get current tab info
   if (request.type === 'GET_TAB_INFO') {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
@@ -420,12 +949,15 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   if (request.type === 'GET_PAGE_CONTEXT') {
     (async () => {
       try {
-        const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+        const tabs = await getTargetTabs(request);
         if (tabs[0]?.id) {
           // Focus the tab before getting page context to ensure accurate DOM state
-          await focusTabAndWindow(tabs[0].id);
+          // (a background working tab is read where it is - activating it would switch the sidepanel's conversation)
+          if (tabs[0].active) {
+            await focusTabAndWindow(tabs[0].id);
+          }
           await ensureContentScript(tabs[0].id);
-          const response = await chrome.tabs.sendMessage(tabs[0].id, { type: 'GET_PAGE_CONTEXT' });
+          const response = await chrome.tabs.sendMessage(tabs[0].id, { type: 'GET_PAGE_CONTEXT' }, { frameId: 0 });
           sendResponse(response); // Return response directly, not wrapped
         } else {
           sendResponse({ success: false, error: 'No active tab found' });
@@ -437,17 +969,82 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  if (request.type === 'READ_PAGE') {
+    (async () => {
+      try {
+        const tabs = await getTargetTabs(request);
+        if (tabs[0]?.id) {
+          await ensureContentScript(tabs[0].id);
+          const response = await chrome.tabs.sendMessage(tabs[0].id, {
+            type: 'READ_PAGE',
+            offset: request.offset,
+            sectionId: request.sectionId,
+            maxChars: request.maxChars
+          }, { frameId: 0 });
+          sendResponse(response);
+        } else {
+          sendResponse({ success: false, error: 'No active tab found' });
+        }
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (request.type === 'GET_ACCESSIBILITY_SNAPSHOT') {
+    (async () => {
+      try {
+        const tabs = await getTargetTabs(request);
+        if (tabs[0]?.id) {
+          if (tabs[0].active) {
+            await focusTabAndWindow(tabs[0].id);
+          }
+          const tabId = tabs[0].id;
+          await ensureContentScript(tabId);
+          const snapshot = await chrome.tabs.sendMessage(tabId, {
+            type: 'GET_ACCESSIBILITY_SNAPSHOT',
+            interactiveOnly: request.interactiveOnly
+          }, { frameId: 0 });
+
+          // Cross-origin frames are snapshotted by their own content script, with frame-qualified refs
+          const frames = await ensureFrameContentScripts(tabId);
+          const frameSnapshots = await Promise.allSettled(frames
+            .filter(frame => frame.frameId !== 0)
+            .map(async frame => ({
+              frame,
+              result: await chrome.tabs.sendMessage(tabId, {
+                type: 'GET_ACCESSIBILITY_SNAPSHOT',
+                interactiveOnly: request.interactiveOnly,
+                refPrefix: `f${frame.frameId}:`
+              }, { frameId: frame.frameId })
+            })));
+
+          for (const settled of frameSnapshots) {
+            if (settled.status !== 'fulfilled') continue;
+            const { frame, result } = settled.value;
+            if (!result?.snapshot || result.refCount === 0) continue;
+            snapshot.snapshot += `\n\n[Frame ${frame.frameId}: ${frame.url}]\n${result.snapshot}`;
+            snapshot.refCount += result.refCount;
+            snapshot.truncated = snapshot.truncated || result.truncated;
+          }
+          sendResponse(snapshot);
+        } else {
+          sendResponse({ success: false, error: 'No active tab found' });
+        }
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
   // Abort all browser operations
   if (request.type === 'ABORT_ALL_BROWSER_OPERATIONS') {
-    const tabId = _sender.tab?.id;
+    const tabId = sender.tab?.id;
     if (tabId !== undefined) {
       console.log(`🛑 ABORT_ALL_BROWSER_OPERATIONS received for tab ${tabId}`);
-      setTabAbortFlag(tabId, true);
-      // Reset the abort flag after a short delay to allow for new operations
-      setTimeout(() => {
-        clearTabAbortFlag(tabId);
-        console.log(`✅ Tab ${tabId} abort flag cleared - ready for new operations`);
-      }, 1000);
+      abortTabOperations(tabId);
     } else {
       console.warn('⚠️ ABORT_ALL_BROWSER_OPERATIONS received but no tab ID available');
     }
@@ -455,11 +1052,31 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  // Trusted click/keystroke requested by content.ts while executing an action
+  if (request.type === 'TRUSTED_INPUT') {
+    (async () => {
+      const tabId = sender.tab?.id;
+      // CDP coordinates are relative to the top frame's viewport
+      if (tabId === undefined || sender.frameId !== 0) {
+        sendResponse({ success: false, error: 'Trusted input is only available in the top frame' });
+        return;
+      }
+      try {
+        await dispatchTrustedInput(tabId, request.input);
+        sendResponse({ success: true });
+      } catch (error) {
+        console.warn(`⚠️ Trusted input failed on tab ${tabId}:`, error);
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
   // Execute action on page
   if (request.type === 'EXECUTE_ACTION') {
     (async () => {
       try {
-        const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+        const tabs = await getTargetTabs(request);
         const tabId = tabs[0]?.id;
 
         // Check if operations should be aborted for this specific tab
@@ -472,22 +1089,62 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
         if (tabId) {
           // CRITICAL: Focus the browser window before executing actions
           // This ensures dropdowns and modals render properly (they often check document.hasFocus())
-          await focusTabAndWindow(tabId);
+          if (tabs[0].active) {
+            await focusTabAndWindow(tabId);
+          }
 
           await ensureContentScript(tabId);
-          const response = await chrome.tabs.sendMessage(tabId, {
-            type: 'EXECUTE_ACTION',
-            action: request.action,
-            target: request.target,
-            selector: request.selector,
-            value: request.value,
-            key: request.key,
-            keys: request.keys,
-            coordinates: request.coordinates,
-            destination: request.destination,
-            direction: request.direction,
-            amount: request.amount
-          });
+          // Refs from cross-origin frames go to that frame's content script
+          const frameId = getRefFrameId(request.ref);
+          if (frameId !== 0) {
+            await ensureFrameContentScripts(tabId);
+          }
+          const urlBefore = tabs[0].url;
+          const { atlasSettings } = await chrome.storage.local.get('atlasSettings');
+          let inputBackend = getInputBackendForUrl(urlBefore, atlasSettings);
+          if (inputBackend === 'cdp' && !(await hasDebuggerPermission())) {
+            console.warn('⚠️ Trusted input is configured but the debugger permission is not granted - using DOM events');
+            inputBackend = 'dom';
+          }
+          let response;
+          try {
+            response = await chrome.tabs.sendMessage(tabId, {
+              type: 'EXECUTE_ACTION',
+              action: request.action,
+              target: request.target,
+              selector: request.selector,
+              value: request.value,
+              key: request.key,
+              keys: request.keys,
+              coordinates: request.coordinates,
+              destination: request.destination,
+              direction: request.direction,
+              amount: request.amount,
+              ref: request.ref,
+              values: request.values,
+              checked: request.checked,
+              files: request.files,
+              formValues: request.formValues,
+              inputBackend
+            }, { frameId });
+          } catch (error) {
+            // The page unloaded before answering - a navigation is only a failure if the URL stayed the same
+            const tab = await chrome.tabs.get(tabId);
+            if (tab.url === urlBefore) throw error;
+            response = { success: true, message: `${request.action} started a navigation`, changes: { navigating: true } };
+          }
+
+          // Full navigations are only visible from here - report where the action led
+          if (response?.changes?.navigating) {
+            await pollUntil(async () => (await chrome.tabs.get(tabId)).status === 'complete', Date.now() + ACTION_NAVIGATION_WAIT_MS);
+            const tab = await chrome.tabs.get(tabId);
+            response.changes = {
+              ...response.changes,
+              navigating: tab.status !== 'complete',
+              ...(tab.url !== urlBefore && { urlChanged: { from: urlBefore, to: tab.url } }),
+              title: tab.title
+            };
+          }
           sendResponse(response);
         } else {
           sendResponse({ success: false, error: 'No active tab found' });
@@ -503,6 +1160,14 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   if (request.type === 'TAKE_SCREENSHOT') {
     (async () => {
       try {
+        // captureVisibleTab can only see the tab in front
+        if (typeof request.tabId === 'number' && !(await chrome.tabs.get(request.tabId)).active) {
+          sendResponse({
+            success: false,
+            error: `Tab ${request.tabId} is a background working tab - screenshots only capture the visible tab. Use getPageContext or readPage instead.`
+          });
+          return;
+        }
 
         // Define restricted protocols (but allow regular web pages)
         const restrictedProtocols = ['chrome://', 'chrome-extension://', 'edge://', 'about:', 'devtools://'];
@@ -575,16 +1240,35 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           await focusTabAndWindow(activeTab.id);
         }
 
+        // Set-of-marks mode: number the interactive elements before capturing
+        let marks: any[] | undefined;
+        if (request.marks && activeTab.id) {
+          try {
+            await ensureContentScript(activeTab.id);
+            const drawn = await chrome.tabs.sendMessage(activeTab.id, { type: 'DRAW_SET_OF_MARKS' }, { frameId: 0 });
+            marks = drawn?.marks;
+          } catch (error) {
+            console.warn('⚠️ Could not draw set-of-marks, capturing without them:', error);
+          }
+        }
+
         // Capture the visible tab in the current window
-        const originalDataUrl = await chrome.tabs.captureVisibleTab(currentWindow.id, {
-          format: 'png',
-          quality: 80
-        });
+        let originalDataUrl: string;
+        try {
+          originalDataUrl = await chrome.tabs.captureVisibleTab(currentWindow.id, {
+            format: 'png',
+            quality: 80
+          });
+        } finally {
+          if (marks && activeTab.id) {
+            chrome.tabs.sendMessage(activeTab.id, { type: 'CLEAR_SET_OF_MARKS' }, { frameId: 0 }).catch(() => {});
+          }
+        }
 
         // Get viewport dimensions from the tab
         const viewport = await chrome.tabs.sendMessage(activeTab.id!, {
           type: 'GET_VIEWPORT_SIZE'
-        }).catch(() => ({ width: 1280, height: 800 })); // Fallback dimensions
+        }, { frameId: 0 }).catch(() => ({ width: 1280, height: 800 })); // Fallback dimensions
 
         // Resize the screenshot BEFORE saving (so saved screenshot matches what Claude sees)
         const resized = await resizeScreenshot(originalDataUrl);
@@ -616,7 +1300,8 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           success: true,
           screenshot: resized.dataUrl,
           viewport: viewport,
-          imageSize: { width: resized.width, height: resized.height }
+          imageSize: { width: resized.width, height: resized.height },
+          ...(marks && { marks })
         });
       } catch (error) {
         console.error('❌ Screenshot capture error:', error);
@@ -640,7 +1325,7 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   if (request.type === 'NAVIGATE') {
     (async () => {
       try {
-        const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+        const tabs = await getTargetTabs(request);
         const tabId = tabs[0]?.id;
 
         // Check if operations should be aborted for this specific tab
@@ -663,6 +1348,356 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  // Open a URL in a new background tab in the agent's tab group
+  if (request.type === 'OPEN_TAB') {
+    (async () => {
+      try {
+        const [currentTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        const tab = await chrome.tabs.create({
+          url: request.url,
+          active: false,
+          ...(currentTab && { windowId: currentTab.windowId, index: currentTab.index + 1, openerTabId: currentTab.id })
+        });
+        if (tab.id === undefined) {
+          sendResponse({ success: false, error: 'Tab could not be created' });
+          return;
+        }
+        const tabId = tab.id;
+        agentOpenedTabs.add(tabId);
+        // Keep the sidepanel available if the user looks at the tab
+        enableTab(tabId);
+        await chrome.sidePanel.setOptions({ tabId, path: 'sidepanel.html', enabled: true });
+        await addToAgentTabGroup(tab);
+
+        await pollUntil(async () => (await chrome.tabs.get(tabId)).status === 'complete', Date.now() + OPEN_TAB_LOAD_TIMEOUT_MS);
+        const loaded = await chrome.tabs.get(tabId);
+        console.log(`🗂️ Agent opened tab ${tabId}: ${loaded.url}`);
+        sendResponse({ success: true, tabId, url: loaded.url || request.url, title: loaded.title, loading: loaded.status !== 'complete' });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  // List the tabs in the current window
+  if (request.type === 'LIST_TABS') {
+    (async () => {
+      try {
+        const tabs = await chrome.tabs.query({ currentWindow: true });
+        const listed = await Promise.all(tabs.map(async tab => ({
+          tabId: tab.id,
+          title: tab.title,
+          url: tab.url,
+          active: tab.active,
+          openedByAgent: await isAgentTab(tab)
+        })));
+        sendResponse({ success: true, tabs: listed });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  // Check the tab the agent wants to work on - the sidepanel keeps track of the working tab
+  if (request.type === 'SWITCH_TAB') {
+    (async () => {
+      try {
+        const tab = await chrome.tabs.get(request.tabId);
+        sendResponse({ success: true, tabId: tab.id, url: tab.url, title: tab.title, active: tab.active });
+      } catch {
+        sendResponse({ success: false, error: `No tab with id ${request.tabId} - call listTabs for current ids` });
+      }
+    })();
+    return true;
+  }
+
+  // Close a tab the agent opened
+  if (request.type === 'CLOSE_TAB') {
+    (async () => {
+      try {
+        const tab = await chrome.tabs.get(request.tabId);
+        if (!(await isAgentTab(tab))) {
+          sendResponse({ success: false, error: `Tab ${request.tabId} was not opened by the agent - only tabs from openTab can be closed` });
+          return;
+        }
+        await chrome.tabs.remove(request.tabId);
+        sendResponse({ success: true, tabId: request.tabId, message: `Closed tab ${request.tabId}` });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  // Wait for page conditions (URL, DOM, network) - checked in that order, each within the overall timeout
+  if (request.type === 'WAIT_FOR') {
+    (async () => {
+      try {
+        const tabs = await getTargetTabs(request);
+        const tabId = tabs[0]?.id;
+        if (!tabId) {
+          sendResponse({ success: false, error: 'No active tab found' });
+          return;
+        }
+
+        const startedAt = Date.now();
+        const deadline = startedAt + request.timeoutMs;
+        const conditions: Array<{ condition: string; met: boolean; detail?: string }> = [];
+        const isAborted = () => getTabAbortFlag(tabId) || (tabAbortedAt[tabId] ?? 0) >= startedAt;
+
+        if (request.urlPattern) {
+          let currentUrl = '';
+          const met = await pollUntil(async () => {
+            const tab = await chrome.tabs.get(tabId);
+            currentUrl = tab.url || tab.pendingUrl || '';
+            return isAborted() || matchesWaitUrlPattern(currentUrl, request.urlPattern);
+          }, deadline);
+          conditions.push({ condition: `URL matches ${request.urlPattern}`, met: met && !isAborted(), detail: currentUrl });
+        }
+
+        const hasDomConditions = !!(request.selector || request.text || request.domStableMs);
+        if (hasDomConditions && !isAborted()) {
+          const domConditions = {
+            selector: request.selector,
+            selectorState: request.selectorState,
+            text: request.text,
+            domStableMs: request.domStableMs
+          };
+          let domResult: { met: boolean; conditions: Array<{ condition: string; met: boolean; detail?: string }> } | null = null;
+          // A navigation destroys the content script mid-wait - re-inject and keep waiting until the deadline
+          while (!domResult?.met && Date.now() < deadline && !isAborted()) {
+            try {
+              await ensureContentScript(tabId);
+              domResult = await chrome.tabs.sendMessage(tabId, {
+                type: 'WAIT_FOR_DOM',
+                conditions: domConditions,
+                timeoutMs: Math.max(deadline - Date.now(), 0)
+              }, { frameId: 0 });
+            } catch (error) {
+              console.log(`⏳ WAIT_FOR: page changed while waiting (${(error as Error).message}), retrying`);
+              await new Promise(resolve => setTimeout(resolve, WAIT_POLL_INTERVAL_MS));
+            }
+          }
+          conditions.push(...(domResult?.conditions || [{ condition: 'DOM conditions', met: false, detail: 'page did not respond' }]));
+        }
+
+        if (request.networkIdleMs !== undefined && !isAborted()) {
+          let activeRequests = 0;
+          const met = await pollUntil(() => {
+            activeRequests = getActiveRequestCount(tabId);
+            const quietFor = Date.now() - getTabNetworkActivity(tabId).lastActivity;
+            return isAborted() || (activeRequests === 0 && quietFor >= request.networkIdleMs);
+          }, deadline);
+          conditions.push({
+            condition: `network idle for ${request.networkIdleMs}ms`,
+            met: met && !isAborted(),
+            detail: `${activeRequests} request(s) in flight`
+          });
+        }
+
+        if (isAborted()) {
+          sendResponse({ success: false, error: 'Wait aborted by user', aborted: true });
+          return;
+        }
+
+        const elapsedMs = Date.now() - startedAt;
+        const unmet = conditions.filter(result => !result.met);
+        const tab = await chrome.tabs.get(tabId);
+        console.log(`⏳ WAIT_FOR finished in ${elapsedMs}ms - ${unmet.length === 0 ? 'all conditions met' : `${unmet.length} unmet`}`);
+        sendResponse({
+          success: unmet.length === 0,
+          timedOut: unmet.length > 0,
+          elapsedMs,
+          url: tab.url,
+          conditions,
+          ...(unmet.length > 0 && {
+            error: `Timed out after ${elapsedMs}ms waiting for: ${unmet.map(result => result.condition).join(', ')}`
+          })
+        });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  // Recent requests of a tab, optionally with captured same-origin JSON response bodies
+  if (request.type === 'GET_NETWORK_LOG') {
+    (async () => {
+      try {
+        const tabs = await getTargetTabs(request);
+        const tabId = tabs[0]?.id;
+        if (!tabId) {
+          sendResponse({ success: false, error: 'No active tab found' });
+          return;
+        }
+
+        let bodyCapture: 'off' | 'active' | 'started' | 'unavailable' = isCapturingBodies(tabId) ? 'active' : 'off';
+        let bodyCaptureError: string | undefined;
+        if (request.includeBodies) {
+          try {
+            // Also keeps an active capture from stopping as idle
+            await startBodyCapture(tabId);
+            if (bodyCapture === 'off') bodyCapture = 'started';
+          } catch (error) {
+            bodyCapture = 'unavailable';
+            bodyCaptureError = (error as Error).message;
+          }
+        }
+
+        const now = Date.now();
+        const method = request.method?.toUpperCase();
+        const urlContains = request.urlContains?.toLowerCase();
+        const resourceType = request.resourceType || 'xhr';
+        const statusFilter = request.status || 'all';
+        const matching = getTabNetworkActivity(tabId).log.filter(entry => {
+          if (urlContains && !entry.url.toLowerCase().includes(urlContains)) return false;
+          if (method && entry.method !== method) return false;
+          if (resourceType === 'xhr' && entry.type !== 'xmlhttprequest' && entry.type !== 'ping' && entry.type !== 'other') return false;
+          if (resourceType === 'document' && entry.type !== 'main_frame' && entry.type !== 'sub_frame') return false;
+          if (request.sinceMs !== undefined && now - entry.startedAt > request.sinceMs) return false;
+          const failed = !!entry.error || (entry.status !== undefined && entry.status >= 400);
+          if (statusFilter === 'failed' && !failed) return false;
+          if (statusFilter === 'success' && (failed || entry.status === undefined)) return false;
+          return true;
+        });
+
+        const limit = request.limit || 50;
+        const entries = matching.slice(-limit).map(entry => {
+          const captured = request.includeBodies ? findCapturedBody(tabId, entry.url, entry.method, entry.startedAt) : null;
+          return {
+            url: entry.url,
+            method: entry.method,
+            type: entry.type,
+            status: entry.status ?? (entry.error ? undefined : 'pending'),
+            error: entry.error,
+            durationMs: entry.durationMs,
+            fromCache: entry.fromCache || undefined,
+            startedMsAgo: now - entry.startedAt,
+            ...(captured && { responseBody: captured.body, responseBodyTruncated: captured.truncated || undefined })
+          };
+        });
+
+        console.log(`🌐 GET_NETWORK_LOG: ${entries.length} of ${matching.length} matching request(s) on tab ${tabId}`);
+        sendResponse({
+          success: true,
+          tabId,
+          totalMatching: matching.length,
+          entries,
+          ...(request.includeBodies && {
+            bodyCapture,
+            note: bodyCapture === 'started'
+              ? 'Response body capture just started - only requests made from now on include bodies. Repeat the action, then call getNetworkLog again.'
+              : bodyCapture === 'unavailable'
+                ? `Response bodies are unavailable on this page: ${bodyCaptureError}`
+                : 'Bodies are captured for same-origin JSON responses only.'
+          })
+        });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  // Extract structured data, following pagination for up to maxPages pages
+  if (request.type === 'EXTRACT_DATA') {
+    (async () => {
+      try {
+        const tabs = await getTargetTabs(request);
+        const tabId = tabs[0]?.id;
+        if (!tabId) {
+          sendResponse({ success: false, error: 'No active tab found' });
+          return;
+        }
+
+        const rows: any[] = [];
+        const seenRows = new Set<string>();
+        let firstPage: any = null;
+        let pagesVisited = 0;
+        let stoppedReason: string | undefined;
+
+        while (pagesVisited < request.maxPages) {
+          if (getTabAbortFlag(tabId)) {
+            stoppedReason = 'aborted by user';
+            break;
+          }
+          await ensureContentScript(tabId);
+          const page = await chrome.tabs.sendMessage(tabId, {
+            type: 'EXTRACT_DATA',
+            selector: request.selector,
+            source: request.source,
+            columns: request.columns
+          }, { frameId: 0 });
+          pagesVisited++;
+
+          if (!page?.success) {
+            if (!firstPage) {
+              sendResponse(page || { success: false, error: 'Page did not respond' });
+              return;
+            }
+            stoppedReason = `page ${pagesVisited}: ${page?.error || 'no data'}`;
+            break;
+          }
+          firstPage = firstPage || page;
+
+          // "Load more" pages repeat earlier rows - keep each row once
+          for (const row of page.rows) {
+            const key = JSON.stringify(row);
+            if (!seenRows.has(key)) {
+              seenRows.add(key);
+              rows.push(row);
+            }
+          }
+
+          if (pagesVisited >= request.maxPages) break;
+          if (!page.nextPage) {
+            stoppedReason = 'no next page';
+            break;
+          }
+
+          console.log(`📊 EXTRACT_DATA: page ${pagesVisited} gave ${page.rows.length} rows, moving to next page`, page.nextPage);
+          if (page.nextPage.href) {
+            await chrome.tabs.update(tabId, { url: page.nextPage.href });
+            await new Promise(resolve => setTimeout(resolve, 500));
+          } else {
+            await chrome.tabs.sendMessage(tabId, { type: 'EXECUTE_ACTION', action: 'click', selector: page.nextPage.selector }, { frameId: 0 });
+          }
+          const deadline = Date.now() + 15000;
+          await pollUntil(async () => (await chrome.tabs.get(tabId)).status === 'complete', deadline);
+          try {
+            await ensureContentScript(tabId);
+            await chrome.tabs.sendMessage(tabId, {
+              type: 'WAIT_FOR_DOM',
+              conditions: { domStableMs: 800 },
+              timeoutMs: Math.max(deadline - Date.now(), 1000)
+            }, { frameId: 0 });
+          } catch (error) {
+            console.warn('⚠️ EXTRACT_DATA: page did not settle:', error);
+          }
+        }
+
+        sendResponse({
+          success: true,
+          source: firstPage.source,
+          columns: firstPage.columns,
+          rows,
+          rowCount: rows.length,
+          pagesVisited,
+          url: firstPage.url,
+          title: firstPage.title,
+          truncated: firstPage.truncated,
+          ...(stoppedReason && request.maxPages > 1 && { stoppedReason })
+        });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
   if (request.type === 'EXECUTE_SCRIPT') {
     sendResponse({
       success: false,
@@ -688,6 +1723,30 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  // Sidepanel picks up chat input queued by a context menu item or keyboard command
+  if (request.type === 'TAKE_PANEL_REQUEST') {
+    const panelRequest = pendingPanelRequests.get(request.tabId) || null;
+    pendingPanelRequests.delete(request.tabId);
+    sendResponse({ request: panelRequest });
+    return false;
+  }
+
+  // "Run now" from Settings
+  if (request.type === 'RUN_SCHEDULED_TASK') {
+    (async () => {
+      const task = (await loadScheduledTasks()).find(candidate => candidate.id === request.taskId);
+      sendResponse(task ? await startScheduledRun(task, 'manual') : { success: false, error: 'Task not found' });
+    })();
+    return true;
+  }
+
+  // "Stop" from Settings
+  if (request.type === 'STOP_SCHEDULED_TASK') {
+    const stopped = activeScheduledRun?.taskId === request.taskId && stopScheduledRun('Stopped by the user');
+    sendResponse(stopped ? { success: true } : { success: false, error: 'This task is not running' });
+    return false;
+  }
+
   // Page loaded notification from content script
   if (request.type === 'PAGE_LOADED') {
     console.log('Page loaded:', request.url);
@@ -711,6 +1770,9 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     })();
     return true;
   }
-});
+}
+
+// Listen for messages from the sidebar and content scripts
+chrome.runtime.onMessage.addListener(handleRuntimeMessage);
 
 console.log('Atlas background service worker loaded');
@@ -0,0 +1,933 @@
+/**
+ * Browser Tool Registry - Single source of truth for the browser tools the agent can use
+ *
+ * Each tool declares:
+ * - its JSON schema (sent to the model)
+ * - its zod schema (validates the model's input before dispatch)
+ * - the runtime message it maps to (handled by background.ts / content.ts)
+ * - whether it changes the page (used by tool-scheduler.ts) and whether it needs user confirmation
+ *
+ * The model's tool list (anthropic-browser-tools.ts) and the sidepanel dispatcher are both
+ * generated from this registry, so a tool can't be exposed without being dispatchable or vice versa.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Page actions handled by executePageAction in content.ts
+ */
+export type PageActionName =
+  | 'click'
+  | 'fill'
+  | 'scroll'
+  | 'keyboard_type'
+  | 'press_key'
+  | 'clear_input'
+  | 'key_combination'
+  | 'hover'
+  | 'drag_drop'
+  | 'mouse_move'
+  | 'select_option'
+  | 'set_checked'
+  | 'set_date'
+  | 'upload_file'
+  | 'fill_form';
+
+/**
+ * File sent to content.ts for upload_file (taken from a conversation attachment)
+ */
+export interface UploadFilePayload {
+  name: string;
+  mimeType: string;
+  dataBase64: string;
+}
+
+/**
+ * EXECUTE_ACTION message relayed by background.ts to content.ts
+ */
+export interface PageActionMessage {
+  type: 'EXECUTE_ACTION';
+  action: PageActionName;
+  target?: string;
+  value?: string;
+  selector?: string;
+  coordinates?: { x: number; y: number };
+  direction?: string;
+  amount?: number;
+  key?: string;
+  keys?: string[];
+  destination?: { x: number; y: number };
+  ref?: string; // Element ref from the latest accessibility snapshot
+  values?: string[]; // select_option: option values or visible labels
+  checked?: boolean; // set_checked: desired state
+  files?: UploadFilePayload[]; // upload_file
+  formValues?: Record<string, string | boolean | string[]>; // fill_form: label-to-value mapping (omit to detect fields)
+}
+
+/**
+ * WAIT_FOR message handled by background.ts (URL, network) and content.ts (DOM conditions)
+ */
+export interface WaitForMessage {
+  type: 'WAIT_FOR';
+  selector?: string;
+  selectorState?: 'visible' | 'hidden'; // Wait for the selector to appear (default) or disappear
+  text?: string; // Text that must be present on the page
+  urlPattern?: string; // Substring, glob with * or /regex/
+  networkIdleMs?: number; // No requests in flight for this long
+  domStableMs?: number; // No DOM mutations for this long
+  timeoutMs: number;
+}
+
+/**
+ * One column of the target row schema for extractData
+ */
+export interface ExtractColumn {
+  name: string;
+  type?: 'string' | 'number' | 'boolean' | 'url';
+  description?: string;
+}
+
+/**
+ * EXTRACT_DATA message - background.ts follows pagination, content.ts extracts each page
+ */
+export interface ExtractDataMessage {
+  type: 'EXTRACT_DATA';
+  selector?: string;
+  source?: 'auto' | 'table' | 'list';
+  columns?: ExtractColumn[];
+  maxPages: number;
+}
+
+/**
+ * GET_NETWORK_LOG message handled by background.ts (webRequest log, CDP response bodies)
+ */
+export interface NetworkLogMessage {
+  type: 'GET_NETWORK_LOG';
+  urlContains?: string;
+  method?: string;
+  status?: 'all' | 'success' | 'failed'; // failed = network error or HTTP 4xx/5xx
+  resourceType?: 'xhr' | 'document' | 'all'; // xhr = fetch/XHR/beacons (default)
+  sinceMs?: number; // Only requests started within the last sinceMs
+  limit?: number; // Most recent matching entries to return
+  includeBodies?: boolean; // Attach captured same-origin JSON response bodies (starts capture on first use)
+  tabId?: number;
+}
+
+/**
+ * Runtime messages a browser tool can map to
+ */
+export type BrowserToolMessage =
+  | PageActionMessage
+  | { type: 'NAVIGATE'; url: string }
+  | { type: 'GET_PAGE_CONTEXT'; tabId?: number }
+  | { type: 'READ_PAGE'; offset?: number; sectionId?: string; maxChars?: number; tabId?: number }
+  | { type: 'GET_ACCESSIBILITY_SNAPSHOT'; interactiveOnly?: boolean }
+  | { type: 'TAKE_SCREENSHOT'; marks?: boolean }
+  | WaitForMessage
+  | ExtractDataMessage
+  | NetworkLogMessage
+  | { type: 'GET_HISTORY'; query?: string; maxResults?: number }
+  | TabToolMessage;
+
+/**
+ * Tab management messages handled by background.ts
+ * (switching only changes which tab the sidepanel sends later tool calls to - the user's view stays put)
+ */
+export type TabToolMessage =
+  | { type: 'OPEN_TAB'; url: string }
+  | { type: 'LIST_TABS' }
+  | { type: 'SWITCH_TAB'; tabId: number }
+  | { type: 'CLOSE_TAB'; tabId: number };
+
+/**
+ * Sidepanel state a tool may need to build its message
+ */
+export interface BrowserToolContext {
+  lastTypedSelector?: string; // Selector of the field the agent last typed into (per tab)
+  attachments?: UploadFilePayload[]; // Files attached to the conversation (per tab, in memory only)
+}
+
+export interface BrowserToolDefinition<P = any> {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>; // JSON schema sent to the model
+  params: z.ZodType<P, z.ZodTypeDef, any>; // Validates (and coerces) the model's input
+  mutatesPage: boolean; // false = read-only, may run in parallel with other reads
+  requiresConfirmation: boolean; // Ask the user before running
+  toMessage: (params: P, context: BrowserToolContext) => BrowserToolMessage;
+}
+
+/**
+ * Identity helper so each definition infers its own parameter type
+ */
+function defineTool<P>(tool: BrowserToolDefinition<P>): BrowserToolDefinition<P> {
+  return tool;
+}
+
+// Models occasionally send numbers as strings - accept both
+const coordinate = z.coerce.number();
+
+const MAX_EXTRACT_PAGES = 10;
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+const MAX_WAIT_TIMEOUT_MS = 60000;
+
+const MAX_NETWORK_LOG_LIMIT = 200;
+
+const MARK_PROPERTY = {
+  type: 'number',
+  description: 'Number of a mark drawn on the latest screenshot - no coordinate conversion needed',
+};
+
+// Screenshot marks are resolved by content.ts like snapshot refs
+const markToRef = (mark: number | undefined, ref?: string) => (mark !== undefined ? `mark:${mark}` : ref);
+
+const TAB_ID_PROPERTY = {
+  type: 'number',
+  description: 'Tab id from listTabs or openTab',
+};
+
+const REF_PROPERTY = {
+  type: 'string',
+  description: 'Element ref from getAccessibilitySnapshot (e.g. "s1e12", or "f7:s1e3" inside a frame) - most reliable target',
+};
+
+// Form control tools find their element by ref, CSS selector or visible label
+const FORM_CONTROL_PROPERTIES = {
+  ref: REF_PROPERTY,
+  selector: { type: 'string', description: 'CSS selector of the control' },
+  label: { type: 'string', description: 'Visible label, aria-label or placeholder of the control' },
+};
+
+const formControlTarget = {
+  ref: z.string().optional(),
+  selector: z.string().optional(),
+  label: z.string().optional(),
+};
+
+const formFieldValue = z.union([z.string(), z.boolean(), z.number().transform(String), z.array(z.string())]);
+
+const hasFormControlTarget = (p: { ref?: string; selector?: string; label?: string }) => !!(p.ref || p.selector || p.label);
+const FORM_CONTROL_TARGET_MESSAGE = 'ref, selector or label is required';
+
+const BROWSER_TOOLS: BrowserToolDefinition[] = [
+  defineTool({
+    name: 'navigate',
+    description: 'Navigate to a specific URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'The URL to navigate to (must include http:// or https://)',
+        },
+      },
+      required: ['url'],
+    },
+    params: z.object({ url: z.string().min(1) }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ url }) => ({ type: 'NAVIGATE', url }),
+  }),
+  defineTool({
+    name: 'clickElement',
+    description: 'Click an element using CSS selector or text content. PREFERRED method.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: {
+          type: 'string',
+          description: 'CSS selector for the element',
+        },
+        text: {
+          type: 'string',
+          description: 'Alternative: text content to search for',
+        },
+        ref: REF_PROPERTY,
+      },
+    },
+    params: z.object({ selector: z.string().optional(), text: z.string().optional(), ref: z.string().optional() })
+      .refine(p => !!(p.selector || p.text || p.ref), { message: 'ref, selector or text is required' }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ selector, text, ref }) => ({ type: 'EXECUTE_ACTION', action: 'click', selector, target: text, ref }),
+  }),
+  defineTool({
+    name: 'click',
+    description: 'Click a numbered mark from the latest screenshot, a CSS selector, or viewport coordinates (last resort).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        mark: MARK_PROPERTY,
+        selector: { type: 'string', description: 'CSS selector for the element' },
+        x: { type: 'number', description: 'X coordinate' },
+        y: { type: 'number', description: 'Y coordinate' },
+      },
+    },
+    params: z.object({
+      mark: coordinate.pipe(z.number().int().positive()).optional(),
+      selector: z.string().optional(),
+      x: coordinate.optional(),
+      y: coordinate.optional(),
+    }).refine(p => p.mark !== undefined || !!p.selector || (p.x !== undefined && p.y !== undefined), {
+      message: 'mark, selector or x and y are required',
+    }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ mark, selector, x, y }) => ({
+      type: 'EXECUTE_ACTION',
+      action: 'click',
+      selector,
+      coordinates: mark === undefined && x !== undefined && y !== undefined ? { x, y } : undefined,
+      ref: markToRef(mark),
+    }),
+  }),
+  defineTool({
+    name: 'type',
+    description: 'Type text into input field. Automatically finds editable elements if no selector provided. Prefers DOM-based targeting over coordinates.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Text to type' },
+        selector: { type: 'string', description: 'CSS selector for input (optional - will auto-find editable elements)' },
+        ref: REF_PROPERTY,
+      },
+      required: ['text'],
+    },
+    params: z.object({ text: z.string(), selector: z.string().optional(), ref: z.string().optional() }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ text, selector, ref }) => ({ type: 'EXECUTE_ACTION', action: 'fill', target: selector, value: text, ref }),
+  }),
+  defineTool({
+    name: 'keyboardType',
+    description: 'Type text key by key into the focused element. Use when type fails on custom editors.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Text to type into the focused element' },
+      },
+      required: ['text'],
+    },
+    params: z.object({ text: z.string() }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ text }) => ({ type: 'EXECUTE_ACTION', action: 'keyboard_type', value: text }),
+  }),
+  defineTool({
+    name: 'clearInput',
+    description: 'Clear the focused input field',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    params: z.object({}),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: () => ({ type: 'EXECUTE_ACTION', action: 'clear_input' }),
+  }),
+  defineTool({
+    name: 'scroll',
+    description: 'Scroll the page up/down, or scroll an element (ref or selector) into view',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: {
+          type: 'string',
+          enum: ['up', 'down'],
+          description: 'Scroll direction',
+        },
+        amount: { type: 'number', description: 'Pixels to scroll (default: 500)' },
+        selector: { type: 'string', description: 'CSS selector of an element to scroll into view' },
+        ref: REF_PROPERTY,
+      },
+    },
+    params: z.object({
+      direction: z.enum(['up', 'down']).optional(),
+      amount: coordinate.optional(),
+      selector: z.string().optional(),
+      ref: z.string().optional(),
+    }).refine(p => !!(p.direction || p.selector || p.ref), { message: 'direction, ref or selector is required' }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ direction, amount, selector, ref }) => ({ type: 'EXECUTE_ACTION', action: 'scroll', direction, amount, target: selector, ref }),
+  }),
+  defineTool({
+    name: 'waitFor',
+    description: 'Wait until the page is ready instead of guessing delays: a selector appears or disappears, text is present, the URL matches, the network is idle, or the DOM stops changing. All given conditions must hold. Returns which conditions were met.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: { type: 'string', description: 'CSS selector to wait for' },
+        selectorState: { type: 'string', enum: ['visible', 'hidden'], description: 'Wait for the selector to become visible (default) or hidden/removed' },
+        text: { type: 'string', description: 'Text that must appear on the page (case-insensitive)' },
+        urlPattern: { type: 'string', description: 'URL substring, glob with * (e.g. "*/checkout/*") or /regex/' },
+        networkIdleMs: { type: 'number', description: 'Wait until no network requests for this many ms (e.g. 500)' },
+        domStableMs: { type: 'number', description: 'Wait until the DOM has not changed for this many ms (e.g. 500)' },
+        timeoutMs: { type: 'number', description: `Give up after this many ms (default ${DEFAULT_WAIT_TIMEOUT_MS}, max ${MAX_WAIT_TIMEOUT_MS})` },
+      },
+    },
+    params: z.object({
+      selector: z.string().optional(),
+      selectorState: z.enum(['visible', 'hidden']).optional(),
+      text: z.string().optional(),
+      urlPattern: z.string().optional(),
+      networkIdleMs: coordinate.pipe(z.number().min(0).max(MAX_WAIT_TIMEOUT_MS)).optional(),
+      domStableMs: coordinate.pipe(z.number().min(0).max(MAX_WAIT_TIMEOUT_MS)).optional(),
+      timeoutMs: coordinate.pipe(z.number().positive().max(MAX_WAIT_TIMEOUT_MS)).optional(),
+    }).refine(
+      p => !!(p.selector || p.text || p.urlPattern || p.networkIdleMs !== undefined || p.domStableMs !== undefined),
+      { message: 'at least one of selector, text, urlPattern, networkIdleMs or domStableMs is required' }
+    ),
+    // Not a page change, but it must act as a barrier: later reads should see the page it waited for
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ timeoutMs, ...conditions }) => ({
+      type: 'WAIT_FOR',
+      ...conditions,
+      timeoutMs: timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS,
+    }),
+  }),
+  defineTool({
+    name: 'getNetworkLog',
+    description: 'List the page\'s recent network requests (URL, method, status, duration), most recent last. Use it to check whether a save or submit actually reached the server, or to find the API behind a page. includeBodies adds same-origin JSON responses (captured from the first includeBodies call on).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        urlContains: { type: 'string', description: 'Only requests whose URL contains this text (e.g. "/api/")' },
+        method: { type: 'string', description: 'Only this HTTP method (e.g. "POST")' },
+        status: { type: 'string', enum: ['all', 'success', 'failed'], description: 'failed = network errors and HTTP 4xx/5xx (default all)' },
+        resourceType: { type: 'string', enum: ['xhr', 'document', 'all'], description: 'xhr = fetch/XHR calls (default), document = page and frame loads' },
+        sinceMs: { type: 'number', description: 'Only requests started in the last N ms (e.g. 10000 after an action)' },
+        limit: { type: 'number', description: `Most recent entries to return (default 50, max ${MAX_NETWORK_LOG_LIMIT})` },
+        includeBodies: { type: 'boolean', description: 'Include captured JSON response bodies (attaches the debugger to the tab)' },
+        tabId: { ...TAB_ID_PROPERTY, description: 'Inspect another tab without switching to it' },
+      },
+    },
+    params: z.object({
+      urlContains: z.string().optional(),
+      method: z.string().optional(),
+      status: z.enum(['all', 'success', 'failed']).optional(),
+      resourceType: z.enum(['xhr', 'document', 'all']).optional(),
+      sinceMs: coordinate.pipe(z.number().min(0)).optional(),
+      limit: coordinate.pipe(z.number().int().positive().max(MAX_NETWORK_LOG_LIMIT)).optional(),
+      includeBodies: z.boolean().optional(),
+      tabId: coordinate.pipe(z.number().int()).optional(),
+    }),
+    mutatesPage: false,
+    requiresConfirmation: false,
+    toMessage: (params) => ({ type: 'GET_NETWORK_LOG', ...params }),
+  }),
+  defineTool({
+    name: 'getPageContext',
+    description: 'Get page info. Call first. Pass tabId to read another tab without switching to it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tabId: TAB_ID_PROPERTY,
+      },
+    },
+    params: z.object({ tabId: coordinate.pipe(z.number().int()).optional() }),
+    mutatesPage: false,
+    requiresConfirmation: false,
+    toMessage: ({ tabId }) => ({ type: 'GET_PAGE_CONTEXT', tabId }),
+  }),
+  defineTool({
+    name: 'readPage',
+    description: 'Read the page\'s main content as Markdown (headings, lists, links and tables kept; menus, footers and banners removed). Long pages come in chunks: pass nextOffset from the previous result, or a section id from the returned outline, to continue. Use this to read or summarize documents.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        offset: { type: 'number', description: 'Character offset to start from (default 0)' },
+        sectionId: { type: 'string', description: 'Start at this section of the outline (e.g. "sec4")' },
+        maxChars: { type: 'number', description: 'Characters to return (default 8000, max 20000)' },
+        tabId: { ...TAB_ID_PROPERTY, description: 'Read another tab without switching to it' },
+      },
+    },
+    params: z.object({
+      offset: coordinate.pipe(z.number().int().min(0)).optional(),
+      sectionId: z.string().optional(),
+      maxChars: coordinate.optional(),
+      tabId: coordinate.pipe(z.number().int()).optional(),
+    }),
+    mutatesPage: false,
+    requiresConfirmation: false,
+    toMessage: ({ offset, sectionId, maxChars, tabId }) => ({ type: 'READ_PAGE', offset, sectionId, maxChars, tabId }),
+  }),
+  defineTool({
+    name: 'extractData',
+    description: 'Extract a table or a repeated list/card pattern (search results, listings, products) as JSON rows. Optionally map rows to your own columns and follow "next page" links. The user can download the full result as CSV or JSON.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: { type: 'string', description: 'CSS selector of the table or list container (default: the largest one on the page)' },
+        source: { type: 'string', enum: ['auto', 'table', 'list'], description: 'What to extract (default auto)' },
+        columns: {
+          type: 'array',
+          description: 'Target row schema - columns to return, matched to the page data by name',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Column name, e.g. "title", "price", "url"' },
+              type: { type: 'string', enum: ['string', 'number', 'boolean', 'url'], description: 'Value type (default string)' },
+              description: { type: 'string', description: 'What the column holds' },
+            },
+            required: ['name'],
+          },
+        },
+        maxPages: { type: 'number', description: `Follow pagination for up to this many pages (default 1, max ${MAX_EXTRACT_PAGES})` },
+      },
+    },
+    params: z.object({
+      selector: z.string().optional(),
+      source: z.enum(['auto', 'table', 'list']).optional(),
+      columns: z.union([
+        z.array(z.object({
+          name: z.string(),
+          type: z.enum(['string', 'number', 'boolean', 'url']).optional(),
+          description: z.string().optional(),
+        })),
+        // Also accept a JSON schema for one row: { properties: { price: { type: 'number' } } }
+        z.object({ properties: z.record(z.object({ type: z.string().optional(), description: z.string().optional() })) })
+          .transform(schema => Object.entries(schema.properties).map(([name, property]) => ({
+            name,
+            type: (['string', 'number', 'boolean'].includes(property.type || '') ? property.type : property.type === 'integer' ? 'number' : undefined) as ExtractColumn['type'],
+            description: property.description,
+          }))),
+      ]).optional(),
+      maxPages: coordinate.pipe(z.number().int().min(1).max(MAX_EXTRACT_PAGES)).optional(),
+    }),
+    // May navigate when following pagination
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ selector, source, columns, maxPages }) => ({
+      type: 'EXTRACT_DATA',
+      selector,
+      source,
+      columns,
+      maxPages: maxPages ?? 1,
+    }),
+  }),
+  defineTool({
+    name: 'getAccessibilitySnapshot',
+    description: 'Get the page as an accessibility tree (roles, names, states) with a ref for every element. Use refs as targets for clickElement, type, hover, scroll and the form tools (selectOption, setChecked, setDate, uploadFile). Refs expire when a new snapshot is taken.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        interactiveOnly: { type: 'boolean', description: 'Only list actionable elements and headings (smaller output)' },
+      },
+    },
+    params: z.object({ interactiveOnly: z.boolean().optional() }),
+    mutatesPage: false,
+    requiresConfirmation: false,
+    toMessage: ({ interactiveOnly }) => ({ type: 'GET_ACCESSIBILITY_SNAPSHOT', interactiveOnly }),
+  }),
+  defineTool({
+    name: 'screenshot',
+    description: 'Take screenshot. Last resort if DOM fails. Interactive elements are outlined with numbered marks (listed in the result); act on one with click({mark}) or hover({mark}) instead of measuring coordinates.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        marks: { type: 'boolean', description: 'Draw numbered marks on interactive elements (default true)' },
+      },
+    },
+    params: z.object({ marks: z.boolean().optional() }),
+    mutatesPage: true, // Draws the mark overlay and replaces the page's mark refs; captureVisibleTab is also rate limited
+    requiresConfirmation: false,
+    toMessage: ({ marks }) => ({ type: 'TAKE_SCREENSHOT', marks: marks ?? true }),
+  }),
+  defineTool({
+    name: 'pressKey',
+    description: 'Press key (Enter, Tab, Escape, etc)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: {
+          type: 'string',
+          description: 'Key name',
+        },
+        selector: { type: 'string', description: 'CSS selector of the element to focus first (optional - defaults to the last typed field)' },
+      },
+      required: ['key'],
+    },
+    params: z.object({ key: z.string().min(1), selector: z.string().optional() }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ key, selector }, context) => ({
+      type: 'EXECUTE_ACTION',
+      action: 'press_key',
+      key,
+      // Fall back to the last typed field so Enter submits the right form
+      selector: selector || context.lastTypedSelector,
+    }),
+  }),
+  defineTool({
+    name: 'keyCombo',
+    description: 'Press a key combination, e.g. ["Control", "a"]. Requires user confirmation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Keys to hold together, modifiers first',
+        },
+      },
+      required: ['keys'],
+    },
+    params: z.object({ keys: z.array(z.string()).min(1) }),
+    mutatesPage: true,
+    requiresConfirmation: true,
+    toMessage: ({ keys }) => ({ type: 'EXECUTE_ACTION', action: 'key_combination', keys }),
+  }),
+  defineTool({
+    name: 'hover',
+    description: 'Hover over an element (ref or screenshot mark) or coordinates (opens menus and tooltips)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ref: REF_PROPERTY,
+        mark: MARK_PROPERTY,
+        x: { type: 'number', description: 'X coordinate' },
+        y: { type: 'number', description: 'Y coordinate' },
+      },
+    },
+    params: z.object({
+      x: coordinate.optional(),
+      y: coordinate.optional(),
+      ref: z.string().optional(),
+      mark: coordinate.pipe(z.number().int().positive()).optional(),
+    }).refine(p => !!p.ref || p.mark !== undefined || (p.x !== undefined && p.y !== undefined), { message: 'ref, mark or x and y are required' }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ x, y, ref, mark }) => ({
+      type: 'EXECUTE_ACTION',
+      action: 'hover',
+      coordinates: x !== undefined && y !== undefined ? { x, y } : undefined,
+      ref: markToRef(mark, ref),
+    }),
+  }),
+  defineTool({
+    name: 'mouseMove',
+    description: 'Move the mouse to coordinates without clicking',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        x: { type: 'number', description: 'X coordinate' },
+        y: { type: 'number', description: 'Y coordinate' },
+      },
+      required: ['x', 'y'],
+    },
+    params: z.object({ x: coordinate, y: coordinate }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ x, y }) => ({ type: 'EXECUTE_ACTION', action: 'mouse_move', coordinates: { x, y } }),
+  }),
+  defineTool({
+    name: 'dragDrop',
+    description: 'Drag from one point and drop at another',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        x: { type: 'number', description: 'Start X coordinate' },
+        y: { type: 'number', description: 'Start Y coordinate' },
+        destination_x: { type: 'number', description: 'Drop X coordinate' },
+        destination_y: { type: 'number', description: 'Drop Y coordinate' },
+      },
+      required: ['x', 'y', 'destination_x', 'destination_y'],
+    },
+    params: z.object({ x: coordinate, y: coordinate, destination_x: coordinate, destination_y: coordinate }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ x, y, destination_x, destination_y }) => ({
+      type: 'EXECUTE_ACTION',
+      action: 'drag_drop',
+      coordinates: { x, y },
+      destination: { x: destination_x, y: destination_y },
+    }),
+  }),
+  defineTool({
+    name: 'selectOption',
+    description: 'Choose option(s) in a dropdown - a native <select> or an ARIA combobox/listbox. Match options by value or visible text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...FORM_CONTROL_PROPERTIES,
+        values: { type: 'array', items: { type: 'string' }, description: 'Option values or visible texts (several only for multi-selects)' },
+      },
+      required: ['values'],
+    },
+    params: z.object({ ...formControlTarget, values: z.union([z.string(), z.array(z.string()).min(1)]) })
+      .refine(hasFormControlTarget, { message: FORM_CONTROL_TARGET_MESSAGE }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ ref, selector, label, values }) => ({
+      type: 'EXECUTE_ACTION',
+      action: 'select_option',
+      ref,
+      selector,
+      target: label,
+      values: Array.isArray(values) ? values : [values],
+    }),
+  }),
+  defineTool({
+    name: 'setChecked',
+    description: 'Set a checkbox, switch or radio button to a specific state (no-op if already in that state)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...FORM_CONTROL_PROPERTIES,
+        checked: { type: 'boolean', description: 'true to check/select, false to uncheck' },
+      },
+      required: ['checked'],
+    },
+    params: z.object({ ...formControlTarget, checked: z.boolean() })
+      .refine(hasFormControlTarget, { message: FORM_CONTROL_TARGET_MESSAGE }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ ref, selector, label, checked }) => ({
+      type: 'EXECUTE_ACTION',
+      action: 'set_checked',
+      ref,
+      selector,
+      target: label,
+      checked,
+    }),
+  }),
+  defineTool({
+    name: 'setDate',
+    description: 'Fill a date, time, datetime-local, month or week input. Formats: 2025-03-31, 14:30, 2025-03-31T14:30, 2025-03, 2025-W14.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...FORM_CONTROL_PROPERTIES,
+        value: { type: 'string', description: 'Value in the input type\'s format' },
+      },
+      required: ['value'],
+    },
+    params: z.object({ ...formControlTarget, value: z.string() })
+      .refine(hasFormControlTarget, { message: FORM_CONTROL_TARGET_MESSAGE }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ ref, selector, label, value }) => ({
+      type: 'EXECUTE_ACTION',
+      action: 'set_date',
+      ref,
+      selector,
+      target: label,
+      value,
+    }),
+  }),
+  defineTool({
+    name: 'fillForm',
+    description: 'Fill a whole form in one call. First call without values to get the form\'s fields (label, type, required, current value, options). Then call with one {label, value} per field; checkboxes take "true"/"false", selects and radio groups take an option label. Reports success per field.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ref: { ...REF_PROPERTY, description: 'Ref of the form (or any container of its fields)' },
+        selector: { type: 'string', description: 'CSS selector of the form or container (default: the form with the most visible fields)' },
+        values: {
+          type: 'array',
+          description: 'Fields to fill, e.g. [{"label": "First name", "value": "Ada"}, {"label": "Subscribe", "value": "false"}]. Omit to list the fields.',
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string', description: 'Field label as returned by fillForm' },
+              value: { type: 'string', description: 'Value to enter or option to choose' },
+            },
+            required: ['label', 'value'],
+          },
+        },
+      },
+    },
+    params: z.object({
+      ref: z.string().optional(),
+      selector: z.string().optional(),
+      // Models sometimes send a plain {label: value} object instead of the documented array
+      values: z.union([
+        z.array(z.object({ label: z.string(), value: formFieldValue })).transform(entries =>
+          Object.fromEntries(entries.map(entry => [entry.label, entry.value]))
+        ),
+        z.record(formFieldValue),
+      ]).optional(),
+    }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ ref, selector, values }) => ({
+      type: 'EXECUTE_ACTION',
+      action: 'fill_form',
+      ref,
+      selector,
+      formValues: values,
+    }),
+  }),
+  defineTool({
+    name: 'uploadFile',
+    description: 'Attach files the user attached to this conversation to a file input (or drop them on an upload area)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...FORM_CONTROL_PROPERTIES,
+        fileNames: { type: 'array', items: { type: 'string' }, description: 'Names of the conversation attachments to upload' },
+      },
+      required: ['fileNames'],
+    },
+    params: z.object({ ...formControlTarget, fileNames: z.array(z.string()).min(1) })
+      .refine(hasFormControlTarget, { message: FORM_CONTROL_TARGET_MESSAGE }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ ref, selector, label, fileNames }, context) => {
+      const attachments = context.attachments || [];
+      const missing = fileNames.filter(name => !attachments.some(file => file.name === name));
+      if (missing.length > 0) {
+        const available = attachments.map(file => file.name).join(', ') || 'none';
+        throw new Error(`Attachment not found: ${missing.join(', ')} (available: ${available})`);
+      }
+      return {
+        type: 'EXECUTE_ACTION',
+        action: 'upload_file',
+        ref,
+        selector,
+        target: label,
+        files: fileNames.map(name => attachments.find(file => file.name === name)!),
+      };
+    },
+  }),
+  defineTool({
+    name: 'getBrowserHistory',
+    description: 'Search browser history (last 7 days). Useful for finding recently visited pages.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search term to filter history (e.g., "github")' },
+        maxResults: { type: 'number', description: 'Maximum number of results (default: 100)' },
+      },
+    },
+    params: z.object({ query: z.string().optional(), maxResults: coordinate.optional() }),
+    mutatesPage: false,
+    requiresConfirmation: false,
+    toMessage: ({ query, maxResults }) => ({ type: 'GET_HISTORY', query, maxResults }),
+  }),
+  defineTool({
+    name: 'openTab',
+    description: 'Open a URL in a new background tab (added to the agent\'s tab group) and make it the working tab for the following tools. The user\'s current page stays open - use this instead of navigate for research and comparisons.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: 'The URL to open (must include http:// or https://)' },
+        switchTo: { type: 'boolean', description: 'Make the new tab the working tab (default true)' },
+      },
+      required: ['url'],
+    },
+    params: z.object({ url: z.string().min(1), switchTo: z.boolean().default(true) }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ url }) => ({ type: 'OPEN_TAB', url }),
+  }),
+  defineTool({
+    name: 'listTabs',
+    description: 'List the tabs in the window with tab ids, titles and URLs, marking the working tab and the tabs the agent opened.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    params: z.object({}),
+    mutatesPage: false,
+    requiresConfirmation: false,
+    toMessage: () => ({ type: 'LIST_TABS' }),
+  }),
+  defineTool({
+    name: 'switchTab',
+    description: 'Make another tab the working tab: the following page tools act on it. The tab is not brought to the front (screenshots need the visible tab).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tabId: TAB_ID_PROPERTY,
+      },
+      required: ['tabId'],
+    },
+    params: z.object({ tabId: coordinate.pipe(z.number().int()) }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ tabId }) => ({ type: 'SWITCH_TAB', tabId }),
+  }),
+  defineTool({
+    name: 'closeTab',
+    description: 'Close a tab the agent opened with openTab. The user\'s own tabs can\'t be closed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tabId: TAB_ID_PROPERTY,
+      },
+      required: ['tabId'],
+    },
+    params: z.object({ tabId: coordinate.pipe(z.number().int()) }),
+    mutatesPage: true,
+    requiresConfirmation: false,
+    toMessage: ({ tabId }) => ({ type: 'CLOSE_TAB', tabId }),
+  }),
+];
+
+const BROWSER_TOOLS_BY_NAME = new Map(BROWSER_TOOLS.map(tool => [tool.name, tool]));
+
+/**
+ * Look up a browser tool by name
+ */
+export function getBrowserTool(name: string): BrowserToolDefinition | undefined {
+  return BROWSER_TOOLS_BY_NAME.get(name);
+}
+
+/**
+ * All browser tools in the order they are offered to the model
+ */
+export function getBrowserTools(): BrowserToolDefinition[] {
+  return BROWSER_TOOLS;
+}
+
+/**
+ * Tool definitions in Anthropic format ({ name, description, input_schema })
+ */
+export function getBrowserToolSchemas(): { name: string; description: string; input_schema: Record<string, any> }[] {
+  return BROWSER_TOOLS.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema,
+  }));
+}
+
+/**
+ * Read-only browser tools can run in parallel (see tool-scheduler.ts)
+ */
+export function isReadOnlyBrowserTool(name: string): boolean {
+  const tool = BROWSER_TOOLS_BY_NAME.get(name);
+  return !!tool && !tool.mutatesPage;
+}
+
+/**
+ * Validate tool input and build its runtime message
+ * @returns The message to send, or an error describing the invalid input
+ */
+export function buildBrowserToolMessage(
+  name: string,
+  input: any,
+  context: BrowserToolContext = {}
+): { message: BrowserToolMessage; params: any } | { error: string } {
+  const tool = BROWSER_TOOLS_BY_NAME.get(name);
+  if (!tool) {
+    return { error: `Unknown tool: ${name}` };
+  }
+
+  const parsed = tool.params.safeParse(input ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+    return { error: `Invalid input for ${name}: ${issues}` };
+  }
+
+  try {
+    return { message: tool.toMessage(parsed.data, context), params: parsed.data };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * CDP Input - Trusted mouse and keyboard input through chrome.debugger
+ *
+ * content.ts builds clicks and keystrokes from synthetic DOM events, which carry isTrusted=false
+ * and are ignored by many search boxes and rich editors. This backend attaches the debugger to the
+ * tab and drives the DevTools Input domain instead, so the page sees real user input.
+ *
+ * Attaching shows Chrome's "started debugging this browser" bar; the debugger is detached again
+ * once a tab has had no trusted input for DEBUGGER_IDLE_MS. Chrome allows one session per tab, so
+ * cdp-network.ts shares it through attachDebugger and pins it while it captures response bodies.
+ * Sessions outlive the service worker that attached them, so a new worker detaches or replaces them.
+ *
+ * "debugger" is an optional permission that Settings requests when trusted input is turned on; without
+ * it chrome.debugger is undefined and actions use DOM events.
+ */
+
+import type { InputBackend } from './types';
+
+export const DEBUGGER_PERMISSION: chrome.permissions.Permissions = { permissions: ['debugger'] };
+
+export type TrustedInputRequest =
+  | { kind: 'click'; x: number; y: number } // Viewport coordinates in the top frame
+  | { kind: 'type'; text: string } // Inserted into the focused element
+  | { kind: 'key'; key: string; modifiers?: string[] }; // e.g. {key: 'a', modifiers: ['Control']}
+
+const CDP_PROTOCOL_VERSION = '1.3';
+const DEBUGGER_IDLE_MS = 30000;
+
+// Tabs with an attached debugger -> idle detach timer (none while pinned)
+const attachedTabs = new Map<number, ReturnType<typeof setTimeout> | undefined>();
+// Tabs that stay attached until unpinned (network body capture)
+const pinnedTabs = new Set<number>();
+// Startup cleanup of a previous service worker's sessions - attaching waits for it
+let leftoverCleanup: Promise<void> = Promise.resolve();
+
+const KEY_DEFINITIONS: Record<string, { code: string; keyCode: number; text?: string }> = {
+  Enter: { code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Delete: { code: 'Delete', keyCode: 46 },
+  Escape: { code: 'Escape', keyCode: 27 },
+  Space: { code: 'Space', keyCode: 32, text: ' ' },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  Home: { code: 'Home', keyCode: 36 },
+  End: { code: 'End', keyCode: 35 },
+  PageUp: { code: 'PageUp', keyCode: 33 },
+  PageDown: { code: 'PageDown', keyCode: 34 },
+  Shift: { code: 'ShiftLeft', keyCode: 16 },
+  Control: { code: 'ControlLeft', keyCode: 17 },
+  Alt: { code: 'AltLeft', keyCode: 18 },
+  Meta: { code: 'MetaLeft', keyCode: 91 },
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space', Return: 'Enter', Esc: 'Escape', Ctrl: 'Control', Cmd: 'Meta', Command: 'Meta', Option: 'Alt',
+  Up: 'ArrowUp', Down: 'ArrowDown', Left: 'ArrowLeft', Right: 'ArrowRight',
+};
+
+// Input.dispatchKeyEvent modifier bit field
+const MODIFIER_BITS: Record<string, number> = { Alt: 1, Control: 2, Meta: 4, Shift: 8 };
+
+function normalizeKeyName(key: string): string {
+  if (key.length === 1) return KEY_ALIASES[key] || key;
+  const lower = key.toLowerCase();
+  const alias = Object.keys(KEY_ALIASES).find(name => name.toLowerCase() === lower);
+  if (alias) return KEY_ALIASES[alias];
+  return Object.keys(KEY_DEFINITIONS).find(name => name.toLowerCase() === lower) || key;
+}
+
+/**
+ * Key, code, virtual key code and text for Input.dispatchKeyEvent
+ */
+function describeKey(key: string): { key: string; code: string; windowsVirtualKeyCode: number; text?: string } {
+  const name = normalizeKeyName(key);
+  const definition = KEY_DEFINITIONS[name];
+  if (definition) {
+    return { key: name === 'Space' ? ' ' : name, code: definition.code, windowsVirtualKeyCode: definition.keyCode, text: definition.text };
+  }
+
+  const functionKey = /^F(\d{1,2})$/i.exec(name);
+  if (functionKey) {
+    return { key: name.toUpperCase(), code: name.toUpperCase(), windowsVirtualKeyCode: 111 + Number(functionKey[1]) };
+  }
+
+  if (name.length === 1) {
+    const upper = name.toUpperCase();
+    const code = /[a-z]/i.test(name) ? `Key${upper}` : /\d/.test(name) ? `Digit${name}` : '';
+    return { key: name, code, windowsVirtualKeyCode: upper.charCodeAt(0), text: name };
+  }
+
+  throw new Error(`Unsupported key for trusted input: ${key}`);
+}
+
+function sendCommand(tabId: number, method: string, params: Record<string, unknown> = {}): Promise<unknown> {
+  return chrome.debugger.sendCommand({ tabId }, method, params);
+}
+
+function scheduleDetach(tabId: number): void {
+  clearTimeout(attachedTabs.get(tabId));
+  attachedTabs.set(tabId, pinnedTabs.has(tabId) ? undefined : setTimeout(() => detachDebugger(tabId), DEBUGGER_IDLE_MS));
+}
+
+/**
+ * Whether the user granted the optional "debugger" permission
+ */
+export function hasDebuggerPermission(): Promise<boolean> {
+  return chrome.permissions.contains(DEBUGGER_PERMISSION);
+}
+
+/**
+ * Attach the debugger to a tab, or reuse the session that is already attached
+ * @param tabId - Tab to attach to
+ * @param pin - Keep the session until unpinDebugger instead of detaching after DEBUGGER_IDLE_MS
+ * @throws When the debugger permission is missing or Chrome refuses to attach
+ */
+export async function attachDebugger(tabId: number, pin = false): Promise<void> {
+  if (!chrome.debugger) {
+    throw new Error('The "debugger" permission is not granted - turn on trusted input in Settings to allow it');
+  }
+  await leftoverCleanup;
+  if (pin) pinnedTabs.add(tabId);
+  if (!attachedTabs.has(tabId)) {
+    try {
+      // Fails on chrome:// pages, the Web Store, or when DevTools' own debugger session conflicts
+      await chrome.debugger.attach({ tabId }, CDP_PROTOCOL_VERSION);
+    } catch (error) {
+      try {
+        await reattachLeftoverSession(tabId, error as Error);
+      } catch (reattachError) {
+        if (pin) pinnedTabs.delete(tabId);
+        throw reattachError;
+      }
+    }
+    console.log(`🐞 Debugger attached to tab ${tabId}`);
+  }
+  scheduleDetach(tabId);
+}
+
+/**
+ * Take over a session this extension attached before the service worker restarted (its state here is gone,
+ * but Chrome kept it attached). Detaching only succeeds for our own sessions, so DevTools is left alone.
+ * @param tabId - Tab whose attach failed
+ * @param attachError - Error from chrome.debugger.attach
+ * @throws attachError when the tab has no leftover session of ours
+ */
+async function reattachLeftoverSession(tabId: number, attachError: Error): Promise<void> {
+  if (!/already attached/i.test(attachError.message || '')) throw attachError;
+  try {
+    await chrome.debugger.detach({ tabId });
+  } catch {
+    throw attachError;
+  }
+  await chrome.debugger.attach({ tabId }, CDP_PROTOCOL_VERSION);
+  console.log(`🐞 Replaced a leftover debugger session on tab ${tabId}`);
+}
+
+/**
+ * Detach sessions left attached by a previous service worker, so the debugging bar doesn't stay up
+ * with nothing using it. Runs at startup, when this worker has not attached anything yet.
+ */
+export function detachLeftoverSessions(): Promise<void> {
+  if (!chrome.debugger) return Promise.resolve();
+  leftoverCleanup = (async () => {
+    for (const target of await chrome.debugger.getTargets()) {
+      if (!target.attached || target.tabId === undefined) continue;
+      try {
+        await chrome.debugger.detach({ tabId: target.tabId });
+        console.log(`🐞 Detached leftover debugger session from tab ${target.tabId}`);
+      } catch {
+        // Attached by DevTools or another extension
+      }
+    }
+  })().catch(error => console.warn('Could not clean up debugger sessions:', error));
+  return leftoverCleanup;
+}
+
+/**
+ * Let a pinned session detach again once it has been idle for DEBUGGER_IDLE_MS
+ * @param tabId - Tab to unpin
+ */
+export function unpinDebugger(tabId: number): void {
+  if (!pinnedTabs.delete(tabId)) return;
+  if (attachedTabs.has(tabId)) scheduleDetach(tabId);
+}
+
+/**
+ * Detach the debugger from a tab (no-op when it was never attached)
+ * @param tabId - Tab to release
+ */
+export async function detachDebugger(tabId: number): Promise<void> {
+  pinnedTabs.delete(tabId);
+  if (!attachedTabs.has(tabId)) return;
+  clearTimeout(attachedTabs.get(tabId));
+  attachedTabs.delete(tabId);
+  try {
+    await chrome.debugger.detach({ tabId });
+    console.log(`🐞 Debugger detached from tab ${tabId}`);
+  } catch {
+    // Already detached - the tab closed or the user dismissed the debugging bar
+  }
+}
+
+/**
+ * Forget a tab whose debugger session Chrome ended (chrome.debugger.onDetach)
+ * @param tabId - Tab that was detached
+ */
+export function handleDebuggerDetach(tabId: number): void {
+  clearTimeout(attachedTabs.get(tabId));
+  attachedTabs.delete(tabId);
+  pinnedTabs.delete(tabId);
+}
+
+async function dispatchKeyPress(tabId: number, key: string, modifierKeys: string[] = []): Promise<void> {
+  const modifierNames = modifierKeys.map(normalizeKeyName);
+  let modifiers = 0;
+
+  for (const modifier of modifierNames) {
+    modifiers |= MODIFIER_BITS[modifier] || 0;
+    await sendCommand(tabId, 'Input.dispatchKeyEvent', { type: 'rawKeyDown', modifiers, ...describeKey(modifier), text: undefined });
+  }
+
+  const described = describeKey(key);
+  // Shortcuts (Ctrl/Alt/Meta held) must not insert the character
+  const text = modifiers & ~MODIFIER_BITS.Shift ? undefined : described.text;
+  await sendCommand(tabId, 'Input.dispatchKeyEvent', {
+    type: text ? 'keyDown' : 'rawKeyDown',
+    modifiers,
+    ...described,
+    text,
+    unmodifiedText: text,
+  });
+  await sendCommand(tabId, 'Input.dispatchKeyEvent', { type: 'keyUp', modifiers, ...described, text: undefined });
+
+  for (const modifier of modifierNames.reverse()) {
+    modifiers &= ~(MODIFIER_BITS[modifier] || 0);
+    await sendCommand(tabId, 'Input.dispatchKeyEvent', { type: 'keyUp', modifiers, ...describeKey(modifier), text: undefined });
+  }
+}
+
+async function dispatchMouseClick(tabId: number, x: number, y: number): Promise<void> {
+  await sendCommand(tabId, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y });
+  await sendCommand(tabId, 'Input.dispatchMouseEvent', { type: 'mousePressed', x, y, button: 'left', buttons: 1, clickCount: 1 });
+  await sendCommand(tabId, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x, y, button: 'left', buttons: 0, clickCount: 1 });
+}
+
+/**
+ * Perform a click, text insertion or key press as trusted input
+ * @param tabId - Tab to send the input to (the debugger is attached on first use)
+ * @param input - What to send
+ * @throws When the debugger can't be attached or a command is rejected - callers fall back to DOM events
+ */
+export async function dispatchTrustedInput(tabId: number, input: TrustedInputRequest): Promise<void> {
+  await attachDebugger(tabId);
+  switch (input.kind) {
+    case 'click':
+      await dispatchMouseClick(tabId, Math.round(input.x), Math.round(input.y));
+      break;
+    case 'type':
+      await sendCommand(tabId, 'Input.insertText', { text: input.text });
+      break;
+    case 'key':
+      await dispatchKeyPress(tabId, input.key, input.modifiers);
+      break;
+  }
+  console.log(`🐞 Trusted ${input.kind} sent to tab ${tabId}`);
+}
+
+/**
+ * Pick the input backend for a page: trusted-input sites use CDP, everything else the configured default
+ * @param url - Page URL
+ * @param settings - Saved settings (inputBackend default and trustedInputDomains patterns such as "*.atlassian.net")
+ */
+export function getInputBackendForUrl(
+  url: string | undefined,
+  settings: { inputBackend?: InputBackend; trustedInputDomains?: string[] } | undefined
+): InputBackend {
+  let hostname = '';
+  try {
+    hostname = url ? new URL(url).hostname : '';
+  } catch {
+    // Not a web page - use the default
+  }
+
+  const matchesSite = (settings?.trustedInputDomains || []).some(pattern => {
+    const trimmed = pattern.trim();
+    if (!trimmed || !hostname) return false;
+    const regexPattern = trimmed.replace(/\./g, '\\.').replace(/\*/g, '.*');
+    return new RegExp(`^${regexPattern}$`, 'i').test(hostname);
+  });
+
+  return matchesSite ? 'cdp' : settings?.inputBackend || 'dom';
+}
@@ -0,0 +1,180 @@
+/**
+ * CDP Network - Response bodies for getNetworkLog
+ *
+ * background.ts logs every request's URL, method, status and timing through webRequest, which never
+ * exposes response bodies. When the model asks for bodies, the debugger's Network domain is enabled
+ * for the tab (sharing the cdp-input.ts session, pinned until capture stops) and same-origin JSON
+ * responses are kept here so the log can show what the server actually answered. Capture stops
+ * after CAPTURE_IDLE_MS without an includeBodies request, which also lets the debugging bar go away.
+ */
+
+import { attachDebugger, unpinDebugger } from './cdp-input';
+
+export interface CapturedResponseBody {
+  url: string;
+  method: string;
+  status: number;
+  body: string;
+  truncated: boolean;
+  requestedAt: number; // Epoch ms, to line the body up with the webRequest log entry
+}
+
+interface PendingResponse {
+  url: string;
+  method: string;
+  documentUrl?: string;
+  requestedAt: number;
+  status?: number;
+  mimeType?: string;
+}
+
+const MAX_CAPTURED_BODIES = 50;
+const MAX_BODY_CHARS = 4000;
+// How far apart the CDP and webRequest timestamps of the same request may be
+const BODY_MATCH_WINDOW_MS = 5000;
+const CAPTURE_IDLE_MS = 5 * 60 * 1000;
+
+const tabCaptures = new Map<number, {
+  pending: Map<string, PendingResponse>;
+  bodies: CapturedResponseBody[];
+  idleTimer?: ReturnType<typeof setTimeout>; // Stops the capture when nobody asked for bodies for CAPTURE_IDLE_MS
+}>();
+
+function scheduleCaptureStop(tabId: number): void {
+  const capture = tabCaptures.get(tabId);
+  if (!capture) return;
+  clearTimeout(capture.idleTimer);
+  capture.idleTimer = setTimeout(() => stopBodyCapture(tabId), CAPTURE_IDLE_MS);
+}
+
+function isSameOrigin(url: string, documentUrl?: string): boolean {
+  if (!documentUrl) return false;
+  try {
+    return new URL(url).origin === new URL(documentUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+export function isCapturingBodies(tabId: number): boolean {
+  return tabCaptures.has(tabId);
+}
+
+/**
+ * Start recording same-origin JSON response bodies for a tab, or keep an active capture going for another CAPTURE_IDLE_MS
+ * @param tabId - Tab to capture
+ * @throws When the debugger can't be attached to the tab
+ */
+export async function startBodyCapture(tabId: number): Promise<void> {
+  if (tabCaptures.has(tabId)) {
+    scheduleCaptureStop(tabId);
+    return;
+  }
+  await attachDebugger(tabId, true);
+  tabCaptures.set(tabId, { pending: new Map(), bodies: [] });
+  scheduleCaptureStop(tabId);
+  try {
+    await chrome.debugger.sendCommand({ tabId }, 'Network.enable', {});
+  } catch (error) {
+    stopBodyCapture(tabId);
+    throw error;
+  }
+  console.log(`🌐 Capturing JSON response bodies on tab ${tabId}`);
+}
+
+/**
+ * Stop capturing for a tab and forget its bodies (idle, tab closed or debugger detached)
+ * @param tabId - Tab to stop
+ */
+export function stopBodyCapture(tabId: number): void {
+  const capture = tabCaptures.get(tabId);
+  if (!capture) return;
+  clearTimeout(capture.idleTimer);
+  tabCaptures.delete(tabId);
+  unpinDebugger(tabId);
+  console.log(`🌐 Stopped capturing response bodies on tab ${tabId}`);
+}
+
+async function storeResponseBody(tabId: number, requestId: string, response: PendingResponse): Promise<void> {
+  try {
+    const result = await chrome.debugger.sendCommand({ tabId }, 'Network.getResponseBody', { requestId }) as
+      { body: string; base64Encoded: boolean };
+    const capture = tabCaptures.get(tabId);
+    if (!capture || result.base64Encoded) return;
+
+    capture.bodies.push({
+      url: response.url,
+      method: response.method,
+      status: response.status ?? 0,
+      body: result.body.slice(0, MAX_BODY_CHARS),
+      truncated: result.body.length > MAX_BODY_CHARS,
+      requestedAt: response.requestedAt
+    });
+    if (capture.bodies.length > MAX_CAPTURED_BODIES) {
+      capture.bodies.splice(0, capture.bodies.length - MAX_CAPTURED_BODIES);
+    }
+  } catch (error) {
+    // Bodies of redirects and evicted resources are not available
+    console.debug('Could not read response body:', response.url, error);
+  }
+}
+
+/**
+ * Handle a Network domain event from chrome.debugger.onEvent
+ * @param tabId - Tab the event came from
+ * @param method - CDP event name
+ * @param params - CDP event parameters
+ */
+export function handleNetworkEvent(tabId: number, method: string, params: any): void {
+  const capture = tabCaptures.get(tabId);
+  if (!capture || !params?.requestId) return;
+
+  switch (method) {
+    case 'Network.requestWillBeSent':
+      capture.pending.set(params.requestId, {
+        url: params.request.url,
+        method: params.request.method,
+        documentUrl: params.documentURL,
+        requestedAt: params.wallTime ? params.wallTime * 1000 : Date.now()
+      });
+      break;
+    case 'Network.responseReceived': {
+      const pending = capture.pending.get(params.requestId);
+      if (pending) {
+        pending.status = params.response.status;
+        pending.mimeType = params.response.mimeType;
+      }
+      break;
+    }
+    case 'Network.loadingFinished': {
+      const pending = capture.pending.get(params.requestId);
+      capture.pending.delete(params.requestId);
+      if (pending && pending.mimeType?.includes('json') && isSameOrigin(pending.url, pending.documentUrl)) {
+        storeResponseBody(tabId, params.requestId, pending);
+      }
+      break;
+    }
+    case 'Network.loadingFailed':
+      capture.pending.delete(params.requestId);
+      break;
+  }
+}
+
+/**
+ * Captured body for a logged request: same URL and method, closest request time
+ * @param tabId - Tab the request belongs to
+ * @param url - Request URL
+ * @param method - HTTP method
+ * @param requestedAt - Epoch ms the request started (webRequest timeStamp)
+ */
+export function findCapturedBody(tabId: number, url: string, method: string, requestedAt: number): CapturedResponseBody | null {
+  let best: CapturedResponseBody | null = null;
+  for (const body of tabCaptures.get(tabId)?.bodies || []) {
+    if (body.url !== url || body.method !== method) continue;
+    const distance = Math.abs(body.requestedAt - requestedAt);
+    if (distance <= BODY_MATCH_WINDOW_MS && (!best || distance < Math.abs(best.requestedAt - requestedAt))) {
+      best = body;
+    }
+  }
+  return best;
+}
@@ -1,4 +1,8 @@
 // Content script that runs on all pages to extract context and interact with the DOM
+// Type-only import: content scripts can't load modules, so nothing from the registry is bundled here
+import type { PageActionName, UploadFilePayload, WaitForMessage, ExtractColumn } from './browser-tool-registry';
+import type { TrustedInputRequest } from './cdp-input';
+import type { InputBackend } from './types';
 
 // Visual feedback for clicks with magical overlay effect
 function highlightElement(element: Element, coordinates: { x: number; y: number }) {
@@ -165,10 +169,11 @@ function highlightElement(element: Element, coordinates: { x: number; y: number
 interface PageContext {
   url: string;
   title: string;
-  textContent: string;
+  textContent: string; // Main content as Markdown (page text if no main content was found)
+  contentLength: number; // Full length of the content textContent was cut from
   links: Array<{ text: string; href: string }>;
   images: Array<{ alt: string; src: string }>;
-  forms: Array<{ id: string; action: string; inputs: Array<{ name: string; type: string }> }>;
+  forms: Array<{ id: string; action: string; inputs: Array<{ name: string; type: string; label: string; required: boolean }> }>;
   interactiveElements?: Array<{
     tag: string;
     text: string;
@@ -206,6 +211,14 @@ interface PageContext {
       left: number;
     };
   }>;
+  frames?: Array<{
+    index: number;
+    src: string;
+    title: string;
+    sameOrigin: boolean; // false = contents only reachable through getAccessibilitySnapshot refs
+    visible: boolean;
+    textContent?: string;
+  }>;
   metadata: {
     description?: string;
     keywords?: string;
@@ -220,24 +233,159 @@ interface PageContext {
   };
 }
 
+// ============================================
+// Shadow DOM and same-origin frame traversal
+// ============================================
+// Web components (Salesforce Lightning, Workday) and embedded editors live in open shadow roots
+// and iframes that document.querySelectorAll can't see. Cross-origin frames get their own
+// content script instance (injected per frame by background.ts).
+
+/**
+ * Document of a same-origin frame, or null for cross-origin / not-yet-loaded frames
+ */
+function getSameOriginFrameDocument(frame: Element): Document | null {
+  if (frame.tagName !== 'IFRAME' && frame.tagName !== 'FRAME') return null;
+  try {
+    return (frame as HTMLIFrameElement).contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The document plus every open shadow root and same-origin frame document below it
+ */
+function collectSearchRoots(root: Document | ShadowRoot = document, roots: (Document | ShadowRoot)[] = []): (Document | ShadowRoot)[] {
+  roots.push(root);
+  for (const el of Array.from(root.querySelectorAll('*'))) {
+    if (el.shadowRoot) {
+      collectSearchRoots(el.shadowRoot, roots);
+    }
+    const frameDocument = getSameOriginFrameDocument(el);
+    if (frameDocument) {
+      collectSearchRoots(frameDocument, roots);
+    }
+  }
+  return roots;
+}
+
+/**
+ * querySelectorAll across open shadow roots and same-origin frames
+ */
+function deepQuerySelectorAll<K extends keyof HTMLElementTagNameMap>(selector: K): HTMLElementTagNameMap[K][];
+function deepQuerySelectorAll<E extends Element = Element>(selector: string): E[];
+function deepQuerySelectorAll(selector: string): Element[] {
+  return collectSearchRoots().flatMap(root => Array.from(root.querySelectorAll(selector)));
+}
+
+/**
+ * querySelector across open shadow roots and same-origin frames (top document first)
+ */
+function deepQuerySelector(selector: string): Element | null {
+  const topMatch = document.querySelector(selector);
+  if (topMatch) return topMatch;
+  for (const root of collectSearchRoots()) {
+    const match = root.querySelector(selector);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * elementFromPoint that descends into open shadow roots and same-origin frames
+ * @param x - Viewport X coordinate of the top document
+ * @param y - Viewport Y coordinate of the top document
+ */
+function deepElementFromPoint(x: number, y: number): Element | null {
+  let element = document.elementFromPoint(x, y);
+  let localX = x;
+  let localY = y;
+
+  while (element) {
+    const shadowHit = element.shadowRoot?.elementFromPoint(localX, localY);
+    if (shadowHit && shadowHit !== element) {
+      element = shadowHit;
+      continue;
+    }
+    const frameDocument = getSameOriginFrameDocument(element);
+    if (frameDocument) {
+      // Frame documents use their own viewport coordinates
+      const rect = element.getBoundingClientRect();
+      localX -= rect.left + element.clientLeft;
+      localY -= rect.top + element.clientTop;
+      const frameHit = frameDocument.elementFromPoint(localX, localY);
+      if (frameHit) {
+        element = frameHit;
+        continue;
+      }
+    }
+    break;
+  }
+  return element;
+}
+
+/**
+ * Focused element, looking through shadow roots and same-origin frames
+ */
+function getDeepActiveElement(): Element | null {
+  let active: Element | null = document.activeElement;
+  while (active) {
+    if (active.shadowRoot?.activeElement) {
+      active = active.shadowRoot.activeElement;
+      continue;
+    }
+    const frameDocument = getSameOriginFrameDocument(active);
+    if (frameDocument?.activeElement && frameDocument.activeElement !== frameDocument.body) {
+      active = frameDocument.activeElement;
+      continue;
+    }
+    break;
+  }
+  return active;
+}
+
+/**
+ * List the page's frames - same-origin frames include their text, cross-origin frames only their URL
+ */
+function enumerateFrames(): NonNullable<PageContext['frames']> {
+  return deepQuerySelectorAll('iframe, frame').slice(0, 20).map((frame, index) => {
+    const frameDocument = getSameOriginFrameDocument(frame);
+    const rect = frame.getBoundingClientRect();
+    return {
+      index,
+      src: (frame as HTMLIFrameElement).src || frameDocument?.location.href || '',
+      title: frame.getAttribute('title') || frameDocument?.title || '',
+      sameOrigin: !!frameDocument,
+      visible: rect.width > 0 && rect.height > 0,
+      textContent: frameDocument?.body?.innerText.slice(0, 2000)
+    };
+  });
+}
+
 // Extract comprehensive page context
 function extractPageContext(): PageContext {
-  const links = Array.from(document.querySelectorAll('a')).slice(0, 50).map(a => ({
+  const mainContent = extractReadableContent();
+  // Fall back to the raw page text when no main content stands out (dashboards, app shells)
+  const readable = mainContent.mainContentFound ? mainContent : { markdown: document.body.innerText };
+
+  const links = deepQuerySelectorAll('a').slice(0, 50).map(a => ({
     text: a.textContent?.trim() || '',
     href: a.href
   }));
 
-  const images = Array.from(document.querySelectorAll('img')).slice(0, 20).map(img => ({
+  const images = deepQuerySelectorAll('img').slice(0, 20).map(img => ({
     alt: img.alt,
     src: img.src
   }));
 
-  const forms = Array.from(document.querySelectorAll('form')).map(form => ({
+  const forms = deepQuerySelectorAll('form').map(form => ({
     id: form.id,
     action: form.action,
     inputs: Array.from(form.querySelectorAll('input, textarea, select')).map(input => ({
       name: (input as HTMLInputElement).name,
-      type: (input as HTMLInputElement).type || 'text'
+      type: (input as HTMLInputElement).type || 'text',
+      label: getFieldLabel(input),
+      required: (input as HTMLInputElement).required
     }))
   }));
 
@@ -254,9 +402,7 @@ function extractPageContext(): PageContext {
   };
 
   // Find all interactive/clickable elements
-  const interactiveElements = Array.from(
-    document.querySelectorAll('button, input[type="button"], input[type="submit"], a[href], [role="button"], [onclick]')
-  )
+  const interactiveElements = deepQuerySelectorAll('button, input[type="button"], input[type="submit"], a[href], [role="button"], [onclick]')
     .slice(0, 30)
     .map(el => {
       const rect = el.getBoundingClientRect();
@@ -288,9 +434,7 @@ function extractPageContext(): PageContext {
   };
 
   // Find all search-related inputs for debugging
-  const searchInputs = Array.from(
-    document.querySelectorAll('input[type="search"], input[type="text"]')
-  )
+  const searchInputs = deepQuerySelectorAll('input[type="search"], input[type="text"]')
     .map(el => {
       const input = el as HTMLInputElement;
       const rect = input.getBoundingClientRect();
@@ -314,12 +458,14 @@ function extractPageContext(): PageContext {
   return {
     url: window.location.href,
     title: document.title,
-    textContent: document.body.innerText.slice(0, 10000), // Limit to 10k chars
+    textContent: readable.markdown.slice(0, 10000), // Limit to 10k chars - readPage pages through the rest
+    contentLength: readable.markdown.length,
     links,
     images,
     forms,
     interactiveElements, // NEW: List of clickable elements with selectors
     searchInputs, // NEW: List of all visible search/text inputs for debugging
+    frames: enumerateFrames(),
     metadata: {
       description: getMetaContent('description') || getMetaContent('og:description'),
       keywords: getMetaContent('keywords'),
@@ -335,6 +481,311 @@ function extractPageContext(): PageContext {
   };
 }
 
+// ============================================
+// Accessibility snapshot with element refs
+// ============================================
+// Refs (e.g. "s3e12") identify elements of the latest snapshot only - each snapshot
+// starts a new generation, so a stale ref fails loudly instead of hitting the wrong element
+
+const MAX_SNAPSHOT_NODES = 500;
+const MAX_SNAPSHOT_CHARS = 20000;
+const MAX_NAME_LENGTH = 80;
+const ELEMENT_REF_ATTRIBUTE = 'data-atlas-ref';
+
+let snapshotGeneration = 0;
+let elementRefs = new Map<string, Element>();
+
+interface AccessibilitySnapshot {
+  url: string;
+  title: string;
+  snapshot: string;
+  refCount: number;
+  truncated: boolean;
+}
+
+// Roles the agent can act on - these are kept even in interactiveOnly mode
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'combobox', 'listbox',
+  'option', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'switch', 'slider',
+  'spinbutton', 'treeitem', 'clickable'
+]);
+
+// Roles whose accessible name comes from their text content
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button', 'link', 'heading', 'option', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+  'tab', 'treeitem', 'cell', 'columnheader', 'rowheader', 'listitem', 'switch', 'clickable'
+]);
+
+const LANDMARK_TAG_ROLES: Record<string, string> = {
+  nav: 'navigation',
+  main: 'main',
+  header: 'banner',
+  footer: 'contentinfo',
+  aside: 'complementary',
+  form: 'form',
+  dialog: 'dialog',
+  ul: 'list',
+  ol: 'list',
+  li: 'listitem',
+  table: 'table',
+  tr: 'row',
+  td: 'cell',
+  th: 'columnheader',
+  summary: 'button',
+  details: 'group',
+  fieldset: 'group',
+  textarea: 'textbox',
+  option: 'option',
+  progress: 'progressbar',
+  iframe: 'iframe',
+  frame: 'iframe'
+};
+
+function collapseText(text: string | null | undefined, maxLength = MAX_NAME_LENGTH): string {
+  const collapsed = (text || '').replace(/\s+/g, ' ').trim();
+  return collapsed.length > maxLength ? `${collapsed.slice(0, maxLength - 1)}…` : collapsed;
+}
+
+/**
+ * Explicit ARIA role, or the implicit role of the tag
+ */
+function getElementRole(el: Element): string | null {
+  const explicitRole = el.getAttribute('role')?.split(' ')[0];
+  if (explicitRole && explicitRole !== 'presentation' && explicitRole !== 'none') {
+    return explicitRole;
+  }
+
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'a') return el.hasAttribute('href') ? 'link' : null;
+  if (tag === 'button') return 'button';
+  if (/^h[1-6]$/.test(tag)) return 'heading';
+  if (tag === 'img') return el.getAttribute('alt') ? 'img' : null;
+  if (tag === 'select') return (el as HTMLSelectElement).multiple ? 'listbox' : 'combobox';
+  if (tag === 'input') {
+    const type = ((el as HTMLInputElement).type || 'text').toLowerCase();
+    if (type === 'hidden') return null;
+    if (type === 'checkbox') return 'checkbox';
+    if (type === 'radio') return 'radio';
+    if (type === 'range') return 'slider';
+    if (type === 'number') return 'spinbutton';
+    if (type === 'search') return 'searchbox';
+    if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+    return 'textbox';
+  }
+  if (LANDMARK_TAG_ROLES[tag]) return LANDMARK_TAG_ROLES[tag];
+  if ((el as HTMLElement).isContentEditable && !el.parentElement?.closest('[contenteditable="true"]')) return 'textbox';
+
+  // Click handlers on plain elements (common in Workday/SharePoint "div buttons")
+  const tabIndex = el.getAttribute('tabindex');
+  if (el.hasAttribute('onclick') || (tabIndex !== null && Number(tabIndex) >= 0)) return 'clickable';
+  return null;
+}
+
+/**
+ * Accessible name: aria-labelledby, aria-label, associated label, alt/title/placeholder, then content
+ */
+function getAccessibleName(el: Element, role: string): string {
+  const labelledBy = el.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/)
+      .map(id => document.getElementById(id)?.textContent || '')
+      .join(' ');
+    if (text.trim()) return collapseText(text);
+  }
+
+  const ariaLabel = el.getAttribute('aria-label');
+  if (ariaLabel?.trim()) return collapseText(ariaLabel);
+
+  const labels = (el as HTMLInputElement).labels;
+  if (labels && labels.length > 0) {
+    const text = Array.from(labels).map(label => label.textContent || '').join(' ');
+    if (text.trim()) return collapseText(text);
+  }
+
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'img') return collapseText(el.getAttribute('alt'));
+  if (tag === 'iframe' || tag === 'frame') {
+    return collapseText(el.getAttribute('title') || (el as HTMLIFrameElement).src);
+  }
+  if (tag === 'input' && ['button', 'submit', 'reset'].includes((el as HTMLInputElement).type)) {
+    return collapseText((el as HTMLInputElement).value);
+  }
+
+  const fallback = el.getAttribute('title') || el.getAttribute('placeholder');
+  if (NAME_FROM_CONTENT_ROLES.has(role)) {
+    const text = (el as HTMLElement).innerText ?? el.textContent;
+    if (text?.trim()) return collapseText(text);
+  }
+  return collapseText(fallback);
+}
+
+/**
+ * ARIA states worth showing to the model
+ */
+function getElementStates(el: Element, role: string): string[] {
+  const states: string[] = [];
+  const input = el as HTMLInputElement;
+
+  if (role === 'heading') {
+    const level = el.getAttribute('aria-level') || el.tagName.match(/^H([1-6])$/)?.[1];
+    if (level) states.push(`level=${level}`);
+  }
+
+  const ariaChecked = el.getAttribute('aria-checked');
+  if (role === 'checkbox' || role === 'radio' || role === 'switch' || ariaChecked !== null) {
+    const checked = ariaChecked !== null ? ariaChecked === 'true' : !!input.checked;
+    states.push(checked ? 'checked' : 'unchecked');
+  }
+
+  const expanded = el.getAttribute('aria-expanded');
+  if (expanded !== null) states.push(`expanded=${expanded}`);
+
+  const pressed = el.getAttribute('aria-pressed');
+  if (pressed !== null) states.push(`pressed=${pressed}`);
+
+  if (el.getAttribute('aria-selected') === 'true' || (el.tagName === 'OPTION' && (el as HTMLOptionElement).selected)) {
+    states.push('selected');
+  }
+  if ((el as HTMLButtonElement).disabled || el.getAttribute('aria-disabled') === 'true') {
+    states.push('disabled');
+  }
+  if (input.required || el.getAttribute('aria-required') === 'true') {
+    states.push('required');
+  }
+  if (role === 'iframe' && !getSameOriginFrameDocument(el)) {
+    // Listed separately by background.ts under its own "[Frame N]" section
+    states.push('cross-origin');
+  }
+
+  if (role === 'textbox' || role === 'searchbox' || role === 'spinbutton' || role === 'slider' || role === 'combobox') {
+    const value = el.tagName === 'SELECT'
+      ? (el as HTMLSelectElement).selectedOptions[0]?.textContent
+      : (input.value ?? (el as HTMLElement).innerText);
+    if (value && input.type !== 'password') {
+      states.push(`value="${collapseText(value, 60)}"`);
+    }
+  }
+  return states;
+}
+
+function isHiddenFromAccessibility(el: Element): boolean {
+  if (el.getAttribute('aria-hidden') === 'true' || (el as HTMLElement).hidden) return true;
+  const tag = el.tagName;
+  if (tag === 'SCRIPT' || tag === 'STYLE' || tag === 'NOSCRIPT' || tag === 'TEMPLATE' || tag === 'svg') return true;
+  // Skip the extension's own overlay
+  if (el.id === 'atlas-automation-indicator') return true;
+  // Use the element's own window - it may live in a same-origin frame
+  const style = (el.ownerDocument.defaultView || window).getComputedStyle(el);
+  return style.display === 'none' || style.visibility === 'hidden';
+}
+
+/**
+ * Children as rendered: shadow root content for hosts, slotted nodes for slots, the document of same-origin frames
+ */
+function getRenderedChildNodes(el: Element): Node[] {
+  if (el.tagName === 'IFRAME' || el.tagName === 'FRAME') {
+    const frameBody = getSameOriginFrameDocument(el)?.body;
+    return frameBody ? [frameBody] : [];
+  }
+  if (el.tagName === 'SLOT') {
+    const assigned = (el as HTMLSlotElement).assignedNodes({ flatten: true });
+    if (assigned.length > 0) return assigned;
+  }
+  return Array.from((el.shadowRoot ?? el).childNodes);
+}
+
+/**
+ * Build an accessibility-tree snapshot of the page and assign fresh element refs
+ * Open shadow roots and same-origin frames are included inline
+ * @param interactiveOnly - Only list elements the agent can act on (plus headings for orientation)
+ * @param refPrefix - Frame qualifier for refs (e.g. "f12:") when this script runs in a cross-origin frame
+ */
+function buildAccessibilitySnapshot(interactiveOnly = false, refPrefix = ''): AccessibilitySnapshot {
+  snapshotGeneration++;
+  deepQuerySelectorAll(`[${ELEMENT_REF_ATTRIBUTE}]`).forEach(el => el.removeAttribute(ELEMENT_REF_ATTRIBUTE));
+  elementRefs = new Map();
+
+  const lines: string[] = [];
+  let charCount = 0;
+  let truncated = false;
+
+  const pushLine = (line: string): boolean => {
+    if (lines.length >= MAX_SNAPSHOT_NODES || charCount + line.length > MAX_SNAPSHOT_CHARS) {
+      truncated = true;
+      return false;
+    }
+    lines.push(line);
+    charCount += line.length + 1;
+    return true;
+  };
+
+  const walk = (el: Element, depth: number): void => {
+    if (truncated || isHiddenFromAccessibility(el)) return;
+
+    const role = getElementRole(el);
+    const keep = !!role && (!interactiveOnly || INTERACTIVE_ROLES.has(role) || role === 'heading');
+    let childDepth = depth;
+
+    if (keep && role) {
+      const name = getAccessibleName(el, role);
+      const ref = `${refPrefix}s${snapshotGeneration}e${elementRefs.size + 1}`;
+      elementRefs.set(ref, el);
+
+      const states = getElementStates(el, role).map(state => ` [${state}]`).join('');
+      const line = `${'  '.repeat(depth)}- ${role}${name ? ` "${name.replace(/"/g, '\\"')}"` : ''} [ref=${ref}]${states}`;
+      if (!pushLine(line)) return;
+      childDepth = depth + 1;
+
+      // The name already covers the content of leaf controls
+      if (NAME_FROM_CONTENT_ROLES.has(role) && !el.shadowRoot && !el.querySelector('input, select, textarea, button, a[href], [role]')) {
+        return;
+      }
+    }
+
+    for (const node of getRenderedChildNodes(el)) {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        walk(node as Element, childDepth);
+      } else if (node.nodeType === Node.TEXT_NODE && !interactiveOnly) {
+        // Loose text between elements (paragraphs, labels) - skipped in interactiveOnly mode
+        const text = collapseText(node.textContent, 200);
+        if (text.length > 1 && !pushLine(`${'  '.repeat(childDepth)}- text "${text.replace(/"/g, '\\"')}"`)) return;
+      }
+    }
+  };
+
+  if (document.body) {
+    walk(document.body, 0);
+  }
+
+  return {
+    url: window.location.href,
+    title: document.title,
+    snapshot: lines.join('\n') + (truncated ? '\n- … (snapshot truncated - scroll or use interactiveOnly for the rest)' : ''),
+    refCount: elementRefs.size,
+    truncated
+  };
+}
+
+/**
+ * Resolve a ref from the latest snapshot (or a screenshot mark) to an element that is still attached to the page
+ */
+function resolveElementRef(ref: string): Element | null {
+  // "mark:12" refers to mark 12 of the latest set-of-marks screenshot
+  const el = ref.startsWith(MARK_REF_PREFIX)
+    ? markedElements.get(Number(ref.slice(MARK_REF_PREFIX.length)))
+    : elementRefs.get(ref);
+  return el && el.isConnected ? el : null;
+}
+
+/**
+ * Mark a ref'd element so selector-based actions can target it
+ * @returns A CSS selector matching only that element
+ */
+function getRefSelector(el: Element, ref: string): string {
+  el.setAttribute(ELEMENT_REF_ATTRIBUTE, ref);
+  return `[${ELEMENT_REF_ATTRIBUTE}="${ref}"]`;
+}
+
 // Helper function to dispatch complete, realistic click event sequence
 async function dispatchClickSequence(element: HTMLElement, x: number, y: number): Promise<void> {
   console.log('🖱️  Starting NATIVE-ONLY click sequence...');
@@ -428,8 +879,8 @@ async function dispatchClickSequence(element: HTMLElement, x: number, y: number)
 
   // Set focus first (required for some elements)
   try {
-    if (element instanceof HTMLElement && typeof element.focus === 'function') {
-      element.focus();
+    if (typeof (element as HTMLElement).focus === 'function') {
+      (element as HTMLElement).focus();
       console.log('✅ Focus set');
       await new Promise(resolve => setTimeout(resolve, 50)); // Wait for focus handlers
     }
@@ -560,114 +1011,734 @@ async function ensurePageFocus(): Promise<void> {
   }
 }
 
-// Execute actions on the page
-async function executePageAction(
-  action: string,
-  target?: string,
-  value?: string,
-  selector?: string,
-  coordinates?: { x: number; y: number },
-  direction?: string,
-  amount?: number,
-  key?: string,
-  keys?: string[],
-  destination?: { x: number; y: number }
-): Promise<any> {
-  // CRITICAL: Ensure page has focus before ANY action
-  await ensurePageFocus();
-  
-  try {
-    switch (action) {
-      case 'click':
-        // DEBUG: Log all click parameters
-        console.log('🔧 CLICK ACTION DEBUG - Start');
-        console.log('   📋 Parameters:', {
-          selector,
-          target,
-          coordinates,
-          value,
-          hasCoordinates: !!coordinates,
-          hasSelector: !!selector,
-          hasTarget: !!target
-        });
-        console.log('   🎯 Currently focused element:', {
-          tagName: document.activeElement?.tagName,
-          id: document.activeElement?.id,
-          className: document.activeElement?.className
-        });
+// ============================================
+// Input backend: synthetic DOM events or trusted CDP input
+// ============================================
 
-        // Support selector, text-based, and coordinate-based clicking
-        let element: Element | null = null;
+// Backend chosen by background.ts for the current action (setting or per-site policy)
+let activeInputBackend: InputBackend = 'dom';
+// Whether the current action delivered any input through CDP (reported back as inputBackend)
+let trustedInputUsed = false;
 
-        // 1. Try CSS selector first (most reliable)
-        if (selector) {
-          element = document.querySelector(selector);
-          if (element) {
-            console.log(`✅ Found element by selector: ${selector}`);
-          }
-        }
+/**
+ * Ask background.ts to send a click or keystrokes through chrome.debugger (isTrusted events)
+ * @param input - Click, text or key press to send
+ * @param asFallback - Try it even when the DOM backend is selected, because the synthetic path can't work
+ * @returns Whether the input was delivered - callers use synthetic events when it wasn't
+ */
+async function requestTrustedInput(input: TrustedInputRequest, asFallback = false): Promise<boolean> {
+  // Frames would need their offset inside the top viewport - they keep synthetic events
+  if ((activeInputBackend !== 'cdp' && !asFallback) || window !== window.top) return false;
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'TRUSTED_INPUT', input });
+    if (response?.success) {
+      trustedInputUsed = true;
+      return true;
+    }
+    console.warn('⚠️ Trusted input failed, falling back to synthetic events:', response?.error);
+  } catch (error) {
+    console.warn('⚠️ Trusted input unavailable, falling back to synthetic events:', error);
+  }
+  return false;
+}
 
-        // 2. Try finding by text content if selector failed or target is provided
-        if (!element && target) {
-          console.log(`🔍 Searching for element by text: "${target}"`);
+/**
+ * Click with the active backend: a real mouse click at (x, y), or the synthetic event sequence
+ */
+async function dispatchClick(element: HTMLElement, x: number, y: number): Promise<void> {
+  const inViewport = x >= 0 && y >= 0 && x < window.innerWidth && y < window.innerHeight;
+  if (inViewport && await requestTrustedInput({ kind: 'click', x, y })) return;
+  await dispatchClickSequence(element, x, y);
+}
 
-          // Search through common clickable elements (prioritized by specificity)
-          const clickableSelectors = [
-            // High priority: Form submit buttons and primary actions
-            'button[type="submit"]',
-            'input[type="submit"]',
+// Execute actions on the page
+// ============================================
+// Form controls: select, checkbox/radio, date/time, file upload
+// ============================================
+
+interface FormControlInput {
+  values?: string[]; // select_option: option values or labels
+  checked?: boolean; // set_checked: desired state
+  files?: UploadFilePayload[]; // upload_file: files from conversation attachments
+  formValues?: Record<string, string | boolean | string[]>; // fill_form: label-to-value mapping (omit to detect fields)
+}
 
-            // Modal and dialog buttons (often more specific)
-            '[role="dialog"] button',
-            '.modal button',
-            '.dialog button',
-            '[data-testid*="publish"] button',
-            '[data-testid*="submit"] button',
+const FORM_CONTROL_ACTIONS = new Set<PageActionName>(['select_option', 'set_checked', 'set_date', 'upload_file']);
 
-            // Primary/CTA buttons (common class patterns)
-            'button.primary',
-            'button.btn-primary',
-            'button[class*="primary"]',
-            'button[class*="cta"]',
+const DATE_INPUT_FORMATS: Record<string, { pattern: RegExp; example: string }> = {
+  date: { pattern: /^\d{4}-\d{2}-\d{2}$/, example: '2025-03-31' },
+  time: { pattern: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/, example: '14:30' },
+  'datetime-local': { pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/, example: '2025-03-31T14:30' },
+  month: { pattern: /^\d{4}-\d{2}$/, example: '2025-03' },
+  week: { pattern: /^\d{4}-W\d{2}$/, example: '2025-W14' }
+};
 
-            // General buttons (lower priority)
-            'button',
-            'a',
-            'input[type="button"]',
-            '[role="button"]',
-            '[role="tab"]',
-            '[role="link"]',
-            'span[onclick]',
-            'div[onclick]',
-            '[onclick]'
-          ];
+function normalizeLabel(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
 
-          for (const sel of clickableSelectors) {
-            const elements = Array.from(document.querySelectorAll(sel));
-            const matchingElements = elements.filter(el => {
-              const text = el.textContent?.trim().toLowerCase() || '';
-              const value = (el as HTMLInputElement).value?.toLowerCase() || '';
-              const targetLower = target.toLowerCase();
-              return text.includes(targetLower) || value.includes(targetLower);
-            });
+/**
+ * Find a form control by selector, or by its label / aria-label / placeholder text
+ */
+function findFormControl(selector?: string, label?: string): HTMLElement | null {
+  if (selector) {
+    return deepQuerySelector(selector) as HTMLElement | null;
+  }
+  if (!label) return null;
 
-            if (matchingElements.length > 0) {
-              // If multiple matches, prefer the most specific/visible one
-              element = matchingElements.find(el => {
-                const rect = (el as HTMLElement).getBoundingClientRect();
-                const isVisible = rect.width > 0 && rect.height > 0 &&
-                                 rect.top >= 0 && rect.left >= 0;
+  const wanted = normalizeLabel(label);
+  for (const labelEl of deepQuerySelectorAll('label')) {
+    if (normalizeLabel(labelEl.textContent) === wanted || normalizeLabel(labelEl.textContent).startsWith(wanted)) {
+      const control = labelEl.control || labelEl.querySelector('input, select, textarea, [role]');
+      if (control) return control as HTMLElement;
+    }
+  }
+  const candidates = deepQuerySelectorAll<HTMLElement>('input, select, textarea, [role="combobox"], [role="listbox"], [role="checkbox"], [role="radio"], [role="switch"]');
+  return candidates.find(el =>
+    normalizeLabel(el.getAttribute('aria-label')) === wanted ||
+    normalizeLabel(el.getAttribute('placeholder')) === wanted ||
+    normalizeLabel(el.getAttribute('name')) === wanted
+  ) || null;
+}
 
-                // Prefer buttons in modals/dialogs (higher z-index, overlay context)
-                const isInModal = el.closest('[role="dialog"], .modal, .dialog, [data-testid*="modal"]');
+/**
+ * Fire the events frameworks (React, Angular, Vue) listen for after a programmatic change
+ */
+function dispatchValueEvents(el: Element): void {
+  el.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+  el.dispatchEvent(new Event('change', { bubbles: true }));
+}
 
-                // Prefer exact text matches over partial matches
-                const text = el.textContent?.trim().toLowerCase() || '';
-                const targetLower = target.toLowerCase();
-                const isExactMatch = text === targetLower;
+/**
+ * Set an input's value through the native setter so React's value tracker sees the change
+ */
+function setNativeInputValue(input: HTMLInputElement, value: string): void {
+  const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(input), 'value')?.set;
+  if (setter) {
+    setter.call(input, value);
+  } else {
+    input.value = value;
+  }
+}
 
-                return isVisible && (isInModal || isExactMatch);
-              }) || matchingElements[0]; // Fallback to first match
+function optionMatches(option: Element, wanted: string): boolean {
+  const value = (option as HTMLOptionElement).value ?? option.getAttribute('data-value');
+  return normalizeLabel(value) === wanted ||
+    normalizeLabel(option.textContent) === wanted ||
+    normalizeLabel(option.getAttribute('aria-label')) === wanted;
+}
+
+/**
+ * Choose options in a native <select> or an ARIA combobox/listbox
+ */
+async function selectOption(control: HTMLElement, values: string[]): Promise<any> {
+  const wantedValues = values.map(normalizeLabel);
+
+  if (control.tagName === 'SELECT') {
+    const select = control as HTMLSelectElement;
+    if (wantedValues.length > 1 && !select.multiple) {
+      return { success: false, message: 'This select allows only one option' };
+    }
+    const options = Array.from(select.options);
+    const matched = wantedValues.map(wanted => options.find(option => optionMatches(option, wanted)));
+    const missing = values.filter((_value, index) => !matched[index]);
+    if (missing.length > 0) {
+      return {
+        success: false,
+        message: `Option not found: ${missing.join(', ')}`,
+        availableOptions: options.slice(0, 50).map(option => option.textContent?.trim() || option.value)
+      };
+    }
+    select.focus();
+    if (select.multiple) {
+      options.forEach(option => { option.selected = matched.includes(option); });
+    } else {
+      select.value = (matched[0] as HTMLOptionElement).value;
+    }
+    dispatchValueEvents(select);
+    const selected = Array.from(select.selectedOptions).map(option => option.textContent?.trim() || option.value);
+    return { success: true, message: `Selected ${selected.join(', ')}`, selected };
+  }
+
+  // ARIA combobox/listbox: open it, then click the matching options
+  const role = control.getAttribute('role');
+  if (role !== 'listbox') {
+    control.scrollIntoView({ block: 'center' });
+    control.click();
+    await new Promise(resolve => setTimeout(resolve, 300));
+  }
+  const popupId = control.getAttribute('aria-controls') || control.getAttribute('aria-owns');
+  const popup = (popupId && control.ownerDocument.getElementById(popupId)) || (role === 'listbox' ? control : null);
+
+  const selected: string[] = [];
+  for (const [index, wanted] of wantedValues.entries()) {
+    const options = popup
+      ? Array.from(popup.querySelectorAll('[role="option"]'))
+      : deepQuerySelectorAll('[role="option"]');
+    const option = options.find(candidate => optionMatches(candidate, wanted)) as HTMLElement | undefined;
+    if (!option) {
+      return {
+        success: false,
+        message: `Option not found: ${values[index]}`,
+        availableOptions: options.slice(0, 50).map(candidate => candidate.textContent?.trim() || '')
+      };
+    }
+    option.scrollIntoView({ block: 'nearest' });
+    option.click();
+    selected.push(option.textContent?.trim() || values[index]);
+    await new Promise(resolve => setTimeout(resolve, 150));
+  }
+  return { success: true, message: `Selected ${selected.join(', ')}`, selected };
+}
+
+/**
+ * Put a checkbox, radio or switch into the requested state
+ */
+function setChecked(control: HTMLElement, checked: boolean): any {
+  const isNative = control.tagName === 'INPUT';
+  const input = control as HTMLInputElement;
+  const isRadio = isNative ? input.type === 'radio' : control.getAttribute('role') === 'radio';
+  const readState = () => (isNative ? input.checked : control.getAttribute('aria-checked') === 'true');
+
+  if (isNative && input.type !== 'checkbox' && input.type !== 'radio') {
+    return { success: false, message: `Element is an input of type "${input.type}", not a checkbox or radio` };
+  }
+  if (readState() === checked) {
+    return { success: true, message: `Already ${checked ? 'checked' : 'unchecked'}`, checked };
+  }
+  if (isRadio && !checked) {
+    return { success: false, message: 'A radio button cannot be unchecked directly - select another option in the group instead' };
+  }
+
+  // A real click runs the page's own handlers (and toggles the native state)
+  control.scrollIntoView({ block: 'center' });
+  control.click();
+
+  if (isNative && input.checked !== checked) {
+    // Click was swallowed (e.g. hidden input behind a styled label) - set the state directly
+    input.checked = checked;
+    dispatchValueEvents(input);
+  }
+  const finalState = readState();
+  return finalState === checked
+    ? { success: true, message: `${checked ? 'Checked' : 'Unchecked'} ${isRadio ? 'radio' : 'checkbox'}`, checked: finalState }
+    : { success: false, message: 'State did not change - the control may be disabled or custom', checked: finalState };
+}
+
+/**
+ * Fill a date/time/datetime-local/month/week input (or a text-based date picker)
+ */
+function setDateValue(control: HTMLElement, value: string): any {
+  if (control.tagName !== 'INPUT') {
+    return { success: false, message: `Element ${control.tagName} is not an input` };
+  }
+  const input = control as HTMLInputElement;
+  const format = DATE_INPUT_FORMATS[input.type];
+  if (format && !format.pattern.test(value)) {
+    return { success: false, message: `"${value}" is not a valid ${input.type} value - use the format ${format.example}` };
+  }
+
+  input.focus();
+  setNativeInputValue(input, value);
+  dispatchValueEvents(input);
+  // Text-based pickers often commit the value on blur
+  input.dispatchEvent(new Event('blur'));
+
+  if (format && input.value !== value) {
+    return { success: false, message: `Value was rejected by the input (min/max or step?) - current value: "${input.value}"` };
+  }
+  return { success: true, message: `Set ${input.type} input to ${input.value}`, value: input.value };
+}
+
+/**
+ * Attach files to a file input, or drop them onto a dropzone
+ */
+function uploadFiles(control: HTMLElement, payloads: UploadFilePayload[]): any {
+  if (payloads.length === 0) {
+    return { success: false, message: 'No files to upload' };
+  }
+
+  const files = payloads.map(payload => {
+    const binary = atob(payload.dataBase64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new File([bytes], payload.name, { type: payload.mimeType || 'application/octet-stream' });
+  });
+  const dataTransfer = new DataTransfer();
+  files.forEach(file => dataTransfer.items.add(file));
+
+  // Styled upload buttons usually wrap (or sit next to) a hidden file input
+  const fileInput = (control.tagName === 'INPUT' && (control as HTMLInputElement).type === 'file'
+    ? control
+    : control.querySelector('input[type="file"]') || control.parentElement?.querySelector('input[type="file"]')) as HTMLInputElement | null;
+
+  if (fileInput) {
+    if (files.length > 1 && !fileInput.multiple) {
+      return { success: false, message: 'This file input accepts a single file' };
+    }
+    fileInput.files = dataTransfer.files;
+    dispatchValueEvents(fileInput);
+    return { success: true, message: `Attached ${files.map(file => file.name).join(', ')}`, fileCount: files.length };
+  }
+
+  // No file input - treat the element as a drag-and-drop zone
+  for (const type of ['dragenter', 'dragover', 'drop']) {
+    control.dispatchEvent(new DragEvent(type, { bubbles: true, cancelable: true, dataTransfer }));
+  }
+  return { success: true, message: `Dropped ${files.map(file => file.name).join(', ')} onto ${control.tagName}`, fileCount: files.length };
+}
+
+// ============================================
+// Whole-form detection and fill (fillForm tool)
+// ============================================
+
+type FormFieldValue = string | boolean | string[];
+
+interface DetectedFormField {
+  label: string;
+  type: string; // Input type, or select / textarea / combobox / radio-group / checkbox
+  required: boolean;
+  value: string | boolean | null;
+  options?: string[]; // select, combobox and radio-group choices
+  name?: string;
+  element: HTMLElement; // Not sent to the model
+  radios?: HTMLInputElement[];
+}
+
+const FORM_FIELD_SELECTOR = 'input, textarea, select, [role="combobox"], [role="checkbox"], [role="switch"]';
+const SKIPPED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+const MAX_FORM_FIELDS = 100;
+
+/**
+ * Label a form field the way a user would read it: accessible name, then nearby text, then name/id
+ */
+function getFieldLabel(el: Element): string {
+  const accessibleName = getAccessibleName(el, getElementRole(el) || 'textbox');
+  if (accessibleName) return accessibleName;
+
+  // Unlabelled fields (common in Workday-style forms) usually have their caption in a preceding sibling
+  let node: Element | null = el;
+  for (let depth = 0; depth < 3 && node; depth++) {
+    let sibling = node.previousElementSibling;
+    while (sibling) {
+      const text = collapseText((sibling as HTMLElement).innerText ?? sibling.textContent);
+      if (text) return text;
+      sibling = sibling.previousElementSibling;
+    }
+    node = node.parentElement;
+  }
+  return collapseText(el.getAttribute('name') || el.id);
+}
+
+function getFieldType(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'input') return ((el as HTMLInputElement).type || 'text').toLowerCase();
+  if (tag === 'select' || tag === 'textarea') return tag;
+  return el.getAttribute('role') || 'text';
+}
+
+/**
+ * The container to detect fields in: the given selector, or the form with the most visible fields
+ */
+function resolveFormRoot(selector?: string): Element | null {
+  if (selector) {
+    return deepQuerySelector(selector);
+  }
+  const visibleFieldCount = (root: Element) =>
+    Array.from(root.querySelectorAll(FORM_FIELD_SELECTOR)).filter(isElementVisible).length;
+  const forms = deepQuerySelectorAll('form')
+    .map(form => ({ form, count: visibleFieldCount(form) }))
+    .filter(entry => entry.count > 0)
+    .sort((a, b) => b.count - a.count);
+  // Many apps don't use <form> at all - fall back to the whole page
+  return forms[0]?.form || document.body;
+}
+
+/**
+ * Visible, enabled fields of a form with their resolved labels (radio buttons grouped by name)
+ */
+function detectFormFields(root: Element): DetectedFormField[] {
+  const fields: DetectedFormField[] = [];
+  const radioGroups = new Map<string, DetectedFormField>();
+
+  // Fields inside open shadow roots under the form count too
+  const searchRoots: (Element | ShadowRoot)[] = [
+    root,
+    ...collectSearchRoots().filter((searchRoot): searchRoot is ShadowRoot => 'host' in searchRoot && root.contains(searchRoot.host))
+  ];
+  const candidates = searchRoots.flatMap(searchRoot => Array.from(searchRoot.querySelectorAll<HTMLElement>(FORM_FIELD_SELECTOR)));
+
+  for (const el of candidates) {
+    if (fields.length >= MAX_FORM_FIELDS) break;
+    const type = getFieldType(el);
+    if (SKIPPED_INPUT_TYPES.has(type) || !isElementVisible(el)) continue;
+    if ((el as HTMLInputElement).disabled || (el as HTMLInputElement).readOnly) continue;
+    // Native selects are listed once, not again as their ARIA role
+    if (el.tagName !== 'SELECT' && el.closest('select')) continue;
+
+    const required = (el as HTMLInputElement).required || el.getAttribute('aria-required') === 'true';
+    const name = el.getAttribute('name') || undefined;
+
+    if (type === 'radio') {
+      const input = el as HTMLInputElement;
+      const groupKey = name || getFieldLabel(el);
+      let group = radioGroups.get(groupKey);
+      if (!group) {
+        const fieldset = el.closest('fieldset');
+        const legend = fieldset?.querySelector('legend');
+        const groupLabel = el.closest('[role="radiogroup"]');
+        group = {
+          label: collapseText(legend?.textContent) || (groupLabel && getAccessibleName(groupLabel, 'radiogroup')) || collapseText(name),
+          type: 'radio-group',
+          required,
+          value: null,
+          options: [],
+          name,
+          element: el,
+          radios: []
+        };
+        radioGroups.set(groupKey, group);
+        fields.push(group);
+      }
+      group.options!.push(getFieldLabel(el) || input.value);
+      group.radios!.push(input);
+      group.required = group.required || required;
+      if (input.checked) group.value = getFieldLabel(el) || input.value;
+      continue;
+    }
+
+    let value: string | boolean | null;
+    let options: string[] | undefined;
+    if (type === 'checkbox' || type === 'switch') {
+      value = el.tagName === 'INPUT' ? (el as HTMLInputElement).checked : el.getAttribute('aria-checked') === 'true';
+    } else if (el.tagName === 'SELECT') {
+      const select = el as HTMLSelectElement;
+      options = Array.from(select.options).slice(0, 50).map(option => collapseText(option.textContent) || option.value);
+      value = Array.from(select.selectedOptions).map(option => collapseText(option.textContent) || option.value).join(', ') || null;
+    } else if (type === 'password') {
+      value = (el as HTMLInputElement).value ? '••••••' : null;
+    } else if (type === 'file') {
+      const files = (el as HTMLInputElement).files;
+      value = files && files.length > 0 ? Array.from(files).map(file => file.name).join(', ') : null;
+    } else if ('value' in el) {
+      value = (el as HTMLInputElement).value || null;
+    } else {
+      value = collapseText(el.textContent) || null;
+    }
+
+    fields.push({ label: getFieldLabel(el), type, required, value, options, name, element: el });
+  }
+
+  // Keys must be unique so a label-to-value mapping can address every field
+  const seen = new Map<string, number>();
+  for (const field of fields) {
+    const base = field.label || field.name || field.type;
+    const count = (seen.get(base.toLowerCase()) || 0) + 1;
+    seen.set(base.toLowerCase(), count);
+    field.label = count > 1 ? `${base} (${count})` : base;
+  }
+  return fields;
+}
+
+/**
+ * Find the field a mapping key refers to: exact label, then name/id, then a unique partial label match
+ */
+function matchFormField(fields: DetectedFormField[], key: string): DetectedFormField | null {
+  const wanted = normalizeLabel(key);
+  const exact = fields.find(field => normalizeLabel(field.label) === wanted);
+  if (exact) return exact;
+  const byName = fields.find(field => normalizeLabel(field.name) === wanted || normalizeLabel(field.element.id) === wanted);
+  if (byName) return byName;
+  const partial = fields.filter(field => normalizeLabel(field.label).includes(wanted));
+  return partial.length === 1 ? partial[0] : null;
+}
+
+function toBoolean(value: FormFieldValue): boolean {
+  if (typeof value === 'boolean') return value;
+  return ['true', 'yes', 'on', 'checked', '1'].includes(normalizeLabel(String(value)));
+}
+
+/**
+ * Fill one detected field with the value the model asked for
+ */
+async function fillFormField(field: DetectedFormField, value: FormFieldValue): Promise<{ success: boolean; message: string }> {
+  const el = field.element;
+
+  if (field.type === 'radio-group') {
+    const wanted = normalizeLabel(String(value));
+    const radio = field.radios!.find(candidate =>
+      normalizeLabel(getFieldLabel(candidate)) === wanted || normalizeLabel(candidate.value) === wanted
+    );
+    if (!radio) {
+      return { success: false, message: `No option "${value}" (options: ${field.options!.join(', ')})` };
+    }
+    return setChecked(radio, true);
+  }
+  if (field.type === 'checkbox' || field.type === 'switch') {
+    return setChecked(el, toBoolean(value));
+  }
+  if (el.tagName === 'SELECT' || field.type === 'combobox' || field.type === 'listbox') {
+    return selectOption(el, Array.isArray(value) ? value : [String(value)]);
+  }
+  if (field.type === 'file') {
+    return { success: false, message: 'File inputs are filled with the uploadFile tool' };
+  }
+  if (field.type in DATE_INPUT_FORMATS) {
+    return setDateValue(el, String(value));
+  }
+
+  // Text-like inputs and textareas
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  el.scrollIntoView({ block: 'center' });
+  el.focus();
+  if ('value' in el) {
+    setNativeInputValue(el as HTMLInputElement, text);
+  } else {
+    el.textContent = text;
+  }
+  dispatchValueEvents(el);
+  el.dispatchEvent(new Event('blur'));
+  const finalValue = 'value' in el ? (el as HTMLInputElement).value : el.textContent;
+  return finalValue === text
+    ? { success: true, message: 'Filled' }
+    : { success: false, message: `Value was changed by the page to "${collapseText(finalValue)}"` };
+}
+
+/**
+ * Detect a form's fields, or fill them from a label-to-value mapping
+ */
+async function fillForm(formSelector: string | undefined, values: Record<string, FormFieldValue> | undefined): Promise<any> {
+  const root = resolveFormRoot(formSelector);
+  if (!root) {
+    return { success: false, message: `Form not found: ${formSelector}` };
+  }
+  const fields = detectFormFields(root);
+  const describeFields = () => fields.map(({ element: _element, radios: _radios, ...field }) => field);
+
+  if (!values || Object.keys(values).length === 0) {
+    console.log(`📋 Detected ${fields.length} form fields`);
+    return {
+      success: true,
+      message: `Found ${fields.length} fields. Call fillForm again with values keyed by label.`,
+      fields: describeFields()
+    };
+  }
+
+  const results: Array<{ field: string; success: boolean; message: string }> = [];
+  for (const [key, value] of Object.entries(values)) {
+    const field = matchFormField(fields, key);
+    if (!field) {
+      results.push({ field: key, success: false, message: 'No field with this label' });
+      continue;
+    }
+    try {
+      const result = await fillFormField(field, value);
+      results.push({ field: field.label, success: result.success, message: result.message });
+    } catch (error) {
+      results.push({ field: field.label, success: false, message: (error as Error).message });
+    }
+  }
+
+  const filled = results.filter(result => result.success).length;
+  const missingRequired = detectFormFields(root)
+    .filter(field => field.required && (field.value === null || field.value === false || field.value === ''))
+    .map(field => field.label);
+  console.log(`📋 Filled ${filled}/${results.length} form fields`);
+
+  return {
+    success: filled === results.length,
+    message: `Filled ${filled}/${results.length} fields`,
+    results,
+    ...(missingRequired.length > 0 && { emptyRequiredFields: missingRequired }),
+    // Let the model correct unmatched keys without another detection round-trip
+    ...(filled < results.length && { fields: describeFields() })
+  };
+}
+
+/**
+ * Search boxes get Enter pressed right after typing; autocomplete/combobox inputs are dropdowns, not search boxes
+ */
+function isSearchInput(input: HTMLInputElement | HTMLTextAreaElement, target?: string): boolean {
+  const isSearch = target?.includes('search') ||
+    input.type === 'search' ||
+    input.name?.toLowerCase().includes('search') ||
+    input.id?.toLowerCase().includes('search') ||
+    input.placeholder?.toLowerCase().includes('search') ||
+    input.getAttribute('aria-label')?.toLowerCase().includes('search');
+  return !!isSearch && input.getAttribute('role') !== 'combobox';
+}
+
+/**
+ * Type into a focused field with trusted input: replace an input's value, or add to the end of an editor
+ * @returns The action result, or null when the text didn't land (the synthetic path runs instead)
+ */
+async function fillWithTrustedInput(element: HTMLElement, text: string, target?: string): Promise<any> {
+  const isTextField = element.tagName === 'INPUT' || element.tagName === 'TEXTAREA';
+  if (isTextField) {
+    (element as HTMLInputElement).select();
+  } else {
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    range.collapse(false);
+    window.getSelection()?.removeAllRanges();
+    window.getSelection()?.addRange(range);
+    // Existing editor content gets the new text on its own line, like the synthetic path
+    if (element.textContent?.trim() && !await requestTrustedInput({ kind: 'key', key: 'Enter' })) return null;
+  }
+
+  if (!await requestTrustedInput({ kind: 'type', text })) return null;
+  const content = isTextField ? (element as HTMLInputElement).value : element.textContent || '';
+  if (!content.includes(text)) return null;
+
+  if (isTextField && isSearchInput(element as HTMLInputElement, target)) {
+    await requestTrustedInput({ kind: 'key', key: 'Enter' });
+  }
+  return { success: true, message: `Successfully typed "${text}" into ${element.tagName}`, element: element.tagName };
+}
+
+async function executePageAction(
+  action: PageActionName,
+  target?: string,
+  value?: string,
+  selector?: string,
+  coordinates?: { x: number; y: number },
+  direction?: string,
+  amount?: number,
+  key?: string,
+  keys?: string[],
+  destination?: { x: number; y: number },
+  ref?: string,
+  formInput: FormControlInput = {}
+): Promise<any> {
+  // CRITICAL: Ensure page has focus before ANY action
+  await ensurePageFocus();
+
+  // Snapshot refs are turned into a unique selector (or coordinates) so the actions below work unchanged
+  if (ref) {
+    const refElement = resolveElementRef(ref);
+    if (!refElement) {
+      return {
+        success: false,
+        message: ref.startsWith(MARK_REF_PREFIX)
+          ? `Mark ${ref.slice(MARK_REF_PREFIX.length)} is stale or unknown. Take a new screenshot to get fresh marks.`
+          : `Element ref "${ref}" is stale or unknown. Call getAccessibilitySnapshot again to get fresh refs.`
+      };
+    }
+    const refSelector = getRefSelector(refElement, ref);
+    if (action === 'click' || action === 'press_key' || action === 'fill_form' || FORM_CONTROL_ACTIONS.has(action)) {
+      selector = refSelector;
+      target = undefined;
+      coordinates = undefined;
+    } else if (action === 'fill') {
+      target = refSelector;
+    } else if (action === 'scroll') {
+      refElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return { success: true, message: `Scrolled to ${ref}` };
+    } else if (action === 'hover') {
+      // Dispatch on the element itself - coordinates can't address elements inside frames
+      refElement.scrollIntoView({ block: 'center', inline: 'center' });
+      const rect = refElement.getBoundingClientRect();
+      const hoverInit: MouseEventInit = { bubbles: true, cancelable: true, clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+      refElement.dispatchEvent(new MouseEvent('mouseover', hoverInit));
+      refElement.dispatchEvent(new MouseEvent('mouseenter', hoverInit));
+      return { success: true, message: `Hovered ${ref}`, element: refElement.tagName };
+    }
+  }
+
+  try {
+    switch (action) {
+      case 'click':
+        // DEBUG: Log all click parameters
+        console.log('🔧 CLICK ACTION DEBUG - Start');
+        console.log('   📋 Parameters:', {
+          selector,
+          target,
+          coordinates,
+          value,
+          hasCoordinates: !!coordinates,
+          hasSelector: !!selector,
+          hasTarget: !!target
+        });
+        console.log('   🎯 Currently focused element:', {
+          tagName: document.activeElement?.tagName,
+          id: document.activeElement?.id,
+          className: document.activeElement?.className
+        });
+
+        // Support selector, text-based, and coordinate-based clicking
+        let element: Element | null = null;
+
+        // 1. Try CSS selector first (most reliable)
+        if (selector) {
+          element = deepQuerySelector(selector);
+          if (element) {
+            console.log(`✅ Found element by selector: ${selector}`);
+          }
+        }
+
+        // 2. Try finding by text content if selector failed or target is provided
+        if (!element && target) {
+          console.log(`🔍 Searching for element by text: "${target}"`);
+
+          // Search through common clickable elements (prioritized by specificity)
+          const clickableSelectors = [
+            // High priority: Form submit buttons and primary actions
+            'button[type="submit"]',
+            'input[type="submit"]',
+
+            // Modal and dialog buttons (often more specific)
+            '[role="dialog"] button',
+            '.modal button',
+            '.dialog button',
+            '[data-testid*="publish"] button',
+            '[data-testid*="submit"] button',
+
+            // Primary/CTA buttons (common class patterns)
+            'button.primary',
+            'button.btn-primary',
+            'button[class*="primary"]',
+            'button[class*="cta"]',
+
+            // General buttons (lower priority)
+            'button',
+            'a',
+            'input[type="button"]',
+            '[role="button"]',
+            '[role="tab"]',
+            '[role="link"]',
+            'span[onclick]',
+            'div[onclick]',
+            '[onclick]'
+          ];
+
+          for (const sel of clickableSelectors) {
+            const elements = deepQuerySelectorAll(sel);
+            const matchingElements = elements.filter(el => {
+              const text = el.textContent?.trim().toLowerCase() || '';
+              const value = (el as HTMLInputElement).value?.toLowerCase() || '';
+              const targetLower = target.toLowerCase();
+              return text.includes(targetLower) || value.includes(targetLower);
+            });
+
+            if (matchingElements.length > 0) {
+              // If multiple matches, prefer the most specific/visible one
+              element = matchingElements.find(el => {
+                const rect = (el as HTMLElement).getBoundingClientRect();
+                const isVisible = rect.width > 0 && rect.height > 0 &&
+                                 rect.top >= 0 && rect.left >= 0;
+
+                // Prefer buttons in modals/dialogs (higher z-index, overlay context)
+                const isInModal = el.closest('[role="dialog"], .modal, .dialog, [data-testid*="modal"]');
+
+                // Prefer exact text matches over partial matches
+                const text = el.textContent?.trim().toLowerCase() || '';
+                const targetLower = target.toLowerCase();
+                const isExactMatch = text === targetLower;
+
+                return isVisible && (isInModal || isExactMatch);
+              }) || matchingElements[0]; // Fallback to first match
 
               console.log(`✅ Found ${matchingElements.length} matching elements for "${target}" in ${sel}`);
               console.log(`   Selected: "${element.textContent?.trim()}"`);
@@ -679,7 +1750,7 @@ async function executePageAction(
 
           // If still not found, try aria-label
           if (!element) {
-            const elementsWithLabel = Array.from(document.querySelectorAll('[aria-label]'));
+            const elementsWithLabel = deepQuerySelectorAll('[aria-label]');
             element = elementsWithLabel.find(el => {
               const label = el.getAttribute('aria-label')?.toLowerCase() || '';
               return label.includes(target.toLowerCase());
@@ -693,7 +1764,7 @@ async function executePageAction(
           // Last resort: search ALL elements for matching text (slow but comprehensive)
           if (!element) {
             console.log(`🔍 Last resort: searching all elements for text "${target}"`);
-            const allElements = Array.from(document.querySelectorAll('*'));
+            const allElements = deepQuerySelectorAll('*');
             element = allElements.find(el => {
               // Only consider visible elements
               const rect = el.getBoundingClientRect();
@@ -736,7 +1807,7 @@ async function executePageAction(
           console.log(`   Element text: "${element.textContent?.trim().substring(0, 50)}"`);
 
           // Use complete click sequence for better compatibility
-          await dispatchClickSequence(element as HTMLElement, clickX, clickY);
+          await dispatchClick(element as HTMLElement, clickX, clickY);
 
           // Visual feedback
           highlightElement(element, coordinates || { x: clickX, y: clickY });
@@ -856,7 +1927,7 @@ async function executePageAction(
 
           // Get element at coordinates (may override selector-found element if mismatch)
           if (!element) {
-            element = document.elementFromPoint(coordinates.x, coordinates.y) as HTMLElement;
+            element = deepElementFromPoint(coordinates.x, coordinates.y) as HTMLElement;
           }
           console.log(`🎯 Element at coordinates:`, element?.tagName, element?.className);
 
@@ -887,7 +1958,7 @@ async function executePageAction(
             const rect = element.getBoundingClientRect();
 
             // Use complete click sequence for better compatibility
-            await dispatchClickSequence(element as HTMLElement, coordinates.x, coordinates.y);
+            await dispatchClick(element as HTMLElement, coordinates.x, coordinates.y);
 
             // Visual feedback
             highlightElement(element, coordinates);
@@ -990,7 +2061,7 @@ async function executePageAction(
             ];
 
             for (const selector of bestEditableSelectors) {
-              const candidates = Array.from(document.querySelectorAll(selector)) as HTMLElement[];
+              const candidates = deepQuerySelectorAll(selector) as HTMLElement[];
               const bestCandidate = candidates.find(el => {
                 const rect = el.getBoundingClientRect();
                 const isVisible = rect.width > 50 && rect.height > 20 && rect.top >= 0;
@@ -1042,7 +2113,7 @@ async function executePageAction(
 
           // Try to find element by selector if provided
           if (target && !target.includes(':focus')) {
-            element = document.querySelector(target) as HTMLElement;
+            element = deepQuerySelector(target) as HTMLElement;
             if (element) {
               console.log('✅ Found element by selector:', target);
               console.log('   📋 Element details:', {
@@ -1059,7 +2130,7 @@ async function executePageAction(
               console.log('❌ No element found with selector:', target);
               console.log('   🔍 Available elements with similar selectors:');
               // Try to find similar elements for debugging
-              const similarElements = Array.from(document.querySelectorAll('*')).filter(el =>
+              const similarElements = deepQuerySelectorAll('*').filter(el =>
                 el.id?.includes(target?.replace(/[#.]/, '') || '') ||
                 el.className?.includes(target?.replace(/[#.]/, '') || '') ||
                 el.tagName?.toLowerCase().includes(target?.toLowerCase() || '')
@@ -1070,7 +2141,7 @@ async function executePageAction(
 
           // If no element found or selector was for focused elements, use the currently focused element
           if (!element) {
-            element = document.activeElement as HTMLElement;
+            element = getDeepActiveElement() as HTMLElement;
             console.log('🎯 Using currently focused element:', element?.tagName);
             console.log('   📋 Focused element details:', {
               tagName: element?.tagName,
@@ -1120,7 +2191,7 @@ async function executePageAction(
             ];
 
             for (const selector of editableSelectors) {
-              const inputs = Array.from(document.querySelectorAll(selector)) as HTMLElement[];
+              const inputs = deepQuerySelectorAll(selector) as HTMLElement[];
               console.log(`   🔍 Trying selector "${selector}" - found ${inputs.length} elements`);
 
               // Find first visible input
@@ -1184,11 +2255,16 @@ async function executePageAction(
             // Explicitly focus the element
             element.focus();
 
+            if (activeInputBackend === 'cdp') {
+              const trustedResult = await fillWithTrustedInput(element, textToType, target);
+              if (trustedResult) return trustedResult;
+            }
+
             // Return a promise that resolves after a delay to ensure focus is established
             return new Promise<any>((resolve) => {
               setTimeout(() => {
                 // Verify element still has focus
-                const stillFocused = document.activeElement === element;
+                const stillFocused = getDeepActiveElement() === element;
 
                 if (!stillFocused) {
                   element!.focus();
@@ -1231,17 +2307,7 @@ async function executePageAction(
                     inputElement.dispatchEvent(new Event('change', { bubbles: true }));
 
                     // Check if this is a search input - if so, press Enter immediately
-                    const isSearchInput = target?.includes('search') ||
-                                         inputElement.type === 'search' ||
-                                         inputElement.name?.toLowerCase().includes('search') ||
-                                         inputElement.id?.toLowerCase().includes('search') ||
-                                         inputElement.placeholder?.toLowerCase().includes('search') ||
-                                         inputElement.getAttribute('aria-label')?.toLowerCase().includes('search');
-
-                    // Exclude autocomplete/combobox inputs (those are dropdowns, not search boxes)
-                    const isCombobox = inputElement.getAttribute('role') === 'combobox';
-
-                    if (isSearchInput && !isCombobox) {
+                    if (isSearchInput(inputElement, target)) {
                       console.log('   🔍 Search input detected - pressing Enter immediately');
                       console.log('   📋 Pressing Enter on:', {
                         id: inputElement.id,
@@ -1410,7 +2476,7 @@ async function executePageAction(
           console.error('   💡 Available editable elements on page:');
 
           // Show available editable elements for debugging
-          const editableElements = Array.from(document.querySelectorAll('input, textarea, [contenteditable="true"]'));
+          const editableElements = deepQuerySelectorAll('input, textarea, [contenteditable="true"]');
           editableElements.slice(0, 10).forEach((el, i) => {
             const rect = el.getBoundingClientRect();
             console.error(`      ${i+1}. ${el.tagName}#${el.id}.${el.className} - ${rect.width}x${rect.height} - visible: ${rect.width > 0 && rect.height > 0}`);
@@ -1605,7 +2671,7 @@ async function executePageAction(
           }, 100);
           return { success: true, message: `Scrolled down by ${scrollAmount}px from position ${beforeScroll} to ${Math.min(maxScroll, beforeScroll + scrollAmount)}` };
         } else if (selector || target) {
-          const element = document.querySelector(selector || target!);
+          const element = deepQuerySelector(selector || target!);
           if (element) {
             element.scrollIntoView({ behavior: 'smooth', block: 'center' });
             console.log('   ✓ Scrolled to element:', selector || target);
@@ -1622,12 +2688,15 @@ async function executePageAction(
         // This mimics the Python playwright keyboard.type() behavior
         if (value) {
           const textToType = value;
-          const focusedEl = document.activeElement;
+          const focusedEl = getDeepActiveElement();
 
           if (!focusedEl) {
             return { success: false, message: 'No element has focus. Click on an input field first.' };
           }
 
+          if (await requestTrustedInput({ kind: 'type', text: textToType })) {
+            return { success: true, message: `Typed "${textToType}" into ${focusedEl.tagName}`, element: focusedEl.tagName };
+          }
 
           // Check if it's a typeable element
           const isInput = focusedEl.tagName === 'INPUT';
@@ -1635,6 +2704,10 @@ async function executePageAction(
           const isContentEditable = focusedEl.getAttribute('contenteditable') === 'true';
 
           if (!isInput && !isTextarea && !isContentEditable) {
+            // Custom editors (role="textbox" widgets, canvas editors) only react to real input
+            if (await requestTrustedInput({ kind: 'type', text: textToType }, true)) {
+              return { success: true, message: `Typed "${textToType}" into ${focusedEl.tagName}`, element: focusedEl.tagName };
+            }
             return { success: false, message: `Element ${focusedEl.tagName} is not typeable. Click on an input field first.` };
           }
 
@@ -1681,14 +2754,13 @@ async function executePageAction(
         return { success: false, message: 'Value required for keyboard_type action' };
 
       case 'press_key':
-      case 'pressKey':
         // Press a specific key on the currently focused element or specified selector
         const keyToPress = (key || value || target || 'Enter') as string;
 
         // If a selector is provided, find and focus that element first
-        let focusedElement = document.activeElement;
+        let focusedElement = getDeepActiveElement();
         if (selector || target) {
-          const targetElement = document.querySelector(selector || target!) as HTMLElement;
+          const targetElement = deepQuerySelector(selector || target!) as HTMLElement;
           if (targetElement) {
             targetElement.focus();
             focusedElement = targetElement;
@@ -1698,8 +2770,13 @@ async function executePageAction(
 
         if (focusedElement) {
           // Ensure element is focused
-          if (focusedElement instanceof HTMLElement) {
-            focusedElement.focus();
+          if (typeof (focusedElement as HTMLElement).focus === 'function') {
+            (focusedElement as HTMLElement).focus();
+          }
+
+          // Real key events trigger the browser's default actions (form submit, scrolling) by themselves
+          if (await requestTrustedInput({ kind: 'key', key: keyToPress })) {
+            return { success: true, message: `Pressed ${keyToPress} key` };
           }
 
           // Special handling for Enter key - actually submit the form
@@ -1758,7 +2835,7 @@ async function executePageAction(
             }
 
             // For regular input fields (not comboboxes), try to submit the parent form
-            if (focusedElement instanceof HTMLInputElement || focusedElement instanceof HTMLTextAreaElement) {
+            if (focusedElement.tagName === 'INPUT' || focusedElement.tagName === 'TEXTAREA') {
               const form = focusedElement.closest('form');
               if (form) {
                 // Try clicking submit button first (more realistic)
@@ -1776,7 +2853,7 @@ async function executePageAction(
               }
 
               // If no form, check if this is a search input
-              const isSearchInput = focusedElement.type === 'search' ||
+              const isSearchInput = (focusedElement as HTMLInputElement).type === 'search' ||
                                    focusedElement.getAttribute('aria-label')?.toLowerCase().includes('search');
 
               // Only try to find nearby submit buttons for search inputs, not for all inputs
@@ -1937,7 +3014,7 @@ async function executePageAction(
 
       case 'clear_input':
         // Clear the currently focused input field
-        const activeEl = document.activeElement as HTMLInputElement;
+        const activeEl = getDeepActiveElement() as HTMLInputElement;
         if (activeEl && (activeEl.tagName === 'INPUT' || activeEl.tagName === 'TEXTAREA' || activeEl.getAttribute('contenteditable') === 'true')) {
           // Clear value directly (avoid execCommand which can trigger CSP violations)
           if (activeEl.tagName === 'INPUT' || activeEl.tagName === 'TEXTAREA') {
@@ -1966,7 +3043,12 @@ async function executePageAction(
       case 'key_combination':
         // Press a combination of keys like ["Control", "A"] or ["Enter"]
         const keysList = keys || ['Enter'];
-        const targetEl = document.activeElement || document.body;
+        const targetEl = getDeepActiveElement() || document.body;
+
+        // Shortcuts like Ctrl+A or Ctrl+Enter only reach editors and browser handling as trusted input
+        if (await requestTrustedInput({ kind: 'key', key: keysList[keysList.length - 1], modifiers: keysList.slice(0, -1) })) {
+          return { success: true, message: `Pressed key combination: ${keysList.join('+')}` };
+        }
 
         // Hold down all keys except the last one
         for (let i = 0; i < keysList.length - 1; i++) {
@@ -2001,7 +3083,7 @@ async function executePageAction(
       case 'hover':
         // Hover at specific coordinates
         if (coordinates) {
-          const hoverEl = document.elementFromPoint(coordinates.x, coordinates.y);
+          const hoverEl = deepElementFromPoint(coordinates.x, coordinates.y);
           if (hoverEl) {
             hoverEl.dispatchEvent(new MouseEvent('mouseover', {
               bubbles: true,
@@ -2026,8 +3108,8 @@ async function executePageAction(
       case 'drag_drop':
         // Drag and drop from coordinates to destination
         if (coordinates && destination) {
-          const dragEl = document.elementFromPoint(coordinates.x, coordinates.y);
-          const dropEl = document.elementFromPoint(destination.x, destination.y);
+          const dragEl = deepElementFromPoint(coordinates.x, coordinates.y);
+          const dropEl = deepElementFromPoint(destination.x, destination.y);
 
           if (dragEl && dropEl) {
             try {
@@ -2063,7 +3145,7 @@ async function executePageAction(
               for (let i = 1; i <= steps; i++) {
                 const currentX = coordinates.x + stepX * i;
                 const currentY = coordinates.y + stepY * i;
-                const currentEl = document.elementFromPoint(currentX, currentY);
+                const currentEl = deepElementFromPoint(currentX, currentY);
 
                 // Mouse move
                 if (currentEl) {
@@ -2141,7 +3223,7 @@ async function executePageAction(
       case 'mouse_move':
         // Simulate mouse move by dispatching mouse events
         if (coordinates) {
-          const element = document.elementFromPoint(coordinates.x, coordinates.y);
+          const element = deepElementFromPoint(coordinates.x, coordinates.y);
           if (element) {
             const moveEvent = new MouseEvent('mousemove', {
               bubbles: true,
@@ -2157,9 +3239,27 @@ async function executePageAction(
         }
         return { success: false, message: 'Coordinates required for mouse_move action' };
 
-      case 'screenshot':
-        // This would need to be handled by the background script
-        return { success: true, message: 'Screenshot request sent to background' };
+      case 'select_option':
+      case 'set_checked':
+      case 'set_date':
+      case 'upload_file': {
+        const control = findFormControl(selector, target);
+        if (!control) {
+          return { success: false, message: `Form control not found: ${selector || target || '(no selector, label or ref)'}` };
+        }
+        if ((control as HTMLInputElement).disabled || control.getAttribute('aria-disabled') === 'true') {
+          return { success: false, message: 'Form control is disabled' };
+        }
+        console.log(`📝 ${action} on ${control.tagName}`, { selector, label: target });
+
+        if (action === 'select_option') return await selectOption(control, formInput.values || (value ? [value] : []));
+        if (action === 'set_checked') return setChecked(control, formInput.checked ?? true);
+        if (action === 'set_date') return setDateValue(control, value || '');
+        return uploadFiles(control, formInput.files || []);
+      }
+
+      case 'fill_form':
+        return await fillForm(selector, formInput.formValues);
 
       default:
         return { success: false, message: `Unknown action: ${action}` };
@@ -2169,7 +3269,988 @@ async function executePageAction(
   }
 }
 
-// Listen for messages from background script or sidebar
+// ============================================
+// Wait for DOM conditions (waitFor tool)
+// ============================================
+
+type DomWaitConditions = Pick<WaitForMessage, 'selector' | 'selectorState' | 'text' | 'domStableMs'>;
+
+interface WaitConditionResult {
+  condition: string;
+  met: boolean;
+  detail?: string;
+}
+
+const WAIT_POLL_INTERVAL_MS = 200;
+
+function isElementVisible(el: Element): boolean {
+  if (el.getClientRects().length === 0) return false;
+  const style = el.ownerDocument.defaultView?.getComputedStyle(el);
+  return !style || (style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0');
+}
+
+/**
+ * Case-insensitive text search across the document, open shadow roots and same-origin frames
+ */
+function pageContainsText(text: string): boolean {
+  const wanted = text.toLowerCase();
+  return collectSearchRoots().some(root => {
+    const rootText = 'body' in root ? root.body?.innerText : root.textContent;
+    return (rootText || '').toLowerCase().includes(wanted);
+  });
+}
+
+function evaluateDomConditions(conditions: DomWaitConditions, lastMutationAt: number): WaitConditionResult[] {
+  const results: WaitConditionResult[] = [];
+
+  if (conditions.selector) {
+    const visibleCount = deepQuerySelectorAll(conditions.selector).filter(isElementVisible).length;
+    const wantHidden = conditions.selectorState === 'hidden';
+    results.push({
+      condition: `selector ${conditions.selector} ${wantHidden ? 'hidden' : 'visible'}`,
+      met: wantHidden ? visibleCount === 0 : visibleCount > 0,
+      detail: `${visibleCount} visible match(es)`
+    });
+  }
+
+  if (conditions.text) {
+    results.push({ condition: `text "${conditions.text}" present`, met: pageContainsText(conditions.text) });
+  }
+
+  if (conditions.domStableMs) {
+    const quietFor = Date.now() - lastMutationAt;
+    results.push({
+      condition: `DOM stable for ${conditions.domStableMs}ms`,
+      met: quietFor >= conditions.domStableMs,
+      detail: `last change ${quietFor}ms ago`
+    });
+  }
+
+  return results;
+}
+
+// Cancel functions of the waits in progress (ABORT_WAIT_FOR_DOM)
+const activeDomWaits = new Set<() => void>();
+
+/**
+ * Resolve once every DOM condition holds, or with met=false when the timeout expires or the wait is cancelled
+ */
+function waitForDomConditions(
+  conditions: DomWaitConditions,
+  timeoutMs: number
+): Promise<{ met: boolean; elapsedMs: number; conditions: WaitConditionResult[] }> {
+  return new Promise(resolve => {
+    const startedAt = Date.now();
+    let lastMutationAt = startedAt;
+    let settled = false;
+    const cancel = () => check(true);
+
+    // Mutations inside shadow roots aren't observed here - selector/text checks still see them via polling
+    const observer = new MutationObserver(() => {
+      lastMutationAt = Date.now();
+    });
+    observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+
+    const check = (cancelled = false) => {
+      if (settled) return;
+      const results = evaluateDomConditions(conditions, lastMutationAt);
+      const met = !cancelled && results.every(result => result.met);
+      if (cancelled || met || Date.now() - startedAt >= timeoutMs) {
+        settled = true;
+        observer.disconnect();
+        clearInterval(timer);
+        activeDomWaits.delete(cancel);
+        resolve({ met, elapsedMs: Date.now() - startedAt, conditions: results });
+      }
+    };
+
+    activeDomWaits.add(cancel);
+    const timer = setInterval(() => check(), WAIT_POLL_INTERVAL_MS);
+    check();
+  });
+}
+
+// ============================================
+// Structured data extraction (extractData tool)
+// ============================================
+
+type ExtractedRow = Record<string, string | number | boolean | null>;
+
+const MAX_EXTRACT_ROWS = 1000;
+const MAX_CELL_LENGTH = 500;
+const MIN_REPEATED_ITEMS = 3;
+const NEXT_PAGE_REF = 'next-page';
+
+function getCellText(el: Element): string {
+  return collapseText((el as HTMLElement).innerText ?? el.textContent, MAX_CELL_LENGTH);
+}
+
+function uniqueKey(key: string, used: Set<string>): string {
+  let candidate = key || 'value';
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${key} ${i}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/**
+ * Rows of an HTML table keyed by its header cells (links get an extra "<header> link" column)
+ */
+function extractTable(table: HTMLTableElement): { columns: string[]; rows: ExtractedRow[] } {
+  const allRows = Array.from(table.rows);
+  const headerRow = table.tHead?.rows[0] || (allRows[0] && Array.from(allRows[0].cells).every(cell => cell.tagName === 'TH') ? allRows[0] : null);
+
+  const usedKeys = new Set<string>();
+  const headers: string[] = [];
+  if (headerRow) {
+    for (const cell of Array.from(headerRow.cells)) {
+      const key = uniqueKey(getCellText(cell) || `Column ${headers.length + 1}`, usedKeys);
+      for (let span = 0; span < cell.colSpan; span++) headers.push(key);
+    }
+  }
+
+  const columns = new Set<string>();
+  const rows: ExtractedRow[] = [];
+  for (const row of allRows) {
+    if (row === headerRow || row.parentElement?.tagName === 'THEAD') continue;
+    const record: ExtractedRow = {};
+    let columnIndex = 0;
+    for (const cell of Array.from(row.cells)) {
+      const header = headers[columnIndex] || `Column ${columnIndex + 1}`;
+      columnIndex += cell.colSpan;
+      if (header in record) continue; // Spanned header - keep the first cell
+      record[header] = getCellText(cell) || null;
+      columns.add(header);
+      const link = cell.querySelector('a[href]') as HTMLAnchorElement | null;
+      if (link && !link.href.startsWith('javascript:')) {
+        record[`${header} link`] = link.href;
+        columns.add(`${header} link`);
+      }
+    }
+    if (Object.values(record).some(value => value !== null)) {
+      rows.push(record);
+    }
+  }
+  return { columns: Array.from(columns), rows };
+}
+
+/**
+ * Class name that reads like a field name (hashed CSS-in-JS classes are skipped)
+ */
+function getFieldKeyFromClass(el: Element): string | null {
+  for (const className of Array.from(el.classList)) {
+    if (/^(css|sc|jsx|emotion)-|[0-9a-f]{5,}|^\w{1,2}$/i.test(className)) continue;
+    return className.replace(/[-_]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().trim();
+  }
+  return null;
+}
+
+/**
+ * Find the largest group of structurally identical siblings (cards, list items, search results)
+ */
+function findRepeatedItems(root: Element): Element[] {
+  let best: { items: Element[]; score: number } = { items: [], score: 0 };
+  const containers = [root, ...Array.from(root.querySelectorAll('*')).slice(0, 5000)];
+
+  for (const container of containers) {
+    if (container.children.length < MIN_REPEATED_ITEMS || container.closest('nav, header, footer, table, select')) continue;
+
+    const groups = new Map<string, Element[]>();
+    for (const child of Array.from(container.children)) {
+      const signature = `${child.tagName}.${Array.from(child.classList).sort().join('.')}`;
+      const group = groups.get(signature) || [];
+      group.push(child);
+      groups.set(signature, group);
+    }
+
+    for (const items of groups.values()) {
+      if (items.length < MIN_REPEATED_ITEMS) continue;
+      const visibleItems = items.filter(isElementVisible);
+      if (visibleItems.length < MIN_REPEATED_ITEMS) continue;
+      // Items with several pieces of text (title, price, date...) beat plain link lists
+      const fieldCounts = visibleItems.map(item => item.querySelectorAll('*').length + 1);
+      const averageFields = Math.min(fieldCounts.reduce((sum, count) => sum + count, 0) / fieldCounts.length, 10);
+      const hasText = visibleItems.every(item => getCellText(item).length >= 3);
+      const score = hasText ? visibleItems.length * averageFields : 0;
+      if (score > best.score) {
+        best = { items: visibleItems, score };
+      }
+    }
+  }
+  return best.items;
+}
+
+/**
+ * Text fields of one repeated item, keyed by class name (or tag), plus its first link and image
+ */
+function extractItemFields(item: Element): ExtractedRow {
+  const record: ExtractedRow = {};
+  const usedKeys = new Set<string>();
+
+  const walker = document.createTreeWalker(item, NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.currentNode as Element | null; node; node = walker.nextNode() as Element | null) {
+    const ownText = Array.from(node.childNodes)
+      .filter(child => child.nodeType === Node.TEXT_NODE)
+      .map(child => child.textContent || '')
+      .join(' ');
+    if (!collapseText(ownText)) continue;
+    const key = uniqueKey(getFieldKeyFromClass(node) || node.getAttribute('itemprop') || node.tagName.toLowerCase(), usedKeys);
+    record[key] = collapseText(ownText, MAX_CELL_LENGTH);
+  }
+
+  const link = (item.tagName === 'A' ? item : item.querySelector('a[href]')) as HTMLAnchorElement | null;
+  if (link?.href && !link.href.startsWith('javascript:')) record.link = link.href;
+  const image = item.querySelector('img') as HTMLImageElement | null;
+  if (image?.src) record.image = image.currentSrc || image.src;
+  return record;
+}
+
+function extractRepeatedItems(items: Element[]): { columns: string[]; rows: ExtractedRow[] } {
+  const rows = items.map(extractItemFields);
+  // Keep fields most items share - one-off badges and labels would only add noise
+  const counts = new Map<string, number>();
+  rows.forEach(row => Object.keys(row).forEach(key => counts.set(key, (counts.get(key) || 0) + 1)));
+  const columns = Array.from(counts.entries())
+    .filter(([, count]) => count >= rows.length * 0.3)
+    .map(([key]) => key);
+  return {
+    columns,
+    rows: rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null])))
+  };
+}
+
+function coerceExtractedValue(value: ExtractedRow[string], type?: string): ExtractedRow[string] {
+  if (value === null || value === undefined) return null;
+  const text = String(value);
+  if (type === 'number') {
+    const match = text.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? Number(match[0]) : null;
+  }
+  if (type === 'boolean') {
+    return /^(yes|true|✓|✔|y|available|in stock)/i.test(text.trim());
+  }
+  if (type === 'url') {
+    try {
+      return new URL(text, location.href).href;
+    } catch {
+      return null;
+    }
+  }
+  return text;
+}
+
+/**
+ * Map raw rows onto the requested columns by name, with heuristics for common fields
+ */
+function applyColumnSchema(rows: ExtractedRow[], rawColumns: string[], columns: ExtractColumn[]): ExtractedRow[] {
+  const findRawColumn = (name: string): string | null => {
+    const wanted = normalizeLabel(name);
+    return rawColumns.find(raw => normalizeLabel(raw) === wanted)
+      || rawColumns.find(raw => normalizeLabel(raw).includes(wanted) || wanted.includes(normalizeLabel(raw)))
+      || null;
+  };
+
+  return rows.map(row => {
+    const values = Object.values(row);
+    return Object.fromEntries(columns.map(column => {
+      const raw = findRawColumn(column.name);
+      let value: ExtractedRow[string] = raw ? row[raw] : null;
+      if (value === null || value === undefined) {
+        const name = column.name.toLowerCase();
+        if (column.type === 'url' || /url|link|href/.test(name)) {
+          value = row.link ?? values.find(candidate => typeof candidate === 'string' && /^https?:\/\//.test(candidate)) ?? null;
+        } else if (/image|img|photo|thumbnail/.test(name)) {
+          value = row.image ?? null;
+        } else if (/price|cost|amount|fee/.test(name)) {
+          value = values.find(candidate => typeof candidate === 'string' && /[$€£¥]\s?\d|\d\s?(usd|eur|gbp)/i.test(candidate)) ?? null;
+        } else if (/title|name|heading/.test(name)) {
+          value = row[rawColumns[0]] ?? null;
+        }
+      }
+      return [column.name, coerceExtractedValue(value, column.type)];
+    }));
+  });
+}
+
+/**
+ * The page's "next page" control: a URL when it is a real link, otherwise a selector to click
+ */
+function findNextPage(): { href?: string; selector?: string } | null {
+  const relNext = deepQuerySelector('a[rel~="next"], link[rel~="next"]') as HTMLAnchorElement | null;
+  if (relNext?.href) return { href: relNext.href };
+
+  const candidates = deepQuerySelectorAll<HTMLElement>('a, button, [role="button"], [role="link"]');
+  const next = candidates.find(el => {
+    if (!isElementVisible(el) || (el as HTMLButtonElement).disabled || el.getAttribute('aria-disabled') === 'true') return false;
+    const label = normalizeLabel(el.getAttribute('aria-label') || el.getAttribute('title') || el.textContent);
+    return /^(next|next page|next ›|next »|›|»|>|more results|load more|show more)$/.test(label);
+  });
+  if (!next) return null;
+
+  const href = (next as HTMLAnchorElement).href;
+  if (next.tagName === 'A' && href && !href.startsWith('javascript:') && !href.endsWith('#')) {
+    return { href };
+  }
+  return { selector: getRefSelector(next, NEXT_PAGE_REF) };
+}
+
+/**
+ * Extract a table or repeated list/card pattern as JSON rows
+ */
+function extractStructuredData(options: { selector?: string; source?: 'auto' | 'table' | 'list'; columns?: ExtractColumn[] }): any {
+  const root = options.selector ? deepQuerySelector(options.selector) : document.body;
+  if (!root) {
+    return { success: false, error: `Element not found: ${options.selector}` };
+  }
+  const source = options.source || 'auto';
+
+  let table: { columns: string[]; rows: ExtractedRow[] } | null = null;
+  if (source !== 'list') {
+    const tables = root.tagName === 'TABLE'
+      ? [root as HTMLTableElement]
+      : (root === document.body ? deepQuerySelectorAll('table') : Array.from(root.querySelectorAll('table')));
+    table = tables
+      .filter(candidate => isElementVisible(candidate) && candidate.rows.length >= 2)
+      .map(extractTable)
+      .sort((a, b) => b.rows.length * b.columns.length - a.rows.length * a.columns.length)[0] || null;
+  }
+
+  let list: { columns: string[]; rows: ExtractedRow[] } | null = null;
+  if (source !== 'table') {
+    const items = findRepeatedItems(root);
+    list = items.length > 0 ? extractRepeatedItems(items) : null;
+  }
+
+  const useTable = !!table && (!list || source === 'table' || table.rows.length >= list.rows.length);
+  const extracted = useTable ? table : list;
+  if (!extracted || extracted.rows.length === 0) {
+    return { success: false, error: `No ${source === 'auto' ? 'table or repeated items' : source} found on the page` };
+  }
+
+  const rows = options.columns && options.columns.length > 0
+    ? applyColumnSchema(extracted.rows, extracted.columns, options.columns)
+    : extracted.rows;
+  console.log(`📊 Extracted ${rows.length} rows from ${useTable ? 'table' : 'repeated items'}`);
+
+  return {
+    success: true,
+    source: useTable ? 'table' : 'list',
+    columns: options.columns && options.columns.length > 0 ? options.columns.map(column => column.name) : extracted.columns,
+    rows: rows.slice(0, MAX_EXTRACT_ROWS),
+    truncated: rows.length > MAX_EXTRACT_ROWS,
+    url: location.href,
+    title: document.title,
+    nextPage: findNextPage()
+  };
+}
+
+// ============================================
+// Readable content extraction (readPage tool)
+// ============================================
+
+interface ReadableSection {
+  id: string;
+  heading: string;
+  level: number;
+  offset: number; // Character offset of the heading in the Markdown
+}
+
+interface ReadableContent {
+  markdown: string;
+  sections: ReadableSection[];
+  mainContentFound: boolean;
+}
+
+const DEFAULT_READ_CHARS = 8000;
+const MAX_READ_CHARS = 20000;
+const MIN_MAIN_CONTENT_CHARS = 200;
+const MAX_OUTLINE_SECTIONS = 100;
+const MAX_MARKDOWN_TABLE_ROWS = 200;
+// Stand-ins for significant whitespace (list indentation, code) while inline whitespace is collapsed
+const MARKDOWN_SPACE = '\u0001';
+const MARKDOWN_TAB = '\u0002';
+
+const SKIPPED_CONTENT_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'frame', 'object',
+  'button', 'input', 'select', 'textarea', 'form', 'nav', 'footer', 'aside', 'dialog'
+]);
+// Class/id hints for page chrome inside the content area (cookie banners, share bars, related links)
+const BOILERPLATE_PATTERN = /(^|[\s_-])(nav|navbar|menu|footer|sidebar|comments?|cookies?|consent|banner|promo|advert|ads|share|social|breadcrumbs?|modal|popup|newsletter|related|toolbar)([\s_-]|$)/i;
+const CONTENT_HINT_PATTERN = /article|content|main|post|entry|text|doc|wiki|story|markdown|prose/i;
+
+function getClassAndId(el: Element): string {
+  return `${typeof el.className === 'string' ? el.className : ''} ${el.id}`;
+}
+
+function getLinkDensity(el: Element): number {
+  const textLength = (el.textContent || '').trim().length;
+  if (textLength === 0) return 1;
+  const linkLength = Array.from(el.querySelectorAll('a'))
+    .reduce((sum, link) => sum + (link.textContent || '').trim().length, 0);
+  return Math.min(linkLength / textLength, 1);
+}
+
+/**
+ * Find the element holding the page's main content (readability-style scoring)
+ */
+function findMainContent(): { element: Element; found: boolean } {
+  // Semantic markup wins when it holds real content
+  const semantic = deepQuerySelectorAll('main, [role="main"], article')
+    .filter(el => isElementVisible(el) && (el.textContent || '').trim().length >= MIN_MAIN_CONTENT_CHARS)
+    .sort((a, b) => (b.textContent || '').length - (a.textContent || '').length)[0];
+  if (semantic) {
+    return { element: semantic, found: true };
+  }
+
+  // Paragraph-like blocks vote for their parent and (half) for their grandparent
+  const scores = new Map<Element, number>();
+  for (const block of deepQuerySelectorAll('p, pre, td, li, blockquote')) {
+    const text = (block.textContent || '').trim();
+    if (text.length < 25) continue;
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = block.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+    const grandparent = parent?.parentElement;
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+  }
+
+  let best: { element: Element; score: number } | null = null;
+  for (const [element, rawScore] of scores) {
+    const hints = getClassAndId(element);
+    const hintScore = (CONTENT_HINT_PATTERN.test(hints) ? 25 : 0) - (BOILERPLATE_PATTERN.test(hints) ? 25 : 0);
+    const score = (rawScore + hintScore) * (1 - getLinkDensity(element));
+    if (!best || score > best.score) {
+      best = { element, score };
+    }
+  }
+
+  if (best && (best.element.textContent || '').trim().length >= MIN_MAIN_CONTENT_CHARS) {
+    return { element: best.element, found: true };
+  }
+  return { element: document.body, found: false };
+}
+
+function tableToMarkdown(table: HTMLTableElement, convert: (node: Node) => string): string {
+  const rows = Array.from(table.rows).slice(0, MAX_MARKDOWN_TABLE_ROWS);
+  const cellText = (cell: Element) => collapseText(convert(cell), MAX_CELL_LENGTH).replace(/\|/g, '\\|');
+  const columnCount = Math.max(...rows.map(row => row.cells.length), 0);
+
+  // Layout tables (one column) read better as plain blocks
+  if (columnCount < 2) {
+    return rows.map(row => Array.from(row.cells).map(convert).join('\n\n')).join('\n\n');
+  }
+
+  const lines = rows.map(row => {
+    const cells = Array.from(row.cells).map(cellText);
+    while (cells.length < columnCount) cells.push('');
+    return `| ${cells.join(' | ')} |`;
+  });
+  lines.splice(1, 0, `|${' --- |'.repeat(columnCount)}`);
+  if (table.rows.length > MAX_MARKDOWN_TABLE_ROWS) {
+    lines.push(`\n_(${table.rows.length - MAX_MARKDOWN_TABLE_ROWS} more rows - use extractData for the full table)_`);
+  }
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Convert an element to Markdown, keeping headings, lists, links, emphasis, code and tables
+ */
+function elementToMarkdown(root: Element): { markdown: string; headings: Array<{ heading: string; level: number }> } {
+  const headings: Array<{ heading: string; level: number }> = [];
+
+  const convertChildren = (parent: Node, listDepth: number): string => {
+    const children = parent.nodeName === 'SLOT'
+      ? (parent as HTMLSlotElement).assignedNodes({ flatten: true })
+      : Array.from(((parent as Element).shadowRoot || parent).childNodes);
+    return children.map(child => convert(child, listDepth)).join('');
+  };
+
+  const convert = (node: Node, listDepth = 0): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return (node.textContent || '').replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (SKIPPED_CONTENT_TAGS.has(tag) || el.hasAttribute('hidden') || el.getAttribute('aria-hidden') === 'true') return '';
+    if (el !== root && BOILERPLATE_PATTERN.test(getClassAndId(el))) return '';
+    if (typeof el.checkVisibility === 'function' && !el.checkVisibility()) return '';
+
+    const inner = () => convertChildren(el, listDepth);
+
+    switch (tag) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+        const text = collapseText(inner(), 200);
+        if (!text) return '';
+        const level = Number(tag[1]);
+        headings.push({ heading: text, level });
+        return `\n\n${'#'.repeat(level)} ${text}\n\n`;
+      }
+      case 'br':
+        return '\n';
+      case 'hr':
+        return '\n\n---\n\n';
+      case 'strong': case 'b': {
+        const text = inner().trim();
+        return text ? ` **${text}** ` : '';
+      }
+      case 'em': case 'i': {
+        const text = inner().trim();
+        return text ? ` _${text}_ ` : '';
+      }
+      case 'code': {
+        const text = (el.textContent || '').trim();
+        return text ? `\`${text}\`` : '';
+      }
+      case 'pre': {
+        const code = (el.textContent || '').replace(/\n+$/, '').replace(/ /g, MARKDOWN_SPACE).replace(/\t/g, MARKDOWN_TAB);
+        return `\n\n\`\`\`\n${code}\n\`\`\`\n\n`;
+      }
+      case 'a': {
+        const text = collapseText(inner(), 200);
+        const href = (el as HTMLAnchorElement).href;
+        if (!text) return '';
+        return href && !href.startsWith('javascript:') ? `[${text}](${href})` : text;
+      }
+      case 'img': {
+        const alt = collapseText(el.getAttribute('alt'));
+        const src = (el as HTMLImageElement).currentSrc || (el as HTMLImageElement).src;
+        return alt ? `![${alt}](${src && !src.startsWith('data:') ? src : ''})` : '';
+      }
+      case 'ul': case 'ol': {
+        const items = Array.from(el.children).filter(child => child.tagName === 'LI');
+        const indent = MARKDOWN_SPACE.repeat(listDepth * 2);
+        const lines = items.map((item, index) => {
+          const marker = tag === 'ol' ? `${index + 1}.` : '-';
+          const content = convertChildren(item, listDepth + 1)
+            .replace(/\n{2,}/g, '\n')
+            .trim()
+            .replace(new RegExp(`\\n(?![\\s${MARKDOWN_SPACE}]*(-|\\d+\\.) )`, 'g'), `\n${indent}${MARKDOWN_SPACE.repeat(2)}`);
+          return content ? `${indent}${marker} ${content}` : '';
+        }).filter(Boolean);
+        return lines.length > 0 ? `\n\n${lines.join('\n')}\n\n` : '';
+      }
+      case 'blockquote': {
+        const text = inner().trim().replace(/\n{2,}/g, '\n');
+        return text ? `\n\n${text.split('\n').map(line => `> ${line}`).join('\n')}\n\n` : '';
+      }
+      case 'table':
+        return tableToMarkdown(el as HTMLTableElement, child => convertChildren(child, listDepth));
+      case 'p': case 'div': case 'section': case 'article': case 'main': case 'header':
+      case 'figure': case 'figcaption': case 'details': case 'summary': case 'dl': case 'dt': case 'dd': case 'li':
+        return `\n\n${inner()}\n\n`;
+      default:
+        return inner();
+    }
+  };
+
+  const markdown = convert(root)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(new RegExp(MARKDOWN_SPACE, 'g'), ' ')
+    .replace(new RegExp(MARKDOWN_TAB, 'g'), '\t')
+    .trim();
+  return { markdown, headings };
+}
+
+/**
+ * Main content as Markdown, with a section outline (sec1, sec2...) for readPage
+ */
+function extractReadableContent(): ReadableContent {
+  const { element, found } = findMainContent();
+  const { markdown, headings } = elementToMarkdown(element);
+
+  // Locate each heading in the final Markdown so sections can be addressed by offset
+  const sections: ReadableSection[] = [];
+  let searchFrom = 0;
+  headings.forEach((heading, index) => {
+    const line = `${'#'.repeat(heading.level)} ${heading.heading}`;
+    const offset = markdown.indexOf(line, searchFrom);
+    if (offset === -1) return;
+    sections.push({ id: `sec${index + 1}`, heading: heading.heading, level: heading.level, offset });
+    searchFrom = offset + line.length;
+  });
+
+  return { markdown, sections, mainContentFound: found };
+}
+
+/**
+ * One page of the readable Markdown, starting at an offset or a section
+ */
+function readPage(options: { offset?: number; sectionId?: string; maxChars?: number }): any {
+  const content = extractReadableContent();
+  const totalChars = content.markdown.length;
+  const maxChars = Math.min(Math.max(options.maxChars || DEFAULT_READ_CHARS, 500), MAX_READ_CHARS);
+
+  let start = options.offset || 0;
+  if (options.sectionId) {
+    const section = content.sections.find(candidate => candidate.id === options.sectionId);
+    if (!section) {
+      return { success: false, error: `Unknown section "${options.sectionId}"`, sections: content.sections.slice(0, MAX_OUTLINE_SECTIONS) };
+    }
+    start = section.offset;
+  }
+  if (totalChars === 0) {
+    return { success: false, error: 'No readable content found on this page' };
+  }
+  if (start >= totalChars) {
+    return { success: false, error: `Offset ${start} is past the end of the content (${totalChars} characters)` };
+  }
+
+  // Stop at a paragraph break so pages don't end mid-sentence
+  let end = Math.min(start + maxChars, totalChars);
+  if (end < totalChars) {
+    const paragraphBreak = content.markdown.lastIndexOf('\n\n', end);
+    if (paragraphBreak > start + maxChars / 2) end = paragraphBreak;
+  }
+  console.log(`📖 readPage: chars ${start}-${end} of ${totalChars}`);
+
+  return {
+    success: true,
+    url: location.href,
+    title: document.title,
+    totalChars,
+    offset: start,
+    nextOffset: end < totalChars ? end : null,
+    mainContentFound: content.mainContentFound,
+    content: content.markdown.slice(start, end).trim(),
+    sections: content.sections.slice(0, MAX_OUTLINE_SECTIONS)
+  };
+}
+
+// ============================================
+// Set-of-marks screenshots
+// ============================================
+
+const MAX_MARKS = 150;
+const MARK_REF_PREFIX = 'mark:';
+const SET_OF_MARKS_ID = 'atlas-set-of-marks';
+const MARK_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2'];
+const MARK_CANDIDATE_SELECTOR = 'a[href], button, input, select, textarea, summary, [role], [onclick], [tabindex], [contenteditable="true"]';
+
+// Elements numbered by the latest marked screenshot (mark number -> element)
+let markedElements = new Map<number, Element>();
+
+/**
+ * Interactive elements that are visible, inside the viewport and not covered by something else
+ */
+function collectMarkableElements(): Element[] {
+  const seen = new Set<Element>();
+  const markable: Element[] = [];
+
+  // Top document and open shadow roots - frame contents would need coordinate translation
+  const roots = collectSearchRoots().filter(root => root === document || 'host' in root);
+  for (const root of roots) {
+    for (const el of Array.from(root.querySelectorAll(MARK_CANDIDATE_SELECTOR))) {
+      if (markable.length >= MAX_MARKS) return markable;
+      if (seen.has(el)) continue;
+      const role = getElementRole(el);
+      if (!role || !INTERACTIVE_ROLES.has(role) || (el as HTMLInputElement).disabled) continue;
+
+      const rect = el.getBoundingClientRect();
+      if (rect.width < 4 || rect.height < 4) continue;
+      if (rect.bottom < 0 || rect.right < 0 || rect.top > window.innerHeight || rect.left > window.innerWidth) continue;
+
+      const centerX = Math.min(Math.max(rect.left + rect.width / 2, 0), window.innerWidth - 1);
+      const centerY = Math.min(Math.max(rect.top + rect.height / 2, 0), window.innerHeight - 1);
+      const hit = deepElementFromPoint(centerX, centerY);
+      if (!hit || !(hit === el || el.contains(hit) || hit.contains(el))) continue;
+
+      // A link wrapping a button (or similar) gets one mark, not two
+      if (Array.from(seen).some(marked => marked.contains(el) && marked.getBoundingClientRect().width <= rect.width + 4)) continue;
+      seen.add(el);
+      markable.push(el);
+    }
+  }
+  return markable;
+}
+
+/**
+ * Draw numbered boxes over interactive elements (removed again by clearSetOfMarks)
+ * @returns The marks, in number order, with role, name and viewport center
+ */
+function drawSetOfMarks(): Array<{ mark: number; role: string; name: string; x: number; y: number }> {
+  clearSetOfMarks();
+  markedElements = new Map();
+
+  const container = document.createElement('div');
+  container.id = SET_OF_MARKS_ID;
+  container.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:2147483646;';
+
+  const marks = collectMarkableElements()
+    .sort((a, b) => {
+      const rectA = a.getBoundingClientRect();
+      const rectB = b.getBoundingClientRect();
+      return Math.round(rectA.top / 10) - Math.round(rectB.top / 10) || rectA.left - rectB.left;
+    })
+    .map((el, index) => {
+      const mark = index + 1;
+      const rect = el.getBoundingClientRect();
+      const color = MARK_COLORS[index % MARK_COLORS.length];
+      markedElements.set(mark, el);
+
+      const box = document.createElement('div');
+      box.style.cssText = `position:absolute;left:${rect.left}px;top:${rect.top}px;width:${rect.width}px;height:${rect.height}px;` +
+        `border:2px solid ${color};box-sizing:border-box;border-radius:3px;`;
+      const label = document.createElement('span');
+      label.textContent = String(mark);
+      // Labels sit just above the box, or inside it when the box touches the top edge
+      label.style.cssText = `position:absolute;left:-2px;${rect.top >= 16 ? 'top:-16px' : 'top:0'};background:${color};color:#fff;` +
+        'font:bold 11px/14px Arial,sans-serif;padding:0 3px;border-radius:2px;';
+      box.appendChild(label);
+      container.appendChild(box);
+
+      const role = getElementRole(el) || 'clickable';
+      return {
+        mark,
+        role,
+        name: getAccessibleName(el, role) || collapseText((el as HTMLInputElement).placeholder),
+        x: Math.round(rect.left + rect.width / 2),
+        y: Math.round(rect.top + rect.height / 2)
+      };
+    });
+
+  document.documentElement.appendChild(container);
+  console.log(`🔢 Drew ${marks.length} set-of-marks labels`);
+  return marks;
+}
+
+function clearSetOfMarks(): void {
+  document.getElementById(SET_OF_MARKS_ID)?.remove();
+}
+
+// ============================================
+// Post-action change report
+// ============================================
+
+interface PageChangeReport {
+  urlChanged?: { from: string; to: string };
+  titleChanged?: { from: string; to: string };
+  navigating?: boolean; // The page started unloading before the settle window ended
+  dialogsOpened?: string[];
+  dialogsClosed?: string[];
+  added?: string[]; // Visible elements that appeared (first few, described by role and name)
+  removed?: string[];
+  addedCount?: number; // Total new elements when more than the reported few (unchecked for visibility past MAX_VISIBILITY_CHECKS)
+  removedCount?: number;
+  validationErrors?: string[]; // Error messages that were not on the page before the action
+  focus?: { from: string; to: string };
+  noVisibleChange?: boolean;
+}
+
+const ACTION_SETTLE_QUIET_MS = 300;
+const ACTION_SETTLE_MAX_MS = 1500;
+const ACTION_SETTLE_POLL_MS = 100;
+const MAX_REPORTED_ELEMENTS = 8;
+// Visibility needs layout - past this many new elements the rest are counted without checking
+const MAX_VISIBILITY_CHECKS = 200;
+const DIALOG_SELECTOR = 'dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]';
+const VALIDATION_MESSAGE_SELECTOR = '[role="alert"], [aria-live="assertive"], .error, .errors, .invalid-feedback, .field-error, .form-error, [class*="error-message"], [class*="errorMessage"]';
+const IGNORED_CHANGE_TAGS = new Set(['SCRIPT', 'STYLE', 'LINK', 'META', 'NOSCRIPT', 'TEMPLATE', 'BR']);
+
+/**
+ * Elements the extension itself adds (click highlight, automation indicator, set-of-marks)
+ */
+function isExtensionOverlay(el: Element): boolean {
+  return el.id.startsWith('atlas-') || /animation:\s*atlas/.test(el.getAttribute('style') || '');
+}
+
+function describeChangedElement(el: Element): string {
+  const role = getElementRole(el);
+  const name = (role && getAccessibleName(el, role)) || collapseText(el.textContent, 60);
+  return `${role || el.tagName.toLowerCase()}${name ? ` "${name}"` : ''}`;
+}
+
+function getOpenDialogs(): Map<Element, string> {
+  const dialogs = new Map<Element, string>();
+  for (const dialog of deepQuerySelectorAll(DIALOG_SELECTOR)) {
+    if (!isElementVisible(dialog) || isExtensionOverlay(dialog)) continue;
+    const heading = dialog.querySelector('h1, h2, h3, h4, [role="heading"]');
+    dialogs.set(dialog, getAccessibleName(dialog, 'dialog') || collapseText(heading?.textContent) || 'dialog');
+  }
+  return dialogs;
+}
+
+/**
+ * Visible error messages and invalid fields, as "label: message" text
+ */
+function collectValidationMessages(): Set<string> {
+  const messages = new Set<string>();
+  for (const el of deepQuerySelectorAll(VALIDATION_MESSAGE_SELECTOR)) {
+    const text = collapseText((el as HTMLElement).innerText, 120);
+    if (text && isElementVisible(el) && !isExtensionOverlay(el)) messages.add(text);
+  }
+  for (const field of deepQuerySelectorAll('[aria-invalid="true"]')) {
+    const errorId = field.getAttribute('aria-errormessage') || field.getAttribute('aria-describedby')?.split(' ')[0];
+    const errorText = errorId ? collapseText(field.ownerDocument.getElementById(errorId)?.textContent, 120) : '';
+    messages.add(`${getFieldLabel(field) || describeChangedElement(field)}: ${errorText || 'invalid'}`);
+  }
+  return messages;
+}
+
+function describeFocus(el: Element | null): string {
+  return el && el !== document.body && el !== document.documentElement ? describeChangedElement(el) : 'none';
+}
+
+/**
+ * Start recording what an action changes on the page
+ * @returns finish() settles (no mutations for ACTION_SETTLE_QUIET_MS, at most ACTION_SETTLE_MAX_MS) and
+ *          returns the report; cancel() stops recording without one
+ */
+function startChangeReport(): { finish: () => Promise<PageChangeReport>; cancel: () => void } {
+  const startUrl = location.href;
+  const startTitle = document.title;
+  const startDialogs = getOpenDialogs();
+  const startValidation = collectValidationMessages();
+  const startFocus = getDeepActiveElement();
+
+  const added = new Set<Element>();
+  const removed = new Map<Element, string>(); // Described on removal - detached nodes lose their context
+  let lastMutationAt = Date.now();
+  let navigating = false;
+  let settleNow: (() => void) | null = null;
+
+  // Moved elements show up as removed + added and cancel out; so do elements that only flashed by
+  const observer = new MutationObserver(records => {
+    lastMutationAt = Date.now();
+    for (const record of records) {
+      record.addedNodes.forEach(node => {
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        if (removed.has(node as Element)) removed.delete(node as Element);
+        else added.add(node as Element);
+      });
+      record.removedNodes.forEach(node => {
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const el = node as Element;
+        if (added.delete(el) || IGNORED_CHANGE_TAGS.has(el.tagName) || isExtensionOverlay(el)) return;
+        removed.set(el, describeChangedElement(el));
+      });
+    }
+  });
+  observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+
+  // Answer before the document goes away so the result still reaches the background
+  const onBeforeUnload = () => {
+    navigating = true;
+    settleNow?.();
+  };
+  window.addEventListener('beforeunload', onBeforeUnload);
+
+  const stop = () => {
+    observer.disconnect();
+    window.removeEventListener('beforeunload', onBeforeUnload);
+  };
+
+  const buildReport = (): PageChangeReport => {
+    const report: PageChangeReport = {};
+    if (location.href !== startUrl) report.urlChanged = { from: startUrl, to: location.href };
+    if (document.title !== startTitle) report.titleChanged = { from: startTitle, to: document.title };
+    if (navigating) report.navigating = true;
+
+    const dialogs = getOpenDialogs();
+    const opened = Array.from(dialogs).filter(([el]) => !startDialogs.has(el)).map(([, name]) => name);
+    const closed = Array.from(startDialogs).filter(([el]) => !dialogs.has(el)).map(([, name]) => name);
+    if (opened.length > 0) report.dialogsOpened = opened;
+    if (closed.length > 0) report.dialogsClosed = closed;
+
+    // Only the outermost new elements that are still on the page and visible. Walking each element's
+    // ancestors against the set keeps this linear when an action adds thousands of nodes
+    const isInsideAdded = (el: Element) => {
+      for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+        if (added.has(parent)) return true;
+      }
+      return false;
+    };
+    const outermostAdded = Array.from(added).filter(el =>
+      el.isConnected && !IGNORED_CHANGE_TAGS.has(el.tagName) && !isExtensionOverlay(el) && !isInsideAdded(el)
+    );
+    const visibleAdded = outermostAdded.slice(0, MAX_VISIBILITY_CHECKS).filter(el => isElementVisible(el));
+    const addedCount = visibleAdded.length + Math.max(outermostAdded.length - MAX_VISIBILITY_CHECKS, 0);
+    if (visibleAdded.length > 0) {
+      report.added = visibleAdded.slice(0, MAX_REPORTED_ELEMENTS).map(describeChangedElement);
+      if (addedCount > MAX_REPORTED_ELEMENTS) report.addedCount = addedCount;
+    }
+    if (removed.size > 0) {
+      report.removed = Array.from(removed.values()).slice(0, MAX_REPORTED_ELEMENTS);
+      if (removed.size > MAX_REPORTED_ELEMENTS) report.removedCount = removed.size;
+    }
+
+    const newErrors = Array.from(collectValidationMessages()).filter(message => !startValidation.has(message));
+    if (newErrors.length > 0) report.validationErrors = newErrors.slice(0, MAX_REPORTED_ELEMENTS);
+
+    const focus = getDeepActiveElement();
+    if (focus !== startFocus) report.focus = { from: describeFocus(startFocus), to: describeFocus(focus) };
+
+    if (Object.keys(report).length === 0) report.noVisibleChange = true;
+    return report;
+  };
+
+  const finish = () => new Promise<PageChangeReport>(resolve => {
+    const startedAt = Date.now();
+    const settle = () => {
+      clearInterval(timer);
+      settleNow = null;
+      stop();
+      resolve(buildReport());
+    };
+    const timer = setInterval(() => {
+      const now = Date.now();
+      if (now - lastMutationAt >= ACTION_SETTLE_QUIET_MS || now - startedAt >= ACTION_SETTLE_MAX_MS) settle();
+    }, ACTION_SETTLE_POLL_MS);
+    settleNow = settle;
+    if (navigating) settle();
+  });
+
+  return { finish, cancel: stop };
+}
+
+// ============================================
+// Context menu target ("Explain this element")
+// ============================================
+
+const MAX_TARGET_TEXT_CHARS = 500;
+const MAX_TARGET_HTML_CHARS = 1500;
+// How far up from the right-clicked node to look for the control it belongs to
+const MAX_TARGET_ANCESTOR_LEVELS = 3;
+
+// Element the user last right-clicked - the contextMenus API only reports links, images and selections
+let contextMenuTarget: Element | null = null;
+
+document.addEventListener('contextmenu', (event) => {
+  // composedPath()[0] reaches into open shadow roots
+  const target = event.composedPath()[0];
+  contextMenuTarget = target instanceof Element ? target : null;
+}, true);
+
+/**
+ * Describe the right-clicked element for the sidepanel prompt
+ * @returns null when nothing was right-clicked since the script was injected
+ */
+function describeContextMenuTarget(): { description: string; text: string; html: string } | null {
+  if (!contextMenuTarget?.isConnected) return null;
+  // Prefer the nearest control (a click on a button's icon explains the button), but not a whole landmark
+  let el: Element = contextMenuTarget;
+  let ancestor: Element | null = el;
+  for (let level = 0; ancestor && ancestor !== document.body && level <= MAX_TARGET_ANCESTOR_LEVELS; level++) {
+    const tag = ancestor.tagName.toLowerCase();
+    if (getElementRole(ancestor) && !LANDMARK_TAG_ROLES[tag]) {
+      el = ancestor;
+      break;
+    }
+    ancestor = ancestor.parentElement;
+  }
+  return {
+    description: describeChangedElement(el),
+    text: collapseText((el as HTMLElement).innerText ?? el.textContent, MAX_TARGET_TEXT_CHARS),
+    html: el.outerHTML.slice(0, MAX_TARGET_HTML_CHARS)
+  };
+}
+
+// Listen for messages from background script or sidebar
 chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   if (request.type === 'PING') {
     // Respond to ping to confirm content script is loaded
@@ -2184,6 +4265,39 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  if (request.type === 'GET_ACCESSIBILITY_SNAPSHOT') {
+    // Frames whose parent is same-origin are already inlined in the parent's snapshot
+    if (window !== window.top && window.frameElement) {
+      sendResponse({ embedded: true });
+      return true;
+    }
+    const snapshot = buildAccessibilitySnapshot(!!request.interactiveOnly, request.refPrefix || '');
+    console.log(`🌳 Accessibility snapshot: ${snapshot.refCount} refs${snapshot.truncated ? ' (truncated)' : ''}`);
+    sendResponse(snapshot);
+    return true;
+  }
+
+  if (request.type === 'DRAW_SET_OF_MARKS') {
+    const marks = drawSetOfMarks();
+    // Respond after the boxes have been painted so the capture includes them
+    // (with a timer fallback - animation frames don't run in hidden tabs)
+    let responded = false;
+    const respond = () => {
+      if (responded) return;
+      responded = true;
+      sendResponse({ success: true, marks });
+    };
+    requestAnimationFrame(() => requestAnimationFrame(respond));
+    setTimeout(respond, 200);
+    return true;
+  }
+
+  if (request.type === 'CLEAR_SET_OF_MARKS') {
+    clearSetOfMarks();
+    sendResponse({ success: true });
+    return true;
+  }
+
   if (request.type === 'GET_VIEWPORT_SIZE') {
     sendResponse({
       width: window.innerWidth,
@@ -2194,6 +4308,9 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   }
 
   if (request.type === 'EXECUTE_ACTION') {
+    activeInputBackend = request.inputBackend || 'dom';
+    trustedInputUsed = false;
+    const changeReport = startChangeReport();
     const result = executePageAction(
       request.action,
       request.target,
@@ -2204,17 +4321,50 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
       request.amount,
       request.key,
       request.keys,
-      request.destination
+      request.destination,
+      request.ref,
+      { values: request.values, checked: request.checked, files: request.files, formValues: request.formValues }
     );
 
-    // Handle both synchronous and asynchronous results
-    if (result instanceof Promise) {
-      result.then(sendResponse);
-      return true; // Keep message channel open for async response
-    } else {
-      sendResponse(result);
-      return true;
-    }
+    // Failed actions changed nothing worth reporting; everything else waits for the page to settle
+    result.then(async response => {
+      if (!response || response.success === false) {
+        changeReport.cancel();
+        sendResponse(response);
+        return;
+      }
+      sendResponse({
+        ...response,
+        inputBackend: trustedInputUsed ? 'cdp' : 'dom',
+        changes: await changeReport.finish()
+      });
+    }).catch(error => {
+      changeReport.cancel();
+      sendResponse({ success: false, message: (error as Error).message });
+    });
+    return true; // Keep message channel open for async response
+  }
+
+  if (request.type === 'WAIT_FOR_DOM') {
+    waitForDomConditions(request.conditions || {}, request.timeoutMs || 0).then(sendResponse);
+    return true; // Keep message channel open for async response
+  }
+
+  // Stop pressed - end running waits now instead of at their timeout
+  if (request.type === 'ABORT_WAIT_FOR_DOM') {
+    Array.from(activeDomWaits).forEach(cancel => cancel());
+    sendResponse({ success: true });
+    return true;
+  }
+
+  if (request.type === 'READ_PAGE') {
+    sendResponse(readPage({ offset: request.offset, sectionId: request.sectionId, maxChars: request.maxChars }));
+    return true;
+  }
+
+  if (request.type === 'EXTRACT_DATA') {
+    sendResponse(extractStructuredData({ selector: request.selector, source: request.source, columns: request.columns }));
+    return true;
   }
 
   if (request.type === 'GET_SELECTED_TEXT') {
@@ -2223,6 +4373,11 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  if (request.type === 'GET_CONTEXT_MENU_TARGET') {
+    sendResponse({ target: describeContextMenuTarget() });
+    return true;
+  }
+
   // Show/hide browser automation overlay
   if (request.type === 'SHOW_BROWSER_AUTOMATION_OVERLAY') {
     showBrowserAutomationOverlay();
@@ -2414,10 +4569,13 @@ function sendPageLoadMessage() {
 
 // Wait for DOM to be ready before sending page load message
 // This prevents race conditions where page data isn't available yet
-if (document.readyState === 'loading') {
-  // DOM is still loading, wait for it
-  document.addEventListener('DOMContentLoaded', sendPageLoadMessage, { once: true });
-} else {
-  // DOM is already interactive or complete
-  sendPageLoadMessage();
+// Only the top frame reports page loads - scripts in frames exist for snapshots and ref actions
+if (window === window.top) {
+  if (document.readyState === 'loading') {
+    // DOM is still loading, wait for it
+    document.addEventListener('DOMContentLoaded', sendPageLoadMessage, { once: true });
+  } else {
+    // DOM is already interactive or complete
+    sendPageLoadMessage();
+  }
 }
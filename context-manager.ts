@@ -0,0 +1,314 @@
+/**
+ * Context Manager - Fits the conversation into a token budget before each request
+ *
+ * Reductions are applied oldest-first and only while the estimate is over budget:
+ * 1. Drop screenshots (keeping the most recent one)
+ * 2. Compress page contexts (keeping the most recent N)
+ * 3. Summarize the oldest messages - last resort, results are cached per history prefix
+ *
+ * tool_use / tool_result pairs are always kept intact because the API rejects orphans.
+ */
+
+import type { Message } from './types';
+
+// Rough average for English text and JSON - deliberately on the conservative side
+const CHARS_PER_TOKEN = 3.5;
+// Screenshots are resized to at most 1280px on the long edge (~width × height / 750 tokens)
+const IMAGE_TOKENS = 1600;
+// Fraction of the budget the kept (unsummarized) recent messages may use
+const SUMMARY_KEEP_RATIO = 0.6;
+const MAX_CACHED_SUMMARIES = 20;
+
+// Summaries keyed by the history prefix they replace, so the same history isn't re-summarized every turn
+const summaryCache = new Map<string, { prefixLength: number; summary: string }>();
+
+export interface ContextBudgetOptions {
+  maxTokens: number; // Token budget for the messages array
+  keepRecentPageContexts: number; // Most recent page contexts that are never compressed
+  enablePageContextStripping: boolean; // Allow dropping screenshots / compressing page contexts
+  enableSummarization: boolean; // Allow summarizing old messages as a last resort
+  summarize?: (messages: Message[]) => Promise<string | null>; // Produces a summary of the given messages
+}
+
+/**
+ * Estimate tokens for message content (string, content block array, or any JSON value)
+ */
+export function estimateContentTokens(content: any): number {
+  if (typeof content === 'string') {
+    return Math.ceil(content.length / CHARS_PER_TOKEN);
+  }
+  if (Array.isArray(content)) {
+    return content.reduce((sum: number, block: any) => sum + estimateBlockTokens(block), 0);
+  }
+  return Math.ceil(JSON.stringify(content ?? '').length / CHARS_PER_TOKEN);
+}
+
+function estimateBlockTokens(block: any): number {
+  switch (block?.type) {
+    case 'text':
+      return Math.ceil((block.text || '').length / CHARS_PER_TOKEN);
+    case 'image':
+      return IMAGE_TOKENS;
+    case 'tool_use':
+      return Math.ceil(JSON.stringify(block.input ?? {}).length / CHARS_PER_TOKEN) + 20;
+    case 'tool_result':
+      return estimateContentTokens(block.content ?? '') + 10;
+    default:
+      return Math.ceil(JSON.stringify(block ?? '').length / CHARS_PER_TOKEN);
+  }
+}
+
+/**
+ * Estimate tokens for a list of messages (including per-message overhead)
+ */
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((sum, m) => sum + estimateContentTokens(m.content) + 4, 0);
+}
+
+/**
+ * Check if content contains a screenshot
+ */
+function hasScreenshot(content: any): boolean {
+  if (!Array.isArray(content)) return false;
+  return content.some((item: any) =>
+    item?.type === 'image' ||
+    (item?.type === 'tool_result' && Array.isArray(item.content) && item.content.some((c: any) => c?.type === 'image'))
+  );
+}
+
+/**
+ * Check if content contains page context (getPageContext JSON or the sidepanel's [Current Page Context] block)
+ */
+function hasPageContext(content: any): boolean {
+  if (typeof content === 'string') {
+    return content.includes('[Current Page Context]');
+  }
+  if (!Array.isArray(content)) return false;
+  return content.some((item: any) => {
+    if (item?.type !== 'tool_result' || typeof item.content !== 'string') return false;
+    try {
+      const parsed = JSON.parse(item.content);
+      // If it has url, textContent, or links - it's likely page context
+      return !!(parsed.url || parsed.textContent || parsed.links || parsed.interactiveElements);
+    } catch {
+      // Not JSON, treat large text blocks as page content
+      return item.content.length > 2000;
+    }
+  });
+}
+
+/**
+ * Replace screenshots with placeholders, preserving tool_result structure
+ */
+function stripScreenshots(content: any): any {
+  if (!Array.isArray(content)) return content;
+  return content.map((item: any) => {
+    if (item?.type === 'image') {
+      return { type: 'text', text: '[Screenshot removed to save tokens]' };
+    }
+    if (item?.type === 'tool_result' && Array.isArray(item.content) && item.content.some((c: any) => c?.type === 'image')) {
+      const textItems = item.content.filter((c: any) => c?.type === 'text');
+      const textSummary = textItems.length > 0 ? textItems[0].text?.substring(0, 100) + '...' : '';
+      return {
+        ...item,
+        content: `[Screenshot stripped]${textSummary ? ' ' + textSummary : ''}`,
+      };
+    }
+    return item;
+  });
+}
+
+/**
+ * Compress page context to a one-line placeholder, preserving tool_result structure
+ */
+function compressPageContext(content: any): any {
+  if (typeof content === 'string') {
+    const contextIndex = content.indexOf('[Current Page Context]');
+    if (contextIndex === -1) return content;
+    const urlMatch = content.slice(contextIndex).match(/URL: (.*)/);
+    return `${content.slice(0, contextIndex).trimEnd()}\n\n[Page context stripped${urlMatch ? ` - URL: ${urlMatch[1]}` : ''}]`;
+  }
+  if (!Array.isArray(content)) return content;
+
+  return content.map((item: any) => {
+    if (item?.type !== 'tool_result' || typeof item.content !== 'string') return item;
+    try {
+      const parsed = JSON.parse(item.content);
+      if (parsed.url || parsed.textContent || parsed.links || parsed.interactiveElements) {
+        return { ...item, content: `[Page context stripped${parsed.url ? ` - URL: ${parsed.url}` : ''}]` };
+      }
+      return item;
+    } catch {
+      if (item.content.length > 2000) {
+        return { ...item, content: `[Large result stripped - ${item.content.length} chars]` };
+      }
+      return item;
+    }
+  });
+}
+
+/**
+ * A message can start the kept part of the history only if it doesn't answer an earlier tool_use
+ */
+function isSafeSplitPoint(message: Message): boolean {
+  if (message.role !== 'user') return false;
+  const content: any = message.content;
+  return !Array.isArray(content) || !content.some((item: any) => item?.type === 'tool_result');
+}
+
+/**
+ * Cache key for a history prefix
+ * Keyed on ids rather than content so screenshot/page-context reductions don't invalidate it
+ */
+function getPrefixKey(messages: Message[]): string {
+  const raw = messages.map(m => `${m.id}:${m.role}`).join('|');
+  let hash = 5381;
+  for (let i = 0; i < raw.length; i++) {
+    hash = ((hash << 5) + hash + raw.charCodeAt(i)) | 0;
+  }
+  return `${messages.length}_${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Build the message that stands in for a summarized prefix
+ */
+function createSummaryMessage(cacheKey: string, summary: string): Message {
+  return {
+    id: `summary_${cacheKey}`,
+    role: 'user',
+    content: `[Previous conversation summary]\n\n${summary}\n\n[End of summary - conversation continues below]`,
+  };
+}
+
+/**
+ * Replace the longest previously summarized prefix of the conversation with its cached summary
+ */
+function applyCachedSummary(messages: Message[]): Message[] {
+  let best: { key: string; prefixLength: number; summary: string } | null = null;
+  for (const [key, entry] of summaryCache) {
+    if (entry.prefixLength >= messages.length || (best && entry.prefixLength <= best.prefixLength)) continue;
+    if (getPrefixKey(messages.slice(0, entry.prefixLength)) === key) {
+      best = { key, ...entry };
+    }
+  }
+  if (!best) return messages;
+
+  console.log(`📚 Reusing cached summary for ${best.prefixLength} older messages`);
+  return [createSummaryMessage(best.key, best.summary), ...messages.slice(best.prefixLength)];
+}
+
+/**
+ * Apply a reduction to candidate messages oldest-first until the estimate fits the budget
+ */
+function reduceUntilFits(
+  messages: Message[],
+  candidates: number[],
+  reduce: (content: any) => any,
+  maxTokens: number
+): Message[] {
+  const result = [...messages];
+  let total = estimateMessagesTokens(result);
+
+  for (const index of candidates) {
+    if (total <= maxTokens) break;
+    const before = estimateContentTokens(result[index].content);
+    result[index] = { ...result[index], content: reduce(result[index].content) };
+    total -= before - estimateContentTokens(result[index].content);
+  }
+  return result;
+}
+
+/**
+ * Fit the conversation into the token budget
+ * @param messages - Conversation to send (not modified)
+ * @param options - Budget and allowed reductions
+ * @returns Messages that fit the budget, or the smallest version we could produce
+ */
+export async function fitMessagesToBudget(
+  messages: Message[],
+  options: ContextBudgetOptions
+): Promise<Message[]> {
+  const { maxTokens } = options;
+  let result = messages;
+  let total = estimateMessagesTokens(result);
+
+  if (total <= maxTokens) {
+    return result;
+  }
+  console.log(`📚 Context ~${total} tokens is over the ${maxTokens} token budget - reducing`);
+
+  if (options.enablePageContextStripping) {
+    // Step 1: screenshots (keep the latest - it's usually what the model just asked for)
+    const screenshotIndices = result
+      .map((m, index) => (hasScreenshot(m.content) ? index : -1))
+      .filter(index => index !== -1)
+      .slice(0, -1);
+    result = reduceUntilFits(result, screenshotIndices, stripScreenshots, maxTokens);
+    total = estimateMessagesTokens(result);
+    console.log(`📚 After dropping screenshots: ~${total} tokens`);
+    if (total <= maxTokens) return result;
+
+    // Step 2: page contexts (keep the most recent ones)
+    const keepRecent = Math.max(1, options.keepRecentPageContexts);
+    const pageContextIndices = result
+      .map((m, index) => (m.role === 'user' && hasPageContext(m.content) ? index : -1))
+      .filter(index => index !== -1)
+      .slice(0, -keepRecent);
+    result = reduceUntilFits(result, pageContextIndices, compressPageContext, maxTokens);
+    total = estimateMessagesTokens(result);
+    console.log(`📚 After compressing page contexts: ~${total} tokens`);
+    if (total <= maxTokens) return result;
+  }
+
+  // Step 3: summarize the oldest messages - last resort
+  if (!options.enableSummarization || !options.summarize) {
+    console.warn(`⚠️ Context still ~${total} tokens after reductions and summarization is disabled`);
+    return result;
+  }
+
+  // A cached summary of older history is often enough on its own
+  // (applied repeatedly, since a newer summary may have been built on top of an older one)
+  let withCachedSummary = applyCachedSummary(result);
+  while (withCachedSummary !== result) {
+    result = withCachedSummary;
+    withCachedSummary = applyCachedSummary(result);
+  }
+  total = estimateMessagesTokens(result);
+  if (total <= maxTokens) return result;
+
+  // Walk back from the end to find how much recent history fits, then move to a safe split point
+  let keptTokens = 0;
+  let splitIndex = result.length;
+  while (splitIndex > 0) {
+    const next = estimateContentTokens(result[splitIndex - 1].content) + 4;
+    if (keptTokens + next > maxTokens * SUMMARY_KEEP_RATIO) break;
+    keptTokens += next;
+    splitIndex--;
+  }
+  while (splitIndex < result.length && !isSafeSplitPoint(result[splitIndex])) {
+    splitIndex++;
+  }
+  if (splitIndex <= 0 || splitIndex >= result.length) {
+    console.warn('⚠️ No safe point to summarize at - sending the reduced context as-is');
+    return result;
+  }
+
+  // The prefix may start with an earlier summary, so the new summary builds on it
+  const olderMessages = result.slice(0, splitIndex);
+  console.log(`🤖 Summarizing ${olderMessages.length} older messages, keeping ${result.length - splitIndex} recent`);
+  const summary = await options.summarize(olderMessages);
+  if (!summary) {
+    console.warn('⚠️ Summarization failed - sending the reduced context as-is');
+    return result;
+  }
+
+  const cacheKey = getPrefixKey(olderMessages);
+  summaryCache.set(cacheKey, { prefixLength: splitIndex, summary });
+  if (summaryCache.size > MAX_CACHED_SUMMARIES) {
+    summaryCache.delete(summaryCache.keys().next().value as string);
+  }
+
+  result = [createSummaryMessage(cacheKey, summary), ...result.slice(splitIndex)];
+  console.log(`📚 After summarization: ~${estimateMessagesTokens(result)} tokens`);
+  return result;
+}
@@ -0,0 +1,75 @@
+/**
+ * Data Export - CSV/JSON downloads for data collected by the extractData tool
+ *
+ * The sidepanel keeps the full extraction result and offers it for download;
+ * the model only receives a preview of the rows.
+ */
+
+export interface ExtractedDataset {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  url: string;
+  title?: string;
+  pagesVisited?: number;
+  extractedAt: number;
+}
+
+// Rows sent back to the model - the full dataset stays in the sidepanel for download
+export const MODEL_PREVIEW_ROWS = 50;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Scraped page text is untrusted - a leading quote makes Excel show it as text (real numbers stay numbers)
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Convert rows to RFC 4180 CSV (header row first)
+ * @param columns - Column order; keys missing from a row become empty cells
+ * @param rows - Row objects keyed by column name
+ */
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+  const lines = [columns.map(escapeCsvValue).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeCsvValue(row[column])).join(','));
+  }
+  return lines.join('\r\n');
+}
+
+function getExportFilename(dataset: ExtractedDataset, extension: string): string {
+  let host = 'page';
+  try {
+    host = new URL(dataset.url).hostname.replace(/^www\./, '');
+  } catch {
+    // Keep the generic name
+  }
+  const timestamp = new Date(dataset.extractedAt).toISOString().replace(/[:.]/g, '-');
+  return `extracted-data/${host}-${timestamp}.${extension}`;
+}
+
+/**
+ * Download an extracted dataset as CSV or JSON via chrome.downloads
+ * @param dataset - Result kept by the sidepanel
+ * @param format - 'csv' (spreadsheet friendly) or 'json'
+ */
+export async function downloadExtractedData(dataset: ExtractedDataset, format: 'csv' | 'json'): Promise<void> {
+  const content = format === 'csv'
+    ? `\uFEFF${toCsv(dataset.columns, dataset.rows)}` // BOM so Excel reads UTF-8
+    : JSON.stringify(dataset.rows, null, 2);
+  const mimeType = format === 'csv' ? 'text/csv' : 'application/json';
+  const filename = getExportFilename(dataset, format);
+
+  await chrome.downloads.download({
+    url: `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`,
+    filename,
+    saveAs: false,
+  });
+  console.log(`💾 Downloaded ${dataset.rows.length} rows as ${filename}`);
+}
@@ -0,0 +1,15 @@
+/**
+ * Types for fake-model-server.mjs (imported by the replay tests)
+ */
+
+import type { Server } from 'node:http';
+
+export interface FakeModelServerOptions {
+  loopLast?: boolean; // Keep serving the last turn once the fixture runs out
+  chunkDelay?: number; // Milliseconds between SSE events
+  name?: string; // Fixture name reported by /__fixture/status
+}
+
+export const SUMMARY_PROMPT_MARKER: string;
+
+export function createFakeModelServer(fixture: { exchanges: any[] }, options?: FakeModelServerOptions): Server;
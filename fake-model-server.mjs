@@ -0,0 +1,238 @@
+/**
+ * Fake Model Server - Replays recorded agent fixtures without a real model
+ *
+ * Serves the exchanges of a fixture saved with the "Record Agent Fixtures" setting
+ * (see session-recorder.ts). Point the extension's GoCode URL (or the provider base URL)
+ * at http://localhost:<port> and run the same task again - the agent loop, tool dispatch,
+ * summarization and abort handling all run for real, only the model is replayed.
+ *
+ * Usage:
+ *   node fake-model-server.mjs <fixture.json> [--port 8787] [--loop-last] [--chunk-delay 5]
+ *
+ *   --loop-last    Keep serving the last turn once the fixture runs out (exercises the MAX_TURNS cutoff)
+ *   --chunk-delay  Milliseconds between SSE events (default 5)
+ *
+ * Exchanges are served in order, separately for agent turns and summarization requests,
+ * so a replay that summarizes at a different point still gets the right responses.
+ * An exchange may set "delayMs" to hold the response (use it with Stop to test aborts).
+ *
+ * Control endpoints:
+ *   GET  /__fixture/status - served/remaining counts and the paths requested so far
+ *   POST /__fixture/reset  - start the fixture over
+ *
+ * The replay tests (tests/agent-loop.replay.test.ts) start the same server in-process
+ * with createFakeModelServer().
+ */
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+export const SUMMARY_PROMPT_MARKER = 'Please provide a concise summary of this conversation history';
+
+function parseArgs(argv) {
+  const options = { fixturePath: null, port: 8787, loopLast: false, chunkDelay: 5 };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--loop-last') options.loopLast = true;
+    else if (arg === '--chunk-delay') options.chunkDelay = Number(argv[++i]);
+    else if (!options.fixturePath) options.fixturePath = arg;
+  }
+  return options;
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function setCorsHeaders(res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', '*');
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Write the recorded body - SSE bodies are sent event by event so the client's stream reader is exercised
+ */
+async function writeRecordedResponse(res, exchange, chunkDelay) {
+  const { status, contentType, body } = exchange.response;
+  res.writeHead(status, { 'Content-Type': contentType });
+
+  if (!contentType.includes('text/event-stream')) {
+    res.end(body);
+    return;
+  }
+
+  const events = body.split('\n\n').filter(event => event.trim().length > 0);
+  for (const event of events) {
+    if (res.destroyed) {
+      console.log('🛑 Client disconnected mid-stream');
+      return;
+    }
+    res.write(`${event}\n\n`);
+    if (chunkDelay > 0) {
+      await sleep(chunkDelay);
+    }
+  }
+  res.end();
+}
+
+/**
+ * Create a server that replays a fixture (not listening yet)
+ * @param fixture - Parsed fixture (see session-recorder.ts)
+ * @param options - loopLast, chunkDelay (ms between SSE events) and name (shown by /__fixture/status)
+ * @returns The http.Server - call listen() on it
+ */
+export function createFakeModelServer(fixture, { loopLast = false, chunkDelay = 5, name = 'fixture' } = {}) {
+  if (!Array.isArray(fixture?.exchanges)) {
+    throw new Error(`${name} is not an agent fixture (missing "exchanges")`);
+  }
+
+  const queues = {
+    turn: fixture.exchanges.filter(e => (e.kind || 'turn') === 'turn'),
+    summary: fixture.exchanges.filter(e => e.kind === 'summary'),
+  };
+  let cursors = { turn: 0, summary: 0 };
+  let requestLog = [];
+
+  const reset = () => {
+    cursors = { turn: 0, summary: 0 };
+    requestLog = [];
+  };
+
+  // Pick the next exchange for a request (summaries and turns have separate cursors)
+  const nextExchange = (kind) => {
+    const queue = queues[kind];
+    if (cursors[kind] < queue.length) {
+      return queue[cursors[kind]++];
+    }
+    if (kind === 'turn' && loopLast && queue.length > 0) {
+      return queue[queue.length - 1];
+    }
+    return null;
+  };
+
+  return http.createServer(async (req, res) => {
+    setCorsHeaders(res);
+    const url = new URL(req.url, 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (url.pathname === '/__fixture/status') {
+      sendJson(res, 200, {
+        fixture: name,
+        served: { ...cursors },
+        remaining: {
+          turn: Math.max(queues.turn.length - cursors.turn, 0),
+          summary: Math.max(queues.summary.length - cursors.summary, 0),
+        },
+        requests: requestLog,
+      });
+      return;
+    }
+
+    if (url.pathname === '/__fixture/reset' && req.method === 'POST') {
+      reset();
+      console.log('🔄 Fixture reset');
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJson(res, 404, { type: 'error', error: { type: 'not_found_error', message: `No route for ${req.method} ${url.pathname}` } });
+      return;
+    }
+
+    const rawBody = await readBody(req);
+    const kind = rawBody.includes(SUMMARY_PROMPT_MARKER) ? 'summary' : 'turn';
+    const requestPath = url.pathname + url.search;
+    requestLog.push({ kind, path: requestPath });
+
+    const exchange = nextExchange(kind);
+    if (!exchange) {
+      console.warn(`⚠️ Fixture exhausted - no ${kind} exchange left for ${requestPath}`);
+      sendJson(res, 500, {
+        type: 'error',
+        error: { type: 'fixture_exhausted', message: `Fixture has no more ${kind} exchanges` },
+      });
+      return;
+    }
+
+    // Only the path is compared - query strings carry model names and keys that may differ between runs
+    if (exchange.request?.path && exchange.request.path.split('?')[0] !== url.pathname) {
+      console.warn(`⚠️ Path mismatch: fixture recorded ${exchange.request.path}, got ${requestPath}`);
+    }
+
+    console.log(`🎞️ ${kind} #${cursors[kind]} → ${exchange.response.status} (${requestPath})`);
+
+    if (exchange.delayMs) {
+      await sleep(exchange.delayMs);
+      if (res.destroyed) {
+        console.log('🛑 Client disconnected while delayed');
+        return;
+      }
+    }
+
+    try {
+      await writeRecordedResponse(res, exchange, chunkDelay);
+    } catch (error) {
+      console.error('❌ Failed to write response:', error);
+    }
+  });
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.fixturePath) {
+    console.error('Usage: node fake-model-server.mjs <fixture.json> [--port 8787] [--loop-last] [--chunk-delay 5]');
+    process.exit(1);
+  }
+
+  let server;
+  let fixture;
+  try {
+    fixture = JSON.parse(fs.readFileSync(options.fixturePath, 'utf8'));
+    server = createFakeModelServer(fixture, {
+      loopLast: options.loopLast,
+      chunkDelay: options.chunkDelay,
+      name: path.basename(options.fixturePath),
+    });
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  server.listen(options.port, () => {
+    const turns = fixture.exchanges.filter(e => (e.kind || 'turn') === 'turn').length;
+    console.log(`🎞️ Fake model server on http://localhost:${options.port}`);
+    console.log(`   Fixture: ${options.fixturePath} (${turns} turns, ${fixture.exchanges.length - turns} summaries)`);
+    if (options.loopLast) {
+      console.log('   Repeating the last turn once the fixture runs out');
+    }
+  });
+}
+
+// Run as a CLI unless imported (the replay tests import createFakeModelServer)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
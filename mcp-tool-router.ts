@@ -7,45 +7,76 @@
  * - Error handling and logging
  */
 
-import type { MCPToolWithOrigin } from './types';
+import type { MCPToolWithOrigin, Provider } from './types';
 
 /**
- * Format MCP tools for Anthropic Claude
- * Anthropic uses a specific tool schema format
+ * Extract a tool's JSON input schema, whichever field it was declared in
  */
-export function formatToolsForAnthropic(tools: Record<string, any>): any[] {
-  return Object.entries(tools).map(([name, tool]) => {
-    console.log(`🔧 Formatting MCP tool "${name}":`, JSON.stringify(tool, null, 2));
+function getToolInputSchema(name: string, tool: any): any {
+  // Extract input schema - check multiple possible locations
+  let inputSchema = tool.inputSchema || tool.input_schema || tool.parameters || tool.schema;
 
-    // Extract input schema - check multiple possible locations
-    let inputSchema = tool.inputSchema || tool.input_schema || tool.parameters || tool.schema;
+  // MCP tools often wrap the schema in a 'jsonSchema' field - unwrap it
+  if (inputSchema?.jsonSchema) {
+    console.log(`   Unwrapping jsonSchema field for "${name}"...`);
+    inputSchema = inputSchema.jsonSchema;
+  }
 
-    // MCP tools often wrap the schema in a 'jsonSchema' field - unwrap it
-    if (inputSchema?.jsonSchema) {
-      console.log(`   Unwrapping jsonSchema field...`);
-      inputSchema = inputSchema.jsonSchema;
-    }
+  // If inputSchema doesn't have 'type', add it
+  if (inputSchema && !inputSchema.type) {
+    inputSchema = {
+      type: 'object',
+      ...inputSchema,
+    };
+  }
 
-    // If inputSchema doesn't have 'type', add it
-    if (inputSchema && !inputSchema.type) {
-      inputSchema = {
-        type: 'object',
-        ...inputSchema,
-      };
-    }
+  // Default schema if nothing found
+  if (!inputSchema) {
+    inputSchema = {
+      type: 'object',
+      properties: {},
+    };
+  }
 
-    // Default schema if nothing found
-    if (!inputSchema) {
-      inputSchema = {
-        type: 'object',
-        properties: {},
-      };
+  return inputSchema;
+}
+
+/**
+ * Reduce a JSON schema to the OpenAPI subset Gemini accepts
+ * (unsupported keywords such as additionalProperties, $schema or default are rejected)
+ */
+function sanitizeSchemaForGoogle(schema: any): any {
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const sanitized: any = {};
+  for (const key of ['type', 'description', 'enum', 'format', 'nullable', 'required']) {
+    if (schema[key] !== undefined) {
+      sanitized[key] = schema[key];
     }
+  }
+  if (schema.items) {
+    sanitized.items = sanitizeSchemaForGoogle(schema.items);
+  }
+  if (schema.properties) {
+    sanitized.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, sanitizeSchemaForGoogle(value)])
+    );
+  }
+  return sanitized;
+}
+
+/**
+ * Format MCP tools for Anthropic Claude
+ * Anthropic uses a specific tool schema format
+ */
+export function formatToolsForAnthropic(tools: Record<string, any>): any[] {
+  return Object.entries(tools).map(([name, tool]) => {
+    console.log(`🔧 Formatting MCP tool "${name}":`, JSON.stringify(tool, null, 2));
 
     const formattedTool = {
       name,
       description: tool.description || `Tool: ${name}`,
-      input_schema: inputSchema,
+      input_schema: getToolInputSchema(name, tool),
     };
 
     console.log(`✅ Formatted tool:`, JSON.stringify(formattedTool, null, 2));
@@ -56,17 +87,18 @@ export function formatToolsForAnthropic(tools: Record<string, any>): any[] {
 
 /**
  * Format MCP tools for Google Gemini
- * Gemini uses function declarations
+ * Gemini uses function declarations; tools without parameters must omit the schema
  */
 export function formatToolsForGoogle(tools: Record<string, any>): any[] {
-  return Object.entries(tools).map(([name, tool]) => ({
-    name,
-    description: tool.description || `Tool: ${name}`,
-    parameters: tool.inputSchema || tool.parameters || {
-      type: 'object',
-      properties: {},
-    },
-  }));
+  return Object.entries(tools).map(([name, tool]) => {
+    const parameters = sanitizeSchemaForGoogle(getToolInputSchema(name, tool));
+    const hasParameters = parameters.properties && Object.keys(parameters.properties).length > 0;
+    return {
+      name,
+      description: tool.description || `Tool: ${name}`,
+      ...(hasParameters ? { parameters } : {}),
+    };
+  });
 }
 
 /**
@@ -79,10 +111,7 @@ export function formatToolsForOpenAI(tools: Record<string, any>): any[] {
     function: {
       name,
       description: tool.description || `Tool: ${name}`,
-      parameters: tool.inputSchema || tool.parameters || {
-        type: 'object',
-        properties: {},
-      },
+      parameters: getToolInputSchema(name, tool),
     },
   }));
 }
@@ -92,7 +121,7 @@ export function formatToolsForOpenAI(tools: Record<string, any>): any[] {
  */
 export function formatToolsForProvider(
   tools: Record<string, any>,
-  provider: 'anthropic' | 'openai'
+  provider: Provider
 ): any[] {
   switch (provider) {
     case 'anthropic':
@@ -0,0 +1,154 @@
+/**
+ * Prompt Templates - Resolves and renders the system prompt templates
+ *
+ * Layering (later layers win):
+ * 1. Built-in templates (default-prompt-templates.ts)
+ * 2. Admin overrides from chrome.storage.managed (enterprise policy `promptTemplateOverrides`)
+ * 3. User overrides from Settings - skipped when the admin override is locked
+ *
+ * Each layer either replaces the template text or appends to it. Every resolved template
+ * has a version id (e.g. `browser-enabled@1+admin.2+user.k3f9a`) that is logged with each run.
+ */
+
+import type { PromptTemplateName, PromptTemplateOverride, PromptTemplateOverrides } from './types';
+import { DEFAULT_PROMPT_TEMPLATES } from './default-prompt-templates';
+
+export interface ResolvedPromptTemplate {
+  name: PromptTemplateName;
+  versionId: string;
+  content: string;
+}
+
+export type PromptTemplateSet = Record<PromptTemplateName, ResolvedPromptTemplate>;
+
+export type PromptVariables = Partial<Record<
+  | 'tools'
+  | 'mcpTools'
+  | 'siteProfile'
+  | 'siteInstructions'
+  | 'url'
+  | 'plan'
+  | 'mcpPrioritySection'
+  | 'siteProfileSection'
+  | 'siteInstructionsSection',
+  string
+>>;
+
+/**
+ * Short content hash used as the version label of overrides without an explicit version
+ */
+function hashContent(content: string): string {
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36).substring(0, 6);
+}
+
+/**
+ * Check that a stored override has the expected shape (managed storage is admin-authored JSON)
+ */
+function isValidOverride(override: any): override is PromptTemplateOverride {
+  return !!override &&
+    (override.mode === 'replace' || override.mode === 'append') &&
+    typeof override.content === 'string';
+}
+
+function applyOverride(
+  template: ResolvedPromptTemplate,
+  override: PromptTemplateOverride | undefined,
+  source: 'admin' | 'user'
+): ResolvedPromptTemplate {
+  if (!isValidOverride(override) || override.content.trim().length === 0) {
+    return template;
+  }
+  return {
+    name: template.name,
+    versionId: `${template.versionId}+${source}.${override.version || hashContent(override.content)}`,
+    content: override.mode === 'replace'
+      ? override.content
+      : `${template.content}\n\n${override.content}`,
+  };
+}
+
+/**
+ * Load admin prompt overrides from managed storage (set via Chrome enterprise policy)
+ * @returns Overrides, or an empty object when no policy is configured
+ */
+export async function loadManagedPromptOverrides(): Promise<PromptTemplateOverrides> {
+  try {
+    if (typeof chrome === 'undefined' || !chrome.storage?.managed) {
+      return {};
+    }
+    const result = await chrome.storage.managed.get('promptTemplateOverrides');
+    return (result.promptTemplateOverrides as PromptTemplateOverrides) || {};
+  } catch (error) {
+    // Managed storage throws when the extension has no policy schema or no policy is set
+    console.warn('⚠️ Could not read managed prompt overrides:', error);
+    return {};
+  }
+}
+
+/**
+ * Resolve every template against admin and user overrides
+ * @param userOverrides - Overrides from Settings
+ * @param adminOverrides - Overrides from managed storage
+ */
+export function resolvePromptTemplates(
+  userOverrides?: PromptTemplateOverrides,
+  adminOverrides?: PromptTemplateOverrides
+): PromptTemplateSet {
+  const resolved = {} as PromptTemplateSet;
+
+  for (const base of Object.values(DEFAULT_PROMPT_TEMPLATES)) {
+    let template: ResolvedPromptTemplate = {
+      name: base.name,
+      versionId: `${base.name}@${base.version}`,
+      content: base.content,
+    };
+    const adminOverride = adminOverrides?.[base.name];
+    template = applyOverride(template, adminOverride, 'admin');
+    if (!(isValidOverride(adminOverride) && adminOverride.locked)) {
+      template = applyOverride(template, userOverrides?.[base.name], 'user');
+    }
+    resolved[base.name] = template;
+  }
+
+  return resolved;
+}
+
+/**
+ * Load and resolve templates for a run
+ * @param settings - User settings (reads promptTemplateOverrides)
+ */
+export async function loadPromptTemplates(settings?: any): Promise<PromptTemplateSet> {
+  const adminOverrides = await loadManagedPromptOverrides();
+  return resolvePromptTemplates(settings?.promptTemplateOverrides, adminOverrides);
+}
+
+/**
+ * Render template text: {{#name}}...{{/name}} blocks are kept only when the variable is non-empty,
+ * then {{name}} placeholders are replaced (unknown variables render as empty)
+ */
+export function renderTemplateText(content: string, variables: PromptVariables): string {
+  const values = variables as Record<string, string | undefined>;
+  return content
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_match, name: string, block: string) =>
+      values[name] ? block : ''
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_match, name: string) => values[name] ?? '');
+}
+
+/**
+ * Render a resolved template by name
+ */
+export function renderPrompt(templates: PromptTemplateSet, name: PromptTemplateName, variables: PromptVariables): string {
+  return renderTemplateText(templates[name].content, variables);
+}
+
+/**
+ * Version id for a run - the version ids of the templates it used
+ */
+export function getPromptVersionId(templates: PromptTemplateSet, names: PromptTemplateName[]): string {
+  return names.map(name => templates[name].versionId).join(', ');
+}
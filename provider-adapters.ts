@@ -0,0 +1,372 @@
+/**
+ * Provider Adapters - Translate the shared browser-tools loop to each provider's API
+ *
+ * The loop in anthropic-browser-tools.ts keeps the conversation in Anthropic's message
+ * format (content blocks with tool_use / tool_result). Each adapter:
+ * - Builds the HTTP request for its provider from that format (system, messages, tools)
+ * - Converts the provider's response back into an Anthropic-style response
+ *   ({ content, stop_reason, usage }) so tool calls run through the same loop
+ *
+ * The OpenAI-compatible adapter also covers local servers (Ollama, vLLM, LM Studio)
+ * through a custom base URL, and then works without an API key.
+ */
+
+import type { Provider, Settings } from './types';
+import { formatToolsForGoogle, formatToolsForOpenAI } from './mcp-tool-router';
+
+export interface ProviderRequest {
+  model: string;
+  max_tokens: number;
+  system?: Array<{ type: 'text'; text: string; cache_control?: any }>;
+  messages: Array<{ role: 'user' | 'assistant'; content: any }>;
+  tools?: any[]; // Anthropic-format tool definitions (browser + MCP/A2A)
+  stream?: boolean; // Only honored by providers that stream in Anthropic's SSE format
+}
+
+export interface ProviderResponse {
+  content: any[]; // Anthropic-style content blocks (text / tool_use)
+  stop_reason: 'end_turn' | 'tool_use' | 'max_tokens';
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export interface ProviderCredentials {
+  provider: Provider;
+  apiKey: string;
+  baseUrl?: string; // Custom base URL (adapter default when unset)
+}
+
+export interface ProviderAdapter {
+  provider: Provider;
+  label: string; // Used in errors and logs
+  defaultBaseUrl: string;
+  /** Whether a key is needed for this base URL (local OpenAI-compatible servers don't need one) */
+  requiresApiKey: (baseUrl?: string) => boolean;
+  missingKeyMessage: string;
+  /** Model used for history summarization (null = use the run's model) */
+  summaryModel: string | null;
+  buildRequest: (request: ProviderRequest, apiKey: string, baseUrl: string) => { url: string; init: RequestInit };
+  /** Convert a (non-streaming) JSON response body into an Anthropic-style response */
+  parseResponse: (body: any) => ProviderResponse;
+}
+
+/**
+ * Strip trailing slashes and a trailing /v1 so both "http://host:11434" and "http://host:11434/v1" work
+ */
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+function systemToText(system: ProviderRequest['system']): string {
+  return (system || []).map(block => block.text).join('\n\n');
+}
+
+/**
+ * Text of a tool_result block (images are handled separately by each adapter)
+ */
+function toolResultText(block: any): string {
+  if (typeof block.content === 'string') return block.content;
+  if (Array.isArray(block.content)) {
+    return block.content
+      .filter((item: any) => item?.type === 'text')
+      .map((item: any) => item.text)
+      .join('\n');
+  }
+  return JSON.stringify(block.content ?? '');
+}
+
+/**
+ * Image blocks at the top level of a message or nested inside its tool_result blocks
+ */
+function collectImages(content: any[]): Array<{ media_type: string; data: string }> {
+  const images: Array<{ media_type: string; data: string }> = [];
+  for (const block of content) {
+    if (block?.type === 'image' && block.source?.data) {
+      images.push(block.source);
+    } else if (block?.type === 'tool_result' && Array.isArray(block.content)) {
+      for (const item of block.content) {
+        if (item?.type === 'image' && item.source?.data) {
+          images.push(item.source);
+        }
+      }
+    }
+  }
+  return images;
+}
+
+function toolsByName(tools: any[] | undefined): Record<string, any> {
+  return Object.fromEntries((tools || []).map(tool => [tool.name, tool]));
+}
+
+/**
+ * Anthropic (GoCode) - the loop's native format, passed through unchanged
+ */
+const anthropicAdapter: ProviderAdapter = {
+  provider: 'anthropic',
+  label: 'GoCode API',
+  defaultBaseUrl: 'https://caas-gocode-prod.caas-prod.prod.onkatana.net',
+  requiresApiKey: () => true,
+  missingKeyMessage: 'GoCode Key is not configured. Please add your GoCode Key in Settings (⚙️ icon).',
+  summaryModel: 'claude-3-5-haiku-20241022', // Use fast, cheap model for summarization
+  buildRequest: (request, apiKey, baseUrl) => ({
+    url: `${baseUrl}/v1/messages`,
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify(request),
+    },
+  }),
+  parseResponse: (body) => body,
+};
+
+/**
+ * OpenAI chat completions (also Ollama, vLLM, LM Studio, ...)
+ */
+const openAIAdapter: ProviderAdapter = {
+  provider: 'openai',
+  label: 'OpenAI-compatible API',
+  defaultBaseUrl: 'https://api.openai.com',
+  requiresApiKey: (baseUrl) => !baseUrl,
+  missingKeyMessage: 'OpenAI API key is not configured. Please add it in Settings (⚙️ icon), or set a custom base URL for a local server.',
+  summaryModel: null,
+  buildRequest: (request, apiKey, baseUrl) => {
+    const messages: any[] = [];
+    const systemText = systemToText(request.system);
+    if (systemText) {
+      messages.push({ role: 'system', content: systemText });
+    }
+
+    for (const message of request.messages) {
+      if (typeof message.content === 'string') {
+        messages.push({ role: message.role, content: message.content });
+        continue;
+      }
+      const blocks: any[] = Array.isArray(message.content) ? message.content : [];
+
+      if (message.role === 'assistant') {
+        const text = blocks.filter(b => b?.type === 'text').map(b => b.text).join('');
+        const toolCalls = blocks.filter(b => b?.type === 'tool_use').map(b => ({
+          id: b.id,
+          type: 'function',
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        });
+        continue;
+      }
+
+      // Tool results must directly follow the assistant tool_calls, so they go first;
+      // screenshots can't be attached to tool messages and follow in a user message
+      for (const block of blocks.filter(b => b?.type === 'tool_result')) {
+        messages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: toolResultText(block) || '(no output)' });
+      }
+      const parts: any[] = blocks
+        .filter(b => b?.type === 'text' && b.text)
+        .map(b => ({ type: 'text', text: b.text }));
+      for (const image of collectImages(blocks)) {
+        parts.push({ type: 'image_url', image_url: { url: `data:${image.media_type};base64,${image.data}` } });
+      }
+      if (parts.length > 0) {
+        messages.push({ role: 'user', content: parts });
+      }
+    }
+
+    const tools = request.tools && request.tools.length > 0
+      ? formatToolsForOpenAI(toolsByName(request.tools))
+      : undefined;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    return {
+      url: `${normalizeBaseUrl(baseUrl)}/v1/chat/completions`,
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.max_tokens,
+          messages,
+          ...(tools ? { tools } : {}),
+        }),
+      },
+    };
+  },
+  parseResponse: (body) => {
+    const choice = body?.choices?.[0];
+    const message = choice?.message || {};
+    const content: any[] = [];
+
+    if (typeof message.content === 'string' && message.content.length > 0) {
+      content.push({ type: 'text', text: message.content });
+    }
+    (message.tool_calls || []).forEach((call: any, index: number) => {
+      let input = {};
+      try {
+        input = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch (parseError) {
+        console.warn(`⚠️ Could not parse arguments of tool call "${call.function?.name}":`, call.function?.arguments);
+      }
+      content.push({
+        type: 'tool_use',
+        id: call.id || `call_${Date.now()}_${index}`,
+        name: call.function?.name,
+        input,
+      });
+    });
+
+    const hasToolCalls = content.some(block => block.type === 'tool_use');
+    return {
+      content,
+      stop_reason: hasToolCalls ? 'tool_use' : choice?.finish_reason === 'length' ? 'max_tokens' : 'end_turn',
+      usage: body?.usage
+        ? { input_tokens: body.usage.prompt_tokens || 0, output_tokens: body.usage.completion_tokens || 0 }
+        : undefined,
+    };
+  },
+};
+
+/**
+ * Google Gemini generateContent
+ */
+const googleAdapter: ProviderAdapter = {
+  provider: 'google',
+  label: 'Gemini API',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com',
+  requiresApiKey: () => true,
+  missingKeyMessage: 'Gemini API key is not configured. Please add it in Settings (⚙️ icon).',
+  summaryModel: null,
+  buildRequest: (request, apiKey, baseUrl) => {
+    // functionResponse parts are matched to calls by name, so remember each tool_use id's name
+    const toolNamesById = new Map<string, string>();
+    const contents: any[] = [];
+
+    for (const message of request.messages) {
+      const role = message.role === 'assistant' ? 'model' : 'user';
+      const blocks: any[] = typeof message.content === 'string'
+        ? [{ type: 'text', text: message.content }]
+        : Array.isArray(message.content) ? message.content : [];
+      const parts: any[] = [];
+
+      for (const block of blocks) {
+        if (block?.type === 'text' && block.text) {
+          parts.push({ text: block.text });
+        } else if (block?.type === 'tool_use') {
+          toolNamesById.set(block.id, block.name);
+          parts.push({ functionCall: { name: block.name, args: block.input ?? {} } });
+        } else if (block?.type === 'tool_result') {
+          parts.push({
+            functionResponse: {
+              name: toolNamesById.get(block.tool_use_id) || 'unknown',
+              response: { content: toolResultText(block) },
+            },
+          });
+        }
+      }
+      for (const image of collectImages(blocks)) {
+        parts.push({ inlineData: { mimeType: image.media_type, data: image.data } });
+      }
+      if (parts.length === 0) continue;
+
+      // Gemini expects alternating turns - merge consecutive messages from the same role
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    const systemText = systemToText(request.system);
+    const functionDeclarations = request.tools && request.tools.length > 0
+      ? formatToolsForGoogle(toolsByName(request.tools))
+      : [];
+
+    return {
+      url: `${baseUrl.replace(/\/+$/, '')}/v1beta/models/${request.model}:generateContent`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          contents,
+          ...(systemText ? { systemInstruction: { parts: [{ text: systemText }] } } : {}),
+          ...(functionDeclarations.length > 0 ? { tools: [{ functionDeclarations }] } : {}),
+          generationConfig: { maxOutputTokens: request.max_tokens },
+        }),
+      },
+    };
+  },
+  parseResponse: (body) => {
+    const candidate = body?.candidates?.[0];
+    const content: any[] = [];
+
+    (candidate?.content?.parts || []).forEach((part: any, index: number) => {
+      if (typeof part.text === 'string' && part.text.length > 0 && !part.thought) {
+        content.push({ type: 'text', text: part.text });
+      } else if (part.functionCall) {
+        content.push({
+          type: 'tool_use',
+          id: `toolu_gemini_${Date.now()}_${index}`,
+          name: part.functionCall.name,
+          input: part.functionCall.args || {},
+        });
+      }
+    });
+
+    const hasToolCalls = content.some(block => block.type === 'tool_use');
+    return {
+      content,
+      stop_reason: hasToolCalls ? 'tool_use' : candidate?.finishReason === 'MAX_TOKENS' ? 'max_tokens' : 'end_turn',
+      usage: body?.usageMetadata
+        ? { input_tokens: body.usageMetadata.promptTokenCount || 0, output_tokens: body.usageMetadata.candidatesTokenCount || 0 }
+        : undefined,
+    };
+  },
+};
+
+const PROVIDER_ADAPTERS: Record<Provider, ProviderAdapter> = {
+  anthropic: anthropicAdapter,
+  openai: openAIAdapter,
+  google: googleAdapter,
+};
+
+/**
+ * Get the adapter for a provider
+ * @returns The adapter, or undefined for an unknown provider
+ */
+export function getProviderAdapter(provider: Provider | string | undefined): ProviderAdapter | undefined {
+  return PROVIDER_ADAPTERS[(provider || 'anthropic') as Provider];
+}
+
+/**
+ * Resolve the key and base URL of a provider from settings
+ * Anthropic uses the GoCode key/URL; other providers use settings.providerConfigs
+ */
+export function getProviderCredentials(settings: Settings, provider: Provider = settings.provider): ProviderCredentials {
+  if (provider === 'anthropic') {
+    return { provider, apiKey: settings.apiKey || '', baseUrl: settings.customBaseUrl || undefined };
+  }
+  const config = settings.providerConfigs?.[provider];
+  return { provider, apiKey: config?.apiKey || '', baseUrl: config?.customBaseUrl || undefined };
+}
+
+/**
+ * Whether a provider has enough configuration to be offered in the model picker
+ */
+export function isProviderConfigured(settings: Settings, provider: Provider): boolean {
+  const adapter = getProviderAdapter(provider);
+  if (!adapter) return false;
+  const { apiKey, baseUrl } = getProviderCredentials(settings, provider);
+  return !!apiKey || (provider !== 'anthropic' && !!baseUrl && !adapter.requiresApiKey(baseUrl));
+}
@@ -0,0 +1,202 @@
+/**
+ * Scheduled Task Runner - Headless agent runs for scheduled tasks
+ *
+ * Runs the same browser-tools loop as the sidepanel (anthropic-browser-tools.ts) from the
+ * service worker, without ChatSidebar state: the task's start URL is opened in a background
+ * agent tab, tool messages go straight to background.ts's handlers through `dispatch`, and
+ * the transcript and result are saved as a ScheduledTaskRun. No user is watching, so tools
+ * that need confirmation are refused and MCP/A2A tools are not offered.
+ */
+
+import type { Message, ScheduledTask, ScheduledTaskRun, Settings, TokenUsage } from './types';
+import { streamAnthropicWithBrowserTools } from './anthropic-browser-tools';
+import { buildBrowserToolMessage, getBrowserTool } from './browser-tool-registry';
+import { getProviderCredentials, isProviderConfigured } from './provider-adapters';
+import { MODEL_PREVIEW_ROWS } from './data-export';
+import { saveTaskRun } from './scheduled-tasks';
+import { addUsage, createEmptyUsage, getBudgetExceededReason } from './usage-tracker';
+
+// Sends a runtime message to background.ts's handlers and resolves with their response
+export type RuntimeMessageDispatcher = (message: { type: string; [key: string]: any }) => Promise<any>;
+
+const MAX_TRANSCRIPT_TEXT_CHARS = 500;
+
+function truncate(text: string, maxLength = MAX_TRANSCRIPT_TEXT_CHARS): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * One-line outcome of a tool call for the transcript
+ */
+function summarizeToolResult(result: any): string {
+  if (!result) return 'no response';
+  if (result.success === false || result.error) return `failed: ${result.error || 'unknown error'}`;
+  if (result.url) return `ok (${result.url})`;
+  return 'ok';
+}
+
+/**
+ * Run a scheduled task once and save its run (also saved as "running" when it starts)
+ * @param task - Task to run
+ * @param trigger - Alarm or "Run now" from Settings
+ * @param dispatch - Delivers tool messages to background.ts
+ * @param signal - Aborts the run (time limit or Stop); a string reason becomes the run's error
+ * @param openedTabs - Filled with the tabs the run has open, so the caller can stop it from one of them
+ * @returns The finished run
+ */
+export async function runScheduledTask(
+  task: ScheduledTask,
+  trigger: ScheduledTaskRun['trigger'],
+  dispatch: RuntimeMessageDispatcher,
+  signal?: AbortSignal,
+  openedTabs: Set<number> = new Set()
+): Promise<ScheduledTaskRun> {
+  const run: ScheduledTaskRun = {
+    id: `${task.id}-${Date.now()}`,
+    taskId: task.id,
+    taskName: task.name,
+    trigger,
+    status: 'running',
+    startedAt: Date.now(),
+    transcript: [],
+  };
+  await saveTaskRun(run);
+  console.log(`⏰ Scheduled task "${task.name}" started (${trigger})`);
+
+  const allowedTools = new Set(task.allowedTools);
+  let resultText = '';
+  let budgetExceededReason: string | null = null;
+
+  const appendAssistantText = (text: string) => {
+    resultText += text;
+    const last = run.transcript[run.transcript.length - 1];
+    if (last?.kind === 'assistant') {
+      last.text += text;
+    } else {
+      run.transcript.push({ kind: 'assistant', text, at: Date.now() });
+    }
+  };
+
+  try {
+    const { atlasSettings } = await chrome.storage.local.get('atlasSettings');
+    const settings = atlasSettings as Settings | undefined;
+    if (!settings || !isProviderConfigured(settings, settings.provider)) {
+      throw new Error('No AI provider is configured - add an API key in Settings');
+    }
+
+    const opened = await dispatch({ type: 'OPEN_TAB', url: task.startUrl });
+    if (!opened?.success) {
+      throw new Error(`Could not open ${task.startUrl}: ${opened?.error || 'unknown error'}`);
+    }
+    openedTabs.add(opened.tabId);
+    const runTabId: number = opened.tabId;
+    let workingTabId = runTabId;
+
+    const executeTool = async (toolName: string, params: any): Promise<any> => {
+      const result = await (async () => {
+        if (!allowedTools.has(toolName)) {
+          return { success: false, error: `${toolName} is not allowed for this scheduled task` };
+        }
+        if (getBrowserTool(toolName)?.requiresConfirmation) {
+          return { success: false, error: `${toolName} needs the user's confirmation and can't run in a scheduled task` };
+        }
+        const built = buildBrowserToolMessage(toolName, params, {});
+        if ('error' in built) {
+          return { success: false, error: built.error };
+        }
+
+        const targetTabId = (built.message as { tabId?: number }).tabId ?? workingTabId;
+        const response = await dispatch({ ...built.message, tabId: targetTabId });
+        if (response?.success) {
+          if (toolName === 'openTab') {
+            openedTabs.add(response.tabId);
+            if (built.params.switchTo) workingTabId = response.tabId;
+          } else if (toolName === 'switchTab') {
+            workingTabId = response.tabId;
+          } else if (toolName === 'closeTab') {
+            openedTabs.delete(response.tabId);
+            if (workingTabId === response.tabId) workingTabId = runTabId;
+          } else if (toolName === 'extractData' && response.rows?.length > MODEL_PREVIEW_ROWS) {
+            return {
+              ...response,
+              rows: response.rows.slice(0, MODEL_PREVIEW_ROWS),
+              note: `Showing the first ${MODEL_PREVIEW_ROWS} of ${response.rowCount} rows.`,
+            };
+          }
+        }
+        return response;
+      })();
+
+      run.transcript.push({
+        kind: 'tool',
+        text: truncate(`${toolName}(${JSON.stringify(params ?? {})}) → ${summarizeToolResult(result)}`),
+        at: Date.now(),
+      });
+      return result;
+    };
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: `${task.prompt}\n\n[Scheduled task: nobody is watching this run - don't ask questions, finish with a short summary of the result]` +
+        `\n\n[Current Page Context]\nURL: ${opened.url}\nTitle: ${opened.title || ''}`,
+    };
+    const model = settings.model === 'custom' && settings.customModelName ? settings.customModelName : settings.model;
+    const credentials = getProviderCredentials(settings);
+
+    // The token/cost budgets apply to each run as if it were one conversation
+    const recordUsage = (usage: TokenUsage) => {
+      run.usage = addUsage(run.usage, usage);
+    };
+    const checkBudget = async () => {
+      budgetExceededReason = getBudgetExceededReason(run.usage || createEmptyUsage(), settings);
+      return !budgetExceededReason;
+    };
+
+    await streamAnthropicWithBrowserTools(
+      [userMessage],
+      credentials.apiKey,
+      model,
+      credentials.baseUrl,
+      appendAssistantText,
+      () => {},
+      executeTool,
+      signal,
+      undefined, // MCP/A2A connections live in the sidepanel
+      opened.url,
+      undefined,
+      undefined,
+      settings,
+      undefined,
+      true,
+      recordUsage,
+      checkBudget,
+      undefined,
+      task.allowedTools
+    );
+
+    if (signal?.aborted) {
+      throw new Error(typeof signal.reason === 'string' ? signal.reason : 'Run stopped');
+    }
+    if (budgetExceededReason) {
+      throw new Error(`Stopped at the usage budget: ${budgetExceededReason}`);
+    }
+    run.status = 'success';
+    run.result = resultText.trim() || 'Finished without a summary';
+  } catch (error) {
+    run.status = 'failed';
+    run.error = (error as Error).message;
+    if (resultText.trim()) run.result = resultText.trim();
+  } finally {
+    run.finishedAt = Date.now();
+    for (const tabId of openedTabs) {
+      await chrome.tabs.remove(tabId).catch(() => {
+        // The agent or the user already closed it
+      });
+    }
+  }
+
+  await saveTaskRun(run);
+  console.log(`⏰ Scheduled task "${task.name}" ${run.status} in ${Math.round((run.finishedAt! - run.startedAt) / 1000)}s`);
+  return run;
+}
@@ -0,0 +1,129 @@
+/**
+ * Scheduled Tasks - Saved agent tasks, their chrome.alarms schedule and run history
+ *
+ * Settings edits the task list in chrome.storage.local; background.ts keeps one alarm per
+ * enabled task in sync with it and runs due tasks headlessly (scheduled-task-runner.ts).
+ * Interval tasks use a periodic alarm; daily tasks get a one-shot alarm at the next local
+ * "HH:MM" that is set again after every run, so the time stays right across DST changes.
+ */
+
+import type { ScheduledTask, ScheduledTaskRun, TaskSchedule } from './types';
+
+const TASKS_STORAGE_KEY = 'scheduledTasks';
+export const TASK_RUNS_STORAGE_KEY = 'scheduledTaskRuns';
+const ALARM_PREFIX = 'scheduled-task:';
+
+export const MIN_INTERVAL_MINUTES = 5;
+const MAX_RUNS_PER_TASK = 10;
+
+export async function loadScheduledTasks(): Promise<ScheduledTask[]> {
+  const { [TASKS_STORAGE_KEY]: tasks } = await chrome.storage.local.get(TASKS_STORAGE_KEY);
+  return Array.isArray(tasks) ? tasks : [];
+}
+
+export async function saveScheduledTasks(tasks: ScheduledTask[]): Promise<void> {
+  await chrome.storage.local.set({ [TASKS_STORAGE_KEY]: tasks });
+}
+
+/**
+ * Whether a chrome.storage change touched the task list (background.ts re-syncs alarms)
+ */
+export function isScheduledTasksChange(changes: Record<string, chrome.storage.StorageChange>): boolean {
+  return TASKS_STORAGE_KEY in changes;
+}
+
+/**
+ * Run history, newest first
+ * @param taskId - Only runs of this task (default: all tasks)
+ */
+export async function loadTaskRuns(taskId?: string): Promise<ScheduledTaskRun[]> {
+  const { [TASK_RUNS_STORAGE_KEY]: runs } = await chrome.storage.local.get(TASK_RUNS_STORAGE_KEY);
+  const all: ScheduledTaskRun[] = Array.isArray(runs) ? runs : [];
+  return (taskId ? all.filter(run => run.taskId === taskId) : all).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Insert or update a run, keeping the last MAX_RUNS_PER_TASK runs of its task
+ */
+export async function saveTaskRun(run: ScheduledTaskRun): Promise<void> {
+  const runs = (await loadTaskRuns()).filter(existing => existing.id !== run.id);
+  runs.unshift(run);
+  let taskRunCount = 0;
+  const kept = runs.filter(existing => existing.taskId !== run.taskId || ++taskRunCount <= MAX_RUNS_PER_TASK);
+  await chrome.storage.local.set({ [TASK_RUNS_STORAGE_KEY]: kept });
+}
+
+/**
+ * Mark runs left "running" by a service worker that was stopped mid-run as failed
+ */
+export async function failInterruptedRuns(): Promise<void> {
+  const runs = await loadTaskRuns();
+  if (!runs.some(run => run.status === 'running')) return;
+  await chrome.storage.local.set({
+    [TASK_RUNS_STORAGE_KEY]: runs.map(run => run.status === 'running'
+      ? { ...run, status: 'failed', finishedAt: Date.now(), error: 'Interrupted - the browser or extension stopped during the run' }
+      : run),
+  });
+}
+
+/**
+ * Next time a daily "HH:MM" (local time) occurs after `from`
+ */
+function getNextDailyTime(time: string, from: number): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date(from);
+  next.setHours(hours || 0, minutes || 0, 0, 0);
+  if (next.getTime() <= from) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+/**
+ * Human-readable schedule, e.g. "Every 60 min" or "Daily at 08:30"
+ */
+export function describeSchedule(schedule: TaskSchedule): string {
+  return schedule.type === 'interval'
+    ? `Every ${schedule.everyMinutes} min`
+    : `Daily at ${schedule.time}`;
+}
+
+/**
+ * Task id of a scheduled-task alarm, or null for other alarms
+ */
+export function getTaskIdFromAlarm(alarmName: string): string | null {
+  return alarmName.startsWith(ALARM_PREFIX) ? alarmName.slice(ALARM_PREFIX.length) : null;
+}
+
+/**
+ * Create the alarm for a task's next run (an unchanged interval alarm keeps its current timing)
+ */
+export async function scheduleTaskAlarm(task: ScheduledTask): Promise<void> {
+  const name = `${ALARM_PREFIX}${task.id}`;
+  if (task.schedule.type === 'interval') {
+    const everyMinutes = Math.max(task.schedule.everyMinutes, MIN_INTERVAL_MINUTES);
+    const existing = await chrome.alarms.get(name);
+    if (existing?.periodInMinutes === everyMinutes) return;
+    await chrome.alarms.create(name, { delayInMinutes: everyMinutes, periodInMinutes: everyMinutes });
+  } else {
+    await chrome.alarms.create(name, { when: getNextDailyTime(task.schedule.time, Date.now()) });
+  }
+}
+
+/**
+ * Make the alarms match the task list: one per enabled task, none for disabled or deleted tasks
+ */
+export async function syncTaskAlarms(tasks: ScheduledTask[]): Promise<void> {
+  const enabledIds = new Set(tasks.filter(task => task.enabled).map(task => task.id));
+  for (const alarm of await chrome.alarms.getAll()) {
+    const taskId = getTaskIdFromAlarm(alarm.name);
+    if (taskId && !enabledIds.has(taskId)) {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+
+  for (const task of tasks.filter(task => task.enabled)) {
+    await scheduleTaskAlarm(task);
+  }
+  console.log(`⏰ Scheduled tasks synced: ${enabledIds.size} enabled of ${tasks.length}`);
+}
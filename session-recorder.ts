@@ -0,0 +1,128 @@
+/**
+ * Session Recorder - Saves the model requests/responses of an agent run as a replay fixture
+ *
+ * Enabled with the "Record Agent Fixtures" developer setting. Each exchange stores the request
+ * path and body plus the raw response body (SSE or JSON) exactly as the provider sent it.
+ * Headers are never recorded, so API keys don't end up in fixtures.
+ *
+ * Fixtures are replayed by fake-model-server.mjs - see ARCHITECTURE.md ("Record / Replay").
+ */
+
+export const FIXTURE_VERSION = 1;
+
+// Base64 payloads (screenshots) longer than this are replaced with a placeholder to keep fixtures small
+const MAX_INLINE_DATA_LENGTH = 1000;
+
+export interface FixtureExchange {
+  kind: 'turn' | 'summary';
+  request: {
+    path: string; // URL path + query, e.g. /v1/messages
+    body: any;
+  };
+  response: {
+    status: number;
+    contentType: string;
+    body: string;
+  };
+  delayMs?: number; // Replay only: wait before responding (used to test aborts)
+}
+
+export interface SessionFixture {
+  version: number;
+  recordedAt: string;
+  provider: string;
+  model: string;
+  exchanges: FixtureExchange[];
+}
+
+export interface SessionRecorder {
+  record: (kind: FixtureExchange['kind'], url: string, init: RequestInit, response: Response) => void;
+  save: () => Promise<void>;
+}
+
+/**
+ * Drop large base64 payloads from a request body - the replay server never looks at them
+ */
+function redactRequestBody(rawBody: RequestInit['body']): any {
+  if (typeof rawBody !== 'string') return null;
+  try {
+    return JSON.parse(rawBody, (key, value) =>
+      typeof value === 'string' && value.length > MAX_INLINE_DATA_LENGTH && (key === 'data' || value.startsWith('data:image'))
+        ? `[base64 omitted - ${value.length} chars]`
+        : value
+    );
+  } catch {
+    return rawBody;
+  }
+}
+
+function getRequestPath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Create a recorder for one agent run
+ * @param provider - Provider id of the run (stored in the fixture for reference)
+ * @param model - Model id of the run
+ */
+export function createSessionRecorder(provider: string, model: string): SessionRecorder {
+  const pending: Promise<FixtureExchange | null>[] = [];
+
+  return {
+    record(kind, url, init, response) {
+      // Read a clone so the caller can still consume the original stream
+      const copy = response.clone();
+      pending.push(
+        copy.text()
+          .then((body): FixtureExchange => ({
+            kind,
+            request: { path: getRequestPath(url), body: redactRequestBody(init.body) },
+            response: {
+              status: response.status,
+              contentType: response.headers.get('content-type') || 'application/json',
+              body,
+            },
+          }))
+          .catch((error) => {
+            // An aborted stream can't be replayed faithfully - leave it out
+            console.warn('⚠️ Could not record response body:', error);
+            return null;
+          })
+      );
+    },
+
+    async save() {
+      const exchanges = (await Promise.all(pending)).filter((e): e is FixtureExchange => e !== null);
+      if (exchanges.length === 0) {
+        return;
+      }
+
+      const fixture: SessionFixture = {
+        version: FIXTURE_VERSION,
+        recordedAt: new Date().toISOString(),
+        provider,
+        model,
+        exchanges,
+      };
+
+      try {
+        const timestamp = fixture.recordedAt.replace(/[:.]/g, '-');
+        const filename = `agent-fixtures/session-${timestamp}.json`;
+        const dataUrl = `data:application/json;charset=utf-8,${encodeURIComponent(JSON.stringify(fixture, null, 2))}`;
+        await chrome.downloads.download({
+          url: dataUrl,
+          filename,
+          saveAs: false,
+        });
+        console.log(`🎞️ Saved agent fixture: ${filename} (${exchanges.length} exchanges)`);
+      } catch (error) {
+        console.error('❌ Failed to save agent fixture:', error);
+      }
+    },
+  };
+}
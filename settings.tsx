@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
-import type { Settings, MCPServerConfig, SiteInstruction, ServiceMapping, Provider } from './types';
+import type { Settings, MCPServerConfig, SiteInstruction, ServiceMapping, Provider, ProviderConfig, PromptTemplateName, PromptTemplateOverride, PromptTemplateOverrides, ScheduledTask, ScheduledTaskRun } from './types';
 import { DEFAULT_SITE_INSTRUCTIONS } from './default-site-instructions';
+import { DEFAULT_PROMPT_TEMPLATES } from './default-prompt-templates';
+import { loadManagedPromptOverrides } from './prompt-templates';
 import {
   fetchTrustedBusinesses,
   searchBusinesses,
@@ -12,6 +14,18 @@ import {
   type ANSBusinessService,
 } from './trusted-business-service';
 import { generateUrlPattern, extractDomain } from './utils';
+import { getBrowserTools } from './browser-tool-registry';
+import { DEBUGGER_PERMISSION } from './cdp-input';
+import { getTotalTokens, formatTokenCount, formatCost } from './usage-tracker';
+import {
+  loadScheduledTasks,
+  saveScheduledTasks,
+  loadTaskRuns,
+  describeSchedule,
+  getTaskIdFromAlarm,
+  MIN_INTERVAL_MINUTES,
+  TASK_RUNS_STORAGE_KEY,
+} from './scheduled-tasks';
 
 const PROVIDER_MODELS: Record<Provider, Array<{ id: string; name: string; description: string }>> = {
   anthropic: [
@@ -20,6 +34,13 @@ const PROVIDER_MODELS: Record<Provider, Array<{ id: string; name: string; descri
     { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', description: 'Fastest model' },
     { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', description: 'Previous generation' },
   ],
+  openai: [
+    { id: 'gpt-4.1', name: 'GPT-4.1', description: 'OpenAI flagship' },
+    { id: 'gpt-4o', name: 'GPT-4o', description: 'Multimodal' },
+    { id: 'gpt-4o-mini', name: 'GPT-4o mini', description: 'Fast and cheap' },
+    { id: 'llama3.1', name: 'Llama 3.1 (Ollama)', description: 'Local model via Ollama' },
+    { id: 'qwen2.5', name: 'Qwen 2.5 (Ollama)', description: 'Local model via Ollama' },
+  ],
   google: [
     { id: 'gemini-2.5-computer-use-preview-10-2025', name: 'Gemini 2.5 Computer Use Preview', description: 'Browser automation model' },
     { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'General reasoning' },
@@ -27,6 +48,35 @@ const PROVIDER_MODELS: Record<Provider, Array<{ id: string; name: string; descri
   ],
 };
 
+const BROWSER_TOOL_NAMES = getBrowserTools().map(tool => tool.name);
+// New scheduled tasks may read pages and move around, but not click, type or submit until the user allows it
+const DEFAULT_SCHEDULED_TASK_TOOLS = getBrowserTools()
+  .filter(tool => !tool.mutatesPage || ['navigate', 'scroll', 'waitFor', 'screenshot'].includes(tool.name))
+  .map(tool => tool.name);
+
+const EMPTY_SCHEDULED_TASK = {
+  name: '',
+  prompt: '',
+  startUrl: '',
+  scheduleType: 'daily' as 'daily' | 'interval',
+  time: '08:00',
+  everyMinutes: 60,
+  allowedTools: DEFAULT_SCHEDULED_TASK_TOOLS,
+};
+
+/**
+ * Next alarm time of every scheduled task that has one
+ * @returns Task id -> epoch ms
+ */
+async function loadNextTaskRunTimes(): Promise<Record<string, number>> {
+  const nextRuns: Record<string, number> = {};
+  for (const alarm of await chrome.alarms.getAll()) {
+    const taskId = getTaskIdFromAlarm(alarm.name);
+    if (taskId) nextRuns[taskId] = alarm.scheduledTime;
+  }
+  return nextRuns;
+}
+
 function SettingsPage() {
   const [settings, setSettings] = useState<Settings>({
     provider: 'anthropic',
@@ -48,6 +98,8 @@ function SettingsPage() {
   const [expandedInstructions, setExpandedInstructions] = useState<Set<string>>(new Set());
   const [editingInstruction, setEditingInstruction] = useState<string | null>(null);
   const [editedInstructionText, setEditedInstructionText] = useState<string>('');
+  const [selectedPromptTemplate, setSelectedPromptTemplate] = useState<PromptTemplateName>('browser-enabled');
+  const [managedPromptOverrides, setManagedPromptOverrides] = useState<PromptTemplateOverrides>({});
 
   // Service Mapping state
   const [newMapping, setNewMapping] = useState({
@@ -57,6 +109,15 @@ function SettingsPage() {
   });
   const [allTabs, setAllTabs] = useState<Array<{ id: number; url: string; title: string }>>([]);
   const [selectedTabUrl, setSelectedTabUrl] = useState<string>('');
+  const [shortcuts, setShortcuts] = useState<chrome.commands.Command[]>([]); // Keyboard commands with the keys the user assigned
+  const [debuggerGranted, setDebuggerGranted] = useState(true); // Optional "debugger" permission for trusted input
+
+  // Scheduled tasks are saved as soon as they change (not with Save Settings) so their alarms update right away
+  const [scheduledTasks, setScheduledTasks] = useState<ScheduledTask[]>([]);
+  const [taskRuns, setTaskRuns] = useState<ScheduledTaskRun[]>([]);
+  const [nextTaskRuns, setNextTaskRuns] = useState<Record<string, number>>({}); // Task id -> next alarm time
+  const [newScheduledTask, setNewScheduledTask] = useState(EMPTY_SCHEDULED_TASK);
+  const [expandedTaskRuns, setExpandedTaskRuns] = useState<Set<string>>(new Set());
 
   // Business Marketplace state
   const [trustedBusinesses, setTrustedBusinesses] = useState<ANSBusinessService[]>([]);
@@ -195,6 +256,38 @@ function SettingsPage() {
     });
   }, []);
 
+  // Load admin prompt overrides (enterprise policy) so they can be shown next to user overrides
+  useEffect(() => {
+    loadManagedPromptOverrides().then(setManagedPromptOverrides);
+  }, []);
+
+  // Load scheduled tasks and keep their run history and next run times current while the page is open
+  useEffect(() => {
+    const refreshRuns = async () => {
+      setTaskRuns(await loadTaskRuns());
+      setNextTaskRuns(await loadNextTaskRunTimes());
+    };
+    loadScheduledTasks().then(setScheduledTasks);
+    refreshRuns();
+
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && TASK_RUNS_STORAGE_KEY in changes) {
+        refreshRuns();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
+
+  useEffect(() => {
+    chrome.permissions.contains(DEBUGGER_PERMISSION).then(setDebuggerGranted);
+  }, []);
+
+  // Keyboard shortcuts are assigned in chrome://extensions/shortcuts - show the current ones
+  useEffect(() => {
+    chrome.commands.getAll().then(setShortcuts).catch(() => setShortcuts([]));
+  }, []);
+
   // Get all open tabs
   useEffect(() => {
     chrome.tabs.query({}, (tabs) => {
@@ -446,6 +539,88 @@ function SettingsPage() {
     setNewSiteInstruction({ domainPattern: '', instructions: '' });
   };
 
+  // Update the key/URL/models of a non-Anthropic provider
+  const updateProviderConfig = (provider: 'openai' | 'google', changes: Partial<ProviderConfig>) => {
+    setSettings({
+      ...settings,
+      providerConfigs: {
+        ...(settings.providerConfigs || {}),
+        [provider]: { ...(settings.providerConfigs?.[provider] || {}), ...changes },
+      },
+    });
+  };
+
+  // Set or clear (null) the user override of a prompt template
+  const updatePromptOverride = (name: PromptTemplateName, override: PromptTemplateOverride | null) => {
+    const overrides = { ...(settings.promptTemplateOverrides || {}) };
+    if (override) {
+      overrides[name] = override;
+    } else {
+      delete overrides[name];
+    }
+    setSettings({ ...settings, promptTemplateOverrides: overrides });
+  };
+
+  // Scheduled task handlers
+  const updateScheduledTasks = async (tasks: ScheduledTask[]) => {
+    setScheduledTasks(tasks);
+    await saveScheduledTasks(tasks);
+    // background.ts re-syncs the alarms on the storage change - show the new next run times
+    setTimeout(async () => setNextTaskRuns(await loadNextTaskRunTimes()), 500);
+  };
+
+  const handleAddScheduledTask = () => {
+    const { name, prompt, startUrl, scheduleType, time, everyMinutes, allowedTools } = newScheduledTask;
+    // allowedTools is a strict allow-list, so a task needs at least one tool
+    if (!name.trim() || !prompt.trim() || !/^https?:\/\//.test(startUrl.trim()) || allowedTools.length === 0) return;
+
+    const task: ScheduledTask = {
+      id: Date.now().toString(),
+      name: name.trim(),
+      prompt: prompt.trim(),
+      startUrl: startUrl.trim(),
+      allowedTools,
+      schedule: scheduleType === 'daily'
+        ? { type: 'daily', time }
+        : { type: 'interval', everyMinutes: Math.max(everyMinutes, MIN_INTERVAL_MINUTES) },
+      enabled: true,
+      createdAt: Date.now(),
+    };
+    updateScheduledTasks([...scheduledTasks, task]);
+    setNewScheduledTask(EMPTY_SCHEDULED_TASK);
+  };
+
+  const handleToggleScheduledTask = (id: string) => {
+    updateScheduledTasks(scheduledTasks.map(task => task.id === id ? { ...task, enabled: !task.enabled } : task));
+  };
+
+  const handleRemoveScheduledTask = (id: string) => {
+    updateScheduledTasks(scheduledTasks.filter(task => task.id !== id));
+  };
+
+  const handleRunScheduledTask = (id: string) => {
+    chrome.runtime.sendMessage({ type: 'RUN_SCHEDULED_TASK', taskId: id }, (response) => {
+      if (!response?.success) {
+        alert(`⚠️ ${response?.error || 'The task could not be started'}`);
+      }
+    });
+  };
+
+  const handleStopScheduledTask = (id: string) => {
+    chrome.runtime.sendMessage({ type: 'STOP_SCHEDULED_TASK', taskId: id }, (response) => {
+      if (!response?.success) {
+        alert(`⚠️ ${response?.error || 'The task could not be stopped'}`);
+      }
+    });
+  };
+
+  const toggleScheduledToolAllowed = (toolName: string) => {
+    const allowed = newScheduledTask.allowedTools.includes(toolName)
+      ? newScheduledTask.allowedTools.filter(name => name !== toolName)
+      : [...newScheduledTask.allowedTools, toolName];
+    setNewScheduledTask({ ...newScheduledTask, allowedTools: allowed });
+  };
+
   const handleRemoveSiteInstruction = (id: string) => {
     setSettings({
       ...settings,
@@ -631,7 +806,20 @@ function SettingsPage() {
     });
   };
 
+  // Must run in the click/change handler itself - Chrome only shows the prompt during a user gesture
+  const requestDebuggerPermission = () => {
+    chrome.permissions.request(DEBUGGER_PERMISSION)
+      .then(setDebuggerGranted)
+      .catch(error => console.warn('Debugger permission request failed:', error));
+  };
+
+  const usesTrustedInput = (settings.inputBackend === 'cdp') ||
+    (settings.trustedInputDomains || []).some(domain => domain.trim().length > 0);
+
   const handleSave = () => {
+    if (usesTrustedInput && !debuggerGranted) {
+      requestDebuggerPermission();
+    }
     chrome.storage.local.set({ atlasSettings: settings }, () => {
       setSaved(true);
       setTimeout(() => setSaved(false), 3000);
@@ -815,9 +1003,61 @@ function SettingsPage() {
             className="model-select"
           >
             <option value="anthropic">Anthropic Claude</option>
+            <option value="openai">OpenAI-compatible (OpenAI, Ollama, vLLM)</option>
+            <option value="google">Google Gemini</option>
           </select>
         </div>
 
+        {settings.provider !== 'anthropic' && (
+          <div className="setting-group">
+            <label>{settings.provider === 'openai' ? 'OpenAI-compatible Base URL' : 'Gemini Base URL'}</label>
+            <input
+              type="text"
+              value={settings.providerConfigs?.[settings.provider]?.customBaseUrl || ''}
+              onChange={(e) => updateProviderConfig(settings.provider as 'openai' | 'google', { customBaseUrl: e.target.value || undefined })}
+              placeholder={settings.provider === 'openai' ? 'https://api.openai.com (or http://localhost:11434 for Ollama)' : 'https://generativelanguage.googleapis.com'}
+              className="api-key-input"
+            />
+            <p className="help-text" style={{ marginBottom: '15px' }}>
+              {settings.provider === 'openai'
+                ? 'Leave empty for OpenAI. For a local server (Ollama, vLLM, LM Studio) enter its URL - no API key is needed and everything stays on your machine.'
+                : 'Leave empty to use the Gemini API.'}
+            </p>
+
+            <label>{settings.provider === 'openai' ? 'OpenAI API Key' : 'Gemini API Key'}</label>
+            <div className="api-key-input-wrapper">
+              <input
+                type={showApiKey ? 'text' : 'password'}
+                value={settings.providerConfigs?.[settings.provider]?.apiKey || ''}
+                onChange={(e) => updateProviderConfig(settings.provider as 'openai' | 'google', { apiKey: e.target.value || undefined })}
+                placeholder={settings.provider === 'openai' ? 'sk-... (optional for local servers)' : 'Enter your Gemini API key'}
+                className="api-key-input"
+              />
+              <button
+                type="button"
+                className="toggle-visibility"
+                onClick={() => setShowApiKey(!showApiKey)}
+              >
+                {showApiKey ? '👁️' : '👁️‍🗨️'}
+              </button>
+            </div>
+
+            <label style={{ marginTop: '15px' }}>Additional Models</label>
+            <input
+              type="text"
+              value={(settings.providerConfigs?.[settings.provider]?.models || []).join(', ')}
+              onChange={(e) => updateProviderConfig(settings.provider as 'openai' | 'google', {
+                models: e.target.value.split(',').map(model => model.trim()).filter(Boolean),
+              })}
+              placeholder="e.g., llama3.1:70b, mistral-nemo"
+              className="api-key-input"
+            />
+            <p className="help-text">
+              Comma-separated model ids to show in the sidepanel model picker alongside the built-in ones.
+            </p>
+          </div>
+        )}
+
         <div className="setting-group">
           <label>Model</label>
           <select
@@ -845,7 +1085,7 @@ function SettingsPage() {
               className="api-key-input"
             />
             <p className="help-text">
-              Enter the exact model name/ID for your custom provider endpoint.
+              Enter the exact model name/ID for your provider endpoint (for Ollama, the name shown by <code>ollama list</code>).
             </p>
           </div>
         )}
@@ -960,6 +1200,107 @@ function SettingsPage() {
           </p>
         </div>
 
+        <div className="setting-group">
+          <label>Input Backend</label>
+          <select
+            value={settings.inputBackend || 'dom'}
+            onChange={(e) => {
+              if (e.target.value === 'cdp' && !debuggerGranted) {
+                requestDebuggerPermission();
+              }
+              setSettings({ ...settings, inputBackend: e.target.value as Settings['inputBackend'] });
+            }}
+            className="model-select"
+          >
+            <option value="dom">Synthetic DOM events (default)</option>
+            <option value="cdp">Trusted input via Chrome debugger</option>
+          </select>
+          <p className="help-text">
+            🖱️ Trusted input sends real mouse and keyboard events, which search boxes and rich editors that ignore synthetic events accept. Chrome shows a "started debugging this browser" bar while it is in use. Each backend falls back to the other when it fails.
+          </p>
+          <label style={{ marginTop: '10px' }}>Always use trusted input on these sites</label>
+          <textarea
+            value={(settings.trustedInputDomains || []).join('\n')}
+            onChange={(e) => setSettings({ ...settings, trustedInputDomains: e.target.value.split('\n') })}
+            onBlur={(e) => setSettings({ ...settings, trustedInputDomains: e.target.value.split('\n').map(line => line.trim()).filter(Boolean) })}
+            placeholder={'*.atlassian.net\ndocs.google.com'}
+            rows={3}
+            style={{
+              width: '100%',
+              padding: '10px',
+              fontSize: '13px',
+              fontFamily: 'monospace',
+              border: '1px solid #ddd',
+              borderRadius: '6px',
+              resize: 'vertical',
+              boxSizing: 'border-box'
+            }}
+          />
+          {usesTrustedInput && !debuggerGranted && (
+            <p className="help-text" style={{ color: '#b45309' }}>
+              ⚠️ Trusted input needs Chrome's "debugger" permission - DOM events are used until it is granted.{' '}
+              <button
+                type="button"
+                onClick={requestDebuggerPermission}
+                style={{ padding: 0, background: 'none', border: 'none', color: '#2563eb', cursor: 'pointer', fontSize: 'inherit', textDecoration: 'underline' }}
+              >
+                Grant permission
+              </button>
+            </p>
+          )}
+        </div>
+
+        <div className="setting-group">
+          <label>Keyboard Shortcuts</label>
+          <ul className="help-text" style={{ margin: '0 0 10px', paddingLeft: '20px' }}>
+            {shortcuts.map(command => (
+              <li key={command.name}>
+                {command.name === '_execute_action' ? 'Open the ANS side panel' : command.description}: <code>{command.shortcut || 'not set'}</code>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => chrome.tabs.create({ url: 'chrome://extensions/shortcuts' })}
+            style={{
+              padding: '8px 16px',
+              background: '#007bff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '13px'
+            }}
+          >
+            Change Shortcuts
+          </button>
+          <label style={{ marginTop: '10px' }}>Quick Prompt</label>
+          <input
+            type="text"
+            value={settings.quickPrompt || ''}
+            onChange={(e) => setSettings({ ...settings, quickPrompt: e.target.value })}
+            placeholder="Summarize the main content"
+            className="api-key-input"
+          />
+          <p className="help-text">
+            ⌨️ Sent for the current page by the "Run the quick prompt on the current page" shortcut. Right-click a page for "Ask ANS about selection", "Explain this element" and "Send link/image to chat".
+          </p>
+        </div>
+
+        <div className="setting-group">
+          <label style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+            <input
+              type="checkbox"
+              checked={settings.recordFixtures || false}
+              onChange={(e) => setSettings({ ...settings, recordFixtures: e.target.checked })}
+            />
+            Record Agent Fixtures
+          </label>
+          <p className="help-text">
+            🎞️ Save each run's model requests and responses to Downloads/agent-fixtures so the run can be replayed offline with <code>npm run fake-model-server</code>. API keys are not recorded, but page content is.
+          </p>
+        </div>
+
         <div className="setting-group">
           <h3 style={{ marginBottom: '15px', fontSize: '16px' }}>💬 Conversation Memory Settings</h3>
 
@@ -983,8 +1324,29 @@ function SettingsPage() {
             />
             Smart Summarization
           </label>
+          <p className="help-text" style={{ marginBottom: '15px' }}>
+            🤖 Summarize the oldest messages when the conversation still doesn't fit the context window after old screenshots and page contexts are compressed. Summaries are reused across turns.
+          </p>
+
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: '500' }}>
+            Context Window (tokens, default: 150000)
+          </label>
+          <input
+            type="number"
+            min="10000"
+            step="10000"
+            value={settings.contextWindowTokens || 150000}
+            onChange={(e) => setSettings({ ...settings, contextWindowTokens: parseInt(e.target.value) || 150000 })}
+            style={{
+              width: '100%',
+              padding: '8px',
+              marginBottom: '5px',
+              border: '1px solid #ddd',
+              borderRadius: '4px'
+            }}
+          />
           <p className="help-text" style={{ marginBottom: '20px' }}>
-            🤖 Automatically summarize old messages when approaching context limits. Preserves conversation flow while reducing token usage.
+            📏 Maximum tokens sent per request. Old screenshots are dropped first, then old page contexts are compressed, and only then are messages summarized.
           </p>
 
           <div style={{
@@ -1029,13 +1391,181 @@ function SettingsPage() {
                   }}
                 />
                 <p className="help-text">
-                  📸 Number of recent page snapshots to keep (screenshots, DOM context). Old ones become summaries like "[Page context: url]".
+                  📸 Number of recent page snapshots that are never compressed. Older ones become summaries like "[Page context stripped - URL: ...]" when the context window is full.
                 </p>
               </>
             )}
           </div>
         </div>
 
+        <div className="setting-group">
+          <h3 style={{ marginBottom: '15px', fontSize: '16px' }}>💰 Usage Budgets</h3>
+          <p className="help-text" style={{ marginBottom: '15px' }}>
+            Token usage and estimated cost are tracked for each tab's conversation and shown under the model name in the sidepanel.
+            The token budget counts input, output and cache writes, but not cache reads; their cost still counts toward the cost budget.
+            When a budget is reached, the agent pauses and asks before making more requests. Leave empty for no limit.
+            Each scheduled task run counts as its own conversation and stops when it reaches a budget.
+          </p>
+
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: '500' }}>
+            Token Budget per Conversation
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="1000"
+            placeholder="No limit"
+            value={settings.tokenBudget || ''}
+            onChange={(e) => setSettings({ ...settings, tokenBudget: parseInt(e.target.value) || undefined })}
+            style={{
+              width: '100%',
+              padding: '8px',
+              marginBottom: '15px',
+              border: '1px solid #ddd',
+              borderRadius: '4px'
+            }}
+          />
+
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: '500' }}>
+            Cost Budget per Conversation (USD)
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="0.05"
+            placeholder="No limit"
+            value={settings.costBudget || ''}
+            onChange={(e) => setSettings({ ...settings, costBudget: parseFloat(e.target.value) || undefined })}
+            style={{
+              width: '100%',
+              padding: '8px',
+              marginBottom: '5px',
+              border: '1px solid #ddd',
+              borderRadius: '4px'
+            }}
+          />
+          <p className="help-text">
+            💵 Cost is estimated from list prices for the selected model and may differ from your actual GoCode billing.
+          </p>
+        </div>
+
+        <div className="setting-group">
+          <h3 style={{ marginBottom: '15px', fontSize: '16px' }}>📝 Prompt Templates</h3>
+          <p className="help-text" style={{ marginBottom: '15px' }}>
+            Replace or extend the built-in system prompts without rebuilding the extension.
+            Templates can use {'{{tools}}'}, {'{{mcpTools}}'}, {'{{siteProfile}}'}, {'{{siteInstructions}}'}, {'{{url}}'} and {'{{plan}}'},
+            plus {'{{#name}}...{{/name}}'} blocks that only render when a variable is set.
+            The template versions used are logged with every run.
+          </p>
+
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: '500' }}>
+            Template
+          </label>
+          <select
+            value={selectedPromptTemplate}
+            onChange={(e) => setSelectedPromptTemplate(e.target.value as PromptTemplateName)}
+            className="model-select"
+          >
+            {Object.values(DEFAULT_PROMPT_TEMPLATES).map((template) => (
+              <option key={template.name} value={template.name}>
+                {template.name} (v{template.version}){settings.promptTemplateOverrides?.[template.name] ? ' - customized' : ''}
+              </option>
+            ))}
+          </select>
+          <p className="help-text" style={{ marginBottom: '15px' }}>
+            {DEFAULT_PROMPT_TEMPLATES[selectedPromptTemplate].description}
+          </p>
+
+          {managedPromptOverrides[selectedPromptTemplate] && (
+            <p className="help-text" style={{ marginBottom: '15px', color: '#b45309' }}>
+              🏢 Your administrator {managedPromptOverrides[selectedPromptTemplate]!.mode === 'replace' ? 'replaced' : 'extended'} this template
+              {managedPromptOverrides[selectedPromptTemplate]!.locked ? ' and locked it - your changes below are ignored.' : '. Your changes below are applied on top.'}
+            </p>
+          )}
+
+          {(() => {
+            const override = settings.promptTemplateOverrides?.[selectedPromptTemplate];
+            return (
+              <>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '10px' }}>
+                  <input
+                    type="checkbox"
+                    checked={!!override}
+                    onChange={(e) => updatePromptOverride(
+                      selectedPromptTemplate,
+                      e.target.checked ? { mode: 'append', content: '' } : null
+                    )}
+                  />
+                  Customize this template
+                </label>
+
+                {override && (
+                  <>
+                    <select
+                      value={override.mode}
+                      onChange={(e) => updatePromptOverride(selectedPromptTemplate, { ...override, mode: e.target.value as PromptTemplateOverride['mode'] })}
+                      className="model-select"
+                      style={{ marginBottom: '10px' }}
+                    >
+                      <option value="append">Append to the built-in template</option>
+                      <option value="replace">Replace the built-in template</option>
+                    </select>
+                    <textarea
+                      value={override.content}
+                      onChange={(e) => updatePromptOverride(selectedPromptTemplate, { ...override, content: e.target.value })}
+                      placeholder={override.mode === 'append' ? 'Text added to the end of the built-in template...' : 'Full template text...'}
+                      rows={10}
+                      style={{
+                        width: '100%',
+                        padding: '10px',
+                        fontSize: '13px',
+                        fontFamily: 'monospace',
+                        border: '1px solid #ddd',
+                        borderRadius: '6px',
+                        resize: 'vertical',
+                        marginBottom: '10px'
+                      }}
+                    />
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                      <input
+                        type="text"
+                        value={override.version || ''}
+                        onChange={(e) => updatePromptOverride(selectedPromptTemplate, { ...override, version: e.target.value || undefined })}
+                        placeholder="Version label (optional)"
+                        style={{
+                          flex: 1,
+                          padding: '8px',
+                          border: '1px solid #ddd',
+                          borderRadius: '4px'
+                        }}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updatePromptOverride(selectedPromptTemplate, {
+                          ...override,
+                          mode: 'replace',
+                          content: DEFAULT_PROMPT_TEMPLATES[selectedPromptTemplate].content,
+                        })}
+                        style={{
+                          padding: '6px 12px',
+                          background: '#f3f4f6',
+                          color: '#4b5563',
+                          border: '1px solid #d1d5db',
+                          borderRadius: '4px',
+                          cursor: 'pointer',
+                          fontSize: '12px',
+                        }}
+                      >
+                        Start from built-in text
+                      </button>
+                    </div>
+                  </>
+                )}
+              </>
+            );
+          })()}
+        </div>
+
         {settings.mcpEnabled && (
           <>
             {/* Unified ANS Enablement Section */}
@@ -1978,6 +2508,233 @@ function SettingsPage() {
           </div>
         </div>
 
+        <div className="setting-group">
+          <label>⏰ Scheduled Tasks</label>
+          <p className="help-text">
+            Run an agent task on a schedule, e.g. "check my dashboard every morning and summarize anything new".
+            Tasks run in a background tab of the "ANS Agent" group, use only the tools you allow, and show a notification when they finish.
+            Changes here are saved immediately.
+          </p>
+
+          {scheduledTasks.length > 0 ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', marginBottom: '15px' }}>
+              {scheduledTasks.map((task) => {
+                const runs = taskRuns.filter(run => run.taskId === task.id);
+                const lastRun = runs[0];
+                const isExpanded = expandedTaskRuns.has(task.id);
+
+                return (
+                  <div
+                    key={task.id}
+                    style={{
+                      border: '1px solid #ddd',
+                      borderRadius: '6px',
+                      padding: '12px',
+                      background: task.enabled ? 'white' : '#f9fafb',
+                    }}
+                  >
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px' }}>
+                      <div>
+                        <div style={{ fontWeight: 'bold', fontSize: '14px' }}>{task.name}</div>
+                        <div style={{ fontSize: '12px', color: '#666' }}>
+                          {describeSchedule(task.schedule)} · {task.startUrl}
+                          {task.enabled && nextTaskRuns[task.id] && ` · next ${new Date(nextTaskRuns[task.id]).toLocaleString()}`}
+                        </div>
+                      </div>
+                      <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', margin: 0 }}>
+                          <input
+                            type="checkbox"
+                            checked={task.enabled}
+                            onChange={() => handleToggleScheduledTask(task.id)}
+                          />
+                          Enabled
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => lastRun?.status === 'running' ? handleStopScheduledTask(task.id) : handleRunScheduledTask(task.id)}
+                          style={{
+                            padding: '4px 8px',
+                            background: lastRun?.status === 'running' ? '#6b7280' : '#2563eb',
+                            color: 'white',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                            fontSize: '12px',
+                          }}
+                        >
+                          {lastRun?.status === 'running' ? 'Stop' : 'Run now'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveScheduledTask(task.id)}
+                          style={{
+                            padding: '4px 8px',
+                            background: '#dc3545',
+                            color: 'white',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                            fontSize: '12px',
+                          }}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+
+                    <div style={{ fontSize: '13px', color: '#374151', marginTop: '8px', whiteSpace: 'pre-wrap' }}>
+                      {task.prompt}
+                    </div>
+
+                    {lastRun ? (
+                      <div style={{ marginTop: '10px', fontSize: '12px' }}>
+                        <div style={{ color: lastRun.status === 'failed' ? '#dc3545' : lastRun.status === 'success' ? '#16a34a' : '#666' }}>
+                          {lastRun.status === 'running' ? '⏳ Running' : lastRun.status === 'success' ? '✅ Succeeded' : '❌ Failed'}
+                          {' '}· {new Date(lastRun.startedAt).toLocaleString()}
+                          {lastRun.trigger === 'manual' && ' (run now)'}
+                          {lastRun.error && ` · ${lastRun.error}`}
+                        </div>
+                        {lastRun.result && (
+                          <div style={{
+                            marginTop: '6px',
+                            padding: '8px',
+                            background: '#f9fafb',
+                            border: '1px solid #e5e7eb',
+                            borderRadius: '4px',
+                            whiteSpace: 'pre-wrap',
+                          }}>
+                            {lastRun.result}
+                          </div>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => {
+                            const next = new Set(expandedTaskRuns);
+                            if (isExpanded) next.delete(task.id); else next.add(task.id);
+                            setExpandedTaskRuns(next);
+                          }}
+                          style={{ marginTop: '6px', padding: 0, background: 'none', border: 'none', color: '#2563eb', cursor: 'pointer', fontSize: '12px' }}
+                        >
+                          {isExpanded ? '▼ Hide run history' : `▶ Show run history (${runs.length})`}
+                        </button>
+                        {isExpanded && runs.map(run => (
+                          <div key={run.id} style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px solid #eee' }}>
+                            <div style={{ fontWeight: 'bold' }}>
+                              {new Date(run.startedAt).toLocaleString()} · {run.status}
+                              {run.finishedAt && ` in ${Math.round((run.finishedAt - run.startedAt) / 1000)}s`}
+                              {run.usage && ` · ${formatTokenCount(getTotalTokens(run.usage))} tokens, ~${formatCost(run.usage.costUsd)}`}
+                            </div>
+                            {run.transcript.map((entry, index) => (
+                              <div
+                                key={index}
+                                style={{ fontFamily: entry.kind === 'tool' ? 'monospace' : 'inherit', color: entry.kind === 'tool' ? '#666' : '#374151', whiteSpace: 'pre-wrap', marginTop: '2px' }}
+                              >
+                                {entry.kind === 'tool' ? `🔧 ${entry.text}` : entry.text}
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div style={{ marginTop: '10px', fontSize: '12px', color: '#666', fontStyle: 'italic' }}>Not run yet</div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p style={{ color: '#666', fontSize: '14px', fontStyle: 'italic', marginBottom: '15px' }}>
+              No scheduled tasks yet.
+            </p>
+          )}
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+            <input
+              type="text"
+              value={newScheduledTask.name}
+              onChange={(e) => setNewScheduledTask({ ...newScheduledTask, name: e.target.value })}
+              placeholder="Task name (e.g., Morning dashboard check)"
+              className="api-key-input"
+            />
+            <input
+              type="text"
+              value={newScheduledTask.startUrl}
+              onChange={(e) => setNewScheduledTask({ ...newScheduledTask, startUrl: e.target.value })}
+              placeholder="Start URL (e.g., https://dashboard.example.com)"
+              className="api-key-input"
+            />
+            <textarea
+              value={newScheduledTask.prompt}
+              onChange={(e) => setNewScheduledTask({ ...newScheduledTask, prompt: e.target.value })}
+              placeholder="What should the agent do?&#10;Example: Summarize any new alerts on this dashboard since yesterday"
+              rows={4}
+              style={{
+                width: '100%',
+                padding: '10px',
+                fontSize: '14px',
+                border: '1px solid #ddd',
+                borderRadius: '6px',
+                resize: 'vertical'
+              }}
+            />
+            <div style={{ display: 'flex', gap: '10px', alignItems: 'center', fontSize: '14px' }}>
+              <select
+                value={newScheduledTask.scheduleType}
+                onChange={(e) => setNewScheduledTask({ ...newScheduledTask, scheduleType: e.target.value as 'daily' | 'interval' })}
+              >
+                <option value="daily">Daily at</option>
+                <option value="interval">Every (minutes)</option>
+              </select>
+              {newScheduledTask.scheduleType === 'daily' ? (
+                <input
+                  type="time"
+                  value={newScheduledTask.time}
+                  onChange={(e) => setNewScheduledTask({ ...newScheduledTask, time: e.target.value })}
+                />
+              ) : (
+                <input
+                  type="number"
+                  min={MIN_INTERVAL_MINUTES}
+                  value={newScheduledTask.everyMinutes}
+                  onChange={(e) => setNewScheduledTask({ ...newScheduledTask, everyMinutes: Number(e.target.value) })}
+                  style={{ width: '90px' }}
+                />
+              )}
+            </div>
+            <div>
+              <div style={{ fontSize: '13px', fontWeight: 'bold', marginBottom: '6px' }}>Allowed tools</div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px 14px' }}>
+                {BROWSER_TOOL_NAMES.map(toolName => (
+                  <label key={toolName} style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', fontFamily: 'monospace', margin: 0 }}>
+                    <input
+                      type="checkbox"
+                      checked={newScheduledTask.allowedTools.includes(toolName)}
+                      onChange={() => toggleScheduledToolAllowed(toolName)}
+                    />
+                    {toolName}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <button
+              onClick={handleAddScheduledTask}
+              disabled={!newScheduledTask.name || !newScheduledTask.prompt || !/^https?:\/\//.test(newScheduledTask.startUrl) || newScheduledTask.allowedTools.length === 0}
+              style={{
+                padding: '10px 20px',
+                background: '#007bff',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                opacity: (!newScheduledTask.name || !newScheduledTask.prompt || !/^https?:\/\//.test(newScheduledTask.startUrl) || newScheduledTask.allowedTools.length === 0) ? 0.5 : 1
+              }}
+            >
+              + Add Scheduled Task
+            </button>
+          </div>
+        </div>
+
         <button
           className={`save-button ${saved ? 'saved' : ''}`}
           onClick={handleSave}
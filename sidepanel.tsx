@@ -2,10 +2,10 @@ import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { createRoot } from 'react-dom/client';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import type { Settings, MCPClient, Message, SiteInstruction, ServiceMapping, Provider, MCPServerConfig } from './types';
+import type { Settings, MCPClient, Message, SiteInstruction, ServiceMapping, Provider, MCPServerConfig, TokenUsage, PlanStep, ExecutionPlan, MessageAttachment, PanelRequest } from './types';
 import { experimental_createMCPClient, stepCountIs } from 'ai';
 import { streamAnthropic } from './anthropic-service';
-import { streamAnthropicWithBrowserTools } from './anthropic-browser-tools';
+import { streamAnthropicWithBrowserTools, generateExecutionPlan } from './anthropic-browser-tools';
 import { getMCPService, resetMCPService, MCPService } from './mcp-service';
 import { getA2AService, resetA2AService, A2AService } from './a2a-service';
 import { getToolDescription } from './mcp-tool-router';
@@ -13,6 +13,11 @@ import { findAgentForCurrentSite, agentNameToDomain } from './site-detector';
 import { DEFAULT_SITE_INSTRUCTIONS } from './default-site-instructions';
 import { DEFAULT_SITE_PROFILES } from './default-site-profiles';
 import { matchesUrlPattern } from './utils';
+import { addUsage, getConversationUsage, getBudgetExceededReason, getTotalTokens, formatTokenCount, formatCost } from './usage-tracker';
+import { getProviderAdapter, getProviderCredentials, isProviderConfigured } from './provider-adapters';
+import { buildBrowserToolMessage, getBrowserTool } from './browser-tool-registry';
+import type { UploadFilePayload } from './browser-tool-registry';
+import { downloadExtractedData, MODEL_PREVIEW_ROWS, type ExtractedDataset } from './data-export';
 
 // Model ID to display name mapping
 const MODEL_DISPLAY_NAMES: Record<string, string> = {
@@ -30,6 +35,7 @@ const MODEL_DISPLAY_NAMES: Record<string, string> = {
   'gpt-4o': 'GPT-4o',
   'gpt-4o-mini': 'GPT-4o Mini',
   'gpt-4-turbo': 'GPT-4 Turbo',
+  'gpt-4.1': 'GPT-4.1',
 };
 
 const getModelDisplayName = (modelId: string | undefined): string => {
@@ -49,8 +55,39 @@ const MODEL_QUICK_OPTIONS: Array<{ id: string; provider: Provider; name: string;
   { id: 'claude-3-5-sonnet-20241022', provider: 'anthropic', name: 'Claude 3.5 Sonnet', description: 'Most intelligent model' },
   { id: 'claude-3-5-haiku-20241022', provider: 'anthropic', name: 'Claude 3.5 Haiku', description: 'Fastest model' },
   { id: 'claude-3-opus-20240229', provider: 'anthropic', name: 'Claude 3 Opus', description: 'Previous generation' },
+  { id: 'gpt-4.1', provider: 'openai', name: 'GPT-4.1', description: 'OpenAI flagship' },
+  { id: 'gpt-4o-mini', provider: 'openai', name: 'GPT-4o Mini', description: 'Fast and cheap' },
+  { id: 'gemini-2.5-pro', provider: 'google', name: 'Gemini 2.5 Pro', description: 'General reasoning' },
+  { id: 'gemini-2.5-flash', provider: 'google', name: 'Gemini 2.5 Flash', description: 'Fast responses' },
 ];
 
+const PROVIDER_LABELS: Record<Provider, string> = {
+  anthropic: 'Claude',
+  openai: 'OpenAI-compatible',
+  google: 'Gemini',
+};
+
+/**
+ * Models from every configured provider, plus the extra (e.g. local) models listed in Settings
+ */
+const getModelQuickOptions = (settings: Settings | null): typeof MODEL_QUICK_OPTIONS => {
+  if (!settings) return MODEL_QUICK_OPTIONS.filter(option => option.provider === 'anthropic');
+
+  const configuredProviders = (Object.keys(PROVIDER_LABELS) as Provider[])
+    .filter(provider => isProviderConfigured(settings, provider));
+  const options = MODEL_QUICK_OPTIONS.filter(option => configuredProviders.includes(option.provider));
+
+  for (const provider of configuredProviders) {
+    if (provider === 'anthropic') continue;
+    for (const modelId of settings.providerConfigs?.[provider]?.models || []) {
+      if (!options.some(option => option.provider === provider && option.id === modelId)) {
+        options.push({ id: modelId, provider, name: getModelDisplayName(modelId), description: `${PROVIDER_LABELS[provider]} - custom model` });
+      }
+    }
+  }
+  return options;
+};
+
 const BROWSER_TOOL_NAMES = new Set([
   'navigate',
   'clickElement',
@@ -92,14 +129,52 @@ const LinkComponent = ({ href, children }: { href?: string; children?: React.Rea
   );
 };
 
+// Files larger than this can't be attached (they are held in memory and sent to the page as base64)
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Line appended to a user message so the model knows which attachments it can upload
+const ATTACHMENTS_LINE_PATTERN = /\n*\[Attached files: [^\]]*\]/;
+
+type PendingAttachment = UploadFilePayload & { size: number };
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Chips listing the files attached to a message
+const AttachmentChips = ({ attachments, onRemove }: { attachments: MessageAttachment[]; onRemove?: (name: string) => void }) => (
+  <div className="attachment-chips">
+    {attachments.map((attachment) => (
+      <span key={attachment.name} className="attachment-chip" title={`${attachment.mimeType || 'unknown type'} · ${formatFileSize(attachment.size)}`}>
+        📎 {attachment.name}
+        {onRemove && (
+          <button
+            type="button"
+            className="attachment-chip-remove"
+            onClick={() => onRemove(attachment.name)}
+            aria-label={`Remove ${attachment.name}`}
+          >
+            ×
+          </button>
+        )}
+      </span>
+    ))}
+  </div>
+);
+
 // Component to parse and display user messages with page context styling
-const UserMessageParser = ({ content }: { content: string }) => {
+const UserMessageParser = ({ content: rawContent, attachments }: { content: string; attachments?: MessageAttachment[] }) => {
+  const content = rawContent.replace(ATTACHMENTS_LINE_PATTERN, '');
+  const attachmentChips = attachments && attachments.length > 0 ? <AttachmentChips attachments={attachments} /> : null;
+
   // Check if message contains page context
   const contextIndex = content.indexOf('[Current Page Context]');
 
   if (contextIndex === -1) {
     // No page context, display normally
-    return <div>{content}</div>;
+    return attachmentChips ? <div>{content}{attachmentChips}</div> : <div>{content}</div>;
   }
 
   // Split into user input and page context
@@ -110,6 +185,7 @@ const UserMessageParser = ({ content }: { content: string }) => {
     <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
       {/* User's actual input */}
       <div>{userInput}</div>
+      {attachmentChips}
 
       {/* Page context - styled differently and compact */}
       <div
@@ -200,21 +276,97 @@ const MessageParser = ({ content }: { content: string }) => {
   );
 };
 
+const PLAN_STEP_ICONS: Record<PlanStep['status'], string> = {
+  pending: '○',
+  in_progress: '◐',
+  done: '✓',
+  skipped: '–',
+  failed: '✕',
+};
+
+// Checklist for plan-then-approve mode - editable while the plan is a draft, read-only progress afterwards
+const PlanChecklist = ({
+  plan,
+  disabled,
+  onStepChange,
+  onStepRemove,
+  onStepAdd,
+  onApprove,
+  onCancel,
+}: {
+  plan: ExecutionPlan;
+  disabled: boolean;
+  onStepChange: (index: number, text: string) => void;
+  onStepRemove: (index: number) => void;
+  onStepAdd: () => void;
+  onApprove: () => void;
+  onCancel: () => void;
+}) => {
+  const isDraft = plan.status === 'draft';
+
+  if (isDraft && plan.steps.length === 0) {
+    return <div className="plan-checklist-empty">Drafting plan…</div>;
+  }
+
+  return (
+    <div className={`plan-checklist ${plan.status}`}>
+      <ol>
+        {plan.steps.map((step, index) => (
+          <li key={step.id} className={`plan-step ${step.status}`}>
+            <span className="plan-step-icon">{PLAN_STEP_ICONS[step.status]}</span>
+            {isDraft ? (
+              <>
+                <input
+                  type="text"
+                  value={step.text}
+                  onChange={(e) => onStepChange(index, e.target.value)}
+                  disabled={disabled}
+                />
+                <button type="button" onClick={() => onStepRemove(index)} disabled={disabled} title="Remove step">
+                  ✕
+                </button>
+              </>
+            ) : (
+              <span className="plan-step-text">
+                {step.text}
+                {step.note && <span className="plan-step-note"> — {step.note}</span>}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {isDraft && (
+        <div className="plan-actions">
+          <button type="button" onClick={onStepAdd} disabled={disabled}>+ Add step</button>
+          <button type="button" onClick={onCancel} disabled={disabled}>Cancel</button>
+          <button type="button" className="primary" onClick={onApprove} disabled={disabled}>Approve &amp; run</button>
+        </div>
+      )}
+      {plan.status === 'cancelled' && <div className="plan-checklist-empty">Plan cancelled.</div>}
+    </div>
+  );
+};
+
 function ChatSidebar() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const dropdownContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const attachmentInputRef = useRef<HTMLInputElement | null>(null);
   const [settings, setSettings] = useState<Settings | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]); // Files to send with the next message
+  const [extractedDataByTab, setExtractedDataByTab] = useState<Record<number, ExtractedDataset>>({}); // Latest extractData result per tab, offered for download
   const [isLoading, setIsLoading] = useState(false);
   const [browserToolsEnabled, setBrowserToolsEnabled] = useState(false);
+  const [planModeEnabled, setPlanModeEnabled] = useState(false); // Plan-then-approve: review steps before any browser action
   const [showBrowserToolsWarning, setShowBrowserToolsWarning] = useState(false);
   const [isUserScrolled, setIsUserScrolled] = useState(false);
   const [currentTabId, setCurrentTabId] = useState<number | null>(null);
   const [currentTabUrl, setCurrentTabUrl] = useState<string | null>(null);
+  const [panelRequest, setPanelRequest] = useState<PanelRequest | null>(null); // Chat input queued by a context menu item or keyboard command
   const [trustedAgentOptIn, setTrustedAgentOptIn] = useState(true); // User opt-in for trusted agents
   const [currentSiteAgent, setCurrentSiteAgent] = useState<{ serverId: string; serverName: string } | null>(null);
   const [currentSiteMcpCount, setCurrentSiteMcpCount] = useState(0); // Number of MCP servers for current site
@@ -280,6 +432,8 @@ function ChatSidebar() {
   const currentTabIdRef = useRef<number | null>(null);
   const messagesRef = useRef<Message[]>([]);
   const tabLastTypedSelectorRef = useRef<Record<number, string | null>>({}); // Store last typed selector for Enter key (per-tab)
+  const tabAttachmentsRef = useRef<Record<number, UploadFilePayload[]>>({}); // Files attached to the conversation, for uploadFile (per-tab, never persisted)
+  const tabWorkingTabRef = useRef<Record<number, number>>({}); // Tab the agent's page tools act on, set by openTab/switchTab (per-tab; unset = the conversation's own tab)
   const tabPageContextRef = useRef<Record<number, any | null>>({}); // Per-tab page context
   const tabPageContextTimestampRef = useRef<Record<number, number>>({}); // Per-tab page context timestamp
 
@@ -346,6 +500,52 @@ function ChatSidebar() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  /**
+   * Read picked files into memory so the agent can upload them with the uploadFile tool
+   */
+  const handleAttachmentSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = ''; // Allow picking the same file again
+
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      alert(`Files larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)} can't be attached: ${tooLarge.map(file => file.name).join(', ')}`);
+    }
+
+    const attachments = await Promise.all(
+      files.filter(file => file.size <= MAX_ATTACHMENT_BYTES).map(file => new Promise<PendingAttachment | null>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+          const dataUrl = String(reader.result || '');
+          resolve({
+            name: file.name,
+            mimeType: file.type,
+            size: file.size,
+            dataBase64: dataUrl.substring(dataUrl.indexOf(',') + 1),
+          });
+        };
+        reader.onerror = () => {
+          console.error(`❌ Failed to read attachment ${file.name}:`, reader.error);
+          resolve(null);
+        };
+        reader.readAsDataURL(file);
+      }))
+    );
+
+    const loaded = attachments.filter((file): file is PendingAttachment => file !== null);
+    if (loaded.length > 0) {
+      console.log(`📎 Attached ${loaded.length} file(s):`, loaded.map(file => file.name));
+      setPendingAttachments(prev => [
+        ...prev.filter(existing => !loaded.some(file => file.name === existing.name)),
+        ...loaded,
+      ]);
+    }
+  };
+
+  const removePendingAttachment = (name: string) => {
+    setPendingAttachments(prev => prev.filter(file => file.name !== name));
+  };
+
   const handleQuickPromptClick = (promptText: string) => {
     setInput(promptText);
     requestAnimationFrame(() => {
@@ -389,8 +589,11 @@ function ChatSidebar() {
     }
   };
 
-  const cachePageContext = (context: any) => {
-    const tabId = getCurrentTabId();
+  /**
+   * Remember a page context under the tab it was read from
+   * @param tabId - Tab the context came from (the user's tab or a tab the agent works in)
+   */
+  const cachePageContext = (context: any, tabId: number | null) => {
     if (tabId !== null && context && typeof context === 'object') {
       tabPageContextRef.current[tabId] = context;
       tabPageContextTimestampRef.current[tabId] = Date.now();
@@ -501,6 +704,32 @@ function ChatSidebar() {
       tabLastTypedSelectorRef.current[tabId] = selector;
     }
   };
+  const getTabAttachments = () => {
+    const tabId = getCurrentTabId();
+    return tabId !== null ? tabAttachmentsRef.current[tabId] || [] : [];
+  };
+  const addTabAttachments = (attachments: UploadFilePayload[]) => {
+    const tabId = getCurrentTabId();
+    if (tabId === null) return;
+    // A newer file with the same name replaces the older one
+    const names = new Set(attachments.map(file => file.name));
+    const existing = (tabAttachmentsRef.current[tabId] || []).filter(file => !names.has(file.name));
+    tabAttachmentsRef.current[tabId] = [...existing, ...attachments];
+  };
+  const getTabWorkingTab = () => {
+    const tabId = getCurrentTabId();
+    return tabId !== null ? tabWorkingTabRef.current[tabId] ?? null : null;
+  };
+  const setTabWorkingTab = (workingTabId: number | null) => {
+    const tabId = getCurrentTabId();
+    if (tabId === null) return;
+    // Switching back to the conversation's own tab restores the default target
+    if (workingTabId === null || workingTabId === tabId) {
+      delete tabWorkingTabRef.current[tabId];
+    } else {
+      tabWorkingTabRef.current[tabId] = workingTabId;
+    }
+  };
   // Helper functions to get or create tab-specific service instances
   const getTabMcpService = (): MCPService => {
     const tabId = getCurrentTabId();
@@ -559,6 +788,18 @@ function ChatSidebar() {
     delete tabPageContextRef.current[tabId];
     delete tabPageContextTimestampRef.current[tabId];
     delete tabLastTypedSelectorRef.current[tabId];
+    delete tabAttachmentsRef.current[tabId];
+    delete tabWorkingTabRef.current[tabId];
+    // Conversations working on the closed tab go back to their own tab
+    for (const [conversationTabId, workingTabId] of Object.entries(tabWorkingTabRef.current)) {
+      if (workingTabId === tabId) {
+        delete tabWorkingTabRef.current[Number(conversationTabId)];
+      }
+    }
+    setExtractedDataByTab(prev => {
+      const { [tabId]: _removed, ...rest } = prev;
+      return rest;
+    });
 
     console.log(`✅ Tab ${tabId} cleanup complete`);
   };
@@ -744,12 +985,40 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
     return null;
   };
 
+  /**
+   * Keep the full extractData result for download and hand the model a preview
+   */
+  const keepExtractedData = (response: any) => {
+    const tabId = getCurrentTabId();
+    if (tabId !== null) {
+      const dataset: ExtractedDataset = {
+        columns: response.columns,
+        rows: response.rows,
+        url: response.url,
+        title: response.title,
+        pagesVisited: response.pagesVisited,
+        extractedAt: Date.now(),
+      };
+      setExtractedDataByTab(prev => ({ ...prev, [tabId]: dataset }));
+    }
+
+    if (response.rows.length <= MODEL_PREVIEW_ROWS) {
+      return response;
+    }
+    return {
+      ...response,
+      rows: response.rows.slice(0, MODEL_PREVIEW_ROWS),
+      note: `Showing the first ${MODEL_PREVIEW_ROWS} of ${response.rowCount} rows. The user can download all rows as CSV or JSON from the sidepanel.`,
+    };
+  };
+
   const executeTool = async (toolName: string, parameters: any, retryCount = 0): Promise<any> => {
     const MAX_RETRIES = 3;
     const RETRY_DELAY = 1500; // 1.5 seconds to allow page to load
     
     return new Promise((resolve, reject) => {
-      const handleResponse = (response: any) => {
+      // sourceTabId: tab the message went to; validParams: the input after registry validation and defaults
+      const handleResponse = (response: any, sourceTabId: number | null = null, validParams: any = null) => {
         const errorMsg = response?.error || chrome.runtime.lastError?.message || '';
         const isConnectionError = errorMsg.includes('Receiving end does not exist') || 
                                  errorMsg.includes('Could not establish connection');
@@ -766,148 +1035,85 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           }, RETRY_DELAY);
         } else {
           if (toolName === 'getPageContext' && response && !response?.error) {
-            cachePageContext(response);
+            cachePageContext(response, sourceTabId);
+          }
+          if (response?.success) {
+            if ((toolName === 'openTab' && validParams?.switchTo) || toolName === 'switchTab') {
+              setTabWorkingTab(response.tabId);
+              response = { ...response, workingTab: true };
+            } else if (toolName === 'closeTab' && getTabWorkingTab() === response.tabId) {
+              setTabWorkingTab(null);
+            } else if (toolName === 'listTabs' && Array.isArray(response.tabs)) {
+              const workingTabId = getTabWorkingTab() ?? getCurrentTabId();
+              response = {
+                ...response,
+                tabs: response.tabs.map((tab: any) => ({
+                  ...tab,
+                  ...(tab.tabId === workingTabId && { workingTab: true }),
+                  ...(tab.tabId === getCurrentTabId() && { userTab: true })
+                }))
+              };
+            }
+          }
+          if (toolName === 'extractData' && response?.success) {
+            resolve(keepExtractedData(response));
+            return;
           }
           // Return response as-is (could be success or error)
           resolve(response);
         }
       };
       
-      if (toolName === 'screenshot') {
-        if (!settings?.enableScreenshots) {
-          console.warn('Screenshot tool requested but it is currently disabled via settings.');
-          handleResponse({
-            success: false,
-            error: 'Screenshot capture is disabled in Settings. Enable screenshots to use this tool.'
-          });
-        } else {
-          chrome.runtime.sendMessage({ type: 'TAKE_SCREENSHOT' }, handleResponse);
-        }
-      } else if (toolName === 'clickElement') {
-        console.log('🖱️ ClickElement tool called:', { selector: parameters.selector, text: parameters.text });
-        chrome.runtime.sendMessage({
-          type: 'EXECUTE_ACTION',
-          action: 'click',
-          selector: parameters.selector,
-          target: parameters.text // For text-based search
-        }, (response) => {
-          console.log('🖱️ ClickElement tool response:', response);
-
-          // Add explicit logging for failures
-          if (response && response.success === false) {
-            console.error('❌ CLICKELEMENT TOOL FAILED:', response.message || 'Unknown error');
-            console.error('   Parameters used:', { selector: parameters.selector, text: parameters.text });
-          } else if (response && response.success === true) {
-            console.log('✅ CLICKELEMENT TOOL SUCCEEDED:', response.message || 'Success');
-          } else {
-            console.warn('⚠️ CLICKELEMENT TOOL: Unexpected response format:', response);
-          }
-
-          handleResponse(response);
+      if (toolName === 'screenshot' && !settings?.enableScreenshots) {
+        console.warn('Screenshot tool requested but it is currently disabled via settings.');
+        handleResponse({
+          success: false,
+          error: 'Screenshot capture is disabled in Settings. Enable screenshots to use this tool.'
         });
-      } else if (toolName === 'click') {
-        console.log('🖱️ Click tool called:', { x: parameters.x, y: parameters.y, selector: parameters.selector });
-        chrome.runtime.sendMessage({
-          type: 'EXECUTE_ACTION',
-          action: 'click',
-          selector: parameters.selector,
-          coordinates: parameters.x !== undefined ? { x: parameters.x, y: parameters.y } : undefined
-        }, (response) => {
-          console.log('🖱️ Click tool response:', response);
-
-          // Add explicit logging for failures
-          if (response && response.success === false) {
-            console.error('❌ CLICK TOOL FAILED:', response.message || 'Unknown error');
-            console.error('   Parameters used:', { x: parameters.x, y: parameters.y, selector: parameters.selector });
-          } else if (response && response.success === true) {
-            console.log('✅ CLICK TOOL SUCCEEDED:', response.message || 'Success');
-          } else {
-            console.warn('⚠️ CLICK TOOL: Unexpected response format:', response);
-          }
+        return;
+      }
 
-          handleResponse(response);
-        });
-      } else if (toolName === 'type') {
-        // Store the selector for later use with pressKey
-        setTabLastTypedSelector(parameters.selector);
-        console.log('🔤 Type tool called:', { selector: parameters.selector, text: parameters.text });
-        chrome.runtime.sendMessage({
-          type: 'EXECUTE_ACTION',
-          action: 'fill',
-          target: parameters.selector,
-          value: parameters.text
-        }, (response) => {
-          console.log('🔤 Type tool response:', response);
-
-          // Add explicit logging for failures
-          if (response && response.success === false) {
-            console.error('❌ TYPE TOOL FAILED:', response.message || 'Unknown error');
-            console.error('   Parameters used:', { selector: parameters.selector, text: parameters.text });
-          } else if (response && response.success === true) {
-            console.log('✅ TYPE TOOL SUCCEEDED:', response.message || 'Success');
-          } else {
-            console.warn('⚠️ TYPE TOOL: Unexpected response format:', response);
-          }
+      // Validate the input and build the runtime message from the tool registry
+      const built = buildBrowserToolMessage(toolName, parameters, {
+        lastTypedSelector: getTabLastTypedSelector() || undefined,
+        attachments: getTabAttachments()
+      });
+      if ('error' in built) {
+        if (!getBrowserTool(toolName)) {
+          reject(new Error(built.error));
+          return;
+        }
+        console.error(`❌ ${toolName} input rejected:`, built.error, parameters);
+        handleResponse({ success: false, error: built.error });
+        return;
+      }
 
-          handleResponse(response);
-        });
-      } else if (toolName === 'scroll') {
-        chrome.runtime.sendMessage({ 
-          type: 'EXECUTE_ACTION', 
-          action: 'scroll',
-          direction: parameters.direction,
-          target: parameters.selector,
-          amount: parameters.amount
-        }, handleResponse);
-      } else if (toolName === 'getPageContext') {
-        chrome.runtime.sendMessage({ type: 'GET_PAGE_CONTEXT' }, handleResponse);
-      } else if (toolName === 'navigate') {
-        chrome.runtime.sendMessage({ type: 'NAVIGATE', url: parameters.url }, handleResponse);
-      } else if (toolName === 'getBrowserHistory') {
-        chrome.runtime.sendMessage({ 
-          type: 'GET_HISTORY',
-          query: parameters.query,
-          maxResults: parameters.maxResults
-        }, handleResponse);
-      } else if (toolName === 'pressKey') {
-        // Use provided selector or fall back to last typed selector
-        const selectorToUse = parameters.selector || getTabLastTypedSelector();
-        chrome.runtime.sendMessage({
-          type: 'EXECUTE_ACTION',
-          action: 'press_key',
-          key: parameters.key,
-          selector: selectorToUse // Pass selector to ensure correct element has focus
-        }, handleResponse);
-      } else if (toolName === 'clearInput') {
-        chrome.runtime.sendMessage({ 
-          type: 'EXECUTE_ACTION', 
-          action: 'clear_input'
-        }, handleResponse);
-      } else if (toolName === 'keyCombo') {
-        chrome.runtime.sendMessage({ 
-          type: 'EXECUTE_ACTION', 
-          action: 'key_combination',
-          keys: parameters.keys
-        }, handleResponse);
-      } else if (toolName === 'hover') {
-        chrome.runtime.sendMessage({ 
-          type: 'EXECUTE_ACTION', 
-          action: 'hover',
-          coordinates: { x: parameters.x, y: parameters.y }
-        }, handleResponse);
-      } else if (toolName === 'dragDrop') {
-        chrome.runtime.sendMessage({ 
-          type: 'EXECUTE_ACTION', 
-          action: 'drag_drop',
-          coordinates: { x: parameters.x, y: parameters.y },
-          destination: { x: parameters.destination_x, y: parameters.destination_y }
-        }, handleResponse);
-      } else {
-        reject(new Error(`Unknown tool: ${toolName}`));
+      if (toolName === 'type') {
+        // Store the selector for later use with pressKey
+        setTabLastTypedSelector(built.params.selector ?? null);
       }
+
+      // Page tools act on the working tab (openTab/switchTab) unless the call names a tab itself
+      const targetTabId = (built.message as { tabId?: number }).tabId ?? getTabWorkingTab();
+      const message = targetTabId !== null ? { ...built.message, tabId: targetTabId } : built.message;
+
+      console.log(`🔧 ${toolName} tool called:`, built.params);
+      chrome.runtime.sendMessage(message, (response) => {
+        // Add explicit logging for failures
+        if (response && response.success === false) {
+          console.error(`❌ ${toolName} tool failed:`, response.message || response.error || 'Unknown error');
+          console.error('   Parameters used:', built.params);
+        }
+
+        // Without a tabId, background.ts uses the active tab, which is the user's tab
+        handleResponse(response, targetTabId ?? getCurrentTabId(), built.params);
+      });
     });
   };
 
+  /**
+   * Page context of the user's tab (never the agent's working tab), cached for 4 seconds
+   */
   const getCachedPageContext = async (forceRefresh = false): Promise<any | null> => {
     if (
       !forceRefresh &&
@@ -918,9 +1124,9 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
     }
 
     try {
-      const context = await executeTool('getPageContext', {});
+      const tabId = getCurrentTabId();
+      const context = await executeTool('getPageContext', tabId !== null ? { tabId } : {});
       if (context && !context?.error) {
-        cachePageContext(context);
         return context;
       }
     } catch (error) {
@@ -1364,6 +1570,18 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
 
   // Get current tab ID and load its messages
   useEffect(() => {
+    // Context menu items and keyboard commands queue input in background.ts - take it once the tab's messages are loaded
+    const takePanelRequest = async (tabId: number) => {
+      try {
+        const response = await chrome.runtime.sendMessage({ type: 'TAKE_PANEL_REQUEST', tabId });
+        if (response?.request && tabId === currentTabIdRef.current) {
+          setPanelRequest(response.request);
+        }
+      } catch (error) {
+        console.log('Could not check for queued input:', error);
+      }
+    };
+
     const getCurrentTab = async () => {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
       if (tab.id) {
@@ -1409,6 +1627,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
             tabMessagesRef.current[tab.id] = [];
           }
         }
+        takePanelRequest(tab.id);
         // Note: checkForTrustedAgent() will be called automatically by the useEffect watching currentTabUrl
       }
     };
@@ -1522,11 +1741,21 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           tabMessagesRef.current[activeInfo.tabId] = [];
         }
       }
+      takePanelRequest(activeInfo.tabId);
       // Note: checkForTrustedAgent() will be called automatically by the useEffect watching currentTabUrl
     };
 
     chrome.tabs.onActivated.addListener(handleTabChange);
 
+    // Input queued for the tab this panel is already showing
+    const handlePanelRequestReady = (request: any) => {
+      if (request.type === 'PANEL_REQUEST_READY' && request.tabId === currentTabIdRef.current) {
+        takePanelRequest(request.tabId);
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(handlePanelRequestReady);
+
     // Listen for URL changes within the current tab (e.g., navigation via browser tools)
     const handleTabUpdate = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
       // Only react to URL changes on the current tab
@@ -1555,6 +1784,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
 
     return () => {
       chrome.tabs.onActivated.removeListener(handleTabChange);
+      chrome.runtime.onMessage.removeListener(handlePanelRequestReady);
       chrome.tabs.onUpdated.removeListener(handleTabUpdate);
       chrome.tabs.onRemoved.removeListener(handleTabRemoved);
     };
@@ -1677,7 +1907,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
         return;
       }
 
-      if (!settings.apiKey) {
+      if (!isProviderConfigured(settings, settings.provider)) {
         const confirmed = window.confirm(
           '🌐 Browser Tools requires an API key\n\n' +
           'Browser Tools provides browser automation capabilities.\n\n' +
@@ -1689,10 +1919,10 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
         return;
       }
 
-      if (settings.provider !== 'anthropic') {
+      if (!getProviderAdapter(settings.provider)) {
         const confirmed = window.confirm(
           '🌐 Browser Tools not supported for ' + settings.provider + '\n\n' +
-          'Browser Tools currently works with Anthropic Claude.\n\n' +
+          'Browser Tools works with Claude, OpenAI-compatible and Gemini models.\n\n' +
           'Would you like to open Settings to change your provider?'
         );
         if (confirmed) {
@@ -1767,6 +1997,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
     // Clear messages for current tab
     setMessages([]);
     setInput('');
+    setPendingAttachments([]);
     setShowBrowserToolsWarning(false);
     // Clear loading and tool executing states
     setIsLoading(false);
@@ -1775,6 +2006,13 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
     // Clear messages storage for current tab
     if (currentTabId !== null) {
       tabMessagesRef.current[currentTabId] = [];
+      delete tabAttachmentsRef.current[currentTabId];
+      delete tabWorkingTabRef.current[currentTabId];
+      const clearedTabId = currentTabId;
+      setExtractedDataByTab(prev => {
+        const { [clearedTabId]: _removed, ...rest } = prev;
+        return rest;
+      });
 
       // Also clear persisted messages
       chrome.storage.local.remove([`conversations_tab_${currentTabId}`]).catch(err => {
@@ -1965,7 +2203,8 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
       case 'get_page_info':
       case 'get_url':
       case 'get_page_content':
-        return await getCachedPageContext(true);
+        // The page the actions run on (the working tab), not necessarily the user's tab
+        return await executeTool('getPageContext', {});
       
       case 'wait':
       case 'sleep':
@@ -2379,9 +2618,107 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
     return a2aMapping !== null || mcpServerIds.length > 0;
   };
 
+  // Attach token usage to the assistant message of the current run (persisted with the conversation)
+  const recordUsage = (usage: TokenUsage) => {
+    setMessages(prev => {
+      const updated = [...prev];
+      const lastMsg = updated[updated.length - 1];
+      if (lastMsg && lastMsg.role === 'assistant') {
+        updated[updated.length - 1] = { ...lastMsg, usage: addUsage(lastMsg.usage, usage) };
+      }
+      return updated;
+    });
+  };
+
+  // Budget check for one run - once the user agrees to continue, don't ask again until the next message
+  const createBudgetCheck = () => {
+    let approved = false;
+    return async (): Promise<boolean> => {
+      if (approved) return true;
+      const reason = getBudgetExceededReason(getConversationUsage(messagesRef.current), settings);
+      if (!reason) return true;
+
+      console.warn(`💰 Usage budget reached: ${reason}`);
+      approved = window.confirm(`${reason}\n\nContinue running anyway?`);
+      return approved;
+    };
+  };
+
+  // Update a step's status on the plan checklist message (called by the updatePlanStep tool)
+  const updatePlanProgress = (
+    approvedPlan: { messageId: string; steps: PlanStep[] } | undefined,
+    params: { step?: number; status?: PlanStep['status']; note?: string }
+  ) => {
+    const stepIndex = Number(params?.step) - 1;
+    if (!approvedPlan) {
+      return { success: false, error: 'No approved plan is active' };
+    }
+    if (!Number.isInteger(stepIndex) || stepIndex < 0 || stepIndex >= approvedPlan.steps.length) {
+      return { success: false, error: `Invalid step ${params?.step}. The plan has ${approvedPlan.steps.length} steps.` };
+    }
+
+    const status = params.status || 'in_progress';
+    setMessages(prev => prev.map(m => {
+      if (m.id !== approvedPlan.messageId || !m.plan) return m;
+      const steps = m.plan.steps.map((step, index) =>
+        index === stepIndex ? { ...step, status, note: params.note || step.note } : step
+      );
+      return { ...m, plan: { ...m.plan, steps } };
+    }));
+    console.log(`📋 Plan step ${stepIndex + 1} → ${status}`);
+    return { success: true, message: `Step ${stepIndex + 1} marked ${status}` };
+  };
+
+  // Edit a draft plan on its message (step text changes, removals, additions)
+  const editPlanSteps = (messageId: string, update: (steps: PlanStep[]) => PlanStep[]) => {
+    setMessages(prev => prev.map(m =>
+      m.id === messageId && m.plan ? { ...m, plan: { ...m.plan, steps: update(m.plan.steps) } } : m
+    ));
+  };
+
+  const approvePlan = async (messageId: string) => {
+    const planMessage = messages.find(m => m.id === messageId);
+    const steps = (planMessage?.plan?.steps || []).filter(step => step.text.trim().length > 0);
+    if (!planMessage || steps.length === 0 || isLoading) return;
+
+    await sendMessage('Execute the approved plan.', { messageId, steps });
+  };
+
+  const cancelPlan = (messageId: string) => {
+    setMessages(prev => prev.map(m =>
+      m.id === messageId && m.plan ? { ...m, plan: { ...m.plan, status: 'cancelled' } } : m
+    ));
+  };
+
+  // Apply input queued by a context menu item or keyboard command (see takePanelRequest)
+  useEffect(() => {
+    if (!panelRequest || !settings) return;
+    setPanelRequest(null);
+    // Never interrupt a running agent - a queued prompt waits in the input instead
+    if (panelRequest.kind === 'send' && panelRequest.text && !isLoading) {
+      sendMessage(panelRequest.text);
+      return;
+    }
+    const text = panelRequest.text;
+    if (text) {
+      setInput(prev => (prev.trim() ? `${prev.trimEnd()} ${text}` : text));
+    }
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+    });
+  }, [panelRequest, settings]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+    await sendMessage(input);
+  };
+
+  /**
+   * Send a message through the routing pipeline (A2A, MCP, browser tools)
+   * @param messageText - Text typed by the user
+   * @param approvedPlan - Plan approved in plan-then-approve mode; its message checklist is updated during the run
+   */
+  const sendMessage = async (messageText: string, approvedPlan?: { messageId: string; steps: PlanStep[] }) => {
     // Safeguard: If isLoading is stuck as true, reset it and clear hanging resources
     // This prevents the chat from getting permanently blocked
     if (isLoading) {
@@ -2412,9 +2749,9 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
       await new Promise(resolve => setTimeout(resolve, 100));
     }
     
-    if (!input.trim() || !settings) {
+    if (!messageText.trim() || !settings) {
       console.log(`⏸️ handleSubmit blocked:`, { 
-        hasInput: !!input.trim(), 
+        hasInput: !!messageText.trim(), 
         hasSettings: !!settings 
       });
       return;
@@ -2422,7 +2759,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
 
     console.log(`📤 handleSubmit called - Message #${messages.length + 1}`);
     console.log(`📤 Current messages count: ${messages.length}`);
-    console.log(`📤 Input length: ${input.length} chars`);
+    console.log(`📤 Input length: ${messageText.length} chars`);
     console.log(`📤 Browser tools enabled: ${browserToolsEnabled}`);
     console.log(`📤 Current tab ID: ${currentTabId}, URL: ${currentTabUrl}`);
 
@@ -2446,14 +2783,32 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
       console.log('Could not get page context:', error);
     }
 
+    // Attachments stay in memory for uploadFile; the message only carries their names
+    const attachments = pendingAttachments;
+    let attachmentsLine = '';
+    if (attachments.length > 0) {
+      addTabAttachments(attachments.map(({ name, mimeType, dataBase64 }) => ({ name, mimeType, dataBase64 })));
+      attachmentsLine = `\n\n[Attached files: ${attachments.map(file => `${file.name} (${file.mimeType || 'unknown type'}, ${formatFileSize(file.size)})`).join(', ')}]`;
+      setPendingAttachments([]);
+    }
+
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
-      content: input + pageContext,
+      content: messageText + attachmentsLine + pageContext,
+      ...(attachments.length > 0 && {
+        attachments: attachments.map(({ name, mimeType, size }) => ({ name, mimeType, size })),
+      }),
     };
 
     const newMessages = [...messages, userMessage];
     setMessages(newMessages);
+    if (approvedPlan) {
+      // Lock the checklist to the approved steps before the run starts
+      setMessages(prev => prev.map(m =>
+        m.id === approvedPlan.messageId && m.plan ? { ...m, plan: { status: 'approved', steps: approvedPlan.steps } } : m
+      ));
+    }
     setInput('');
     // isLoading is already set to true above
     setIsUserScrolled(false); // Reset scroll state when user sends message
@@ -2522,7 +2877,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           }
 
           // Send message to A2A agent using SDK
-          const response = await a2aService.sendMessage(a2aMapping.serviceId, input);
+          const response = await a2aService.sendMessage(a2aMapping.serviceId, messageText);
 
           // Update assistant message with response
           setMessages(prev => {
@@ -2609,7 +2964,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
         try {
           const a2aService = getTabA2AService();
           // Send message to A2A agent using SDK
-          const response = await a2aService.sendMessage(currentSiteAgent.serverId, input);
+          const response = await a2aService.sendMessage(currentSiteAgent.serverId, messageText);
 
           // Update assistant message with response
           setMessages(prev => {
@@ -2641,6 +2996,43 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
         }
       }
 
+      // PLAN-THEN-APPROVE MODE: the first turn only proposes steps - nothing runs until the user approves them.
+      // Sites routed to an A2A agent above never get here, so plans only cover browser-tool runs
+      if (planModeEnabled && !approvedPlan && browserToolsEnabled) {
+        const planMessage: Message = {
+          id: (Date.now() + 1).toString(),
+          role: 'assistant',
+          content: '📋 **Proposed plan** - edit the steps if needed, then approve to run them.',
+          plan: { status: 'draft', steps: [] },
+        };
+        setMessages(prev => [...prev, planMessage]);
+
+        try {
+          const credentials = getProviderCredentials(settings);
+          const steps = await generateExecutionPlan(
+            newMessages,
+            credentials.apiKey,
+            settings.model === 'custom' && settings.customModelName ? settings.customModelName : settings.model,
+            credentials.baseUrl,
+            currentTabUrl || undefined,
+            getMatchingSiteInstructions(currentTabUrl) || undefined,
+            newAbortController.signal,
+            recordUsage,
+            settings
+          );
+          setMessages(prev => prev.map(m => m.id === planMessage.id ? { ...m, plan: { status: 'draft', steps } } : m));
+        } catch (error: any) {
+          console.error('❌ Plan generation failed:', error);
+          const content = error.name === 'AbortError'
+            ? '⚠️ Planning cancelled by user.'
+            : `Error: ${error.message}`;
+          setMessages(prev => prev.map(m => m.id === planMessage.id ? { ...m, content, plan: undefined } : m));
+        } finally {
+          setIsLoading(false);
+        }
+        return;
+      }
+
       // BROWSER TOOLS MODE
       if (browserToolsEnabled) {
         // Show browser automation overlay
@@ -2657,8 +3049,8 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           mcpToolsRef.current = null;
         }
 
-        // Route to provider-specific browser tools
-        if (settings.provider === 'anthropic') {
+        // All providers share the browser tools loop (non-Anthropic ones through their adapter)
+        if (getProviderAdapter(settings.provider)) {
           const assistantMessage: Message = {
             id: (Date.now() + 1).toString(),
             role: 'assistant',
@@ -2669,6 +3061,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           const modelToUse = settings.model === 'custom' && settings.customModelName
             ? settings.customModelName
             : settings.model;
+          const credentials = getProviderCredentials(settings);
 
           // Initialize custom MCP and A2A if not already initialized
           const mcpServers = settings.mcpServers ?? [];
@@ -2844,6 +3237,11 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           const wrappedExecuteTool = async (toolName: string, params: any) => {
             console.log(`🔧 Tool call: ${toolName}`, params);
 
+            // Plan progress is tracked in the sidepanel checklist, not on the page
+            if (toolName === 'updatePlanStep') {
+              return updatePlanProgress(approvedPlan, params);
+            }
+
             // Check if this is an A2A tool (starts with "a2a_")
             if (toolName.startsWith('a2a_')) {
               // Check if there's a trusted mapping for the current site
@@ -3015,6 +3413,16 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
               };
             }
 
+            // Tools flagged in the registry (e.g. keyCombo) need an explicit OK from the user
+            if (getBrowserTool(toolName)?.requiresConfirmation) {
+              const confirmed = window.confirm(
+                `🔒 Confirm Action\n\nAction: ${toolName}\nInput: ${JSON.stringify(params)}\n\nProceed?`
+              );
+              if (!confirmed) {
+                return { success: false, error: 'Action cancelled by user', userCancelled: true };
+              }
+            }
+
             // Execute tool (browser or other)
             const result = await executeTool(toolName, params);
 
@@ -3036,15 +3444,15 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
 
           await streamAnthropicWithBrowserTools(
             newMessages,
-            settings.apiKey,
+            credentials.apiKey,
             modelToUse,
-            settings.customBaseUrl,
+            credentials.baseUrl,
             (text: string) => {
               setMessages(prev => {
                 const updated = [...prev];
                 const lastMsg = updated[updated.length - 1];
                 if (lastMsg && lastMsg.role === 'assistant') {
-                  lastMsg.content += text;
+                  updated[updated.length - 1] = { ...lastMsg, content: lastMsg.content + text };
                 }
                 return updated;
               });
@@ -3121,7 +3529,10 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
                 setIsToolExecuting(true);
               }
             },
-            browserToolsEnabled // Pass browser tools enabled status
+            browserToolsEnabled, // Pass browser tools enabled status
+            recordUsage,
+            createBudgetCheck(),
+            approvedPlan?.steps
           );
         } else {
           throw new Error(`Browser Tools not supported for ${settings.provider}`);
@@ -3271,8 +3682,8 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           console.log(`  - mcpServers count: ${configuredMcpServers.length}`);
         }
 
-        // Route to appropriate provider
-        if (settings.provider === 'anthropic') {
+        // Route to appropriate provider (all providers share the tools loop through their adapter)
+        if (getProviderAdapter(settings.provider)) {
           const assistantMessage: Message = {
             id: (Date.now() + 1).toString(),
             role: 'assistant',
@@ -3283,6 +3694,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           const modelToUse = settings.model === 'custom' && settings.customModelName
             ? settings.customModelName
             : settings.model;
+          const credentials = getProviderCredentials(settings);
 
           // Check if we have custom MCP or A2A tools AND there's a trusted mapping
           let mcpTools: any[] | undefined = undefined;
@@ -3332,15 +3744,15 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
 
           await streamAnthropicWithBrowserTools(
               newMessages,
-              settings.apiKey,
+              credentials.apiKey,
               modelToUse,
-              settings.customBaseUrl,
+              credentials.baseUrl,
               (text: string) => {
                 setMessages(prev => {
                   const updated = [...prev];
                   const lastMsg = updated[updated.length - 1];
                   if (lastMsg && lastMsg.role === 'assistant') {
-                    lastMsg.content += text;
+                    updated[updated.length - 1] = { ...lastMsg, content: lastMsg.content + text };
                   }
                   return updated;
                 });
@@ -3547,10 +3959,10 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
                   setIsToolExecuting(true);
                 }
               },
-              false // Browser tools not enabled in this path
+              false, // Browser tools not enabled in this path
+              recordUsage,
+              createBudgetCheck()
             );
-        } else if (settings.provider === 'google') {
-          await streamGoogle(newMessages, abortControllerRef.current.signal);
         } else {
           throw new Error(`Provider ${settings.provider} not yet implemented`);
         }
@@ -3722,6 +4134,9 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
     };
   }, [currentTabUrl, settings?.serviceMappings, settings?.mcpServers, browserToolsEnabled]);
 
+  // Token/cost totals for the current tab's conversation
+  const conversationUsage = useMemo(() => getConversationUsage(messages), [messages]);
+
   // Memoized current site instruction - only recalculates when URL or settings change
   const currentSiteInstruction = useMemo(() => {
     if (!currentTabUrl || !settings) {
@@ -3799,6 +4214,16 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
                   ? String(settings.customModelName || '')
                   : getModelDisplayName(settings?.model))}
           </p>
+          {conversationUsage.requests > 0 && (
+            <p
+              className={`usage-meta ${getBudgetExceededReason(conversationUsage, settings) ? 'over-budget' : ''}`}
+              title={`Input: ${conversationUsage.inputTokens} · Output: ${conversationUsage.outputTokens} · Cache read: ${conversationUsage.cacheReadInputTokens} · Cache write: ${conversationUsage.cacheCreationInputTokens} · Requests: ${conversationUsage.requests}`}
+            >
+              {formatTokenCount(getTotalTokens(conversationUsage))} tokens · ~{formatCost(conversationUsage.costUsd)}
+              {settings?.tokenBudget ? ` / ${formatTokenCount(settings.tokenBudget)} tokens` : ''}
+              {settings?.costBudget ? ` / ${formatCost(settings.costBudget)}` : ''}
+            </p>
+          )}
         </div>
         <div className="header-actions" ref={dropdownContainerRef}>
           <div className="menu-trigger">
@@ -3820,21 +4245,21 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
             </button>
             {modelMenuOpen && (
               <div className="dropdown-panel">
-                {MODEL_QUICK_OPTIONS.map(option => {
+                {getModelQuickOptions(settings).map(option => {
                   const isActive = settings?.model === option.id && settings?.provider === option.provider;
                   return (
                     <button
-                      key={option.id}
+                      key={`${option.provider}:${option.id}`}
                       className={`dropdown-option ${isActive ? 'active' : ''}`}
                       onClick={() => handleModelQuickSelect(option)}
                     >
                       <div className="dropdown-option-title">{option.name}</div>
-                      <div className="dropdown-option-meta">{option.description}</div>
+                      <div className="dropdown-option-meta">{PROVIDER_LABELS[option.provider]} · {option.description}</div>
                     </button>
                   );
                 })}
                 <div className="dropdown-note">
-                  Need more? Open Settings for advanced options.
+                  Need more? Add provider keys or local models in Settings.
                 </div>
               </div>
             )}
@@ -3898,6 +4323,16 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
           >
             {browserToolsEnabled ? '◉' : '○'}
           </button>
+          <button
+            onClick={() => setPlanModeEnabled(prev => !prev)}
+            className={`settings-icon-btn ${planModeEnabled ? 'active' : ''}`}
+            title={planModeEnabled
+              ? 'Plan mode on: review the steps before any browser action (click to turn off)'
+              : 'Plan mode off: click to review a step list before browser actions run'}
+            disabled={isLoading || !browserToolsEnabled}
+          >
+            ☰
+          </button>
           <button
             onClick={newChat}
             className="settings-icon-btn"
@@ -4215,6 +4650,24 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
                   message.role === 'assistant' ? (
                     <>
                       <MessageParser content={String(message.content)} />
+                      {message.plan && (
+                        <PlanChecklist
+                          plan={message.plan}
+                          disabled={isLoading}
+                          onStepChange={(stepIndex, text) => editPlanSteps(message.id, steps =>
+                            steps.map((step, i) => i === stepIndex ? { ...step, text } : step)
+                          )}
+                          onStepRemove={(stepIndex) => editPlanSteps(message.id, steps =>
+                            steps.filter((_, i) => i !== stepIndex)
+                          )}
+                          onStepAdd={() => editPlanSteps(message.id, steps => [
+                            ...steps,
+                            { id: `step_${Date.now()}`, text: '', status: 'pending' },
+                          ])}
+                          onApprove={() => approvePlan(message.id)}
+                          onCancel={() => cancelPlan(message.id)}
+                        />
+                      )}
                       {/* Show typing indicator while tools are executing (only on last assistant message, and not if audio player is shown) */}
                       {isToolExecuting && isLastAssistantMessage && !message.audioLink && (
                         <div className="typing-indicator" style={{ marginTop: '8px' }}>
@@ -4263,7 +4716,7 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
                       })()}
                     </>
                   ) : (
-                    <UserMessageParser content={String(message.content)} />
+                    <UserMessageParser content={String(message.content)} attachments={message.attachments} />
                   )
                 ) : (
                   (isLoading || isToolExecuting) && message.role === 'assistant' && (
@@ -4312,6 +4765,34 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
       </div>
 
       <div className="composer">
+        {currentTabId !== null && extractedDataByTab[currentTabId] && (() => {
+          const dataset = extractedDataByTab[currentTabId];
+          return (
+            <div className="extracted-data-bar">
+              <span className="extracted-data-summary" title={dataset.url}>
+                📊 {dataset.rows.length} rows × {dataset.columns.length} columns
+                {dataset.pagesVisited && dataset.pagesVisited > 1 ? ` from ${dataset.pagesVisited} pages` : ''}
+              </span>
+              <button type="button" className="quick-prompt" onClick={() => downloadExtractedData(dataset, 'csv').catch(error => console.error('❌ CSV download failed:', error))}>
+                CSV
+              </button>
+              <button type="button" className="quick-prompt" onClick={() => downloadExtractedData(dataset, 'json').catch(error => console.error('❌ JSON download failed:', error))}>
+                JSON
+              </button>
+              <button
+                type="button"
+                className="attachment-chip-remove"
+                aria-label="Dismiss extracted data"
+                onClick={() => setExtractedDataByTab(prev => {
+                  const { [currentTabId]: _removed, ...rest } = prev;
+                  return rest;
+                })}
+              >
+                ×
+              </button>
+            </div>
+          );
+        })()}
         {quickPromptMatches.length > 0 && (
           <div className="quick-prompts">
             {quickPromptMatches.map((prompt) => (
@@ -4327,7 +4808,26 @@ ${Object.entries(profile.context.terminology).map(([term, def]) => `• **${term
             ))}
           </div>
         )}
+        {pendingAttachments.length > 0 && (
+          <AttachmentChips attachments={pendingAttachments} onRemove={removePendingAttachment} />
+        )}
         <form className="input-form" onSubmit={handleSubmit}>
+          <input
+            ref={attachmentInputRef}
+            type="file"
+            multiple
+            onChange={handleAttachmentSelect}
+            style={{ display: 'none' }}
+          />
+          <button
+            type="button"
+            className="attach-button"
+            onClick={() => attachmentInputRef.current?.click()}
+            disabled={isLoading || !settings}
+            title="Attach files (the agent can upload them to the page)"
+          >
+            📎
+          </button>
           <input
             ref={inputRef}
             type="text"
@@ -0,0 +1,262 @@
+/**
+ * Replays recorded fixtures (tests/fixtures) through streamAnthropicWithBrowserTools
+ *
+ * The fake model server runs in-process on a free port and the loop talks to it over HTTP,
+ * so streaming, tool dispatch, summarization, retries and aborts run exactly as in the extension.
+ * Only the browser side (executeTool) is stubbed.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeModelServer } from '../fake-model-server.mjs';
+import { streamAnthropicWithBrowserTools } from '../anthropic-browser-tools';
+import type { Message, TokenUsage } from '../types';
+import toolDispatchFixture from './fixtures/tool-dispatch.json';
+import slowResponseFixture from './fixtures/slow-response.json';
+import overloadedStreamFixture from './fixtures/overloaded-stream.json';
+import summarizationFixture from './fixtures/summarization.json';
+import toolLoopFixture from './fixtures/tool-loop.json';
+
+const MODEL = 'claude-sonnet-4-5-20250929';
+
+let server: ReturnType<typeof createFakeModelServer> | null = null;
+
+/**
+ * Start the fake model server for a fixture
+ * @returns Base URL to pass as the custom GoCode URL
+ */
+async function startReplay(fixture: { exchanges: any[] }, loopLast = false): Promise<string> {
+  server = createFakeModelServer(fixture, { loopLast, chunkDelay: 0 });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  if (!address || typeof address === 'string') {
+    throw new Error('Fake model server has no port');
+  }
+  return `http://127.0.0.1:${address.port}`;
+}
+
+async function getReplayStatus(baseUrl: string): Promise<any> {
+  const response = await fetch(`${baseUrl}/__fixture/status`);
+  return response.json();
+}
+
+/**
+ * Browser side of the loop - answers like background.ts would
+ */
+async function fakeBrowserTool(toolName: string, params: any): Promise<any> {
+  switch (toolName) {
+    case 'navigate':
+      return { success: true, url: params.url };
+    case 'getPageContext':
+      return { url: 'https://example.com/pricing', title: 'Pricing', textContent: 'Basic $5 / month. Pro $20 / month.' };
+    case 'listTabs':
+      return { success: true, tabs: [{ id: 7, title: 'Export', url: 'https://example.com/export' }] };
+    default:
+      return { error: `Unexpected tool ${toolName}` };
+  }
+}
+
+/**
+ * Conversation too long for a 1000 token history budget, ending with a new question
+ */
+function createLongHistory(): Message[] {
+  const filler = 'The Basic plan includes one site, 10 GB of storage and email support. '.repeat(20);
+  const messages: Message[] = [];
+  for (let i = 0; i < 6; i++) {
+    messages.push({ id: `h${i}u`, role: 'user', content: `Question ${i}: ${filler}` });
+    messages.push({ id: `h${i}a`, role: 'assistant', content: `Answer ${i}: ${filler}` });
+  }
+  messages.push({ id: 'last', role: 'user', content: 'Which plan should I pick for one small site?' });
+  return messages;
+}
+
+interface ReplayRun {
+  text: string; // Everything passed to onTextChunk
+  toolCalls: Array<{ name: string; input: any }>;
+  usage: TokenUsage[];
+  completed: number; // onComplete calls
+}
+
+/**
+ * Run the agent loop against a replay server
+ */
+async function runAgent(
+  baseUrl: string,
+  options: {
+    messages?: Message[];
+    settings?: any;
+    signal?: AbortSignal;
+    executeTool?: (toolName: string, params: any) => Promise<any>;
+    onBudgetCheck?: () => Promise<boolean>;
+  } = {}
+): Promise<ReplayRun> {
+  const run: ReplayRun = { text: '', toolCalls: [], usage: [], completed: 0 };
+  const executeTool = options.executeTool || fakeBrowserTool;
+  const messages = options.messages || [
+    { id: 'm1', role: 'user', content: 'What does the Pro plan cost on example.com?' },
+  ];
+
+  await streamAnthropicWithBrowserTools(
+    messages,
+    'test-key',
+    MODEL,
+    baseUrl,
+    (text) => { run.text += text; },
+    () => { run.completed++; },
+    (toolName, params) => {
+      run.toolCalls.push({ name: toolName, input: params });
+      return executeTool(toolName, params);
+    },
+    options.signal,
+    undefined,
+    'https://example.com/',
+    undefined,
+    undefined,
+    options.settings,
+    undefined,
+    true,
+    (usage) => { run.usage.push(usage); },
+    options.onBudgetCheck
+  );
+  return run;
+}
+
+describe('agent loop replay', () => {
+  beforeEach(() => {
+    // The loop logs every request and response body
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (server) {
+      server.closeAllConnections();
+      await new Promise(resolve => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  it('dispatches the recorded tool calls and streams the final answer', async () => {
+    const baseUrl = await startReplay(toolDispatchFixture);
+    const run = await runAgent(baseUrl);
+
+    expect(run.toolCalls).toEqual([
+      { name: 'navigate', input: { url: 'https://example.com/pricing' } },
+      { name: 'getPageContext', input: {} },
+    ]);
+    expect(run.text).toContain("I'll open the pricing page first.");
+    expect(run.text).toContain('[Executing: navigate]');
+    expect(run.text).toContain('[Executing: getPageContext]');
+    expect(run.text).toContain('The Pro plan costs $20 per month (billed yearly).');
+    expect(run.completed).toBe(1);
+
+    const status = await getReplayStatus(baseUrl);
+    expect(status.served).toEqual({ turn: 2, summary: 0 });
+    expect(status.remaining.turn).toBe(0);
+  });
+
+  it('removes "[Executing: ...]" lines the model writes itself, even split across deltas', async () => {
+    const baseUrl = await startReplay(toolDispatchFixture);
+    const run = await runAgent(baseUrl);
+
+    // The second turn claims a screenshot that was never taken
+    expect(run.text).not.toContain('[Executing: screenshot]');
+    expect(run.toolCalls.map(call => call.name)).not.toContain('screenshot');
+  });
+
+  it('reports the usage of every turn', async () => {
+    const baseUrl = await startReplay(toolDispatchFixture);
+    const run = await runAgent(baseUrl);
+
+    expect(run.usage).toHaveLength(2);
+    expect(run.usage[0]).toMatchObject({ inputTokens: 5210, cacheCreationInputTokens: 9800, outputTokens: 96, requests: 1 });
+    expect(run.usage[1]).toMatchObject({ inputTokens: 420, cacheReadInputTokens: 15010, outputTokens: 38 });
+    expect(run.usage[0].costUsd).toBeGreaterThan(0);
+  });
+
+  it('stops without sending tool results when Stop is pressed during a tool', async () => {
+    const baseUrl = await startReplay(toolDispatchFixture);
+    const controller = new AbortController();
+    const run = await runAgent(baseUrl, {
+      signal: controller.signal,
+      executeTool: async (toolName, params) => {
+        controller.abort();
+        return fakeBrowserTool(toolName, params);
+      },
+    });
+
+    // getPageContext was queued behind navigate and is skipped
+    expect(run.toolCalls.map(call => call.name)).toEqual(['navigate']);
+    expect(run.text).toContain('⚠️ Execution cancelled by user.');
+
+    const status = await getReplayStatus(baseUrl);
+    expect(status.served.turn).toBe(1);
+  });
+
+  it('cancels the run while waiting for a slow model response', async () => {
+    const baseUrl = await startReplay(slowResponseFixture);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const run = await runAgent(baseUrl, { signal: controller.signal });
+
+    expect(run.text).toContain('⚠️ Execution cancelled by user.');
+    expect(run.text).not.toContain('too late');
+    expect(run.toolCalls).toHaveLength(0);
+    expect(run.usage).toHaveLength(0);
+  });
+
+  it('retries a turn whose stream fails with overloaded_error', async () => {
+    const baseUrl = await startReplay(overloadedStreamFixture);
+    const run = await runAgent(baseUrl);
+
+    expect(run.text).toContain('The Pro plan costs $20 per month.');
+    expect(run.usage).toHaveLength(1);
+    expect(run.completed).toBe(1);
+
+    const status = await getReplayStatus(baseUrl);
+    expect(status.served.turn).toBe(2);
+  });
+
+  it('summarizes older history when the conversation outgrows the context window', async () => {
+    const baseUrl = await startReplay(summarizationFixture);
+
+    // Tools and system prompt alone exceed this, so the history gets the 1000 token minimum
+    const run = await runAgent(baseUrl, { messages: createLongHistory(), settings: { contextWindowTokens: 1 } });
+
+    expect(run.text).toContain('For one small site the Basic plan ($5 per month) is enough.');
+    expect(run.usage.map(usage => usage.inputTokens)).toEqual([3900, 780]);
+
+    const status = await getReplayStatus(baseUrl);
+    expect(status.requests.map((request: any) => request.kind)).toEqual(['summary', 'turn']);
+  });
+
+  it('stops over budget before summarizing the history', async () => {
+    const baseUrl = await startReplay(summarizationFixture);
+    const run = await runAgent(baseUrl, {
+      messages: createLongHistory(),
+      settings: { contextWindowTokens: 1 },
+      onBudgetCheck: async () => false,
+    });
+
+    expect(run.text).toContain('Stopped: this conversation reached its usage budget');
+    expect(run.usage).toHaveLength(0);
+
+    const status = await getReplayStatus(baseUrl);
+    expect(status.requests).toHaveLength(0);
+  });
+
+  it('stops at MAX_TURNS when the model keeps calling tools', async () => {
+    const baseUrl = await startReplay(toolLoopFixture, true);
+    const run = await runAgent(baseUrl);
+
+    expect(run.toolCalls).toHaveLength(50);
+    expect(run.toolCalls.every(call => call.name === 'listTabs')).toBe(true);
+    expect(run.text).toContain('Reached maximum turn limit (50)');
+    expect(run.completed).toBe(1);
+
+    // served stops counting once the last turn repeats - the request log has every request
+    const status = await getReplayStatus(baseUrl);
+    expect(status.requests).toHaveLength(50);
+  }, 30000);
+});
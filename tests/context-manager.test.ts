@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { estimateContentTokens, estimateMessagesTokens, fitMessagesToBudget } from '../context-manager';
+import type { ContextBudgetOptions } from '../context-manager';
+import type { Message } from '../types';
+
+const LONG_TEXT = 'Order #1042 shipped on Monday and arrives on Thursday. '.repeat(40); // ~630 tokens
+
+function screenshotResult(id: string): Message {
+  return {
+    id: `${id}_result`,
+    role: 'user',
+    content: [{
+      type: 'tool_result',
+      tool_use_id: id,
+      content: [
+        { type: 'text', text: 'Screenshot captured.' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+      ],
+    }],
+  } as any;
+}
+
+function toolCall(id: string, name: string): Message {
+  return { id: `${id}_call`, role: 'assistant', content: [{ type: 'tool_use', id, name, input: {} }] } as any;
+}
+
+function pageContextResult(id: string, url: string): Message {
+  return {
+    id: `${id}_result`,
+    role: 'user',
+    content: [{ type: 'tool_result', tool_use_id: id, content: JSON.stringify({ url, textContent: LONG_TEXT }) }],
+  } as any;
+}
+
+function options(overrides: Partial<ContextBudgetOptions>): ContextBudgetOptions {
+  return {
+    maxTokens: 100000,
+    keepRecentPageContexts: 1,
+    enablePageContextStripping: true,
+    enableSummarization: true,
+    ...overrides,
+  };
+}
+
+describe('token estimates', () => {
+  it('counts text by characters and images at a flat rate', () => {
+    expect(estimateContentTokens('a'.repeat(35))).toBe(10);
+    expect(estimateContentTokens([{ type: 'image', source: {} }])).toBe(1600);
+    expect(estimateContentTokens([{ type: 'text', text: 'a'.repeat(7) }, { type: 'image' }])).toBe(1602);
+  });
+
+  it('counts tool results by their nested content', () => {
+    const withImage = screenshotResult('t1').content;
+    expect(estimateContentTokens(withImage)).toBeGreaterThan(1600);
+  });
+
+  it('adds a per-message overhead', () => {
+    const messages: Message[] = [
+      { id: '1', role: 'user', content: 'a'.repeat(35) },
+      { id: '2', role: 'assistant', content: 'a'.repeat(35) },
+    ];
+    expect(estimateMessagesTokens(messages)).toBe(28);
+  });
+});
+
+describe('fitMessagesToBudget', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the conversation unchanged when it fits', async () => {
+    const messages: Message[] = [{ id: '1', role: 'user', content: 'Hello' }];
+    expect(await fitMessagesToBudget(messages, options({}))).toBe(messages);
+  });
+
+  it('drops older screenshots first and keeps the latest one', async () => {
+    const messages: Message[] = [
+      { id: 'ask', role: 'user', content: 'Check the order page' },
+      toolCall('s1', 'screenshot'),
+      screenshotResult('s1'),
+      toolCall('s2', 'screenshot'),
+      screenshotResult('s2'),
+      toolCall('s3', 'screenshot'),
+      screenshotResult('s3'),
+    ];
+    const result = await fitMessagesToBudget(messages, options({ maxTokens: 2500 }));
+
+    expect(JSON.stringify(result[2].content)).toContain('[Screenshot stripped]');
+    expect(JSON.stringify(result[4].content)).toContain('[Screenshot stripped]');
+    expect(JSON.stringify(result[6].content)).toContain('"type":"image"');
+    // tool_result structure is kept so the pairs stay valid
+    expect((result[2].content as any)[0].tool_use_id).toBe('s1');
+  });
+
+  it('compresses older page contexts and keeps the most recent ones', async () => {
+    const messages: Message[] = [
+      { id: 'ask', role: 'user', content: 'Compare the order pages' },
+      toolCall('p1', 'getPageContext'),
+      pageContextResult('p1', 'https://shop.example.com/orders/1'),
+      toolCall('p2', 'getPageContext'),
+      pageContextResult('p2', 'https://shop.example.com/orders/2'),
+    ];
+    const result = await fitMessagesToBudget(messages, options({ maxTokens: 1000 }));
+
+    expect((result[2].content as any)[0].content).toBe('[Page context stripped - URL: https://shop.example.com/orders/1]');
+    expect((result[4].content as any)[0].content).toContain('textContent');
+  });
+
+  it('does not strip page data when stripping is disabled', async () => {
+    const messages: Message[] = [
+      { id: 'ask', role: 'user', content: 'Check the order page' },
+      toolCall('s1', 'screenshot'),
+      screenshotResult('s1'),
+      toolCall('s2', 'screenshot'),
+      screenshotResult('s2'),
+    ];
+    const result = await fitMessagesToBudget(
+      messages,
+      options({ maxTokens: 2000, enablePageContextStripping: false, enableSummarization: false })
+    );
+    expect(result).toEqual(messages);
+  });
+
+  it('summarizes the oldest messages without splitting a tool_use from its result', async () => {
+    const messages: Message[] = [
+      { id: 'c1', role: 'user', content: `First question. ${LONG_TEXT}` },
+      { id: 'c2', role: 'assistant', content: `First answer. ${LONG_TEXT}` },
+      toolCall('t1', 'listTabs'),
+      { id: 't1_result', role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: LONG_TEXT }] } as any,
+      { id: 'c3', role: 'assistant', content: 'There are two tabs open.' },
+      { id: 'c4', role: 'user', content: 'Close the second one' },
+    ];
+    const summarize = vi.fn(async (_older: Message[]) => 'The user asked about order #1042.');
+    const result = await fitMessagesToBudget(messages, options({ maxTokens: 700, summarize }));
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    const summarized = summarize.mock.calls[0][0];
+    expect(summarized.map(m => m.id)).toEqual(['c1', 'c2', 't1_call', 't1_result', 'c3']);
+
+    expect(result[0].role).toBe('user');
+    expect(result[0].content).toContain('[Previous conversation summary]');
+    expect(result[0].content).toContain('The user asked about order #1042.');
+    expect(result.slice(1).map(m => m.id)).toEqual(['c4']);
+  });
+
+  it('reuses a cached summary for the same history prefix', async () => {
+    const history: Message[] = [
+      { id: 'r1', role: 'user', content: `Old question. ${LONG_TEXT}` },
+      { id: 'r2', role: 'assistant', content: `Old answer. ${LONG_TEXT}` },
+      { id: 'r3', role: 'user', content: 'Newer question' },
+    ];
+    const summarize = vi.fn(async () => 'Earlier the user asked an old question.');
+    await fitMessagesToBudget(history, options({ maxTokens: 500, summarize }));
+
+    const longer: Message[] = [...history, { id: 'r4', role: 'assistant', content: 'Newer answer' }, { id: 'r5', role: 'user', content: 'Thanks' }];
+    const result = await fitMessagesToBudget(longer, options({ maxTokens: 500, summarize }));
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(result[0].content).toContain('Earlier the user asked an old question.');
+    expect(result.slice(1).map(m => m.id)).toEqual(['r3', 'r4', 'r5']);
+  });
+
+  it('sends the reduced context as-is when summarization fails', async () => {
+    const messages: Message[] = [
+      { id: 'f1', role: 'user', content: `Question. ${LONG_TEXT}` },
+      { id: 'f2', role: 'assistant', content: `Answer. ${LONG_TEXT}` },
+      { id: 'f3', role: 'user', content: 'Follow-up' },
+    ];
+    const result = await fitMessagesToBudget(messages, options({ maxTokens: 500, summarize: async () => null }));
+    expect(result).toEqual(messages);
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { downloadExtractedData, toCsv } from '../data-export';
+
+describe('toCsv', () => {
+  it('writes a header row and rows in column order', () => {
+    expect(toCsv(['name', 'price'], [{ price: 5, name: 'Basic' }, { name: 'Pro', price: 20 }]))
+      .toBe('name,price\r\nBasic,5\r\nPro,20');
+  });
+
+  it('leaves missing and null values empty', () => {
+    expect(toCsv(['a', 'b'], [{ a: null }, { b: undefined }])).toBe('a,b\r\n,\r\n,');
+  });
+
+  it('quotes values with commas, quotes and line breaks', () => {
+    expect(toCsv(['text'], [{ text: 'Hello, "world"' }, { text: 'two\nlines' }]))
+      .toBe('text\r\n"Hello, ""world"""\r\n"two\nlines"');
+  });
+
+  it('writes objects as JSON', () => {
+    expect(toCsv(['tags'], [{ tags: ['a', 'b'] }])).toBe('tags\r\n"[""a"",""b""]"');
+  });
+
+  it('neutralizes text that spreadsheets would run as a formula', () => {
+    const csv = toCsv(['value'], [
+      { value: '=HYPERLINK("http://evil.example","click")' },
+      { value: '+1' },
+      { value: '-2' },
+      { value: '@SUM(A1)' },
+      { value: '\tTab' },
+    ]);
+    expect(csv.split('\r\n').slice(1)).toEqual([
+      `"'=HYPERLINK(""http://evil.example"",""click"")"`,
+      "'+1",
+      "'-2",
+      "'@SUM(A1)",
+      "'\tTab",
+    ]);
+  });
+
+  it('keeps real negative numbers as numbers', () => {
+    expect(toCsv(['delta'], [{ delta: -3.5 }])).toBe('delta\r\n-3.5');
+  });
+});
+
+describe('downloadExtractedData', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('downloads CSV with a BOM under extracted-data/<host>-<timestamp>', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const download = vi.fn(async () => 1);
+    vi.stubGlobal('chrome', { downloads: { download } });
+
+    await downloadExtractedData({
+      columns: ['name'],
+      rows: [{ name: 'Basic' }],
+      url: 'https://www.example.com/pricing',
+      extractedAt: Date.UTC(2026, 9, 12, 9, 30, 0),
+    }, 'csv');
+
+    expect(download).toHaveBeenCalledTimes(1);
+    const { url, filename, saveAs } = (download.mock.calls[0] as any[])[0];
+    expect(filename).toBe('extracted-data/example.com-2026-10-12T09-30-00-000Z.csv');
+    expect(saveAs).toBe(false);
+    expect(url.startsWith('data:text/csv;charset=utf-8,')).toBe(true);
+    expect(decodeURIComponent(url.slice(url.indexOf(',') + 1))).toBe('\uFEFFname\r\nBasic');
+  });
+
+  it('downloads JSON rows', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const download = vi.fn(async () => 1);
+    vi.stubGlobal('chrome', { downloads: { download } });
+
+    await downloadExtractedData({ columns: ['n'], rows: [{ n: 1 }], url: 'not a url', extractedAt: 0 }, 'json');
+
+    const { url, filename } = (download.mock.calls[0] as any[])[0];
+    expect(filename).toBe('extracted-data/page-1970-01-01T00-00-00-000Z.json');
+    expect(JSON.parse(decodeURIComponent(url.slice(url.indexOf(',') + 1)))).toEqual([{ n: 1 }]);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readMessageStream } from '../anthropic-browser-tools';
+
+const encoder = new TextEncoder();
+
+function sseEvent(data: any): string {
+  return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Event-stream response delivering the body in the given chunks
+ */
+function streamResponse(chunks: string[]): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+/**
+ * Split text into fixed-size chunks so events and JSON are cut at arbitrary points
+ */
+function splitEvery(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+const TOOL_TURN = [
+  sseEvent({ type: 'message_start', message: { id: 'msg_1', role: 'assistant', content: [], usage: { input_tokens: 120, output_tokens: 1 } } }),
+  sseEvent({ type: 'ping' }),
+  sseEvent({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+  sseEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Opening ' } }),
+  sseEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'the page.' } }),
+  sseEvent({ type: 'content_block_stop', index: 0 }),
+  sseEvent({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'navigate', input: {} } }),
+  sseEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"url": "https://exa' } }),
+  sseEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'mple.com"}' } }),
+  sseEvent({ type: 'content_block_stop', index: 1 }),
+  sseEvent({ type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 42 } }),
+  sseEvent({ type: 'message_stop' }),
+].join('');
+
+describe('readMessageStream', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rebuilds text and tool_use blocks from events cut at arbitrary chunk boundaries', async () => {
+    const deltas: string[] = [];
+    const onTextBlockStop = vi.fn();
+    const message = await readMessageStream(streamResponse(splitEvery(TOOL_TURN, 7)), delta => deltas.push(delta), onTextBlockStop);
+
+    expect(deltas).toEqual(['Opening ', 'the page.']);
+    expect(onTextBlockStop).toHaveBeenCalledTimes(1);
+    expect(message.content).toEqual([
+      { type: 'text', text: 'Opening the page.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'navigate', input: { url: 'https://example.com' } },
+    ]);
+    expect(message.stop_reason).toBe('tool_use');
+  });
+
+  it('merges usage from message_start and message_delta', async () => {
+    const message = await readMessageStream(streamResponse([TOOL_TURN]), () => {}, () => {});
+    expect(message.usage).toEqual({ input_tokens: 120, output_tokens: 42 });
+  });
+
+  it('accepts CRLF event separators', async () => {
+    const crlf = TOOL_TURN.replace(/\n/g, '\r\n');
+    const message = await readMessageStream(streamResponse(splitEvery(crlf, 11)), () => {}, () => {});
+    expect(message.content[1].input).toEqual({ url: 'https://example.com' });
+  });
+
+  it('skips malformed events and [DONE]', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const body = [
+      sseEvent({ type: 'message_start', message: { id: 'msg_2', content: [] } }),
+      'event: content_block_start\ndata: {not json\n\n',
+      sseEvent({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+      sseEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Done.' } }),
+      sseEvent({ type: 'content_block_stop', index: 0 }),
+      'data: [DONE]\n\n',
+    ].join('');
+    const message = await readMessageStream(streamResponse([body]), () => {}, () => {});
+
+    expect(message.content).toEqual([{ type: 'text', text: 'Done.' }]);
+  });
+
+  it('reads a final event that has no trailing blank line', async () => {
+    const body = TOOL_TURN.replace(/\n\n$/, '');
+    const message = await readMessageStream(streamResponse([body]), () => {}, () => {});
+    expect(message.stop_reason).toBe('tool_use');
+  });
+
+  it('uses an empty input when a tool_use streams no JSON', async () => {
+    const body = [
+      sseEvent({ type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_2', name: 'listTabs' } }),
+      sseEvent({ type: 'content_block_stop', index: 0 }),
+    ].join('');
+    const message = await readMessageStream(streamResponse([body]), () => {}, () => {});
+    expect(message.content).toEqual([{ type: 'tool_use', id: 'toolu_2', name: 'listTabs', input: {} }]);
+  });
+
+  it('throws stream error events with their error type', async () => {
+    const body = [
+      sseEvent({ type: 'message_start', message: { id: 'msg_3', content: [] } }),
+      sseEvent({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }),
+    ].join('');
+
+    await expect(readMessageStream(streamResponse([body]), () => {}, () => {}))
+      .rejects.toMatchObject({ message: 'Overloaded', errorType: 'overloaded_error' });
+  });
+
+  it('throws an AbortError when the run is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(readMessageStream(streamResponse([TOOL_TURN]), () => {}, () => {}, controller.signal))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('gives up when the stream stalls', async () => {
+    const stalled = new Response(new ReadableStream<Uint8Array>({ start() {} }), {
+      headers: { 'content-type': 'text/event-stream' },
+    });
+
+    await expect(readMessageStream(stalled, () => {}, () => {}, undefined, 50))
+      .rejects.toThrow('API stream stalled');
+  });
+
+  it('rejects a response without a body', async () => {
+    await expect(readMessageStream(new Response(null), () => {}, () => {}))
+      .rejects.toThrow('API returned an empty stream');
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getPromptVersionId,
+  loadManagedPromptOverrides,
+  loadPromptTemplates,
+  renderPrompt,
+  renderTemplateText,
+  resolvePromptTemplates,
+} from '../prompt-templates';
+import { DEFAULT_PROMPT_TEMPLATES } from '../default-prompt-templates';
+
+describe('renderTemplateText', () => {
+  it('replaces placeholders and renders unknown variables as empty', () => {
+    expect(renderTemplateText('Open {{url}} with {{tools}}{{missing}}.', { url: 'https://example.com', tools: 'navigate' }))
+      .toBe('Open https://example.com with navigate.');
+  });
+
+  it('keeps conditional blocks only when their variable is non-empty', () => {
+    const template = 'Base.{{#siteProfile}} Profile: {{siteProfile}}.{{/siteProfile}}{{#plan}} Plan: {{plan}}{{/plan}}';
+    expect(renderTemplateText(template, { siteProfile: 'Jira', plan: '' })).toBe('Base. Profile: Jira.');
+  });
+});
+
+describe('resolvePromptTemplates', () => {
+  it('uses the built-in templates without overrides', () => {
+    const templates = resolvePromptTemplates();
+    const base = DEFAULT_PROMPT_TEMPLATES['site-instructions'];
+    expect(templates['site-instructions']).toEqual({
+      name: 'site-instructions',
+      versionId: `site-instructions@${base.version}`,
+      content: base.content,
+    });
+  });
+
+  it('applies user replace overrides with a content-hash version', () => {
+    const templates = resolvePromptTemplates({ 'current-url': { mode: 'replace', content: 'URL: {{url}}' } });
+    expect(templates['current-url'].content).toBe('URL: {{url}}');
+    expect(templates['current-url'].versionId).toMatch(/^current-url@\d+\+user\.[0-9a-z]+$/);
+  });
+
+  it('appends admin overrides and labels them with their version', () => {
+    const templates = resolvePromptTemplates(undefined, {
+      'current-url': { mode: 'append', content: 'Never leave the intranet.', version: '3' },
+    });
+    const base = DEFAULT_PROMPT_TEMPLATES['current-url'];
+    expect(templates['current-url'].content).toBe(`${base.content}\n\nNever leave the intranet.`);
+    expect(templates['current-url'].versionId).toBe(`current-url@${base.version}+admin.3`);
+  });
+
+  it('layers user overrides on top of admin overrides unless the admin override is locked', () => {
+    const user = { 'current-url': { mode: 'append' as const, content: 'User note.', version: 'u1' } };
+    const admin = { 'current-url': { mode: 'replace' as const, content: 'Admin text.', version: 'a1' } };
+
+    const layered = resolvePromptTemplates(user, admin);
+    expect(layered['current-url'].content).toBe('Admin text.\n\nUser note.');
+    expect(layered['current-url'].versionId).toMatch(/\+admin\.a1\+user\.u1$/);
+
+    const locked = resolvePromptTemplates(user, { 'current-url': { ...admin['current-url'], locked: true } });
+    expect(locked['current-url'].content).toBe('Admin text.');
+  });
+
+  it('ignores malformed and blank overrides', () => {
+    const base = DEFAULT_PROMPT_TEMPLATES['current-url'];
+    const templates = resolvePromptTemplates(
+      { 'current-url': { mode: 'replace', content: '   ' } },
+      { 'current-url': { mode: 'prepend', content: 'Bad mode' } as any }
+    );
+    expect(templates['current-url'].content).toBe(base.content);
+  });
+});
+
+describe('loadPromptTemplates', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reads admin overrides from managed storage', async () => {
+    vi.stubGlobal('chrome', {
+      storage: {
+        managed: {
+          get: async () => ({ promptTemplateOverrides: { 'current-url': { mode: 'replace', content: 'Managed', version: '7' } } }),
+        },
+      },
+    });
+    const templates = await loadPromptTemplates({
+      promptTemplateOverrides: { 'site-profile': { mode: 'replace', content: 'Profile: {{siteProfile}}' } },
+    });
+
+    expect(templates['current-url'].content).toBe('Managed');
+    expect(renderPrompt(templates, 'site-profile', { siteProfile: 'Jira' })).toBe('Profile: Jira');
+  });
+
+  it('falls back to no admin overrides when managed storage is unavailable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('chrome', { storage: { managed: { get: async () => { throw new Error('No policy'); } } } });
+    expect(await loadManagedPromptOverrides()).toEqual({});
+
+    vi.stubGlobal('chrome', {});
+    expect(await loadManagedPromptOverrides()).toEqual({});
+  });
+});
+
+describe('getPromptVersionId', () => {
+  it('joins the version ids of the used templates', () => {
+    const templates = resolvePromptTemplates();
+    expect(getPromptVersionId(templates, ['site-profile', 'current-url'])).toBe(
+      `site-profile@${DEFAULT_PROMPT_TEMPLATES['site-profile'].version}, current-url@${DEFAULT_PROMPT_TEMPLATES['current-url'].version}`
+    );
+  });
+});
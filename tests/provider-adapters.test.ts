@@ -0,0 +1,230 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getProviderAdapter, getProviderCredentials, isProviderConfigured } from '../provider-adapters';
+import type { ProviderRequest } from '../provider-adapters';
+import type { Settings } from '../types';
+
+const NAVIGATE_TOOL = {
+  name: 'navigate',
+  description: 'Open a URL',
+  input_schema: { type: 'object', properties: { url: { type: 'string' } }, required: ['url'] },
+};
+
+// One tool round trip with a screenshot, in the loop's Anthropic format
+const REQUEST: ProviderRequest = {
+  model: 'test-model',
+  max_tokens: 1024,
+  system: [{ type: 'text', text: 'You drive the browser.' }, { type: 'text', text: 'Site: Jira' }],
+  messages: [
+    { role: 'user', content: 'Open example.com' },
+    {
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Opening it.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'navigate', input: { url: 'https://example.com' } },
+      ],
+    },
+    {
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: 'toolu_1',
+          content: [
+            { type: 'text', text: 'Screenshot captured.' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+          ],
+        },
+      ],
+    },
+  ],
+  tools: [NAVIGATE_TOOL],
+};
+
+function requestBody(init: RequestInit): any {
+  return JSON.parse(init.body as string);
+}
+
+function settings(overrides: Partial<Settings>): Settings {
+  return { provider: 'anthropic', apiKey: '', model: 'claude-sonnet-4-5', ...overrides } as Settings;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getProviderAdapter', () => {
+  it('defaults to Anthropic and rejects unknown providers', () => {
+    expect(getProviderAdapter(undefined)?.provider).toBe('anthropic');
+    expect(getProviderAdapter('openai')?.provider).toBe('openai');
+    expect(getProviderAdapter('mistral')).toBeUndefined();
+  });
+});
+
+describe('anthropic adapter', () => {
+  const adapter = getProviderAdapter('anthropic')!;
+
+  it('posts the request unchanged to /v1/messages', () => {
+    const { url, init } = adapter.buildRequest(REQUEST, 'key-1', 'https://gocode.example.com');
+    expect(url).toBe('https://gocode.example.com/v1/messages');
+    expect((init.headers as Record<string, string>)['x-api-key']).toBe('key-1');
+    expect(requestBody(init)).toEqual(REQUEST);
+  });
+
+  it('always needs a key', () => {
+    expect(adapter.requiresApiKey('http://localhost:8787')).toBe(true);
+  });
+});
+
+describe('openai adapter', () => {
+  const adapter = getProviderAdapter('openai')!;
+
+  it('translates system, tool calls, tool results and screenshots', () => {
+    const { url, init } = adapter.buildRequest(REQUEST, 'sk-test', 'https://api.openai.com');
+    const body = requestBody(init);
+
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer sk-test');
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'You drive the browser.\n\nSite: Jira' },
+      { role: 'user', content: 'Open example.com' },
+      {
+        role: 'assistant',
+        content: 'Opening it.',
+        tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'navigate', arguments: '{"url":"https://example.com"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'toolu_1', content: 'Screenshot captured.' },
+      { role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] },
+    ]);
+    expect(body.tools[0]).toMatchObject({ type: 'function', function: { name: 'navigate' } });
+  });
+
+  it('accepts local base URLs with or without /v1 and sends no key when there is none', () => {
+    for (const baseUrl of ['http://localhost:11434', 'http://localhost:11434/v1/']) {
+      const { url, init } = adapter.buildRequest(REQUEST, '', baseUrl);
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect((init.headers as Record<string, string>)['Authorization']).toBeUndefined();
+    }
+    expect(adapter.requiresApiKey('http://localhost:11434')).toBe(false);
+    expect(adapter.requiresApiKey(undefined)).toBe(true);
+  });
+
+  it('converts tool calls and usage back to the Anthropic shape', () => {
+    const response = adapter.parseResponse({
+      choices: [{
+        message: {
+          content: 'Opening it.',
+          tool_calls: [{ id: 'call_1', function: { name: 'navigate', arguments: '{"url":"https://example.com"}' } }],
+        },
+        finish_reason: 'tool_calls',
+      }],
+      usage: { prompt_tokens: 120, completion_tokens: 30 },
+    });
+
+    expect(response).toEqual({
+      content: [
+        { type: 'text', text: 'Opening it.' },
+        { type: 'tool_use', id: 'call_1', name: 'navigate', input: { url: 'https://example.com' } },
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 120, output_tokens: 30 },
+    });
+  });
+
+  it('maps finish reasons and tolerates invalid tool arguments', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(adapter.parseResponse({ choices: [{ message: { content: 'Cut off' }, finish_reason: 'length' }] }).stop_reason)
+      .toBe('max_tokens');
+
+    const broken = adapter.parseResponse({
+      choices: [{ message: { tool_calls: [{ id: 'call_2', function: { name: 'navigate', arguments: '{"url":' } }] } }],
+    });
+    expect(broken.content[0]).toMatchObject({ type: 'tool_use', input: {} });
+  });
+});
+
+describe('google adapter', () => {
+  const adapter = getProviderAdapter('google')!;
+
+  it('translates messages to contents with function calls and responses', () => {
+    const { url, init } = adapter.buildRequest(REQUEST, 'g-key', 'https://generativelanguage.googleapis.com/');
+    const body = requestBody(init);
+
+    expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/models/test-model:generateContent');
+    expect((init.headers as Record<string, string>)['x-goog-api-key']).toBe('g-key');
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'You drive the browser.\n\nSite: Jira' }] });
+    expect(body.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Open example.com' }] },
+      { role: 'model', parts: [{ text: 'Opening it.' }, { functionCall: { name: 'navigate', args: { url: 'https://example.com' } } }] },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'navigate', response: { content: 'Screenshot captured.' } } },
+          { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+        ],
+      },
+    ]);
+    expect(body.tools[0].functionDeclarations[0].name).toBe('navigate');
+    expect(body.generationConfig).toEqual({ maxOutputTokens: 1024 });
+  });
+
+  it('merges consecutive messages from the same role', () => {
+    const { init } = adapter.buildRequest({
+      model: 'gemini-2.5-flash',
+      max_tokens: 100,
+      messages: [{ role: 'user', content: 'First' }, { role: 'user', content: 'Second' }],
+    }, 'g-key', 'https://generativelanguage.googleapis.com');
+
+    expect(requestBody(init).contents).toEqual([{ role: 'user', parts: [{ text: 'First' }, { text: 'Second' }] }]);
+  });
+
+  it('converts candidates back, skipping thought parts', () => {
+    const response = adapter.parseResponse({
+      candidates: [{
+        content: {
+          parts: [
+            { text: 'Thinking about it', thought: true },
+            { text: 'Opening it.' },
+            { functionCall: { name: 'navigate', args: { url: 'https://example.com' } } },
+          ],
+        },
+        finishReason: 'STOP',
+      }],
+      usageMetadata: { promptTokenCount: 80, candidatesTokenCount: 12 },
+    });
+
+    expect(response.content[0]).toEqual({ type: 'text', text: 'Opening it.' });
+    expect(response.content[1]).toMatchObject({ type: 'tool_use', name: 'navigate', input: { url: 'https://example.com' } });
+    expect(response.stop_reason).toBe('tool_use');
+    expect(response.usage).toEqual({ input_tokens: 80, output_tokens: 12 });
+  });
+
+  it('reports MAX_TOKENS as max_tokens', () => {
+    const response = adapter.parseResponse({ candidates: [{ content: { parts: [{ text: 'Cut' }] }, finishReason: 'MAX_TOKENS' }] });
+    expect(response.stop_reason).toBe('max_tokens');
+  });
+});
+
+describe('provider credentials', () => {
+  it('uses the GoCode key for Anthropic and providerConfigs for the others', () => {
+    const configured = settings({
+      apiKey: 'gocode-key',
+      customBaseUrl: 'https://gocode.example.com',
+      providerConfigs: { openai: { apiKey: 'sk-test' } },
+    });
+
+    expect(getProviderCredentials(configured, 'anthropic')).toEqual({
+      provider: 'anthropic',
+      apiKey: 'gocode-key',
+      baseUrl: 'https://gocode.example.com',
+    });
+    expect(getProviderCredentials(configured, 'openai')).toEqual({ provider: 'openai', apiKey: 'sk-test', baseUrl: undefined });
+    expect(getProviderCredentials(configured, 'google')).toEqual({ provider: 'google', apiKey: '', baseUrl: undefined });
+  });
+
+  it('offers providers with a key, or a local OpenAI-compatible server without one', () => {
+    expect(isProviderConfigured(settings({}), 'anthropic')).toBe(false);
+    expect(isProviderConfigured(settings({ apiKey: 'gocode-key' }), 'anthropic')).toBe(true);
+    expect(isProviderConfigured(settings({ providerConfigs: { openai: { apiKey: '', customBaseUrl: 'http://localhost:11434' } } }), 'openai')).toBe(true);
+    expect(isProviderConfigured(settings({ providerConfigs: { google: { apiKey: '', customBaseUrl: 'http://localhost:1234' } } }), 'google')).toBe(false);
+  });
+});
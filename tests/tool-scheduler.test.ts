@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getToolKind, runToolUses } from '../tool-scheduler';
+import type { ScheduledToolUse } from '../tool-scheduler';
+
+const REMOTE_TOOLS = new Set(['mcp_search', 'a2a_booking']);
+
+function toolUse(id: string, name: string, input: any = {}): ScheduledToolUse {
+  return { id, name, input };
+}
+
+/**
+ * runTool that records start/end events and takes `durations[id]` ms (default 10)
+ */
+function createRecorder(durations: Record<string, number> = {}) {
+  const events: string[] = [];
+  let active = 0;
+  let maxActive = 0;
+
+  const runTool = async (use: ScheduledToolUse) => {
+    events.push(`start ${use.id}`);
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await new Promise(resolve => setTimeout(resolve, durations[use.id] ?? 10));
+    active--;
+    events.push(`end ${use.id}`);
+    return { type: 'tool_result', tool_use_id: use.id, content: use.name };
+  };
+
+  return { events, runTool, getMaxActive: () => maxActive };
+}
+
+describe('getToolKind', () => {
+  it('classifies remote, read-only and mutating tools', () => {
+    expect(getToolKind('mcp_search', REMOTE_TOOLS)).toBe('remote');
+    expect(getToolKind('getPageContext', REMOTE_TOOLS)).toBe('browser-read');
+    expect(getToolKind('getAccessibilitySnapshot', REMOTE_TOOLS)).toBe('browser-read');
+    expect(getToolKind('click', REMOTE_TOOLS)).toBe('browser-mutate');
+    expect(getToolKind('screenshot', REMOTE_TOOLS)).toBe('browser-mutate');
+  });
+
+  it('treats unknown tools as mutating', () => {
+    expect(getToolKind('somethingNew', REMOTE_TOOLS)).toBe('browser-mutate');
+  });
+});
+
+describe('runToolUses', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns results in tool_use order even when later tools finish first', async () => {
+    const { runTool } = createRecorder({ a: 40, b: 5 });
+    const results = await runToolUses(
+      [toolUse('a', 'mcp_search'), toolUse('b', 'a2a_booking')],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 0 }
+    );
+    expect(results.map(result => result.tool_use_id)).toEqual(['a', 'b']);
+  });
+
+  it('runs remote tools and read-only tools concurrently', async () => {
+    const { runTool, getMaxActive } = createRecorder();
+    await runToolUses(
+      [toolUse('a', 'mcp_search'), toolUse('b', 'getPageContext'), toolUse('c', 'getAccessibilitySnapshot')],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 0 }
+    );
+    expect(getMaxActive()).toBe(3);
+  });
+
+  it('runs mutations on the working tab strictly in order, after earlier reads', async () => {
+    const { events, runTool } = createRecorder({ read: 30 });
+    await runToolUses(
+      [toolUse('read', 'getPageContext'), toolUse('click', 'click', { x: 1, y: 1 }), toolUse('type', 'type', { text: 'hi' })],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 0 }
+    );
+    expect(events).toEqual(['start read', 'end read', 'start click', 'end click', 'start type', 'end type']);
+  });
+
+  it('runs screenshots one at a time and after earlier snapshots', async () => {
+    const { events, runTool } = createRecorder({ snapshot: 30 });
+    await runToolUses(
+      [toolUse('snapshot', 'getAccessibilitySnapshot'), toolUse('s1', 'screenshot'), toolUse('s2', 'screenshot')],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 0 }
+    );
+    expect(events).toEqual(['start snapshot', 'end snapshot', 'start s1', 'end s1', 'start s2', 'end s2']);
+  });
+
+  it('runs mutations on different explicit tabs in parallel', async () => {
+    const { runTool, getMaxActive } = createRecorder();
+    await runToolUses(
+      [toolUse('a', 'click', { tabId: 1 }), toolUse('b', 'click', { tabId: 2 })],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 0 }
+    );
+    expect(getMaxActive()).toBe(2);
+  });
+
+  it('orders a tool without a tabId against mutations on every tab', async () => {
+    const { events, runTool } = createRecorder({ a: 30 });
+    await runToolUses(
+      [toolUse('a', 'navigate', { tabId: 4, url: 'https://example.com' }), toolUse('b', 'getPageContext')],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 0 }
+    );
+    expect(events.indexOf('start b')).toBeGreaterThan(events.indexOf('end a'));
+  });
+
+  it('orders an explicit-tab mutation after an earlier working-tab mutation', async () => {
+    const { events, runTool } = createRecorder({ a: 30 });
+    await runToolUses(
+      [toolUse('a', 'switchTab', { tabId: 5 }), toolUse('b', 'click', { tabId: 5, x: 1, y: 1 })],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 0 }
+    );
+    expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('waits the settle time after a mutation before the next one on the tab', async () => {
+    const { events, runTool } = createRecorder({ a: 0, b: 0 });
+    const startedAt = Date.now();
+    await runToolUses(
+      [toolUse('a', 'click', { x: 1, y: 1 }), toolUse('b', 'click', { x: 2, y: 2 })],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 60 }
+    );
+    expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(100);
+  });
+
+  it('reports tools in the order they actually start, not the tool_use order', async () => {
+    const { runTool } = createRecorder({ a: 20 });
+    const started: string[] = [];
+    await runToolUses(
+      [toolUse('a', 'click', { x: 1, y: 1 }), toolUse('b', 'click', { x: 2, y: 2 }), toolUse('c', 'mcp_search')],
+      { remoteToolNames: REMOTE_TOOLS, runTool, mutationDelayMs: 0, onStart: (use, kind) => started.push(`${use.id}:${kind}`) }
+    );
+    expect(started).toEqual(['c:remote', 'a:browser-mutate', 'b:browser-mutate']);
+  });
+
+  it('skips queued tools after an abort and leaves them out of the results', async () => {
+    const controller = new AbortController();
+    const runTool = async (use: ScheduledToolUse) => {
+      controller.abort();
+      return { type: 'tool_result', tool_use_id: use.id, content: '' };
+    };
+    const results = await runToolUses(
+      [toolUse('a', 'click', { x: 1, y: 1 }), toolUse('b', 'click', { x: 2, y: 2 })],
+      { remoteToolNames: REMOTE_TOOLS, runTool, signal: controller.signal }
+    );
+    expect(results.map(result => result.tool_use_id)).toEqual(['a']);
+  });
+
+  it('leaves out tools whose runner returns null', async () => {
+    const results = await runToolUses(
+      [toolUse('a', 'mcp_search'), toolUse('b', 'mcp_search')],
+      {
+        remoteToolNames: REMOTE_TOOLS,
+        runTool: async (use) => (use.id === 'a' ? null : { type: 'tool_result', tool_use_id: use.id }),
+      }
+    );
+    expect(results).toEqual([{ type: 'tool_result', tool_use_id: 'b' }]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addUsage,
+  createEmptyUsage,
+  estimateCost,
+  formatCost,
+  formatTokenCount,
+  getBudgetExceededReason,
+  getConversationUsage,
+  getTotalTokens,
+  usageFromResponse,
+} from '../usage-tracker';
+import type { Message } from '../types';
+
+const MILLION_INPUT = { inputTokens: 1_000_000, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 };
+
+describe('estimateCost', () => {
+  it('prices by model id prefix', () => {
+    expect(estimateCost('claude-sonnet-4-5-20250929', MILLION_INPUT)).toBe(3);
+    expect(estimateCost('claude-3-5-haiku-20241022', { ...MILLION_INPUT, inputTokens: 0, outputTokens: 1_000_000 })).toBe(4);
+  });
+
+  it('matches the more specific prefix first', () => {
+    expect(estimateCost('claude-opus-4-5-20251101', MILLION_INPUT)).toBe(5);
+    expect(estimateCost('claude-opus-4-1-20250805', MILLION_INPUT)).toBe(15);
+  });
+
+  it('prices cache writes and reads separately', () => {
+    const cost = estimateCost('claude-sonnet-4-5', {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 1_000_000,
+      cacheReadInputTokens: 1_000_000,
+    });
+    expect(cost).toBeCloseTo(3.75 + 0.3);
+  });
+
+  it('falls back to Sonnet pricing for unknown Claude models and counts other models as free', () => {
+    expect(estimateCost('claude-next-preview', MILLION_INPUT)).toBe(3);
+    expect(estimateCost('llama3.1:8b', MILLION_INPUT)).toBe(0);
+  });
+});
+
+describe('usageFromResponse', () => {
+  it('converts the API usage block', () => {
+    const usage = usageFromResponse(
+      { input_tokens: 1000, output_tokens: 200, cache_creation_input_tokens: 300, cache_read_input_tokens: 4000 },
+      'claude-sonnet-4-5'
+    );
+    expect(usage).toMatchObject({
+      inputTokens: 1000,
+      outputTokens: 200,
+      cacheCreationInputTokens: 300,
+      cacheReadInputTokens: 4000,
+      requests: 1,
+    });
+    expect(usage.costUsd).toBeCloseTo((1000 * 3 + 200 * 15 + 300 * 3.75 + 4000 * 0.3) / 1_000_000);
+  });
+
+  it('treats a missing usage block as zero tokens', () => {
+    expect(usageFromResponse(undefined, 'claude-sonnet-4-5')).toEqual({ ...createEmptyUsage(), requests: 1 });
+  });
+});
+
+describe('usage totals', () => {
+  it('adds usage records, treating undefined as empty', () => {
+    const turn = usageFromResponse({ input_tokens: 10, output_tokens: 5 }, 'claude-sonnet-4-5');
+    const total = addUsage(addUsage(undefined, turn), turn);
+    expect(total.inputTokens).toBe(20);
+    expect(total.outputTokens).toBe(10);
+    expect(total.requests).toBe(2);
+    expect(addUsage(undefined, undefined)).toEqual(createEmptyUsage());
+  });
+
+  it('sums the usage recorded on messages', () => {
+    const messages: Message[] = [
+      { id: '1', role: 'user', content: 'Hi' },
+      { id: '2', role: 'assistant', content: 'Hello', usage: usageFromResponse({ input_tokens: 100, output_tokens: 20 }, 'claude-sonnet-4-5') },
+      { id: '3', role: 'assistant', content: 'Done', usage: usageFromResponse({ input_tokens: 150, output_tokens: 30 }, 'claude-sonnet-4-5') },
+    ];
+    const usage = getConversationUsage(messages);
+    expect(getTotalTokens(usage)).toBe(300);
+    expect(usage.requests).toBe(2);
+  });
+
+  it('leaves cache reads out of the token total', () => {
+    const usage = usageFromResponse(
+      { input_tokens: 100, output_tokens: 20, cache_creation_input_tokens: 50, cache_read_input_tokens: 4000 },
+      'claude-sonnet-4-5'
+    );
+    expect(getTotalTokens(usage)).toBe(170);
+  });
+});
+
+describe('getBudgetExceededReason', () => {
+  const usage = { ...createEmptyUsage(), inputTokens: 9000, outputTokens: 1000, requests: 3, costUsd: 0.5 };
+
+  it('reports the token budget', () => {
+    expect(getBudgetExceededReason(usage, { tokenBudget: 10000 })).toBe(
+      'This conversation has used 10.0k tokens (budget: 10.0k).'
+    );
+  });
+
+  it('reports the cost budget', () => {
+    expect(getBudgetExceededReason(usage, { costBudget: 0.25 })).toBe(
+      'This conversation has cost about $0.50 (budget: $0.25).'
+    );
+  });
+
+  it('returns null under budget or without budgets', () => {
+    expect(getBudgetExceededReason(usage, { tokenBudget: 20000, costBudget: 1 })).toBeNull();
+    expect(getBudgetExceededReason(usage, { tokenBudget: 0, costBudget: 0 })).toBeNull();
+    expect(getBudgetExceededReason(usage, null)).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('formats token counts', () => {
+    expect(formatTokenCount(950)).toBe('950');
+    expect(formatTokenCount(12_345)).toBe('12.3k');
+    expect(formatTokenCount(2_500_000)).toBe('2.5M');
+  });
+
+  it('formats costs, with more precision below a cent', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.0042)).toBe('$0.0042');
+    expect(formatCost(1.5)).toBe('$1.50');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tool Scheduler - Runs the tool_use blocks of a single model turn
+ *
+ * Scheduling rules:
+ * - Remote tools (MCP / A2A) don't touch the page and run concurrently
+ * - Read-only browser tools run concurrently with each other, but after any earlier mutation on the same tab
+ * - Browser-mutating tools (click, type, navigate, ...) run strictly in order per tab
+ * - Tools without a tabId act on the working tab, which may be any tab, so they are ordered against all tabs
+ *
+ * Results are returned in the original tool_use order so they can be sent back
+ * together as one user message.
+ */
+
+import { isReadOnlyBrowserTool } from './browser-tool-registry';
+
+export type ToolKind = 'remote' | 'browser-read' | 'browser-mutate';
+
+export interface ScheduledToolUse {
+  id: string;
+  name: string;
+  input: any;
+}
+
+export interface ToolScheduleOptions {
+  /** Names of tools that run on a remote server (MCP/A2A) */
+  remoteToolNames: Set<string>;
+  /** Runs one tool and resolves with its tool_result block, or null if it was skipped */
+  runTool: (toolUse: ScheduledToolUse) => Promise<any | null>;
+  /** Called before a tool starts, in the order tools actually start */
+  onStart?: (toolUse: ScheduledToolUse, kind: ToolKind) => void;
+  /** Settle time after each browser-mutating tool (ms) */
+  mutationDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Classify a tool for scheduling
+ */
+export function getToolKind(name: string, remoteToolNames: Set<string>): ToolKind {
+  if (remoteToolNames.has(name)) {
+    return 'remote';
+  }
+  return isReadOnlyBrowserTool(name) ? 'browser-read' : 'browser-mutate';
+}
+
+const ACTIVE_LANE = 'tab:active';
+
+/**
+ * Browser tools act on the working tab unless the input names a tab explicitly
+ */
+function getLaneKey(toolUse: ScheduledToolUse): string {
+  const tabId = toolUse.input?.tabId;
+  return tabId !== undefined && tabId !== null ? `tab:${tabId}` : ACTIVE_LANE;
+}
+
+/**
+ * Run a turn's tool_use blocks with as much concurrency as is safe
+ * @returns tool_result blocks in the original order (skipped tools are left out)
+ */
+export async function runToolUses(
+  toolUses: ScheduledToolUse[],
+  options: ToolScheduleOptions
+): Promise<any[]> {
+  const { remoteToolNames, runTool, onStart, signal } = options;
+  const mutationDelayMs = options.mutationDelayMs ?? 500;
+
+  // Per-tab ordering: the last mutation, plus reads started since then
+  const lanes = new Map<string, { lastMutation: Promise<void>; reads: Promise<void>[] }>();
+  const getLane = (laneKey: string) => {
+    const lane = lanes.get(laneKey) || { lastMutation: Promise.resolve(), reads: [] };
+    lanes.set(laneKey, lane);
+    return lane;
+  };
+  const results: (any | null)[] = new Array(toolUses.length).fill(null);
+  const running: Promise<void>[] = [];
+
+  const start = async (toolUse: ScheduledToolUse, index: number, kind: ToolKind) => {
+    if (signal?.aborted) {
+      return;
+    }
+    onStart?.(toolUse, kind);
+    results[index] = await runTool(toolUse);
+
+    // Give the page time to settle before the next action on this tab
+    if (kind === 'browser-mutate' && mutationDelayMs > 0 && !signal?.aborted) {
+      await new Promise(resolve => setTimeout(resolve, mutationDelayMs));
+    }
+  };
+
+  toolUses.forEach((toolUse, index) => {
+    const kind = getToolKind(toolUse.name, remoteToolNames);
+
+    if (kind === 'remote') {
+      running.push(start(toolUse, index, kind));
+      return;
+    }
+
+    // The working tab isn't known here and may be any tab (switchTab can change it mid-turn), so a call
+    // without a tabId is ordered against every lane, and a call with one against its own and the active lane
+    const laneKey = getLaneKey(toolUse);
+    const lane = getLane(laneKey);
+    const conflicting = laneKey === ACTIVE_LANE ? Array.from(lanes.values()) : [lane, getLane(ACTIVE_LANE)];
+
+    if (kind === 'browser-read') {
+      const previous = Promise.all(conflicting.map(other => other.lastMutation));
+      const read = previous.then(() => start(toolUse, index, kind));
+      lane.reads.push(read);
+      running.push(read);
+    } else {
+      const previous = Promise.all(conflicting.flatMap(other => [other.lastMutation, ...other.reads]));
+      const mutation = previous.then(() => start(toolUse, index, kind));
+      lane.lastMutation = mutation;
+      lane.reads = [];
+      running.push(mutation);
+    }
+  });
+
+  console.log(`🧵 Scheduled ${toolUses.length} tool(s) across ${lanes.size} browser lane(s)`);
+  await Promise.all(running);
+
+  return results.filter(result => result !== null);
+}
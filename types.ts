@@ -2,7 +2,7 @@
 import { z } from 'zod';
 
 export type ToolMode = 'tool-router';
-export type Provider = 'anthropic';
+export type Provider = 'anthropic' | 'openai' | 'google';
 
 export type ProtocolType = 'mcp' | 'a2a';
 
@@ -55,6 +55,32 @@ export interface SiteProfile {
   enabled: boolean;
 }
 
+export type PromptTemplateName =
+  | 'browser-enabled'
+  | 'browser-disabled'
+  | 'mcp-priority'
+  | 'site-profile'
+  | 'site-instructions'
+  | 'approved-plan'
+  | 'current-url'
+  | 'plan-generator';
+
+export interface PromptTemplate {
+  name: PromptTemplateName;
+  version: string; // Bumped whenever the built-in wording changes
+  description: string; // Shown in Settings
+  content: string; // Template text with {{variable}} and {{#variable}}...{{/variable}} placeholders
+}
+
+export interface PromptTemplateOverride {
+  mode: 'replace' | 'append'; // Replace the built-in text or add to the end of it
+  content: string; // Template text (same placeholders as the built-in template)
+  version?: string; // Optional label logged with every run (defaults to a content hash)
+  locked?: boolean; // Admin overrides only: ignore user overrides for this template
+}
+
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateName, PromptTemplateOverride>>;
+
 export interface ServiceMapping {
   id: string;
   urlPattern: string;        // e.g., "*.jira.atlassian.net" or "jira.atlassian.net"
@@ -66,13 +92,23 @@ export interface ServiceMapping {
   createdAt: number;
 }
 
+export interface ProviderConfig {
+  apiKey?: string; // Optional for local OpenAI-compatible servers (Ollama, vLLM)
+  customBaseUrl?: string; // e.g. "http://localhost:11434" for Ollama
+  models?: string[]; // Extra model ids shown in the model picker (e.g. local models)
+}
+
+// How content.ts delivers clicks and keystrokes: synthetic DOM events, or trusted input via chrome.debugger
+export type InputBackend = 'dom' | 'cdp';
+
 export interface Settings {
   provider: Provider;
-  apiKey: string;
+  apiKey: string; // GoCode key (Anthropic)
   model: string;
   toolMode?: ToolMode;
   enableScreenshots?: boolean;
   customBaseUrl?: string; // Custom provider URL
+  providerConfigs?: Partial<Record<Exclude<Provider, 'anthropic'>, ProviderConfig>>; // Keys/URLs for non-Anthropic providers
   customModelName?: string; // Custom model name when model is 'custom'
   mcpEnabled?: boolean; // Enable custom MCP servers
   mcpServers?: MCPServerConfig[]; // List of MCP servers to connect to
@@ -80,15 +116,27 @@ export interface Settings {
   siteInstructions?: SiteInstruction[]; // Site-specific custom instructions
   siteProfiles?: SiteProfile[]; // Site context profiles for AI understanding
   autoSaveScreenshots?: boolean; // Automatically save screenshots to Downloads folder
+  recordFixtures?: boolean; // Save each run's model requests/responses as a replay fixture (developer option)
   serviceMappings?: ServiceMapping[]; // Site-specific service mappings (MCP/A2A)
+  inputBackend?: InputBackend; // Default input backend (default: 'dom'); either falls back to the other when it fails
+  trustedInputDomains?: string[]; // Hostname patterns (e.g. "*.atlassian.net") that always use the CDP backend
+  quickPrompt?: string; // Sent for the current page by the "Run quick prompt" keyboard shortcut
 
   // Conversation History Settings
   enableConversationPersistence?: boolean; // Save conversations to chrome.storage (default: true)
-  enableSmartSummarization?: boolean; // Automatically summarize old messages (default: true)
+  enableSmartSummarization?: boolean; // Summarize old messages when the context window is full (default: true)
+  contextWindowTokens?: number; // Token budget for each request; older context is reduced to fit (default: 150000)
 
   // Page Context History Settings
   pageContextHistoryLength?: number; // Number of recent page contexts to keep full content (default: 2)
   enableSeparateHistoryManagement?: boolean; // Enable page context stripping for older messages (default: true)
+
+  // Usage Budget Settings
+  tokenBudget?: number; // Max tokens (input + cache writes + output, not cache reads) per conversation before asking to continue (0/unset = no limit)
+  costBudget?: number; // Max estimated cost in USD per conversation before asking to continue (0/unset = no limit)
+
+  // Prompt Template Settings
+  promptTemplateOverrides?: PromptTemplateOverrides; // User overrides of built-in system prompt templates
 }
 
 export interface ChatState {
@@ -106,6 +154,74 @@ export interface Message {
   content: string;
   toolCalls?: GeminiFunctionCall[];
   audioLink?: string; // URL to audio file (e.g., MP3 from music generation)
+  usage?: TokenUsage; // Tokens and estimated cost spent producing this assistant message
+  plan?: ExecutionPlan; // Step list proposed in plan-then-approve mode
+  attachments?: MessageAttachment[]; // Files attached to a user message (metadata only - contents stay in memory)
+}
+
+export interface MessageAttachment {
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+}
+
+export interface PlanStep {
+  id: string;
+  text: string;
+  status: 'pending' | 'in_progress' | 'done' | 'skipped' | 'failed';
+  note?: string; // Short progress note reported by the agent
+}
+
+export interface ExecutionPlan {
+  status: 'draft' | 'approved' | 'cancelled';
+  steps: PlanStep[];
+}
+
+export type TaskSchedule =
+  | { type: 'interval'; everyMinutes: number } // e.g. hourly: { type: 'interval', everyMinutes: 60 }
+  | { type: 'daily'; time: string }; // Local time "HH:MM"
+
+/**
+ * Saved agent task run by background.ts on a chrome.alarms schedule (see scheduled-tasks.ts)
+ */
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  prompt: string;
+  startUrl: string; // Opened in a background tab at the start of each run
+  allowedTools: string[]; // Browser tool names the run may use (strict allow-list: empty = none)
+  schedule: TaskSchedule;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface ScheduledTaskTranscriptEntry {
+  kind: 'assistant' | 'tool';
+  text: string; // Assistant text, or "toolName(input) → result"
+  at: number;
+}
+
+export interface ScheduledTaskRun {
+  id: string;
+  taskId: string;
+  taskName: string;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'success' | 'failed';
+  startedAt: number;
+  finishedAt?: number;
+  result?: string; // The agent's final answer
+  error?: string;
+  usage?: TokenUsage; // Tokens and estimated cost of the run's model requests
+  transcript: ScheduledTaskTranscriptEntry[];
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  requests: number; // Number of API requests (agent turns + summarization calls)
+  costUsd: number; // Estimated cost based on the model's list price
 }
 
 export interface PageContext {
@@ -144,6 +260,14 @@ export interface BrowserMemory {
   sessionData: Record<string, any>;
 }
 
+/**
+ * Chat input queued by background.ts for a tab's sidepanel (context menus and keyboard commands)
+ */
+export interface PanelRequest {
+  kind: 'prefill' | 'send' | 'focus'; // prefill appends to the input, send submits, focus only focuses the input
+  text?: string;
+}
+
 export interface MessageRequest {
   type: string;
   [key: string]: any;
@@ -286,6 +410,25 @@ export const PageContextSchema = z.object({
   }).optional(),
 });
 
+/**
+ * What changed on the page while an action settled (content.ts startChangeReport)
+ */
+export const PageChangeReportSchema = z.object({
+  urlChanged: z.object({ from: z.string(), to: z.string() }).optional(),
+  titleChanged: z.object({ from: z.string(), to: z.string() }).optional(),
+  title: z.string().optional(), // Title after a full navigation (added by background.ts)
+  navigating: z.boolean().optional(),
+  dialogsOpened: z.array(z.string()).optional(),
+  dialogsClosed: z.array(z.string()).optional(),
+  added: z.array(z.string()).optional(),
+  removed: z.array(z.string()).optional(),
+  addedCount: z.number().optional(),
+  removedCount: z.number().optional(),
+  validationErrors: z.array(z.string()).optional(),
+  focus: z.object({ from: z.string(), to: z.string() }).optional(),
+  noVisibleChange: z.boolean().optional(),
+});
+
 /**
  * Validates action response from content script
  */
@@ -303,6 +446,7 @@ export const ActionResponseSchema = z.object({
   }).optional(),
   text: z.string().optional(),
   screenshot: z.string().optional(),
+  changes: PageChangeReportSchema.optional(),
 });
 
 /**
@@ -0,0 +1,150 @@
+/**
+ * Usage Tracker - Token and cost accounting for model requests
+ *
+ * Provides utilities for:
+ * - Converting the API `usage` block into a TokenUsage record
+ * - Estimating cost from per-model list prices
+ * - Summing usage across a conversation and checking it against budgets
+ */
+
+import type { Message, Settings, TokenUsage } from './types';
+
+/**
+ * List prices in USD per million tokens
+ * Matched by model id prefix; unknown Claude models fall back to Sonnet pricing,
+ * other unknown models (e.g. local models) are counted as free
+ */
+const MODEL_PRICING: Array<{ prefix: string; input: number; output: number; cacheWrite: number; cacheRead: number }> = [
+  { prefix: 'claude-opus-4-5', input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  { prefix: 'claude-opus-4', input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  { prefix: 'claude-3-opus', input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  { prefix: 'claude-haiku-4-5', input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6, cacheWrite: 0.15, cacheRead: 0.075 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10, cacheWrite: 2.5, cacheRead: 1.25 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6, cacheWrite: 0.4, cacheRead: 0.1 },
+  { prefix: 'gpt-4.1', input: 2, output: 8, cacheWrite: 2, cacheRead: 0.5 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10, cacheWrite: 1.25, cacheRead: 0.31 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5, cacheWrite: 0.3, cacheRead: 0.075 },
+];
+
+const DEFAULT_PRICING = MODEL_PRICING.find(p => p.prefix === 'claude-sonnet-4')!;
+
+/**
+ * Empty usage record
+ */
+export function createEmptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    requests: 0,
+    costUsd: 0,
+  };
+}
+
+/**
+ * Estimate the cost of a request
+ */
+export function estimateCost(
+  model: string,
+  usage: Pick<TokenUsage, 'inputTokens' | 'outputTokens' | 'cacheCreationInputTokens' | 'cacheReadInputTokens'>
+): number {
+  const pricing = MODEL_PRICING.find(p => model.startsWith(p.prefix)) ||
+    (model.startsWith('claude') ? DEFAULT_PRICING : null);
+  if (!pricing) {
+    return 0;
+  }
+  return (
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheCreationInputTokens * pricing.cacheWrite +
+    usage.cacheReadInputTokens * pricing.cacheRead
+  ) / 1_000_000;
+}
+
+/**
+ * Convert the `usage` block of a /v1/messages response into a TokenUsage record
+ * @param apiUsage - `usage` from the response (may be missing if the proxy strips it)
+ * @param model - Model id the request was made with
+ */
+export function usageFromResponse(apiUsage: any, model: string): TokenUsage {
+  const usage = {
+    inputTokens: apiUsage?.input_tokens || 0,
+    outputTokens: apiUsage?.output_tokens || 0,
+    cacheCreationInputTokens: apiUsage?.cache_creation_input_tokens || 0,
+    cacheReadInputTokens: apiUsage?.cache_read_input_tokens || 0,
+  };
+  return {
+    ...usage,
+    requests: 1,
+    costUsd: estimateCost(model, usage),
+  };
+}
+
+/**
+ * Add two usage records together
+ */
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage {
+  const left = a || createEmptyUsage();
+  const right = b || createEmptyUsage();
+  return {
+    inputTokens: left.inputTokens + right.inputTokens,
+    outputTokens: left.outputTokens + right.outputTokens,
+    cacheCreationInputTokens: left.cacheCreationInputTokens + right.cacheCreationInputTokens,
+    cacheReadInputTokens: left.cacheReadInputTokens + right.cacheReadInputTokens,
+    requests: left.requests + right.requests,
+    costUsd: left.costUsd + right.costUsd,
+  };
+}
+
+/**
+ * Total tokens counted against the token budget: input (including cache writes) and output
+ * Cache reads are left out - every turn re-reads the cached prompt, and the cost budget already prices them
+ */
+export function getTotalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheCreationInputTokens;
+}
+
+/**
+ * Sum the usage recorded on a conversation's messages
+ */
+export function getConversationUsage(messages: Message[]): TokenUsage {
+  return messages.reduce((total, message) => addUsage(total, message.usage), createEmptyUsage());
+}
+
+/**
+ * Check usage against the budgets in settings
+ * @returns A human-readable reason if a budget is exceeded, otherwise null
+ */
+export function getBudgetExceededReason(usage: TokenUsage, settings: Partial<Settings> | null | undefined): string | null {
+  const totalTokens = getTotalTokens(usage);
+  if (settings?.tokenBudget && settings.tokenBudget > 0 && totalTokens >= settings.tokenBudget) {
+    return `This conversation has used ${formatTokenCount(totalTokens)} tokens (budget: ${formatTokenCount(settings.tokenBudget)}).`;
+  }
+  if (settings?.costBudget && settings.costBudget > 0 && usage.costUsd >= settings.costBudget) {
+    return `This conversation has cost about ${formatCost(usage.costUsd)} (budget: ${formatCost(settings.costBudget)}).`;
+  }
+  return null;
+}
+
+/**
+ * Format a token count for display, e.g. 12.3k
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/**
+ * Format a USD amount for display
+ */
+export function formatCost(costUsd: number): string {
+  return costUsd < 0.01 && costUsd > 0 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
@@ -25,6 +25,7 @@ export default defineConfig({
     react(),
     {
       name: 'copy-manifest',
+      apply: 'build', // Not needed when vitest loads this config
       closeBundle() {
         // Copy manifest.json to output directory
         copyFileSync(
@@ -32,6 +33,12 @@ export default defineConfig({
           resolve(__dirname, outDir, 'manifest.json')
         );
 
+        // Copy enterprise policy schema (admin prompt template overrides)
+        copyFileSync(
+          resolve(__dirname, 'managed_schema.json'),
+          resolve(__dirname, outDir, 'managed_schema.json')
+        );
+
         // Copy icons folder
         const iconsDir = resolve(__dirname, 'icons');
         const distIconsDir = resolve(__dirname, outDir, 'icons');
@@ -51,9 +58,9 @@ export default defineConfig({
             );
           });
 
-          console.log(`✓ Copied manifest.json and icons to ${outDir}/`);
+          console.log(`✓ Copied manifest.json, managed_schema.json and icons to ${outDir}/`);
         } else {
-          console.log(`✓ Copied manifest.json to ${outDir}/`);
+          console.log(`✓ Copied manifest.json and managed_schema.json to ${outDir}/`);
         }
       }
     }